@@ -1,8 +1,8 @@
 -- Indexing Strategy for Student Jobs Platform
 
 -- 1. Indexes for Jobs table
--- Full-text search index
-CREATE INDEX idx_jobs_search_document ON jobs USING GIN (search_document);
+-- The full-text search GIN index (idx_jobs_search_document) is declared in
+-- schema.prisma, see section 8 for how the search document is maintained.
 
 -- Indexes for common filters
 CREATE INDEX idx_jobs_status ON jobs (status);
@@ -48,66 +48,97 @@ CREATE INDEX idx_companies_name_trigram ON companies USING GIN (name gin_trgm_op
 CREATE INDEX idx_cities_name_trigram ON cities USING GIN (name gin_trgm_ops);
 CREATE INDEX idx_education_areas_name_trigram ON education_areas USING GIN (name gin_trgm_ops);
 
--- 8. Function for updating search_document on jobs
+-- 8. Full-text search document for jobs
+-- The document is built from the title (weight A), skill names and company
+-- name (weight B) and the description (weight C). Every part is indexed with
+-- the Swedish configuration for stemming and with the English configuration
+-- as a fallback, since a large share of the ads are written in English.
+CREATE OR REPLACE FUNCTION build_job_search_document(
+    p_job_id INTEGER,
+    p_title TEXT,
+    p_description TEXT,
+    p_company_id INTEGER
+)
+RETURNS tsvector AS $$
+DECLARE
+    company_name TEXT;
+    skill_names TEXT;
+BEGIN
+    SELECT name INTO company_name FROM companies WHERE id = p_company_id;
+
+    SELECT string_agg(s.name, ' ') INTO skill_names
+    FROM job_skills js
+    JOIN skills s ON js."skillId" = s.id
+    WHERE js."jobId" = p_job_id;
+
+    RETURN
+        setweight(to_tsvector('swedish', COALESCE(p_title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(p_title, '')), 'A') ||
+        setweight(to_tsvector('swedish', COALESCE(skill_names, '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(skill_names, '')), 'B') ||
+        setweight(to_tsvector('swedish', COALESCE(company_name, '')), 'B') ||
+        setweight(to_tsvector('swedish', COALESCE(p_description, '')), 'C') ||
+        setweight(to_tsvector('english', COALESCE(p_description, '')), 'C');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Keep search_document up to date when the job itself changes
 CREATE OR REPLACE FUNCTION jobs_update_search_document()
 RETURNS TRIGGER AS $$
 BEGIN
-    NEW.search_document = 
-        setweight(to_tsvector('swedish', COALESCE(NEW.title, '')), 'A') ||
-        setweight(to_tsvector('swedish', COALESCE(NEW.description, '')), 'B') ||
-        setweight(to_tsvector('swedish', COALESCE(NEW.requirements, '')), 'C');
+    NEW.search_document := build_job_search_document(NEW.id, NEW.title, NEW.description, NEW."companyId");
     RETURN NEW;
 END;
 $$ LANGUAGE plpgsql;
 
--- Trigger to automatically update search_document on insert or update
+DROP TRIGGER IF EXISTS trigger_jobs_update_search_document ON jobs;
 CREATE TRIGGER trigger_jobs_update_search_document
-BEFORE INSERT OR UPDATE ON jobs
+BEFORE INSERT OR UPDATE OF title, description, "companyId" ON jobs
 FOR EACH ROW EXECUTE FUNCTION jobs_update_search_document();
 
--- Function to update search_document with company and city names
-CREATE OR REPLACE FUNCTION update_job_search_document_with_relations()
+-- Rebuild the document when skills are added to or removed from a job
+CREATE OR REPLACE FUNCTION job_skills_update_search_document()
 RETURNS TRIGGER AS $$
 DECLARE
-    company_name TEXT;
-    city_names TEXT;
-    education_area_names TEXT;
+    affected_job_id INTEGER;
 BEGIN
-    -- Get company name
-    SELECT name INTO company_name FROM companies WHERE id = NEW.company_id;
-    
-    -- Get city names
-    SELECT string_agg(c.name, ' ') INTO city_names
-    FROM job_cities jc
-    JOIN cities c ON jc.city_id = c.id
-    WHERE jc.job_id = NEW.id;
-    
-    -- Get education area names
-    SELECT string_agg(ea.name, ' ') INTO education_area_names
-    FROM job_education_areas jea
-    JOIN education_areas ea ON jea.education_area_id = ea.id
-    WHERE jea.job_id = NEW.id;
-    
-    -- Update search document
+    IF TG_OP = 'DELETE' THEN
+        affected_job_id := OLD."jobId";
+    ELSE
+        affected_job_id := NEW."jobId";
+    END IF;
+
     UPDATE jobs
-    SET search_document = 
-        setweight(to_tsvector('swedish', COALESCE(title, '')), 'A') ||
-        setweight(to_tsvector('swedish', COALESCE(description, '')), 'B') ||
-        setweight(to_tsvector('swedish', COALESCE(requirements, '')), 'C') ||
-        setweight(to_tsvector('swedish', COALESCE(company_name, '')), 'B') ||
-        setweight(to_tsvector('swedish', COALESCE(city_names, '')), 'C') ||
-        setweight(to_tsvector('swedish', COALESCE(education_area_names, '')), 'C')
-    WHERE id = NEW.id;
-    
+    SET search_document = build_job_search_document(id, title, description, "companyId")
+    WHERE id = affected_job_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_job_skills_update_search ON job_skills;
+CREATE TRIGGER trigger_job_skills_update_search
+AFTER INSERT OR DELETE ON job_skills
+FOR EACH ROW EXECUTE FUNCTION job_skills_update_search_document();
+
+-- Rebuild the documents of all jobs of a company when it is renamed
+CREATE OR REPLACE FUNCTION companies_update_search_document()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE jobs
+    SET search_document = build_job_search_document(id, title, description, "companyId")
+    WHERE "companyId" = NEW.id;
+
     RETURN NULL;
 END;
 $$ LANGUAGE plpgsql;
 
--- Triggers for updating search document when relations change
-CREATE TRIGGER trigger_job_cities_update_search
-AFTER INSERT OR UPDATE OR DELETE ON job_cities
-FOR EACH ROW EXECUTE FUNCTION update_job_search_document_with_relations();
+DROP TRIGGER IF EXISTS trigger_companies_update_search ON companies;
+CREATE TRIGGER trigger_companies_update_search
+AFTER UPDATE OF name ON companies
+FOR EACH ROW EXECUTE FUNCTION companies_update_search_document();
 
-CREATE TRIGGER trigger_job_education_areas_update_search
-AFTER INSERT OR UPDATE OR DELETE ON job_education_areas
-FOR EACH ROW EXECUTE FUNCTION update_job_search_document_with_relations();
\ No newline at end of file
+-- Backfill jobs created before the triggers existed
+UPDATE jobs
+SET search_document = build_job_search_document(id, title, description, "companyId")
+WHERE search_document IS NULL;
@@ -0,0 +1,50 @@
+-- Municipality centroids
+-- Used as a fallback position for jobs whose location has no coordinates.
+-- Seeded rows cover the larger student towns; rows for the remaining
+-- municipalities are derived from job coordinates (source = 'derived').
+
+INSERT INTO municipality_centroids (municipality, region, latitude, longitude, source, "updatedAt") VALUES
+  ('Stockholm', 'Stockholms län', 59.3293, 18.0686, 'seed', NOW()),
+  ('Solna', 'Stockholms län', 59.3600, 18.0009, 'seed', NOW()),
+  ('Huddinge', 'Stockholms län', 59.2369, 17.9817, 'seed', NOW()),
+  ('Nacka', 'Stockholms län', 59.3105, 18.1637, 'seed', NOW()),
+  ('Södertälje', 'Stockholms län', 59.1955, 17.6253, 'seed', NOW()),
+  ('Uppsala', 'Uppsala län', 59.8586, 17.6389, 'seed', NOW()),
+  ('Eskilstuna', 'Södermanlands län', 59.3717, 16.5077, 'seed', NOW()),
+  ('Linköping', 'Östergötlands län', 58.4108, 15.6214, 'seed', NOW()),
+  ('Norrköping', 'Östergötlands län', 58.5877, 16.1924, 'seed', NOW()),
+  ('Jönköping', 'Jönköpings län', 57.7826, 14.1618, 'seed', NOW()),
+  ('Växjö', 'Kronobergs län', 56.8777, 14.8091, 'seed', NOW()),
+  ('Kalmar', 'Kalmar län', 56.6634, 16.3568, 'seed', NOW()),
+  ('Gotland', 'Gotlands län', 57.6348, 18.2948, 'seed', NOW()),
+  ('Karlskrona', 'Blekinge län', 56.1612, 15.5869, 'seed', NOW()),
+  ('Malmö', 'Skåne län', 55.6050, 13.0038, 'seed', NOW()),
+  ('Lund', 'Skåne län', 55.7047, 13.1910, 'seed', NOW()),
+  ('Helsingborg', 'Skåne län', 56.0465, 12.6945, 'seed', NOW()),
+  ('Kristianstad', 'Skåne län', 56.0294, 14.1567, 'seed', NOW()),
+  ('Halmstad', 'Hallands län', 56.6745, 12.8578, 'seed', NOW()),
+  ('Göteborg', 'Västra Götalands län', 57.7089, 11.9746, 'seed', NOW()),
+  ('Borås', 'Västra Götalands län', 57.7210, 12.9401, 'seed', NOW()),
+  ('Trollhättan', 'Västra Götalands län', 58.2837, 12.2886, 'seed', NOW()),
+  ('Skövde', 'Västra Götalands län', 58.3903, 13.8461, 'seed', NOW()),
+  ('Karlstad', 'Värmlands län', 59.3793, 13.5036, 'seed', NOW()),
+  ('Örebro', 'Örebro län', 59.2753, 15.2134, 'seed', NOW()),
+  ('Västerås', 'Västmanlands län', 59.6099, 16.5448, 'seed', NOW()),
+  ('Falun', 'Dalarnas län', 60.6065, 15.6355, 'seed', NOW()),
+  ('Gävle', 'Gävleborgs län', 60.6749, 17.1413, 'seed', NOW()),
+  ('Sundsvall', 'Västernorrlands län', 62.3908, 17.3069, 'seed', NOW()),
+  ('Östersund', 'Jämtlands län', 63.1792, 14.6357, 'seed', NOW()),
+  ('Umeå', 'Västerbottens län', 63.8258, 20.2630, 'seed', NOW()),
+  ('Luleå', 'Norrbottens län', 65.5848, 22.1547, 'seed', NOW()),
+  ('Kiruna', 'Norrbottens län', 67.8558, 20.2253, 'seed', NOW())
+ON CONFLICT (municipality) DO NOTHING;
+
+-- Derive centroids for the remaining municipalities from known job coordinates
+INSERT INTO municipality_centroids (municipality, region, latitude, longitude, source, "updatedAt")
+SELECT municipality, MAX(region), AVG(latitude), AVG(longitude), 'derived', NOW()
+FROM locations
+WHERE municipality IS NOT NULL
+  AND latitude IS NOT NULL
+  AND longitude IS NOT NULL
+GROUP BY municipality
+ON CONFLICT (municipality) DO NOTHING;
@@ -4,17 +4,46 @@ const path = require('path');
 
 const prisma = new PrismaClient();
 
+/**
+ * Splits SQL into separate statements on semicolons at the end of a line.
+ * Semicolons inside dollar-quoted function bodies ($$ ... $$) are ignored.
+ */
+function splitStatements(sql) {
+  const statements = [];
+  let current = [];
+  let inDollarQuote = false;
+  
+  for (const line of sql.split('\n')) {
+    current.push(line);
+    
+    // An odd number of $$ on a line opens or closes a function body
+    if ((line.match(/\$\$/g) || []).length % 2 === 1) {
+      inDollarQuote = !inDollarQuote;
+    }
+    
+    if (!inDollarQuote && line.trim().endsWith(';')) {
+      statements.push(current.join('\n'));
+      current = [];
+    }
+  }
+  
+  statements.push(current.join('\n'));
+  
+  // Skip statements that only contain whitespace and comments
+  return statements.filter(statement =>
+    statement
+      .split('\n')
+      .some(line => line.trim() !== '' && !line.trim().startsWith('--'))
+  );
+}
+
 async function runSQLFile(filePath) {
   try {
     console.log(`Running SQL file: ${filePath}`);
     const sql = fs.readFileSync(filePath, 'utf8');
     
-    // Split the SQL by semicolons to execute statements separately
-    // This is a simple approach and may not work for complex SQL with functions, triggers, etc.
-    const statements = sql
-      .split(';')
-      .filter(statement => statement.trim() !== '')
-      .map(statement => statement.trim() + ';');
+    // Split the SQL into statements so they can be executed separately
+    const statements = splitStatements(sql);
     
     for (const statement of statements) {
       try {
@@ -32,7 +61,7 @@ async function runSQLFile(filePath) {
 }
 
 async function main() {
-  const functionsDir = path.join(__dirname, '..', 'prisma', 'migrations', 'functions');
+  const functionsDir = path.join(__dirname, '..', 'prisma', 'functions');
   
   // Check if the directory exists
   if (!fs.existsSync(functionsDir)) {
@@ -0,0 +1,171 @@
+import { Request, Response, NextFunction } from 'express';
+import { roleService } from '../../services/auth/roleService';
+import { auditService, AuditLogFilters } from '../../services/audit/auditService';
+import { companyService } from '../../services/companies/companyService';
+import { employerAccountService, EmployerAccountFilters } from '../../services/employer/employerAccountService';
+import { Role } from '../../services/auth/permissions';
+import { AuthenticatedRequest } from '../../types/express';
+import { validatedQuery } from '../middlewares/validate';
+
+export const getUserRoles = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const roles = await roleService.getRoles(Number(req.params.userId));
+
+    res.json({ data: { roles } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const grantRole = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const roles = await roleService.grantRole(
+      Number(req.params.userId),
+      req.body.role as Role,
+      req.user!.id,
+      req.body.reason
+    );
+
+    res.status(201).json({ data: { roles } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeRole = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const roles = await roleService.revokeRole(
+      Number(req.params.userId),
+      req.params.role as Role,
+      req.user!.id,
+      req.body?.reason
+    );
+
+    res.json({ data: { roles } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getAuditLog = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const filters = validatedQuery<AuditLogFilters>(req);
+
+    const { entries, total } = await auditService.list(filters);
+
+    res.json({
+      data: entries,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getDuplicateCompanies = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { limit, offset } = validatedQuery<{ limit: number; offset: number }>(req);
+
+    const groups = await companyService.findDuplicates(limit, offset);
+
+    res.json({
+      data: groups,
+      pagination: { limit, offset }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const mergeCompanies = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await companyService.merge(
+      Number(req.params.companyId),
+      req.body.companyIds,
+      req.user!.id
+    );
+
+    res.json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addCompanyAlias = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const alias = await companyService.addAlias(
+      Number(req.params.companyId),
+      req.body.name,
+      req.user!.id
+    );
+
+    res.status(201).json({ data: alias });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeCompanyAlias = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await companyService.removeAlias(
+      Number(req.params.companyId),
+      Number(req.params.aliasId),
+      req.user!.id
+    );
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getEmployerAccounts = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const filters = validatedQuery<EmployerAccountFilters>(req);
+
+    const { accounts, total } = await employerAccountService.list(filters);
+
+    res.json({
+      data: accounts,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reviewEmployerAccount = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const account = await employerAccountService.review(
+      Number(req.params.accountId),
+      req.body.decision === 'approve',
+      req.user!.id,
+      req.body.notes
+    );
+
+    res.json({ data: account });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getUserRoles,
+  grantRole,
+  revokeRole,
+  getAuditLog,
+  getDuplicateCompanies,
+  mergeCompanies,
+  addCompanyAlias,
+  removeCompanyAlias,
+  getEmployerAccounts,
+  reviewEmployerAccount
+};
@@ -0,0 +1,87 @@
+import { Response, NextFunction } from 'express';
+import {
+  applicationTrackerService,
+  ApplicationFilters
+} from '../../services/applications/applicationTrackerService';
+import { AuthenticatedRequest } from '../../types/express';
+import { validatedQuery } from '../middlewares/validate';
+
+export const getApplications = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const filters = validatedQuery<ApplicationFilters>(req);
+
+    const { applications, total } = await applicationTrackerService.list(req.user!.id, filters);
+
+    res.json({
+      data: applications,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getApplication = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const application = await applicationTrackerService.get(req.user!.id, Number(req.params.id));
+
+    res.json({ data: application });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createApplication = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { jobId, ...input } = req.body;
+
+    const application = await applicationTrackerService.track(req.user!.id, jobId, input);
+
+    res.status(201).json({ data: application });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateApplication = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const application = await applicationTrackerService.update(req.user!.id, Number(req.params.id), req.body);
+
+    res.json({ data: application });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteApplication = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await applicationTrackerService.remove(req.user!.id, Number(req.params.id));
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getApplicationStats = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const stats = await applicationTrackerService.getStats(req.user!.id);
+
+    res.json({ data: stats });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getApplications,
+  getApplication,
+  createApplication,
+  updateApplication,
+  deleteApplication,
+  getApplicationStats
+};
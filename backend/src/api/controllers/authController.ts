@@ -0,0 +1,102 @@
+import { Request, Response, NextFunction } from 'express';
+import { authService } from '../../services/auth/authService';
+import { ClientInfo } from '../../services/auth/tokenService';
+import { AuthenticatedRequest } from '../../types/express';
+
+// Klientinformation som sparas med refresh tokens
+const getClientInfo = (req: Request): ClientInfo => ({
+  ipAddress: req.ip,
+  userAgent: req.headers['user-agent']
+});
+
+export const register = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await authService.register(req.body);
+
+    res.status(201).json({ data: user });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const login = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await authService.login(req.body.email, req.body.password, getClientInfo(req));
+
+    res.json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refresh = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tokens = await authService.refresh(req.body.refreshToken, getClientInfo(req));
+
+    res.json({ data: tokens });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logout = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await authService.logout(req.body.refreshToken);
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await authService.verifyEmail(req.body.token);
+
+    res.json({ data: user });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resendVerification = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await authService.resendVerification(req.user!.id);
+
+    res.status(202).json({ message: 'Verification email sent' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const forgotPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await authService.requestPasswordReset(req.body.email);
+
+    // Samma svar oavsett om adressen finns, så att registrerade adresser inte kan avslöjas
+    res.status(202).json({ message: 'If the email is registered, a reset link has been sent' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resetPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await authService.resetPassword(req.body.token, req.body.password);
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  register,
+  login,
+  refresh,
+  logout,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword
+};
@@ -0,0 +1,152 @@
+import { Response, NextFunction } from 'express';
+import { bookmarkService, BookmarkFilters } from '../../services/bookmarks/bookmarkService';
+import { AuthenticatedRequest } from '../../types/express';
+import { validatedQuery } from '../middlewares/validate';
+
+export const getBookmarks = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const filters = validatedQuery<BookmarkFilters>(req);
+
+    const { bookmarks, total } = await bookmarkService.listBookmarks(req.user!.id, filters);
+
+    res.json({
+      data: bookmarks,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getBookmark = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const bookmark = await bookmarkService.getBookmark(req.user!.id, Number(req.params.id));
+
+    res.json({ data: bookmark });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createBookmark = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { jobId, ...input } = req.body;
+
+    const bookmark = await bookmarkService.addBookmark(req.user!.id, jobId, input);
+
+    res.status(201).json({ data: bookmark });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateBookmark = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const bookmark = await bookmarkService.updateBookmark(req.user!.id, Number(req.params.id), req.body);
+
+    res.json({ data: bookmark });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteBookmark = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await bookmarkService.removeBookmark(req.user!.id, Number(req.params.id));
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const bulkAddBookmarks = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { jobIds, ...input } = req.body;
+
+    const result = await bookmarkService.addBookmarks(req.user!.id, jobIds, input);
+
+    res.status(201).json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const bulkRemoveBookmarks = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await bookmarkService.removeBookmarks(req.user!.id, req.body.jobIds);
+
+    res.json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTags = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const tags = await bookmarkService.listTags(req.user!.id);
+
+    res.json({ data: tags });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getFolders = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const folders = await bookmarkService.listFolders(req.user!.id);
+
+    res.json({ data: folders });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createFolder = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const folder = await bookmarkService.createFolder(req.user!.id, req.body);
+
+    res.status(201).json({ data: folder });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateFolder = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const folder = await bookmarkService.updateFolder(req.user!.id, Number(req.params.id), req.body);
+
+    res.json({ data: folder });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteFolder = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await bookmarkService.deleteFolder(req.user!.id, Number(req.params.id));
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getBookmarks,
+  getBookmark,
+  createBookmark,
+  updateBookmark,
+  deleteBookmark,
+  bulkAddBookmarks,
+  bulkRemoveBookmarks,
+  getTags,
+  getFolders,
+  createFolder,
+  updateFolder,
+  deleteFolder
+};
@@ -0,0 +1,295 @@
+/**
+ * Controller for job data collection
+ */
+import { Request, Response, NextFunction } from 'express';
+import { collectionOrchestrator } from '../../services/collection/collectionOrchestrator';
+import {
+  collectionHistoryService,
+  CollectionRunFilters
+} from '../../services/collection/collectionHistoryService';
+import { collectionQueue, CollectionJobFilters } from '../../services/collection/collectionQueue';
+import { sourceChangeService, SourceChangeFilters } from '../../services/collection/sourceChangeService';
+import { AuthenticatedRequest } from '../../types/express';
+import { logger } from '../../utils/logger';
+import { validatedQuery } from '../middlewares/validate';
+
+/**
+ * Queues a collection for every enabled source
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const collectFromAllSources = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    logger.info('Received request to collect from all sources');
+
+    const jobs = await collectionOrchestrator.enqueueAllSources({ requestedById: req.user?.id });
+
+    res.status(202).json({ data: jobs });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Queues a collection for a specific source
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const collectFromSource = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { sourceId } = req.params;
+    logger.info(`Received request to collect from source: ${sourceId}`);
+
+    const job = await collectionOrchestrator.enqueueCollection(sourceId, { requestedById: req.user?.id });
+
+    res.status(202).json({ data: job });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lists queued and finished collection jobs, newest first
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const getCollectionJobs = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const filters = validatedQuery<CollectionJobFilters>(req);
+
+    const { jobs, total } = await collectionQueue.list(filters);
+
+    res.json({
+      data: jobs,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Gets a collection job
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const getCollectionJob = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const job = await collectionQueue.get(Number(req.params.id));
+
+    res.json({ data: job });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancels a queued job, or asks the worker running it to stop
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const cancelCollectionJob = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const job = await collectionQueue.cancel(Number(req.params.id));
+
+    res.json({ data: job });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lists the registered sources
+ * @param req Express request
+ * @param res Express response
+ */
+export const getSources = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ data: collectionOrchestrator.getSources() });
+  } catch (error) {
+    logger.error('Error listing collection sources', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    
+    res.status(500).json({
+      error: 'Failed to list collection sources',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+/**
+ * Gets the last run, the running run, success rate and average duration per source
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const getCollectionStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const sourceIds = collectionOrchestrator.getSources().map(source => source.id);
+    const status = await collectionHistoryService.getStatus(sourceIds);
+
+    res.json({ data: status });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lists collection runs, newest first
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const getCollectionRuns = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const filters = validatedQuery<CollectionRunFilters>(req);
+
+    const { runs, total } = await collectionHistoryService.listRuns(filters);
+
+    res.json({
+      data: runs,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Gets a collection run with its errors
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const getCollectionRun = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const run = await collectionHistoryService.getRun(Number(req.params.id));
+
+    res.json({ data: run });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lists structural changes detected in the sources, newest first
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const getSourceChanges = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const filters = validatedQuery<SourceChangeFilters>(req);
+
+    const { changes, total } = await sourceChangeService.list(filters);
+
+    res.json({
+      data: changes,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Gets a structural change with its suggested selectors
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const getSourceChange = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const change = await sourceChangeService.get(Number(req.params.id));
+
+    res.json({ data: change });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Previews extraction from a change's snapshot with a candidate selector
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const previewSourceChangeSelector = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { key, selector } = req.body;
+
+    const preview = await sourceChangeService.preview(Number(req.params.id), key, selector);
+
+    res.json({ data: preview });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Accepts a selector for a change, updating the source config
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const acceptSourceChangeSelector = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { key, selector } = req.body;
+
+    const preview = await sourceChangeService.accept(Number(req.params.id), key, selector, req.user?.id ?? null);
+
+    res.json({ data: preview });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Marks a change resolved without changing the source config
+ * @param req Express request
+ * @param res Express response
+ * @param next Express next function
+ */
+export const dismissSourceChange = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const change = await sourceChangeService.dismiss(Number(req.params.id), req.user?.id ?? null, req.body.notes);
+
+    res.json({ data: change });
+  } catch (error) {
+    next(error);
+  }
+};
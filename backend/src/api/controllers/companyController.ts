@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  companyDirectoryService,
+  CompanyDirectoryFilters
+} from '../../services/companies/companyDirectoryService';
+import { jobSearchService, JobSearchOptions } from '../../services/jobs/jobSearchService';
+import { validatedQuery } from '../middlewares/validate';
+
+export const getCompanies = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const filters = validatedQuery<CompanyDirectoryFilters>(req);
+
+    const { companies, total } = await companyDirectoryService.list(filters);
+
+    res.json({
+      data: companies,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCompanyById = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const company = await companyDirectoryService.getProfile(Number(req.params.id));
+
+    res.json({ data: company });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCompanyJobs = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = Number(req.params.id);
+    const options = validatedQuery<JobSearchOptions>(req);
+
+    await companyDirectoryService.assertExists(id);
+
+    const result = await jobSearchService.searchJobs({ ...options, companyId: [id] });
+
+    res.json({
+      data: result.jobs,
+      pagination: {
+        total: result.total,
+        totalCapped: result.totalCapped,
+        limit: options.limit,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore
+      },
+      facets: result.facets
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default { getCompanies, getCompanyById, getCompanyJobs };
@@ -0,0 +1,156 @@
+import { Response, NextFunction } from 'express';
+import { employerAccountService } from '../../services/employer/employerAccountService';
+import { jobPostingService, JobPostingFilters } from '../../services/employer/jobPostingService';
+import { jobApplicationService, JobApplicationFilters } from '../../services/employer/jobApplicationService';
+import { AuthenticatedRequest } from '../../types/express';
+import { validatedQuery } from '../middlewares/validate';
+
+export const getAccount = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const account = await employerAccountService.get(req.user!.id);
+
+    res.json({ data: account });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const registerAccount = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const account = await employerAccountService.register(req.user!.id, req.body);
+
+    res.status(201).json({ data: account });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPostings = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const filters = validatedQuery<JobPostingFilters>(req);
+
+    const { postings, total } = await jobPostingService.list(req.user!.id, filters);
+
+    res.json({
+      data: postings,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPosting = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const posting = await jobPostingService.get(req.user!.id, Number(req.params.id));
+
+    res.json({ data: posting });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createPosting = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const posting = await jobPostingService.create(req.user!.id, req.body);
+
+    res.status(201).json({ data: posting });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updatePosting = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const posting = await jobPostingService.update(req.user!.id, Number(req.params.id), req.body);
+
+    res.json({ data: posting });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deletePosting = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await jobPostingService.delete(req.user!.id, Number(req.params.id));
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const publishPosting = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const posting = await jobPostingService.publish(req.user!.id, Number(req.params.id));
+
+    res.json({ data: posting });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const closePosting = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const posting = await jobPostingService.close(req.user!.id, Number(req.params.id));
+
+    res.json({ data: posting });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getApplications = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const filters = validatedQuery<JobApplicationFilters>(req);
+
+    const { applications, total } = await jobApplicationService.listForPosting(
+      req.user!.id,
+      Number(req.params.id),
+      filters
+    );
+
+    res.json({
+      data: applications,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateApplication = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const application = await jobApplicationService.updateStatus(
+      req.user!.id,
+      Number(req.params.id),
+      req.body.status
+    );
+
+    res.json({ data: application });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getAccount,
+  registerAccount,
+  getPostings,
+  getPosting,
+  createPosting,
+  updatePosting,
+  deletePosting,
+  publishPosting,
+  closePosting,
+  getApplications,
+  updateApplication
+};
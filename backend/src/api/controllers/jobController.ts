@@ -1,38 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { jobSearchService, JobSearchOptions } from '../../services/jobs/jobSearchService';
+import { jobHistoryService } from '../../services/jobs/jobHistoryService';
+import { jobApplicationService } from '../../services/employer/jobApplicationService';
+import { AuthenticatedRequest } from '../../types/express';
+import { validatedQuery } from '../middlewares/validate';
 
 export const getJobs = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { location, educationArea, search } = req.query;
-    
-    // Bygg filter baserat på query params
-    const where: any = {};
-    
-    if (location) {
-      where.location = { contains: location as string, mode: 'insensitive' };
-    }
-    
-    if (educationArea) {
-      where.educationArea = { contains: educationArea as string, mode: 'insensitive' };
-    }
-    
-    if (search) {
-      where.OR = [
-        { title: { contains: search as string, mode: 'insensitive' } },
-        { description: { contains: search as string, mode: 'insensitive' } },
-        { company: { contains: search as string, mode: 'insensitive' } }
-      ];
-    }
-    
-    const jobs = await prisma.job.findMany({
-      where,
-      orderBy: { postedDate: 'desc' },
-      take: 50
+    const options = validatedQuery<JobSearchOptions>(req);
+
+    const result = await jobSearchService.searchJobs(options);
+
+    res.json({
+      data: result.jobs,
+      pagination: {
+        total: result.total,
+        totalCapped: result.totalCapped,
+        limit: options.limit,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore
+      },
+      facets: result.facets
     });
-    
-    res.json({ data: jobs });
   } catch (error) {
     next(error);
   }
@@ -40,20 +29,40 @@ export const getJobs = async (req: Request, res: Response, next: NextFunction) =
 
 export const getJobById = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { id } = req.params;
-    
-    const job = await prisma.job.findUnique({
-      where: { id }
-    });
-    
+    const id = Number(req.params.id);
+
+    const job = await jobSearchService.getJobById(id);
+
     if (!job) {
       return res.status(404).json({ message: 'Job not found' });
     }
-    
+
     res.json({ data: job });
   } catch (error) {
     next(error);
   }
 };
 
-export default { getJobs, getJobById };
\ No newline at end of file
+export const getJobHistory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = Number(req.params.id);
+
+    const history = await jobHistoryService.getHistory(id);
+
+    res.json({ data: history });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const applyToJob = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const application = await jobApplicationService.apply(req.user!.id, Number(req.params.id), req.body);
+
+    res.status(201).json({ data: application });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default { getJobs, getJobById, getJobHistory, applyToJob };
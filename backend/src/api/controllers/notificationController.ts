@@ -0,0 +1,50 @@
+import { Response, NextFunction } from 'express';
+import { notificationService, NotificationFilters } from '../../services/notifications/notificationService';
+import { AuthenticatedRequest } from '../../types/express';
+import { validatedQuery } from '../middlewares/validate';
+
+export const getNotifications = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const filters = validatedQuery<NotificationFilters>(req);
+
+    const { notifications, total, unread } = await notificationService.listNotifications(req.user!.id, filters);
+
+    res.json({
+      data: notifications,
+      unread,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const markNotificationRead = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const notification = await notificationService.markAsRead(req.user!.id, Number(req.params.id));
+
+    res.json({ data: notification });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const markAllNotificationsRead = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await notificationService.markAllAsRead(req.user!.id);
+
+    res.json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead
+};
@@ -0,0 +1,27 @@
+import { Response, NextFunction } from 'express';
+import { recommendationService, RecommendationOptions } from '../../services/recommendations/recommendationService';
+import { AuthenticatedRequest } from '../../types/express';
+import { validatedQuery } from '../middlewares/validate';
+
+export const getRecommendations = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const options = validatedQuery<RecommendationOptions>(req);
+
+    const { recommendations, total } = await recommendationService.getRecommendations(req.user!.id, options);
+
+    res.json({
+      data: recommendations,
+      pagination: {
+        total,
+        limit: options.limit,
+        offset: options.offset
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getRecommendations
+};
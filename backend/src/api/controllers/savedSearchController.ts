@@ -0,0 +1,84 @@
+import { Response, NextFunction } from 'express';
+import { savedSearchService, SavedSearchRunOptions } from '../../services/alerts/savedSearchService';
+import { AuthenticatedRequest } from '../../types/express';
+import { validatedQuery } from '../middlewares/validate';
+
+export const getSavedSearches = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const searches = await savedSearchService.listSavedSearches(req.user!.id);
+
+    res.json({ data: searches });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSavedSearch = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const search = await savedSearchService.getSavedSearch(req.user!.id, Number(req.params.id));
+
+    res.json({ data: search });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createSavedSearch = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const search = await savedSearchService.createSavedSearch(req.user!.id, req.body);
+
+    res.status(201).json({ data: search });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateSavedSearch = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const search = await savedSearchService.updateSavedSearch(req.user!.id, Number(req.params.id), req.body);
+
+    res.json({ data: search });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteSavedSearch = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    await savedSearchService.deleteSavedSearch(req.user!.id, Number(req.params.id));
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSavedSearchJobs = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const options = validatedQuery<SavedSearchRunOptions>(req);
+
+    const result = await savedSearchService.runSavedSearch(req.user!.id, Number(req.params.id), options);
+
+    res.json({
+      data: result.jobs,
+      pagination: {
+        total: result.total,
+        totalCapped: result.totalCapped,
+        limit: options.limit,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getSavedSearches,
+  getSavedSearch,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  getSavedSearchJobs
+};
@@ -0,0 +1,15 @@
+import { Response, NextFunction } from 'express';
+import { authService } from '../../services/auth/authService';
+import { AuthenticatedRequest } from '../../types/express';
+
+export const getCurrentUser = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const user = await authService.getUser(req.user!.id);
+
+    res.json({ data: user });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default { getCurrentUser };
@@ -0,0 +1,77 @@
+import { Response, NextFunction } from 'express';
+import createError from 'http-errors';
+import { AuthenticatedRequest } from '../../types/express';
+import { tokenService } from '../../services/auth/tokenService';
+import { roleService } from '../../services/auth/roleService';
+import { Permission, getPermissions } from '../../services/auth/permissions';
+
+/**
+ * Reads the bearer token from the Authorization header
+ * @param req Request
+ * @returns Token or null if the header is missing
+ */
+function getBearerToken(req: AuthenticatedRequest): string | null {
+  const header = req.headers.authorization;
+
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+
+  return header.substring('Bearer '.length).trim() || null;
+}
+
+// Kräver en giltig access token och sätter req.user
+export const authenticate = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const token = getBearerToken(req);
+
+  if (!token) {
+    return next(createError(401, 'Authentication required'));
+  }
+
+  try {
+    req.user = tokenService.verifyAccessToken(token);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Sätter req.user om en giltig access token skickas med, men kräver det inte
+export const optionalAuthenticate = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const token = getBearerToken(req);
+
+  if (token) {
+    try {
+      req.user = tokenService.verifyAccessToken(token);
+    } catch {
+      // Ogiltiga tokens behandlas som anonyma anrop
+    }
+  }
+
+  next();
+};
+
+// Kräver en inloggad användare med samtliga angivna behörigheter.
+// Rollerna läses från databasen så att ändringar gäller direkt.
+export const requirePermission = (...permissions: Permission[]) =>
+  (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    authenticate(req, res, async (error?: unknown) => {
+      if (error) {
+        return next(error);
+      }
+
+      try {
+        const roles = await roleService.getRoles(req.user!.id);
+        const granted = getPermissions(roles);
+        req.user!.roles = roles;
+
+        if (!permissions.every(permission => granted.has(permission))) {
+          return next(createError(403, 'Insufficient permissions'));
+        }
+
+        next();
+      } catch (error) {
+        next(error);
+      }
+    });
+  };
@@ -0,0 +1,45 @@
+// src/api/middlewares/validate.ts
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import createError from 'http-errors';
+
+type RequestPart = 'query' | 'body' | 'params';
+
+/**
+ * Creates a middleware that validates part of the request against a Joi schema.
+ * The validated (and converted) value replaces the original one so handlers
+ * can rely on proper types.
+ * @param part Request part to validate
+ * @param schema Joi schema
+ */
+const validate = (part: RequestPart, schema: Joi.Schema) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const { value, error } = schema.validate(req[part], {
+    abortEarly: false,
+    stripUnknown: true,
+    convert: true
+  });
+
+  if (error) {
+    return next(createError(400, error.details.map(detail => detail.message).join(', ')));
+  }
+
+  req[part] = value;
+  next();
+};
+
+export const validateQuery = (schema: Joi.Schema) => validate('query', schema);
+
+/**
+ * Gets the query of a request that passed validateQuery. Express types the
+ * query as parsed strings; after validation it holds the converted values
+ * of the schema's type.
+ * @param req Request
+ * @returns Validated query
+ */
+export const validatedQuery = <T>(req: Request): T => req.query as unknown as T;
+export const validateBody = (schema: Joi.Schema) => validate('body', schema);
+export const validateParams = (schema: Joi.Schema) => validate('params', schema);
@@ -0,0 +1,148 @@
+import express from 'express';
+import adminController from '../controllers/adminController';
+import { requirePermission } from '../middlewares/authMiddleware';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate';
+import {
+  userIdParamSchema,
+  userRoleParamSchema,
+  grantRoleSchema,
+  revokeRoleSchema,
+  auditLogQuerySchema,
+  companyIdParamSchema,
+  companyAliasParamSchema,
+  mergeCompaniesSchema,
+  companyAliasSchema,
+  duplicateCompaniesQuerySchema,
+  employerAccountIdParamSchema,
+  employerAccountListQuerySchema,
+  reviewEmployerAccountSchema
+} from '../validators/adminValidators';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/v1/admin/users/:userId/roles
+ * @desc    Get the roles of a user
+ * @access  Private (roles:manage)
+ */
+router.get(
+  '/users/:userId/roles',
+  requirePermission('roles:manage'),
+  validateParams(userIdParamSchema),
+  adminController.getUserRoles
+);
+
+/**
+ * @route   POST /api/v1/admin/users/:userId/roles
+ * @desc    Grant a role to a user
+ * @access  Private (roles:manage)
+ */
+router.post(
+  '/users/:userId/roles',
+  requirePermission('roles:manage'),
+  validateParams(userIdParamSchema),
+  validateBody(grantRoleSchema),
+  adminController.grantRole
+);
+
+/**
+ * @route   DELETE /api/v1/admin/users/:userId/roles/:role
+ * @desc    Revoke a role from a user
+ * @access  Private (roles:manage)
+ */
+router.delete(
+  '/users/:userId/roles/:role',
+  requirePermission('roles:manage'),
+  validateParams(userRoleParamSchema),
+  validateBody(revokeRoleSchema),
+  adminController.revokeRole
+);
+
+/**
+ * @route   GET /api/v1/admin/audit-log
+ * @desc    List audit log entries, newest first
+ * @access  Private (roles:manage)
+ */
+router.get(
+  '/audit-log',
+  requirePermission('roles:manage'),
+  validateQuery(auditLogQuerySchema),
+  adminController.getAuditLog
+);
+
+/**
+ * @route   GET /api/v1/admin/companies/duplicates
+ * @desc    List groups of companies with the same normalized name
+ * @access  Private (companies:manage)
+ */
+router.get(
+  '/companies/duplicates',
+  requirePermission('companies:manage'),
+  validateQuery(duplicateCompaniesQuerySchema),
+  adminController.getDuplicateCompanies
+);
+
+/**
+ * @route   POST /api/v1/admin/companies/:companyId/merge
+ * @desc    Merge companies into this one, moving their jobs to it
+ * @access  Private (companies:manage)
+ */
+router.post(
+  '/companies/:companyId/merge',
+  requirePermission('companies:manage'),
+  validateParams(companyIdParamSchema),
+  validateBody(mergeCompaniesSchema),
+  adminController.mergeCompanies
+);
+
+/**
+ * @route   POST /api/v1/admin/companies/:companyId/aliases
+ * @desc    Add a name the company is known by
+ * @access  Private (companies:manage)
+ */
+router.post(
+  '/companies/:companyId/aliases',
+  requirePermission('companies:manage'),
+  validateParams(companyIdParamSchema),
+  validateBody(companyAliasSchema),
+  adminController.addCompanyAlias
+);
+
+/**
+ * @route   DELETE /api/v1/admin/companies/:companyId/aliases/:aliasId
+ * @desc    Remove an alias of a company
+ * @access  Private (companies:manage)
+ */
+router.delete(
+  '/companies/:companyId/aliases/:aliasId',
+  requirePermission('companies:manage'),
+  validateParams(companyAliasParamSchema),
+  adminController.removeCompanyAlias
+);
+
+/**
+ * @route   GET /api/v1/admin/employers
+ * @desc    List employer accounts by status, oldest first; pending ones by default
+ * @access  Private (companies:manage)
+ */
+router.get(
+  '/employers',
+  requirePermission('companies:manage'),
+  validateQuery(employerAccountListQuerySchema),
+  adminController.getEmployerAccounts
+);
+
+/**
+ * @route   POST /api/v1/admin/employers/:accountId/review
+ * @desc    Verify or reject a pending employer account; verifying also verifies the company
+ * @access  Private (companies:manage)
+ */
+router.post(
+  '/employers/:accountId/review',
+  requirePermission('companies:manage'),
+  validateParams(employerAccountIdParamSchema),
+  validateBody(reviewEmployerAccountSchema),
+  adminController.reviewEmployerAccount
+);
+
+export default router;
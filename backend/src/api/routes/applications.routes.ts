@@ -0,0 +1,85 @@
+import express from 'express';
+import applicationController from '../controllers/applicationController';
+import { requirePermission } from '../middlewares/authMiddleware';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate';
+import { idParamSchema } from '../validators/common';
+import {
+  applicationListQuerySchema,
+  createApplicationSchema,
+  updateApplicationSchema
+} from '../validators/applicationValidators';
+
+// Mounted under /api/v1/users/me
+const router = express.Router();
+
+const canManage = requirePermission('profile:manage');
+
+/**
+ * @route   GET /api/v1/users/me/applications
+ * @desc    List tracked applications, filtered by stage
+ * @access  Private (profile:manage)
+ */
+router.get(
+  '/applications',
+  canManage,
+  validateQuery(applicationListQuerySchema),
+  applicationController.getApplications
+);
+
+/**
+ * @route   POST /api/v1/users/me/applications
+ * @desc    Mark a job as applied to; the job is bookmarked if it isn't already
+ * @access  Private (profile:manage)
+ */
+router.post(
+  '/applications',
+  canManage,
+  validateBody(createApplicationSchema),
+  applicationController.createApplication
+);
+
+/**
+ * @route   GET /api/v1/users/me/applications/stats
+ * @desc    Get the number of applications per stage and the response, interview and offer rates
+ * @access  Private (profile:manage)
+ */
+router.get('/applications/stats', canManage, applicationController.getApplicationStats);
+
+/**
+ * @route   GET /api/v1/users/me/applications/:id
+ * @desc    Get a tracked application with its stage history
+ * @access  Private (profile:manage)
+ */
+router.get(
+  '/applications/:id',
+  canManage,
+  validateParams(idParamSchema),
+  applicationController.getApplication
+);
+
+/**
+ * @route   PATCH /api/v1/users/me/applications/:id
+ * @desc    Move an application to another stage, or update its notes, dates or reminder
+ * @access  Private (profile:manage)
+ */
+router.patch(
+  '/applications/:id',
+  canManage,
+  validateParams(idParamSchema),
+  validateBody(updateApplicationSchema),
+  applicationController.updateApplication
+);
+
+/**
+ * @route   DELETE /api/v1/users/me/applications/:id
+ * @desc    Stop tracking an application; the job's bookmark is kept
+ * @access  Private (profile:manage)
+ */
+router.delete(
+  '/applications/:id',
+  canManage,
+  validateParams(idParamSchema),
+  applicationController.deleteApplication
+);
+
+export default router;
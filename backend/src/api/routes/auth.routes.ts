@@ -0,0 +1,72 @@
+import express from 'express';
+import authController from '../controllers/authController';
+import { authenticate } from '../middlewares/authMiddleware';
+import { validateBody } from '../middlewares/validate';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  verifyEmailSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema
+} from '../validators/authValidators';
+
+const router = express.Router();
+
+/**
+ * @route   POST /api/v1/auth/register
+ * @desc    Register a new user and send a verification email
+ * @access  Public
+ */
+router.post('/register', validateBody(registerSchema), authController.register);
+
+/**
+ * @route   POST /api/v1/auth/login
+ * @desc    Log in and get an access token and a refresh token
+ * @access  Public
+ */
+router.post('/login', validateBody(loginSchema), authController.login);
+
+/**
+ * @route   POST /api/v1/auth/refresh
+ * @desc    Exchange a refresh token for a new token pair
+ * @access  Public
+ */
+router.post('/refresh', validateBody(refreshTokenSchema), authController.refresh);
+
+/**
+ * @route   POST /api/v1/auth/logout
+ * @desc    Revoke the session a refresh token belongs to
+ * @access  Public
+ */
+router.post('/logout', validateBody(refreshTokenSchema), authController.logout);
+
+/**
+ * @route   POST /api/v1/auth/verify-email
+ * @desc    Verify an email address with the token from the verification email
+ * @access  Public
+ */
+router.post('/verify-email', validateBody(verifyEmailSchema), authController.verifyEmail);
+
+/**
+ * @route   POST /api/v1/auth/resend-verification
+ * @desc    Send a new verification email
+ * @access  Private
+ */
+router.post('/resend-verification', authenticate, authController.resendVerification);
+
+/**
+ * @route   POST /api/v1/auth/forgot-password
+ * @desc    Send a password reset email
+ * @access  Public
+ */
+router.post('/forgot-password', validateBody(forgotPasswordSchema), authController.forgotPassword);
+
+/**
+ * @route   POST /api/v1/auth/reset-password
+ * @desc    Set a new password with the token from the reset email
+ * @access  Public
+ */
+router.post('/reset-password', validateBody(resetPasswordSchema), authController.resetPassword);
+
+export default router;
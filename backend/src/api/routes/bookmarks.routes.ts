@@ -0,0 +1,157 @@
+import express from 'express';
+import bookmarkController from '../controllers/bookmarkController';
+import { requirePermission } from '../middlewares/authMiddleware';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate';
+import { idParamSchema } from '../validators/common';
+import {
+  bookmarkListQuerySchema,
+  createBookmarkSchema,
+  updateBookmarkSchema,
+  bulkAddBookmarksSchema,
+  bulkRemoveBookmarksSchema,
+  createFolderSchema,
+  updateFolderSchema
+} from '../validators/bookmarkValidators';
+
+// Mounted under /api/v1/users/me
+const router = express.Router();
+
+const canManage = requirePermission('profile:manage');
+
+/**
+ * @route   GET /api/v1/users/me/bookmarks
+ * @desc    List bookmarks, filtered by folder, tag, job status or upcoming deadline
+ * @access  Private (profile:manage)
+ */
+router.get(
+  '/bookmarks',
+  canManage,
+  validateQuery(bookmarkListQuerySchema),
+  bookmarkController.getBookmarks
+);
+
+/**
+ * @route   POST /api/v1/users/me/bookmarks
+ * @desc    Bookmark a job
+ * @access  Private (profile:manage)
+ */
+router.post(
+  '/bookmarks',
+  canManage,
+  validateBody(createBookmarkSchema),
+  bookmarkController.createBookmark
+);
+
+/**
+ * @route   POST /api/v1/users/me/bookmarks/bulk
+ * @desc    Bookmark several jobs at once
+ * @access  Private (profile:manage)
+ */
+router.post(
+  '/bookmarks/bulk',
+  canManage,
+  validateBody(bulkAddBookmarksSchema),
+  bookmarkController.bulkAddBookmarks
+);
+
+/**
+ * @route   DELETE /api/v1/users/me/bookmarks/bulk
+ * @desc    Remove the bookmarks of several jobs at once
+ * @access  Private (profile:manage)
+ */
+router.delete(
+  '/bookmarks/bulk',
+  canManage,
+  validateBody(bulkRemoveBookmarksSchema),
+  bookmarkController.bulkRemoveBookmarks
+);
+
+/**
+ * @route   GET /api/v1/users/me/bookmarks/tags
+ * @desc    List the tags used on bookmarks
+ * @access  Private (profile:manage)
+ */
+router.get('/bookmarks/tags', canManage, bookmarkController.getTags);
+
+/**
+ * @route   GET /api/v1/users/me/bookmarks/:id
+ * @desc    Get a bookmark
+ * @access  Private (profile:manage)
+ */
+router.get(
+  '/bookmarks/:id',
+  canManage,
+  validateParams(idParamSchema),
+  bookmarkController.getBookmark
+);
+
+/**
+ * @route   PATCH /api/v1/users/me/bookmarks/:id
+ * @desc    Update the notes, folder or tags of a bookmark
+ * @access  Private (profile:manage)
+ */
+router.patch(
+  '/bookmarks/:id',
+  canManage,
+  validateParams(idParamSchema),
+  validateBody(updateBookmarkSchema),
+  bookmarkController.updateBookmark
+);
+
+/**
+ * @route   DELETE /api/v1/users/me/bookmarks/:id
+ * @desc    Remove a bookmark
+ * @access  Private (profile:manage)
+ */
+router.delete(
+  '/bookmarks/:id',
+  canManage,
+  validateParams(idParamSchema),
+  bookmarkController.deleteBookmark
+);
+
+/**
+ * @route   GET /api/v1/users/me/bookmark-folders
+ * @desc    List bookmark folders
+ * @access  Private (profile:manage)
+ */
+router.get('/bookmark-folders', canManage, bookmarkController.getFolders);
+
+/**
+ * @route   POST /api/v1/users/me/bookmark-folders
+ * @desc    Create a bookmark folder
+ * @access  Private (profile:manage)
+ */
+router.post(
+  '/bookmark-folders',
+  canManage,
+  validateBody(createFolderSchema),
+  bookmarkController.createFolder
+);
+
+/**
+ * @route   PATCH /api/v1/users/me/bookmark-folders/:id
+ * @desc    Rename or recolor a bookmark folder
+ * @access  Private (profile:manage)
+ */
+router.patch(
+  '/bookmark-folders/:id',
+  canManage,
+  validateParams(idParamSchema),
+  validateBody(updateFolderSchema),
+  bookmarkController.updateFolder
+);
+
+/**
+ * @route   DELETE /api/v1/users/me/bookmark-folders/:id
+ * @desc    Delete a bookmark folder, keeping its bookmarks
+ * @access  Private (profile:manage)
+ */
+router.delete(
+  '/bookmark-folders/:id',
+  canManage,
+  validateParams(idParamSchema),
+  bookmarkController.deleteFolder
+);
+
+export default router;
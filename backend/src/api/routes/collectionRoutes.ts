@@ -3,29 +3,168 @@
  */
 import { Router } from 'express';
 import * as collectionController from '../controllers/collectionController';
-import { authenticateAdmin } from '../middlewares/authMiddleware';
+import { requirePermission } from '../middlewares/authMiddleware';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate';
+import { idParamSchema } from '../validators/common';
+import {
+  collectionRunsQuerySchema,
+  collectionJobsQuerySchema,
+  sourceChangesQuerySchema,
+  selectorCandidateSchema,
+  dismissSourceChangeSchema
+} from '../validators/collectionValidators';
 
 const router = Router();
 
 /**
- * @route   POST /api/collection/all
- * @desc    Collect jobs from all sources
- * @access  Admin
+ * @route   POST /api/v1/collection/all
+ * @desc    Queue a collection for every enabled source; returns the queued jobs
+ * @access  Private (collection:run)
  */
-router.post('/all', authenticateAdmin, collectionController.collectFromAllSources);
+router.post('/all', requirePermission('collection:run'), collectionController.collectFromAllSources);
 
 /**
- * @route   POST /api/collection/source/:sourceId
- * @desc    Collect jobs from a specific source
- * @access  Admin
+ * @route   POST /api/v1/collection/source/:sourceId
+ * @desc    Queue a collection for a specific source; returns the queued job
+ * @access  Private (collection:run)
  */
-router.post('/source/:sourceId', authenticateAdmin, collectionController.collectFromSource);
+router.post('/source/:sourceId', requirePermission('collection:run'), collectionController.collectFromSource);
 
 /**
- * @route   GET /api/collection/status
- * @desc    Get collection status
- * @access  Admin
+ * @route   GET /api/v1/collection/status
+ * @desc    Get the last and running run, success rate and average duration per source
+ * @access  Private (collection:view)
  */
-router.get('/status', authenticateAdmin, collectionController.getCollectionStatus);
+router.get('/status', requirePermission('collection:view'), collectionController.getCollectionStatus);
+
+/**
+ * @route   GET /api/v1/collection/sources
+ * @desc    List registered sources with their schedules
+ * @access  Private (collection:view)
+ */
+router.get('/sources', requirePermission('collection:view'), collectionController.getSources);
+
+/**
+ * @route   GET /api/v1/collection/runs
+ * @desc    List collection runs with per-stage counts
+ * @access  Private (collection:view)
+ */
+router.get(
+  '/runs',
+  requirePermission('collection:view'),
+  validateQuery(collectionRunsQuerySchema),
+  collectionController.getCollectionRuns
+);
+
+/**
+ * @route   GET /api/v1/collection/runs/:id
+ * @desc    Get a collection run with its errors
+ * @access  Private (collection:view)
+ */
+router.get(
+  '/runs/:id',
+  requirePermission('collection:view'),
+  validateParams(idParamSchema),
+  collectionController.getCollectionRun
+);
+
+/**
+ * @route   GET /api/v1/collection/jobs
+ * @desc    List queued, running and finished collection jobs
+ * @access  Private (collection:view)
+ */
+router.get(
+  '/jobs',
+  requirePermission('collection:view'),
+  validateQuery(collectionJobsQuerySchema),
+  collectionController.getCollectionJobs
+);
+
+/**
+ * @route   GET /api/v1/collection/jobs/:id
+ * @desc    Get a collection job with its attempts, lease and last error
+ * @access  Private (collection:view)
+ */
+router.get(
+  '/jobs/:id',
+  requirePermission('collection:view'),
+  validateParams(idParamSchema),
+  collectionController.getCollectionJob
+);
+
+/**
+ * @route   POST /api/v1/collection/jobs/:id/cancel
+ * @desc    Cancel a queued job or stop a running one
+ * @access  Private (collection:run)
+ */
+router.post(
+  '/jobs/:id/cancel',
+  requirePermission('collection:run'),
+  validateParams(idParamSchema),
+  collectionController.cancelCollectionJob
+);
+
+/**
+ * @route   GET /api/v1/collection/changes
+ * @desc    List structural changes detected in the sources
+ * @access  Private (collection:view)
+ */
+router.get(
+  '/changes',
+  requirePermission('collection:view'),
+  validateQuery(sourceChangesQuerySchema),
+  collectionController.getSourceChanges
+);
+
+/**
+ * @route   GET /api/v1/collection/changes/:id
+ * @desc    Get a structural change with its suggested selectors
+ * @access  Private (collection:view)
+ */
+router.get(
+  '/changes/:id',
+  requirePermission('collection:view'),
+  validateParams(idParamSchema),
+  collectionController.getSourceChange
+);
+
+/**
+ * @route   POST /api/v1/collection/changes/:id/preview
+ * @desc    Extract job cards from the change's snapshot with a candidate selector
+ * @access  Private (collection:view)
+ */
+router.post(
+  '/changes/:id/preview',
+  requirePermission('collection:view'),
+  validateParams(idParamSchema),
+  validateBody(selectorCandidateSchema),
+  collectionController.previewSourceChangeSelector
+);
+
+/**
+ * @route   POST /api/v1/collection/changes/:id/accept
+ * @desc    Accept a selector, updating the source config and resolving the change
+ * @access  Private (collection:run)
+ */
+router.post(
+  '/changes/:id/accept',
+  requirePermission('collection:run'),
+  validateParams(idParamSchema),
+  validateBody(selectorCandidateSchema),
+  collectionController.acceptSourceChangeSelector
+);
+
+/**
+ * @route   POST /api/v1/collection/changes/:id/dismiss
+ * @desc    Resolve a change without changing the source config
+ * @access  Private (collection:run)
+ */
+router.post(
+  '/changes/:id/dismiss',
+  requirePermission('collection:run'),
+  validateParams(idParamSchema),
+  validateBody(dismissSourceChangeSchema),
+  collectionController.dismissSourceChange
+);
 
 export default router;
\ No newline at end of file
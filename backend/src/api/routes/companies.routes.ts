@@ -0,0 +1,35 @@
+import express from 'express';
+import companyController from '../controllers/companyController';
+import { validateQuery, validateParams } from '../middlewares/validate';
+import { companyListQuerySchema, companyJobsQuerySchema } from '../validators/companyValidators';
+import { idParamSchema } from '../validators/common';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/v1/companies
+ * @desc    List companies with their job counts
+ * @access  Public
+ */
+router.get('/', validateQuery(companyListQuerySchema), companyController.getCompanies);
+
+/**
+ * @route   GET /api/v1/companies/:id
+ * @desc    Get a company profile with job counts, typical roles and locations and a hiring timeline
+ * @access  Public
+ */
+router.get('/:id', validateParams(idParamSchema), companyController.getCompanyById);
+
+/**
+ * @route   GET /api/v1/companies/:id/jobs
+ * @desc    Search the jobs of a company, with the same filters as the job search
+ * @access  Public
+ */
+router.get(
+  '/:id/jobs',
+  validateParams(idParamSchema),
+  validateQuery(companyJobsQuerySchema),
+  companyController.getCompanyJobs
+);
+
+export default router;
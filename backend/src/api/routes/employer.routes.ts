@@ -0,0 +1,129 @@
+import express from 'express';
+import employerController from '../controllers/employerController';
+import { requirePermission } from '../middlewares/authMiddleware';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate';
+import { idParamSchema } from '../validators/common';
+import {
+  registerEmployerSchema,
+  createJobPostingSchema,
+  updateJobPostingSchema,
+  jobPostingListQuerySchema,
+  jobApplicationListQuerySchema,
+  updateJobApplicationSchema
+} from '../validators/employerValidators';
+
+const router = express.Router();
+
+const canPost = requirePermission('jobs:post');
+
+/**
+ * @route   GET /api/v1/employer/account
+ * @desc    Get the employer account and its company
+ * @access  Private (jobs:post)
+ */
+router.get('/account', canPost, employerController.getAccount);
+
+/**
+ * @route   POST /api/v1/employer/account
+ * @desc    Register an employer account for a company; it is pending until verified by an admin
+ * @access  Private (jobs:post)
+ */
+router.post(
+  '/account',
+  canPost,
+  validateBody(registerEmployerSchema),
+  employerController.registerAccount
+);
+
+/**
+ * @route   GET /api/v1/employer/postings
+ * @desc    List the company's job postings
+ * @access  Private (jobs:post)
+ */
+router.get(
+  '/postings',
+  canPost,
+  validateQuery(jobPostingListQuerySchema),
+  employerController.getPostings
+);
+
+/**
+ * @route   POST /api/v1/employer/postings
+ * @desc    Create a draft job posting
+ * @access  Private (jobs:post)
+ */
+router.post(
+  '/postings',
+  canPost,
+  validateBody(createJobPostingSchema),
+  employerController.createPosting
+);
+
+/**
+ * @route   GET /api/v1/employer/postings/:id
+ * @desc    Get a job posting with the issues that would stop it from being published
+ * @access  Private (jobs:post)
+ */
+router.get('/postings/:id', canPost, validateParams(idParamSchema), employerController.getPosting);
+
+/**
+ * @route   PATCH /api/v1/employer/postings/:id
+ * @desc    Update a draft or published job posting
+ * @access  Private (jobs:post)
+ */
+router.patch(
+  '/postings/:id',
+  canPost,
+  validateParams(idParamSchema),
+  validateBody(updateJobPostingSchema),
+  employerController.updatePosting
+);
+
+/**
+ * @route   DELETE /api/v1/employer/postings/:id
+ * @desc    Delete a job posting that has never been published
+ * @access  Private (jobs:post)
+ */
+router.delete('/postings/:id', canPost, validateParams(idParamSchema), employerController.deletePosting);
+
+/**
+ * @route   POST /api/v1/employer/postings/:id/publish
+ * @desc    Publish a draft or closed job posting
+ * @access  Private (jobs:post, verified employer)
+ */
+router.post('/postings/:id/publish', canPost, validateParams(idParamSchema), employerController.publishPosting);
+
+/**
+ * @route   POST /api/v1/employer/postings/:id/close
+ * @desc    Close a published job posting
+ * @access  Private (jobs:post)
+ */
+router.post('/postings/:id/close', canPost, validateParams(idParamSchema), employerController.closePosting);
+
+/**
+ * @route   GET /api/v1/employer/postings/:id/applications
+ * @desc    List the applications to a job posting
+ * @access  Private (jobs:post, verified employer)
+ */
+router.get(
+  '/postings/:id/applications',
+  canPost,
+  validateParams(idParamSchema),
+  validateQuery(jobApplicationListQuerySchema),
+  employerController.getApplications
+);
+
+/**
+ * @route   PATCH /api/v1/employer/applications/:id
+ * @desc    Move an application to another status; the applicant is notified
+ * @access  Private (jobs:post, verified employer)
+ */
+router.patch(
+  '/applications/:id',
+  canPost,
+  validateParams(idParamSchema),
+  validateBody(updateJobApplicationSchema),
+  employerController.updateApplication
+);
+
+export default router;
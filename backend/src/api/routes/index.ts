@@ -5,10 +5,13 @@ import { logger } from '../../utils/logger';
 
 // Import all route files
 import jobRoutes from './jobs.routes';
+import companyRoutes from './companies.routes';
 import userRoutes from './users.routes';
 import gdprRoutes from './gdpr.routes';
 import adminRoutes from './admin.routes';
+import employerRoutes from './employer.routes';
 import authRoutes from './auth.routes';
+import collectionRoutes from './collectionRoutes';
 
 /**
  * Register all API routes with the Express application
@@ -19,10 +22,13 @@ export const loadRoutes = (app: Express): void => {
   
   // Register routes
   app.use(`${apiPrefix}/jobs`, jobRoutes);
+  app.use(`${apiPrefix}/companies`, companyRoutes);
   app.use(`${apiPrefix}/users`, userRoutes);
   app.use(`${apiPrefix}/gdpr`, gdprRoutes);
   app.use(`${apiPrefix}/admin`, adminRoutes);
+  app.use(`${apiPrefix}/employer`, employerRoutes);
   app.use(`${apiPrefix}/auth`, authRoutes);
+  app.use(`${apiPrefix}/collection`, collectionRoutes);
   
   // Add health check endpoint
   app.get('/health', (req, res) => {
@@ -0,0 +1,44 @@
+import express from 'express';
+import jobController from '../controllers/jobController';
+import { requirePermission } from '../middlewares/authMiddleware';
+import { validateBody, validateQuery, validateParams } from '../middlewares/validate';
+import { jobSearchQuerySchema, jobApplicationSchema } from '../validators/jobValidators';
+import { idParamSchema } from '../validators/common';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/v1/jobs
+ * @desc    Search jobs with filters, sorting and cursor pagination
+ * @access  Public
+ */
+router.get('/', validateQuery(jobSearchQuerySchema), jobController.getJobs);
+
+/**
+ * @route   GET /api/v1/jobs/:id
+ * @desc    Get a single job with all relations
+ * @access  Public
+ */
+router.get('/:id', validateParams(idParamSchema), jobController.getJobById);
+
+/**
+ * @route   GET /api/v1/jobs/:id/history
+ * @desc    Get the field-level change history of a job, newest first
+ * @access  Public
+ */
+router.get('/:id/history', validateParams(idParamSchema), jobController.getJobHistory);
+
+/**
+ * @route   POST /api/v1/jobs/:id/applications
+ * @desc    Apply to a job posted directly by an employer
+ * @access  Private (profile:manage)
+ */
+router.post(
+  '/:id/applications',
+  requirePermission('profile:manage'),
+  validateParams(idParamSchema),
+  validateBody(jobApplicationSchema),
+  jobController.applyToJob
+);
+
+export default router;
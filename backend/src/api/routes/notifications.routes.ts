@@ -0,0 +1,42 @@
+import express from 'express';
+import notificationController from '../controllers/notificationController';
+import { authenticate } from '../middlewares/authMiddleware';
+import { validateParams, validateQuery } from '../middlewares/validate';
+import { idParamSchema } from '../validators/common';
+import { notificationListQuerySchema } from '../validators/savedSearchValidators';
+
+// Mounted under /api/v1/users/me
+const router = express.Router();
+
+/**
+ * @route   GET /api/v1/users/me/notifications
+ * @desc    List in-app notifications, newest first
+ * @access  Private
+ */
+router.get(
+  '/notifications',
+  authenticate,
+  validateQuery(notificationListQuerySchema),
+  notificationController.getNotifications
+);
+
+/**
+ * @route   POST /api/v1/users/me/notifications/read
+ * @desc    Mark all notifications as read
+ * @access  Private
+ */
+router.post('/notifications/read', authenticate, notificationController.markAllNotificationsRead);
+
+/**
+ * @route   POST /api/v1/users/me/notifications/:id/read
+ * @desc    Mark a notification as read
+ * @access  Private
+ */
+router.post(
+  '/notifications/:id/read',
+  authenticate,
+  validateParams(idParamSchema),
+  notificationController.markNotificationRead
+);
+
+export default router;
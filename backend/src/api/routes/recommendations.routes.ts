@@ -0,0 +1,23 @@
+import express from 'express';
+import recommendationController from '../controllers/recommendationController';
+import { requirePermission } from '../middlewares/authMiddleware';
+import { validateQuery } from '../middlewares/validate';
+import { recommendationQuerySchema } from '../validators/recommendationValidators';
+
+// Mounted under /api/v1/users/me
+const router = express.Router();
+
+/**
+ * @route   GET /api/v1/users/me/recommendations
+ * @desc    Recommend jobs from the user's education area, bookmarks and searches,
+ *          with the reasons behind each recommendation
+ * @access  Private (profile:manage)
+ */
+router.get(
+  '/recommendations',
+  requirePermission('profile:manage'),
+  validateQuery(recommendationQuerySchema),
+  recommendationController.getRecommendations
+);
+
+export default router;
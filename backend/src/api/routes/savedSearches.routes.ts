@@ -0,0 +1,86 @@
+import express from 'express';
+import savedSearchController from '../controllers/savedSearchController';
+import { requirePermission } from '../middlewares/authMiddleware';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate';
+import { idParamSchema } from '../validators/common';
+import {
+  createSavedSearchSchema,
+  updateSavedSearchSchema,
+  savedSearchJobsQuerySchema
+} from '../validators/savedSearchValidators';
+
+// Mounted under /api/v1/users/me
+const router = express.Router();
+
+const canManage = requirePermission('profile:manage');
+
+/**
+ * @route   GET /api/v1/users/me/saved-searches
+ * @desc    List saved searches with the number of matches waiting for the next alert
+ * @access  Private (profile:manage)
+ */
+router.get('/saved-searches', canManage, savedSearchController.getSavedSearches);
+
+/**
+ * @route   POST /api/v1/users/me/saved-searches
+ * @desc    Save a search, optionally with instant, daily or weekly alerts
+ * @access  Private (profile:manage)
+ */
+router.post(
+  '/saved-searches',
+  canManage,
+  validateBody(createSavedSearchSchema),
+  savedSearchController.createSavedSearch
+);
+
+/**
+ * @route   GET /api/v1/users/me/saved-searches/:id
+ * @desc    Get a saved search
+ * @access  Private (profile:manage)
+ */
+router.get(
+  '/saved-searches/:id',
+  canManage,
+  validateParams(idParamSchema),
+  savedSearchController.getSavedSearch
+);
+
+/**
+ * @route   GET /api/v1/users/me/saved-searches/:id/jobs
+ * @desc    Run a saved search against the current jobs
+ * @access  Private (profile:manage)
+ */
+router.get(
+  '/saved-searches/:id/jobs',
+  canManage,
+  validateParams(idParamSchema),
+  validateQuery(savedSearchJobsQuerySchema),
+  savedSearchController.getSavedSearchJobs
+);
+
+/**
+ * @route   PATCH /api/v1/users/me/saved-searches/:id
+ * @desc    Update the name, filters or alert settings of a saved search
+ * @access  Private (profile:manage)
+ */
+router.patch(
+  '/saved-searches/:id',
+  canManage,
+  validateParams(idParamSchema),
+  validateBody(updateSavedSearchSchema),
+  savedSearchController.updateSavedSearch
+);
+
+/**
+ * @route   DELETE /api/v1/users/me/saved-searches/:id
+ * @desc    Delete a saved search
+ * @access  Private (profile:manage)
+ */
+router.delete(
+  '/saved-searches/:id',
+  canManage,
+  validateParams(idParamSchema),
+  savedSearchController.deleteSavedSearch
+);
+
+export default router;
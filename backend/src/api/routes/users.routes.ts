@@ -0,0 +1,25 @@
+import express from 'express';
+import userController from '../controllers/userController';
+import { authenticate } from '../middlewares/authMiddleware';
+import bookmarkRoutes from './bookmarks.routes';
+import savedSearchRoutes from './savedSearches.routes';
+import notificationRoutes from './notifications.routes';
+import recommendationRoutes from './recommendations.routes';
+import applicationRoutes from './applications.routes';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/v1/users/me
+ * @desc    Get the logged in user
+ * @access  Private
+ */
+router.get('/me', authenticate, userController.getCurrentUser);
+
+router.use('/me', bookmarkRoutes);
+router.use('/me', savedSearchRoutes);
+router.use('/me', notificationRoutes);
+router.use('/me', recommendationRoutes);
+router.use('/me', applicationRoutes);
+
+export default router;
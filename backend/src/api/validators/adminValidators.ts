@@ -0,0 +1,71 @@
+/**
+ * Request validation schemas for the admin endpoints
+ */
+import Joi from 'joi';
+import { ROLES } from '../../services/auth/permissions';
+import { EMPLOYER_ACCOUNT_STATUSES } from '../../services/employer/employerAccountService';
+
+export const userIdParamSchema = Joi.object({
+  userId: Joi.number().integer().positive().required()
+});
+
+export const userRoleParamSchema = Joi.object({
+  userId: Joi.number().integer().positive().required(),
+  role: Joi.string().valid(...ROLES).required()
+});
+
+export const grantRoleSchema = Joi.object({
+  role: Joi.string().valid(...ROLES).required(),
+  reason: Joi.string().trim().max(500)
+});
+
+export const revokeRoleSchema = Joi.object({
+  reason: Joi.string().trim().max(500)
+});
+
+export const companyIdParamSchema = Joi.object({
+  companyId: Joi.number().integer().positive().required()
+});
+
+export const companyAliasParamSchema = Joi.object({
+  companyId: Joi.number().integer().positive().required(),
+  aliasId: Joi.number().integer().positive().required()
+});
+
+export const mergeCompaniesSchema = Joi.object({
+  companyIds: Joi.array().items(Joi.number().integer().positive()).min(1).max(50).unique().required()
+});
+
+export const companyAliasSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(200).required()
+});
+
+export const duplicateCompaniesQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export const employerAccountIdParamSchema = Joi.object({
+  accountId: Joi.number().integer().positive().required()
+});
+
+export const employerAccountListQuerySchema = Joi.object({
+  status: Joi.string().valid(...EMPLOYER_ACCOUNT_STATUSES).default('pending'),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export const reviewEmployerAccountSchema = Joi.object({
+  decision: Joi.string().valid('approve', 'reject').required(),
+  // Shown to the employer
+  notes: Joi.string().trim().max(1000).when('decision', { is: 'reject', then: Joi.required() })
+});
+
+export const auditLogQuerySchema = Joi.object({
+  actorId: Joi.number().integer().positive(),
+  action: Joi.string().trim().max(100),
+  entityType: Joi.string().trim().max(100),
+  entityId: Joi.string().trim().max(100),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
@@ -0,0 +1,30 @@
+/**
+ * Request validation schemas for the application tracker endpoints
+ */
+import Joi from 'joi';
+import { JoiExtended } from './common';
+import { APPLICATION_STAGES, APPLICATION_SORT_ORDERS } from '../../services/applications/applicationTrackerService';
+
+export const applicationListQuerySchema = Joi.object({
+  stage: JoiExtended.list().items(Joi.string().valid(...APPLICATION_STAGES)),
+  sort: Joi.string().valid(...APPLICATION_SORT_ORDERS).default('applied'),
+  limit: Joi.number().integer().min(1).max(100).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export const createApplicationSchema = Joi.object({
+  jobId: Joi.number().integer().positive().required(),
+  stage: Joi.string().valid(...APPLICATION_STAGES),
+  appliedAt: Joi.date().iso().max('now'),
+  interviewAt: Joi.date().iso(),
+  notes: Joi.string().trim().max(5000).allow(''),
+  remindAt: Joi.date().iso()
+});
+
+export const updateApplicationSchema = Joi.object({
+  stage: Joi.string().valid(...APPLICATION_STAGES),
+  appliedAt: Joi.date().iso().max('now'),
+  interviewAt: Joi.date().iso().allow(null),
+  notes: Joi.string().trim().max(5000).allow('', null),
+  remindAt: Joi.date().iso().allow(null)
+}).min(1);
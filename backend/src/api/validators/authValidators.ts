@@ -0,0 +1,40 @@
+/**
+ * Request validation schemas for the auth endpoints
+ */
+import Joi from 'joi';
+import { SELF_ASSIGNABLE_ROLES } from '../../services/auth/permissions';
+
+const email = Joi.string().trim().lowercase().email().max(254);
+const password = Joi.string().min(8).max(128);
+const token = Joi.string().trim().max(2000);
+
+export const registerSchema = Joi.object({
+  email: email.required(),
+  password: password.required(),
+  firstName: Joi.string().trim().max(100),
+  lastName: Joi.string().trim().max(100),
+  role: Joi.string().valid(...SELF_ASSIGNABLE_ROLES).default('student')
+});
+
+export const loginSchema = Joi.object({
+  email: email.required(),
+  // Length is not checked on login so that old passwords keep working
+  password: Joi.string().required()
+});
+
+export const refreshTokenSchema = Joi.object({
+  refreshToken: token.required()
+});
+
+export const verifyEmailSchema = Joi.object({
+  token: token.required()
+});
+
+export const forgotPasswordSchema = Joi.object({
+  email: email.required()
+});
+
+export const resetPasswordSchema = Joi.object({
+  token: token.required(),
+  password: password.required()
+});
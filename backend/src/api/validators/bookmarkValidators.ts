@@ -0,0 +1,53 @@
+/**
+ * Request validation schemas for the bookmark endpoints
+ */
+import Joi from 'joi';
+import { JoiExtended, stringList } from './common';
+import { BOOKMARK_SORT_ORDERS, BOOKMARK_STATUSES } from '../../services/bookmarks/bookmarkService';
+
+const tags = Joi.array().items(Joi.string().trim().max(50)).max(20);
+const jobIds = Joi.array().items(Joi.number().integer().positive()).min(1).max(200).required();
+
+export const bookmarkListQuerySchema = Joi.object({
+  folderId: Joi.number().integer().positive(),
+  unfiled: Joi.boolean(),
+  tag: stringList(),
+  status: JoiExtended.list().items(Joi.string().valid(...BOOKMARK_STATUSES)),
+  deadlineWithinDays: Joi.number().integer().min(1).max(365),
+  sort: Joi.string().valid(...BOOKMARK_SORT_ORDERS).default('created'),
+  limit: Joi.number().integer().min(1).max(100).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+}).oxor('folderId', 'unfiled');
+
+export const createBookmarkSchema = Joi.object({
+  jobId: Joi.number().integer().positive().required(),
+  notes: Joi.string().trim().max(5000).allow(''),
+  folderId: Joi.number().integer().positive(),
+  tags
+});
+
+export const updateBookmarkSchema = Joi.object({
+  notes: Joi.string().trim().max(5000).allow('', null),
+  folderId: Joi.number().integer().positive().allow(null),
+  tags
+}).min(1);
+
+export const bulkAddBookmarksSchema = Joi.object({
+  jobIds,
+  folderId: Joi.number().integer().positive(),
+  tags
+});
+
+export const bulkRemoveBookmarksSchema = Joi.object({
+  jobIds
+});
+
+export const createFolderSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/)
+});
+
+export const updateFolderSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100),
+  color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).allow(null)
+}).min(1);
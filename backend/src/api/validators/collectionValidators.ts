@@ -0,0 +1,37 @@
+/**
+ * Request validation schemas for the collection endpoints
+ */
+import Joi from 'joi';
+import { COLLECTION_RUN_STATUSES } from '../../services/collection/collectionHistoryService';
+import { COLLECTION_JOB_STATUSES } from '../../services/collection/collectionQueue';
+
+export const collectionRunsQuerySchema = Joi.object({
+  sourceId: Joi.string().trim().max(100),
+  status: Joi.string().valid(...COLLECTION_RUN_STATUSES),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export const collectionJobsQuerySchema = Joi.object({
+  sourceId: Joi.string().trim().max(100),
+  status: Joi.string().valid(...COLLECTION_JOB_STATUSES),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export const sourceChangesQuerySchema = Joi.object({
+  sourceId: Joi.string().trim().max(100),
+  resolved: Joi.boolean(),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export const selectorCandidateSchema = Joi.object({
+  // Site config key, e.g. selectors.jobCard or detailSelectors.title
+  key: Joi.string().trim().pattern(/^(selectors|detailSelectors)\.\w+$/).required(),
+  selector: Joi.string().trim().min(1).max(500).required()
+});
+
+export const dismissSourceChangeSchema = Joi.object({
+  notes: Joi.string().trim().max(1000)
+});
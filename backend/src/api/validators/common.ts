@@ -0,0 +1,43 @@
+/**
+ * Shared Joi building blocks for request validation
+ */
+import Joi from 'joi';
+
+/**
+ * Joi root with the custom types added by JoiExtended
+ */
+export interface ExtendedJoiRoot extends Joi.Root {
+  list(): Joi.ArraySchema;
+}
+
+/**
+ * Joi instance with a `list` type that accepts both repeated query
+ * parameters (?skill=a&skill=b) and comma separated values (?skill=a,b)
+ */
+export const JoiExtended: ExtendedJoiRoot = Joi.extend((joi) => ({
+  type: 'list',
+  base: joi.array(),
+  coerce: {
+    from: 'string',
+    method: (value: string) => ({
+      value: value.split(',').map(item => item.trim()).filter(Boolean)
+    })
+  }
+}));
+
+/**
+ * List of trimmed strings
+ */
+export const stringList = () => JoiExtended.list().items(Joi.string().trim().min(1));
+
+/**
+ * List of positive integer IDs
+ */
+export const idList = () => JoiExtended.list().items(Joi.number().integer().positive());
+
+/**
+ * Route parameter holding a numeric ID
+ */
+export const idParamSchema = Joi.object({
+  id: Joi.number().integer().positive().required()
+});
@@ -0,0 +1,22 @@
+/**
+ * Request validation schemas for the company endpoints
+ */
+import Joi from 'joi';
+import { jobSearchQuerySchema } from './jobValidators';
+import { COMPANY_SORT_ORDERS } from '../../services/companies/companyDirectoryService';
+
+export const companyListQuerySchema = Joi.object({
+  q: Joi.string().trim().max(200),
+  verified: Joi.boolean(),
+  // Companies without open jobs are left out unless asked for
+  hasOpenJobs: Joi.boolean().default(true),
+  sort: Joi.string().valid(...COMPANY_SORT_ORDERS).default('openJobs'),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+// The company is given by the route
+export const companyJobsQuerySchema = jobSearchQuerySchema.keys({
+  companyId: Joi.forbidden(),
+  company: Joi.forbidden()
+});
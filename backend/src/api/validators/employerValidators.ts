@@ -0,0 +1,60 @@
+/**
+ * Request validation schemas for the employer portal endpoints
+ */
+import Joi from 'joi';
+import { JOB_POSTING_STATUSES } from '../../services/employer/jobPostingService';
+import { JOB_APPLICATION_STATUSES } from '../../services/employer/jobApplicationService';
+
+const optionalText = (max: number) => Joi.string().trim().max(max).allow(null);
+
+export const registerEmployerSchema = Joi.object({
+  companyName: Joi.string().trim().min(1).max(200).required(),
+  // Checked against its check digit by the service
+  organizationNumber: Joi.string().trim().pattern(/^[\d\s-]{10,15}$/).required(),
+  website: Joi.string().uri({ scheme: ['http', 'https'] }),
+  email: Joi.string().email(),
+  phone: Joi.string().trim().max(50),
+  jobTitle: Joi.string().trim().max(100)
+});
+
+const postingFields = {
+  title: Joi.string().trim().min(3).max(100),
+  description: Joi.string().trim().min(50).max(10000),
+  employmentType: optionalText(100),
+  workingHoursType: optionalText(100),
+  duration: optionalText(100),
+  salary: optionalText(200),
+  city: optionalText(100),
+  municipality: optionalText(100),
+  region: optionalText(100),
+  address: optionalText(200),
+  skills: Joi.array().items(Joi.string().trim().min(1).max(100)).max(30).unique(),
+  applicationDeadline: Joi.date().iso().allow(null),
+  expiresAt: Joi.date().iso().allow(null),
+  applicationUrl: Joi.string().uri({ scheme: ['http', 'https'] }).allow(null),
+  applicationEmail: Joi.string().email().allow(null)
+};
+
+export const createJobPostingSchema = Joi.object({
+  ...postingFields,
+  title: postingFields.title.required(),
+  description: postingFields.description.required()
+});
+
+export const updateJobPostingSchema = Joi.object(postingFields).min(1);
+
+export const jobPostingListQuerySchema = Joi.object({
+  status: Joi.string().valid(...JOB_POSTING_STATUSES),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export const jobApplicationListQuerySchema = Joi.object({
+  status: Joi.string().valid(...JOB_APPLICATION_STATUSES),
+  limit: Joi.number().integer().min(1).max(100).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export const updateJobApplicationSchema = Joi.object({
+  status: Joi.string().valid(...JOB_APPLICATION_STATUSES).required()
+});
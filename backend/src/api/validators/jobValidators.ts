@@ -0,0 +1,89 @@
+/**
+ * Request validation schemas for the job endpoints
+ */
+import Joi from 'joi';
+import { stringList, idList } from './common';
+import { JOB_SORT_ORDERS } from '../../services/jobs/jobSearchService';
+
+// Matches searches that neither give coordinates nor a municipality to search near
+const WITHOUT_POINT = Joi.object({ lat: Joi.forbidden(), near: Joi.forbidden() }).unknown();
+
+/**
+ * Search filters, shared by the search endpoint and saved searches
+ */
+export const jobSearchFiltersSchema = Joi.object({
+  // Free text
+  q: Joi.string().trim().max(200),
+
+  // Location
+  region: stringList(),
+  municipality: stringList(),
+  city: stringList(),
+  regionConceptId: stringList(),
+  municipalityConceptId: stringList(),
+
+  // Distance, from a point or from the centroid of a municipality
+  lat: Joi.number().min(-90).max(90),
+  lng: Joi.number().min(-180).max(180),
+  near: Joi.string().trim().max(100),
+  radius: Joi.number().min(1).max(500),
+
+  // Company
+  companyId: idList(),
+  company: Joi.string().trim().max(200),
+
+  // Occupation name, group or field (JobTech taxonomy concept ID)
+  occupationConceptId: stringList(),
+
+  // Requirements
+  educationAreaId: idList(),
+  skillId: idList(),
+  skill: stringList(),
+  skillConceptId: stringList(),
+  languageId: idList(),
+  language: stringList(),
+  languageConceptId: stringList(),
+
+  // Job details
+  employmentType: stringList(),
+  workingHoursType: stringList(),
+  source: stringList(),
+  deadlineFrom: Joi.date().iso(),
+  deadlineTo: Joi.date().iso().when('deadlineFrom', {
+    is: Joi.exist(),
+    then: Joi.date().min(Joi.ref('deadlineFrom'))
+  }),
+  minRelevance: Joi.number().min(0).max(100),
+  minQuality: Joi.number().min(0).max(100),
+  includeExpired: Joi.boolean().default(false)
+})
+  .and('lat', 'lng')
+  .oxor('lat', 'near')
+  // Radius needs a point to measure from
+  .when(WITHOUT_POINT, {
+    then: Joi.object({ radius: Joi.forbidden() })
+  });
+
+export const jobSearchQuerySchema = jobSearchFiltersSchema.keys({
+  // Sorting and pagination
+  // Defaults to 'rank' when searching with q, to 'distance' when searching
+  // near a point and to 'published' otherwise
+  sort: Joi.string().valid(...JOB_SORT_ORDERS).when('q', {
+    not: Joi.exist(),
+    then: Joi.invalid('rank')
+  }),
+  cursor: Joi.string().max(500),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+
+  // Facet counts for the filters above
+  facets: Joi.boolean().default(true)
+})
+  // Distance sorting needs a point to measure from
+  .when(WITHOUT_POINT, {
+    then: Joi.object({ sort: Joi.invalid('distance') })
+  });
+
+export const jobApplicationSchema = Joi.object({
+  message: Joi.string().trim().min(1).max(5000).required(),
+  cvUrl: Joi.string().uri({ scheme: ['http', 'https'] })
+});
@@ -0,0 +1,9 @@
+/**
+ * Request validation schemas for the recommendation endpoints
+ */
+import Joi from 'joi';
+
+export const recommendationQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(50).default(20),
+  offset: Joi.number().integer().min(0).default(0)
+});
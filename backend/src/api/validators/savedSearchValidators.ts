@@ -0,0 +1,38 @@
+/**
+ * Request validation schemas for the saved search and notification endpoints
+ */
+import Joi from 'joi';
+import { jobSearchFiltersSchema } from './jobValidators';
+import { JOB_SORT_ORDERS } from '../../services/jobs/jobSearchService';
+import { ALERT_FREQUENCIES } from '../../services/alerts/savedSearchService';
+import { ALERT_CHANNELS } from '../../services/alerts/alertDeliveryService';
+
+const name = Joi.string().trim().min(1).max(100);
+const alertFrequency = Joi.string().valid(...ALERT_FREQUENCIES);
+const channels = Joi.array().items(Joi.string().valid(...ALERT_CHANNELS)).unique().min(1).max(ALERT_CHANNELS.length);
+
+export const createSavedSearchSchema = Joi.object({
+  name: name.required(),
+  filters: jobSearchFiltersSchema.required(),
+  alertFrequency: alertFrequency.default('none'),
+  channels
+});
+
+export const updateSavedSearchSchema = Joi.object({
+  name,
+  filters: jobSearchFiltersSchema,
+  alertFrequency,
+  channels
+}).min(1);
+
+export const savedSearchJobsQuerySchema = Joi.object({
+  sort: Joi.string().valid(...JOB_SORT_ORDERS),
+  cursor: Joi.string().max(500),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+export const notificationListQuerySchema = Joi.object({
+  unread: Joi.boolean(),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  offset: Joi.number().integer().min(0).default(0)
+});
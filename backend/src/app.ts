@@ -2,22 +2,20 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import { PrismaClient } from '@prisma/client';
-import { DataCollectionService } from './services/data-collection';
-import { setupRoutes } from './api/routes';
+import { collectionOrchestrator } from './services/collection/collectionOrchestrator';
+import { loadRoutes } from './api/routes';
 import { setupMiddlewares } from './api/middlewares';
 import { Logger } from './utils/logger';
 
 export class App {
-  public app: express.Application;
+  public app: express.Express;
   public prisma: PrismaClient;
-  private dataCollectionService: DataCollectionService;
   private logger: Logger;
   
   constructor() {
     this.app = express();
     this.prisma = new PrismaClient();
     this.logger = new Logger('App');
-    this.dataCollectionService = new DataCollectionService(this.prisma);
     
     this.initializeMiddlewares();
     this.initializeRoutes();
@@ -34,7 +32,7 @@ export class App {
   }
   
   private initializeRoutes(): void {
-    setupRoutes(this.app, this.prisma, this.dataCollectionService);
+    loadRoutes(this.app);
   }
   
   public async start(): Promise<void> {
@@ -43,10 +41,9 @@ export class App {
       await this.prisma.$connect();
       this.logger.info('Connected to database');
       
-      // Initialize and start data collection service
-      this.dataCollectionService.initialize();
-      this.dataCollectionService.start();
-      this.logger.info('Data collection service started');
+      // Register sources and schedule collection
+      await collectionOrchestrator.initialize();
+      this.logger.info('Data collection started');
       
       return Promise.resolve();
     } catch (error) {
@@ -57,9 +54,9 @@ export class App {
   
   public async stop(): Promise<void> {
     try {
-      // Stop data collection service
-      this.dataCollectionService.stop();
-      this.logger.info('Data collection service stopped');
+      // Stop scheduled collection
+      await collectionOrchestrator.stop();
+      this.logger.info('Data collection stopped');
       
       // Disconnect from the database
       await this.prisma.$disconnect();
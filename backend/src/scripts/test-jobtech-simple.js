@@ -1,7 +1,7 @@
 /**
  * Simple test script for JobTech API integration
  */
-const { jobtechService } = require('../services/scrapers/types/jobtech/jobtechService');
+const { jobtechService } = require('../services/scrapers/jobtech/jobtechService');
 
 async function testJobTechApi() {
   console.log('Testing JobTech API connection...');
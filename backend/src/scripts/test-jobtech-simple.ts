@@ -2,8 +2,8 @@
  * Simple test script for JobTech API integration (TypeScript version)
  */
 import dotenv from 'dotenv';
-import { jobtechService } from '../services/scrapers/types/jobtech/jobtechService';
-import { JobTechSearchParams, JobTechAd } from '../services/scrapers/types/jobtech/jobtechTypes';
+import { jobtechService } from '../services/scrapers/jobtech/jobtechService';
+import { JobTechSearchParams, JobTechAd } from '../services/scrapers/jobtech/jobtechTypes';
 
 // Load environment variables
 dotenv.config();
@@ -1,7 +1,7 @@
 /**
  * Test script for JobTech API integration
  */
-import { jobtechService } from '../services/scrapers/types/jobtech/jobtechService';
+import { jobtechService } from '../services/scrapers/jobtech/jobtechService';
 
 async function testJobTechApi() {
   console.log('Testing JobTech API connection...');
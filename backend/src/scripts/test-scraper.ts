@@ -0,0 +1,55 @@
+/**
+ * Runs a declarative scraper site config against saved pages, so a new or
+ * changed config can be checked without hitting the site.
+ *
+ * Usage: ts-node src/scripts/test-scraper.ts <site-id> <listing.html> [job.html]
+ */
+import * as fs from 'fs';
+import dotenv from 'dotenv';
+import { DeclarativeScraper } from '../services/scrapers/declarative/declarativeScraper';
+import { scraperSites } from '../services/scrapers/config/scraperSites';
+
+// Load environment variables
+dotenv.config();
+
+function testScraper(): void {
+  const [siteId, listingFile, jobFile] = process.argv.slice(2);
+  const site = scraperSites.find(candidate => candidate.id === siteId);
+
+  if (!site || !listingFile) {
+    console.error('Usage: ts-node src/scripts/test-scraper.ts <site-id> <listing.html> [job.html]');
+    console.error(`Sites: ${scraperSites.map(candidate => candidate.id).join(', ')}`);
+    process.exit(1);
+  }
+
+  const scraper = new DeclarativeScraper(site);
+
+  // Listing page
+  const listing = scraper.extractListing(fs.readFileSync(listingFile, 'utf-8'), site.targetUrl);
+  console.log(`Found ${listing.cards.length} job cards`);
+  listing.cards.slice(0, 5).forEach((card, index) => {
+    console.log(`${index + 1}. ${card.url}`, card.fields);
+  });
+  if (listing.nextPageUrl) {
+    console.log(`Next page: ${listing.nextPageUrl}`);
+  }
+
+  // Job page, matched to the first card
+  const firstCard = listing.cards[0];
+  if (!firstCard) {
+    return;
+  }
+
+  const jobHtml = jobFile ? fs.readFileSync(jobFile, 'utf-8') : undefined;
+  const job = scraper.extractJob(firstCard.url, firstCard.fields, jobHtml);
+
+  console.log('\nFirst job:');
+  console.log(JSON.stringify({ ...job, description: job.description.slice(0, 200) }, null, 2));
+}
+
+try {
+  testScraper();
+} catch (error) {
+  console.error('Scraper test failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
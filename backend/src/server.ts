@@ -4,6 +4,8 @@
 import app from './app';
 import { logger } from './utils/logger';
 import { jobCollectionService } from './services/jobs/jobCollectionService';
+import { taskScheduler } from './services/scheduling/taskScheduler';
+import { registerScheduledTasks } from './services/scheduling/scheduledTasks';
 
 const PORT = process.env.PORT || 4000;
 
@@ -25,14 +27,26 @@ const server = app.listen(PORT, async () => {
       error: error instanceof Error ? error.message : String(error)
     });
   }
+
+  try {
+    // Start background tasks; only the leader instance runs them
+    registerScheduledTasks(taskScheduler);
+    await taskScheduler.start();
+  } catch (error) {
+    logger.error('Failed to start scheduled tasks', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
 });
 
 // Handle graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
-  server.close(() => {
-    logger.info('Server closed');
-    process.exit(0);
+  Promise.allSettled([jobCollectionService.stop(), taskScheduler.stop()]).finally(() => {
+    server.close(() => {
+      logger.info('Server closed');
+      process.exit(0);
+    });
   });
 });
 
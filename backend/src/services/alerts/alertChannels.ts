@@ -0,0 +1,106 @@
+/**
+ * Channels used to deliver saved search alerts to users
+ */
+import { prisma } from '../database/db.service';
+import { emailService } from '../email/emailService';
+import { searchAlertEmail } from '../email/alertEmails';
+import { logger } from '../../utils/logger';
+
+export interface AlertJob {
+  id: number;
+  title: string;
+  companyName: string | null;
+  municipality: string | null;
+  applicationDeadline: Date | null;
+}
+
+export interface AlertSearchMatches {
+  savedSearchId: number;
+  name: string;
+  jobs: AlertJob[];
+}
+
+/**
+ * A digest of new matches for one user, as handed to the channels
+ */
+export interface AlertMessage {
+  digestId: number;
+  userId: number;
+  email: string;
+  frequency: string;
+  searches: AlertSearchMatches[];
+  totalMatches: number;
+}
+
+export interface AlertChannel {
+  name: string;
+  deliver(message: AlertMessage): Promise<void>;
+}
+
+/**
+ * Sends the digest by email through the email service
+ */
+export class EmailAlertChannel implements AlertChannel {
+  public readonly name = 'email';
+
+  public async deliver(message: AlertMessage): Promise<void> {
+    await emailService.send(searchAlertEmail(message));
+  }
+}
+
+/**
+ * Stores the digest as a notification shown in the app
+ */
+export class InAppAlertChannel implements AlertChannel {
+  public readonly name = 'in_app';
+
+  public async deliver(message: AlertMessage): Promise<void> {
+    const names = message.searches.map(search => `"${search.name}"`).join(', ');
+
+    await prisma.notification.create({
+      data: {
+        userId: message.userId,
+        type: 'search_alert',
+        title: message.totalMatches === 1
+          ? '1 nytt jobb matchar dina bevakningar'
+          : `${message.totalMatches} nya jobb matchar dina bevakningar`,
+        body: `Nya träffar för ${names}`,
+        data: {
+          digestId: message.digestId,
+          searches: message.searches.map(search => ({
+            savedSearchId: search.savedSearchId,
+            name: search.name,
+            jobIds: search.jobs.map(job => job.id)
+          }))
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Keeps delivered messages in memory instead of delivering them. When used
+ * as outbox every channel delivers here, which lets tests and local
+ * development inspect what would have been sent.
+ */
+export class OutboxAlertChannel implements AlertChannel {
+  public readonly name = 'outbox';
+  public readonly messages: Array<AlertMessage & { channel: string; deliveredAt: Date }> = [];
+
+  /**
+   * Records a message as delivered on a channel
+   * @param message Alert message
+   * @param channel Channel the message was meant for
+   */
+  public async deliver(message: AlertMessage, channel = this.name): Promise<void> {
+    this.messages.push({ ...message, channel, deliveredAt: new Date() });
+    logger.info(`Search alert ${message.digestId} for user ${message.userId} put in the outbox (${channel})`);
+  }
+
+  /**
+   * Empties the outbox
+   */
+  public clear(): void {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Service for delivering saved search alerts through pluggable channels
+ *
+ * Email and in-app notifications are registered by default. A new channel,
+ * such as web push, is registered with registerChannel and added to
+ * ALERT_CHANNELS once it can deliver, so users cannot choose it before. Setting
+ * ALERT_TRANSPORT to 'outbox' (the default when NODE_ENV is 'test') sends
+ * every alert to a local outbox instead, see OutboxAlertChannel.
+ */
+import {
+  AlertChannel,
+  AlertMessage,
+  EmailAlertChannel,
+  InAppAlertChannel,
+  OutboxAlertChannel
+} from './alertChannels';
+import { logger } from '../../utils/logger';
+
+export const ALERT_CHANNELS = ['email', 'in_app'] as const;
+
+export type AlertChannelName = typeof ALERT_CHANNELS[number];
+
+export interface AlertDeliveryResult {
+  delivered: string[];
+  // Channel name to error message
+  failed: Map<string, string>;
+}
+
+class AlertDeliveryService {
+  private channels = new Map<string, AlertChannel>();
+  private outbox: OutboxAlertChannel | null = null;
+
+  constructor() {
+    this.registerChannel(new EmailAlertChannel());
+    this.registerChannel(new InAppAlertChannel());
+
+    const transport = process.env.ALERT_TRANSPORT
+      || (process.env.NODE_ENV === 'test' ? 'outbox' : 'channels');
+
+    if (transport === 'outbox') {
+      this.useOutbox();
+    }
+  }
+
+  /**
+   * Registers a channel, replacing any channel with the same name
+   * @param channel Alert channel
+   */
+  public registerChannel(channel: AlertChannel): void {
+    this.channels.set(channel.name, channel);
+  }
+
+  /**
+   * Sends all alerts to an outbox instead of the registered channels
+   * @param outbox Outbox to use, a new one by default
+   * @returns The outbox in use
+   */
+  public useOutbox(outbox = new OutboxAlertChannel()): OutboxAlertChannel {
+    this.outbox = outbox;
+    return outbox;
+  }
+
+  /**
+   * Goes back to delivering through the registered channels
+   */
+  public useChannels(): void {
+    this.outbox = null;
+  }
+
+  /**
+   * Delivers an alert on the given channels. A channel that is not
+   * registered counts as failed, so the digest is retried rather than
+   * marked as sent.
+   * @param message Alert message
+   * @param channelNames Channels chosen by the user
+   * @returns Channels the alert was delivered on and the channels that failed
+   */
+  public async deliver(message: AlertMessage, channelNames: string[]): Promise<AlertDeliveryResult> {
+    const delivered: string[] = [];
+    const failed = new Map<string, string>();
+
+    for (const name of channelNames) {
+      try {
+        if (this.outbox) {
+          await this.outbox.deliver(message, name);
+        } else {
+          const channel = this.channels.get(name);
+
+          if (!channel) {
+            throw new Error(`No alert channel registered for ${name}`);
+          }
+
+          await channel.deliver(message);
+        }
+
+        delivered.push(name);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+
+        logger.error(`Failed to deliver search alert ${message.digestId} on ${name}`, {
+          error: reason,
+          userId: message.userId
+        });
+        failed.set(name, reason);
+      }
+    }
+
+    return { delivered, failed };
+  }
+}
+
+// Create and export a singleton instance
+export const alertDeliveryService = new AlertDeliveryService();
@@ -0,0 +1,275 @@
+/**
+ * Matches newly collected jobs against saved searches and sends the new
+ * matches to their owners
+ *
+ * After every collection run the jobs created by the run are matched
+ * against the saved searches that have alerts turned on. Each match waits
+ * in saved_search_matches until it is picked up by a digest: immediately
+ * for instant alerts, otherwise by the daily or weekly scheduled job.
+ */
+import { prisma } from '../database/db.service';
+import { jobSearchService } from '../jobs/jobSearchService';
+import { savedSearchService } from './savedSearchService';
+import { alertDeliveryService } from './alertDeliveryService';
+import { AlertMessage, AlertSearchMatches } from './alertChannels';
+import { logger } from '../../utils/logger';
+
+// Failed digests are retried until they have been attempted this many times
+const MAX_DIGEST_ATTEMPTS = parseInt(process.env.ALERT_MAX_ATTEMPTS || '5');
+// New jobs matched per query, well below the Postgres bind parameter limit
+const MATCH_BATCH_SIZE = 1000;
+
+class SavedSearchAlertService {
+  /**
+   * Matches new jobs against every saved search with alerts turned on and
+   * sends instant alerts right away
+   * @param jobIds IDs of the jobs created by a collection run
+   * @returns Number of new matches
+   */
+  public async processNewJobs(jobIds: number[]): Promise<number> {
+    if (jobIds.length === 0) {
+      return 0;
+    }
+
+    const searches = await prisma.savedSearch.findMany({
+      where: { alertFrequency: { not: 'none' } }
+    });
+
+    let matchCount = 0;
+    const instantUserIds = new Set<number>();
+
+    for (const search of searches) {
+      try {
+        const filters = savedSearchService.getFilters(search);
+
+        // A large run, such as the first JobTech snapshot, is matched a batch at a time
+        for (let i = 0; i < jobIds.length; i += MATCH_BATCH_SIZE) {
+          const { where } = await jobSearchService.resolveWhere(filters, jobIds.slice(i, i + MATCH_BATCH_SIZE));
+          const jobs = await prisma.job.findMany({ where, select: { id: true } });
+
+          if (jobs.length === 0) {
+            continue;
+          }
+
+          const { count } = await prisma.savedSearchMatch.createMany({
+            data: jobs.map(job => ({ savedSearchId: search.id, jobId: job.id })),
+            skipDuplicates: true
+          });
+
+          matchCount += count;
+
+          if (count > 0 && search.alertFrequency === 'instant') {
+            instantUserIds.add(search.userId);
+          }
+        }
+      } catch (error) {
+        // A search that can no longer run, e.g. near a municipality that is
+        // gone, must not stop the other searches from matching
+        logger.error(`Failed to match new jobs against saved search ${search.id}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    logger.info(`Matched ${jobIds.length} new jobs against ${searches.length} saved searches: ${matchCount} new matches`);
+
+    if (instantUserIds.size > 0) {
+      await this.sendDigests('instant', [...instantUserIds]);
+    }
+
+    return matchCount;
+  }
+
+  /**
+   * Queues a digest per user of the matches waiting for the given alert
+   * frequency and delivers it
+   * @param frequency Alert frequency
+   * @param userIds Only send to these users
+   * @returns Number of digests delivered
+   */
+  public async sendDigests(frequency: string, userIds?: number[]): Promise<number> {
+    const pending = await prisma.savedSearchMatch.findMany({
+      where: {
+        digestId: null,
+        savedSearch: {
+          alertFrequency: frequency,
+          ...(userIds ? { userId: { in: userIds } } : {})
+        }
+      },
+      select: {
+        id: true,
+        savedSearch: { select: { userId: true, channels: true } }
+      }
+    });
+
+    // One digest per user and combination of channels, so that every
+    // search is only delivered on the channels its owner chose
+    const groups = new Map<string, { userId: number; channels: string[]; matchIds: number[] }>();
+
+    for (const match of pending) {
+      const channels = [...match.savedSearch.channels].sort();
+      const key = `${match.savedSearch.userId}:${channels.join(',')}`;
+
+      if (!groups.has(key)) {
+        groups.set(key, { userId: match.savedSearch.userId, channels, matchIds: [] });
+      }
+      groups.get(key)!.matchIds.push(match.id);
+    }
+
+    let sent = 0;
+
+    for (const group of groups.values()) {
+      const digestId = await prisma.$transaction(async (tx) => {
+        const digest = await tx.alertDigest.create({
+          data: { userId: group.userId, frequency, channels: group.channels }
+        });
+
+        // Matches taken by a concurrent run are left out
+        const { count } = await tx.savedSearchMatch.updateMany({
+          where: { id: { in: group.matchIds }, digestId: null },
+          data: { digestId: digest.id }
+        });
+
+        if (count === 0) {
+          await tx.alertDigest.delete({ where: { id: digest.id } });
+          return null;
+        }
+
+        return digest.id;
+      });
+
+      if (digestId !== null && await this.deliverDigest(digestId)) {
+        sent++;
+      }
+    }
+
+    logger.info(`Sent ${sent} of ${groups.size} ${frequency} search alert digests`);
+    return sent;
+  }
+
+  /**
+   * Retries the digests that could not be delivered on every channel
+   * @returns Number of digests delivered
+   */
+  public async retryFailedDigests(): Promise<number> {
+    const digests = await prisma.alertDigest.findMany({
+      where: { status: 'failed', attempts: { lt: MAX_DIGEST_ATTEMPTS } },
+      select: { id: true },
+      orderBy: { id: 'asc' }
+    });
+
+    let sent = 0;
+
+    for (const digest of digests) {
+      if (await this.deliverDigest(digest.id)) {
+        sent++;
+      }
+    }
+
+    if (digests.length > 0) {
+      logger.info(`Retried ${digests.length} failed search alert digests, ${sent} delivered`);
+    }
+
+    return sent;
+  }
+
+  /**
+   * Delivers a digest on its channels. Channels that fail are kept on the
+   * digest so that a retry only goes out on those.
+   * @param digestId Digest ID
+   * @returns Whether the digest was delivered on every channel
+   */
+  public async deliverDigest(digestId: number): Promise<boolean> {
+    const digest = await prisma.alertDigest.findUnique({
+      where: { id: digestId },
+      include: {
+        user: { select: { email: true } },
+        matches: {
+          include: {
+            savedSearch: { select: { id: true, name: true } },
+            job: {
+              select: {
+                id: true,
+                title: true,
+                applicationDeadline: true,
+                removedAt: true,
+                company: { select: { name: true } },
+                location: { select: { municipality: true } }
+              }
+            }
+          },
+          orderBy: [{ matchedAt: 'asc' }, { id: 'asc' }]
+        }
+      }
+    });
+
+    if (!digest) {
+      logger.warn(`Search alert digest ${digestId} not found`);
+      return false;
+    }
+
+    // Jobs removed at the source since they were matched are left out
+    const searches = new Map<number, AlertSearchMatches>();
+
+    for (const match of digest.matches) {
+      if (match.job.removedAt) {
+        continue;
+      }
+
+      if (!searches.has(match.savedSearch.id)) {
+        searches.set(match.savedSearch.id, {
+          savedSearchId: match.savedSearch.id,
+          name: match.savedSearch.name,
+          jobs: []
+        });
+      }
+
+      searches.get(match.savedSearch.id)!.jobs.push({
+        id: match.job.id,
+        title: match.job.title,
+        companyName: match.job.company.name,
+        municipality: match.job.location?.municipality ?? null,
+        applicationDeadline: match.job.applicationDeadline
+      });
+    }
+
+    const message: AlertMessage = {
+      digestId: digest.id,
+      userId: digest.userId,
+      email: digest.user.email,
+      frequency: digest.frequency,
+      searches: [...searches.values()],
+      totalMatches: [...searches.values()].reduce((sum, search) => sum + search.jobs.length, 0)
+    };
+
+    const { delivered, failed } = message.totalMatches > 0
+      ? await alertDeliveryService.deliver(message, digest.channels)
+      : { delivered: [], failed: new Map<string, string>() };
+
+    const now = new Date();
+
+    await prisma.alertDigest.update({
+      where: { id: digest.id },
+      data: failed.size === 0
+        ? { status: 'sent', sentAt: now, attempts: { increment: 1 }, lastError: null }
+        : {
+            status: 'failed',
+            attempts: { increment: 1 },
+            lastError: [...failed].map(([channel, error]) => `${channel}: ${error}`).join('; '),
+            channels: [...failed.keys()]
+          }
+    });
+
+    if (delivered.length > 0) {
+      await prisma.savedSearch.updateMany({
+        where: { id: { in: [...searches.keys()] } },
+        data: { lastNotifiedAt: now }
+      });
+    }
+
+    return failed.size === 0;
+  }
+}
+
+// Create and export a singleton instance
+export const savedSearchAlertService = new SavedSearchAlertService();
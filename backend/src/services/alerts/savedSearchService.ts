@@ -0,0 +1,241 @@
+/**
+ * Service for managing a user's saved job searches
+ */
+import createError from 'http-errors';
+import { Prisma, SavedSearch } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { jobSearchService, JobSearchFilters, JobSearchResult, JobSortOrder } from '../jobs/jobSearchService';
+
+export const ALERT_FREQUENCIES = ['none', 'instant', 'daily', 'weekly'] as const;
+
+export type AlertFrequency = typeof ALERT_FREQUENCIES[number];
+
+export interface SavedSearchInput {
+  name?: string;
+  filters?: JobSearchFilters;
+  alertFrequency?: AlertFrequency;
+  channels?: string[];
+}
+
+export interface SavedSearchRunOptions {
+  sort?: JobSortOrder;
+  cursor?: string;
+  limit: number;
+}
+
+// Upper bound on the number of searches a user can save
+const MAX_SAVED_SEARCHES = parseInt(process.env.SAVED_SEARCH_LIMIT || '25');
+
+const savedSearchInclude = {
+  _count: {
+    // New matches not yet sent in a digest
+    select: { matches: { where: { digestId: null } } }
+  }
+} satisfies Prisma.SavedSearchInclude;
+
+class SavedSearchService {
+  /**
+   * Lists the searches saved by a user, newest first
+   * @param userId User ID
+   * @returns Saved searches
+   */
+  public async listSavedSearches(userId: number) {
+    const searches = await prisma.savedSearch.findMany({
+      where: { userId },
+      include: savedSearchInclude,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    });
+
+    return searches.map(search => this.toResponse(search));
+  }
+
+  /**
+   * Gets one of a user's saved searches
+   * @param userId User ID
+   * @param id Saved search ID
+   * @returns Saved search
+   */
+  public async getSavedSearch(userId: number, id: number) {
+    const search = await prisma.savedSearch.findFirst({
+      where: { id, userId },
+      include: savedSearchInclude
+    });
+
+    if (!search) {
+      throw createError(404, 'Saved search not found');
+    }
+
+    return this.toResponse(search);
+  }
+
+  /**
+   * Saves a search
+   * @param userId User ID
+   * @param input Name, filters and alert settings
+   * @returns Created saved search
+   */
+  public async createSavedSearch(userId: number, input: SavedSearchInput) {
+    const count = await prisma.savedSearch.count({ where: { userId } });
+
+    if (count >= MAX_SAVED_SEARCHES) {
+      throw createError(409, `You can save at most ${MAX_SAVED_SEARCHES} searches`);
+    }
+
+    const { q, ...filters } = input.filters ?? {};
+
+    const search = await prisma.savedSearch.create({
+      data: {
+        userId,
+        name: input.name!,
+        query: q ?? null,
+        filters: filters as Prisma.InputJsonObject,
+        alertFrequency: input.alertFrequency,
+        channels: input.channels ? [...new Set(input.channels)] : undefined
+      },
+      include: savedSearchInclude
+    });
+
+    return this.toResponse(search);
+  }
+
+  /**
+   * Updates the name, filters or alert settings of a saved search. Turning
+   * alerts off drops the matches waiting for the next digest.
+   * @param userId User ID
+   * @param id Saved search ID
+   * @param input Fields to update
+   * @returns Updated saved search
+   */
+  public async updateSavedSearch(userId: number, id: number, input: SavedSearchInput) {
+    await this.getSavedSearch(userId, id);
+
+    const search = await prisma.$transaction(async (tx) => {
+      if (input.alertFrequency === 'none') {
+        await tx.savedSearchMatch.deleteMany({ where: { savedSearchId: id, digestId: null } });
+      }
+
+      return tx.savedSearch.update({
+        where: { id },
+        data: this.toData(input),
+        include: savedSearchInclude
+      });
+    });
+
+    return this.toResponse(search);
+  }
+
+  /**
+   * Deletes a saved search
+   * @param userId User ID
+   * @param id Saved search ID
+   */
+  public async deleteSavedSearch(userId: number, id: number): Promise<void> {
+    const { count } = await prisma.savedSearch.deleteMany({ where: { id, userId } });
+
+    if (count === 0) {
+      throw createError(404, 'Saved search not found');
+    }
+  }
+
+  /**
+   * Runs a saved search against the current jobs
+   * @param userId User ID
+   * @param id Saved search ID
+   * @param options Sort order and pagination
+   * @returns Page of jobs
+   */
+  public async runSavedSearch(userId: number, id: number, options: SavedSearchRunOptions): Promise<JobSearchResult> {
+    const search = await prisma.savedSearch.findFirst({ where: { id, userId } });
+
+    if (!search) {
+      throw createError(404, 'Saved search not found');
+    }
+
+    const filters = this.getFilters(search);
+
+    // Rank and distance ordering need a search string and a point, which the
+    // search endpoint checks when validating the query
+    if ((options.sort === 'rank' && !filters.q)
+      || (options.sort === 'distance' && filters.lat === undefined && !filters.near)) {
+      throw createError(400, `This saved search cannot be sorted by ${options.sort}`);
+    }
+
+    return jobSearchService.searchJobs({
+      ...filters,
+      ...options,
+      facets: false
+    });
+  }
+
+  /**
+   * Rebuilds the search filters of a saved search. Dates are stored as
+   * strings in the JSON column and are converted back.
+   * @param search Saved search
+   * @returns Search filters
+   */
+  public getFilters(search: Pick<SavedSearch, 'query' | 'filters'>): JobSearchFilters {
+    const stored = (search.filters ?? {}) as Record<string, unknown>;
+    const filters = { ...stored } as JobSearchFilters;
+
+    if (typeof stored.deadlineFrom === 'string') {
+      filters.deadlineFrom = new Date(stored.deadlineFrom);
+    }
+    if (typeof stored.deadlineTo === 'string') {
+      filters.deadlineTo = new Date(stored.deadlineTo);
+    }
+    if (search.query) {
+      filters.q = search.query;
+    }
+
+    return filters;
+  }
+
+  /**
+   * Converts input into column values, keeping the search string in its
+   * own column
+   * @param input Saved search input
+   * @returns Column values for the given fields
+   */
+  private toData(input: SavedSearchInput): Prisma.SavedSearchUpdateInput {
+    const data: Prisma.SavedSearchUpdateInput = {};
+
+    if (input.name !== undefined) {
+      data.name = input.name;
+    }
+    if (input.filters) {
+      const { q, ...filters } = input.filters;
+      data.query = q ?? null;
+      data.filters = filters as Prisma.InputJsonObject;
+    }
+    if (input.alertFrequency) {
+      data.alertFrequency = input.alertFrequency;
+    }
+    if (input.channels) {
+      data.channels = [...new Set(input.channels)];
+    }
+
+    return data;
+  }
+
+  /**
+   * Shapes a saved search for the API, with the search string folded back
+   * into the filters
+   * @param search Saved search with counts
+   * @returns Saved search as returned by the API
+   */
+  private toResponse(search: Prisma.SavedSearchGetPayload<{ include: typeof savedSearchInclude }>) {
+    const { _count, query, filters, userId, ...rest } = search;
+
+    return {
+      ...rest,
+      filters: {
+        ...(query ? { q: query } : {}),
+        ...(filters as Prisma.JsonObject)
+      },
+      pendingMatches: _count.matches
+    };
+  }
+}
+
+// Create and export a singleton instance
+export const savedSearchService = new SavedSearchService();
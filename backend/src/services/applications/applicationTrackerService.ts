@@ -0,0 +1,381 @@
+/**
+ * Service for the applications a student tracks: jobs they have applied to,
+ * moved through the stages of the application with notes, dates and
+ * reminders. Applied jobs are kept bookmarked, and the bookmark list shows
+ * the stage of each bookmarked job's application.
+ */
+import createError from 'http-errors';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { jobListInclude } from '../jobs/jobSearchService';
+import { getJobStatus } from '../bookmarks/bookmarkService';
+import { logger } from '../../utils/logger';
+
+export const APPLICATION_STAGES = ['applied', 'interview', 'offer', 'rejected'] as const;
+
+export type ApplicationStage = typeof APPLICATION_STAGES[number];
+
+export const APPLICATION_SORT_ORDERS = ['applied', 'updated', 'reminder'] as const;
+
+export type ApplicationSortOrder = typeof APPLICATION_SORT_ORDERS[number];
+
+export interface ApplicationFilters {
+  stage?: ApplicationStage[];
+  sort: ApplicationSortOrder;
+  limit: number;
+  offset: number;
+}
+
+export interface ApplicationInput {
+  stage?: ApplicationStage;
+  appliedAt?: Date;
+  interviewAt?: Date | null;
+  notes?: string | null;
+  remindAt?: Date | null;
+}
+
+export interface ApplicationStats {
+  total: number;
+  byStage: Record<ApplicationStage, number>;
+  appliedLast30Days: number;
+  upcomingInterviews: number;
+  // Shares of all applications, from 0 to 1
+  responseRate: number;
+  interviewRate: number;
+  offerRate: number;
+  // Days from applying to the first stage change, null before any response
+  averageDaysToResponse: number | null;
+}
+
+// Stage names shown in reminders
+const STAGE_LABELS: Record<ApplicationStage, string> = {
+  applied: 'Ansökt',
+  interview: 'Intervju',
+  offer: 'Erbjudande',
+  rejected: 'Avslag'
+};
+
+const applicationInclude = {
+  job: {
+    include: jobListInclude
+  }
+} satisfies Prisma.TrackedApplicationInclude;
+
+type ApplicationWithJob = Prisma.TrackedApplicationGetPayload<{ include: typeof applicationInclude }>;
+
+const SORT_ORDER_BY: Record<ApplicationSortOrder, Prisma.TrackedApplicationOrderByWithRelationInput[]> = {
+  applied: [{ appliedAt: 'desc' }, { id: 'desc' }],
+  updated: [{ stageChangedAt: 'desc' }, { id: 'desc' }],
+  reminder: [{ remindAt: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }]
+};
+
+// Reminders sent per query in a reminder run
+const REMINDER_BATCH_SIZE = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class ApplicationTrackerService {
+  /**
+   * Lists a user's tracked applications
+   * @param userId User ID
+   * @param filters Stage filter, sort order and pagination
+   * @returns Applications with job status and total count
+   */
+  public async list(userId: number, filters: ApplicationFilters) {
+    const where: Prisma.TrackedApplicationWhereInput = {
+      userId,
+      ...(filters.stage?.length ? { stage: { in: filters.stage } } : {})
+    };
+
+    const [applications, total] = await Promise.all([
+      prisma.trackedApplication.findMany({
+        where,
+        orderBy: SORT_ORDER_BY[filters.sort],
+        skip: filters.offset,
+        take: filters.limit,
+        include: applicationInclude
+      }),
+      prisma.trackedApplication.count({ where })
+    ]);
+
+    return {
+      applications: applications.map(application => this.withStatus(application)),
+      total
+    };
+  }
+
+  /**
+   * Gets a tracked application with its stage history
+   * @param userId User ID
+   * @param applicationId Application ID
+   * @returns Application with job status and stage changes, oldest first
+   */
+  public async get(userId: number, applicationId: number) {
+    const application = await prisma.trackedApplication.findFirst({
+      where: { id: applicationId, userId },
+      include: {
+        ...applicationInclude,
+        stageChanges: {
+          select: { fromStage: true, toStage: true, changedAt: true },
+          orderBy: [{ changedAt: 'asc' }, { id: 'asc' }]
+        }
+      }
+    });
+
+    if (!application) {
+      throw createError(404, 'Application not found');
+    }
+
+    return this.withStatus(application);
+  }
+
+  /**
+   * Marks a job as applied to. The job is bookmarked if it isn't already,
+   * and its bookmark is linked to the application.
+   * @param userId User ID
+   * @param jobId Job ID
+   * @param input Stage, dates, notes and reminder
+   * @returns Created application
+   */
+  public async track(userId: number, jobId: number, input: ApplicationInput = {}) {
+    const job = await prisma.job.findUnique({ where: { id: jobId }, select: { id: true } });
+    if (!job) {
+      throw createError(404, 'Job not found');
+    }
+
+    const stage = input.stage ?? 'applied';
+    const appliedAt = input.appliedAt ?? new Date();
+
+    try {
+      const application = await prisma.$transaction(async tx => {
+        const bookmark = await tx.bookmark.upsert({
+          where: { userId_jobId: { userId, jobId } },
+          create: { userId, jobId },
+          update: {},
+          select: { id: true }
+        });
+
+        return tx.trackedApplication.create({
+          data: {
+            userId,
+            jobId,
+            bookmarkId: bookmark.id,
+            stage,
+            appliedAt,
+            stageChangedAt: appliedAt,
+            interviewAt: input.interviewAt,
+            notes: input.notes,
+            remindAt: input.remindAt,
+            stageChanges: {
+              create: { fromStage: null, toStage: stage, changedAt: appliedAt }
+            }
+          },
+          include: applicationInclude
+        });
+      });
+
+      return this.withStatus(application);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw createError(409, 'Job is already tracked as an application');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a tracked application. Moving it to another stage is recorded
+   * in its stage history; setting a new reminder time re-arms the reminder.
+   * @param userId User ID
+   * @param applicationId Application ID
+   * @param input Fields to update
+   * @returns Updated application
+   */
+  public async update(userId: number, applicationId: number, input: ApplicationInput) {
+    const existing = await prisma.trackedApplication.findFirst({
+      where: { id: applicationId, userId },
+      select: { stage: true }
+    });
+
+    if (!existing) {
+      throw createError(404, 'Application not found');
+    }
+
+    const now = new Date();
+    const stageChanged = input.stage !== undefined && input.stage !== existing.stage;
+
+    const application = await prisma.trackedApplication.update({
+      where: { id: applicationId },
+      data: {
+        appliedAt: input.appliedAt,
+        interviewAt: input.interviewAt,
+        notes: input.notes,
+        ...(input.remindAt !== undefined ? { remindAt: input.remindAt, reminderSentAt: null } : {}),
+        ...(stageChanged
+          ? {
+            stage: input.stage,
+            stageChangedAt: now,
+            stageChanges: {
+              create: { fromStage: existing.stage, toStage: input.stage!, changedAt: now }
+            }
+          }
+          : {})
+      },
+      include: applicationInclude
+    });
+
+    return this.withStatus(application);
+  }
+
+  /**
+   * Stops tracking an application. The job's bookmark is kept.
+   * @param userId User ID
+   * @param applicationId Application ID
+   */
+  public async remove(userId: number, applicationId: number): Promise<void> {
+    const { count } = await prisma.trackedApplication.deleteMany({
+      where: { id: applicationId, userId }
+    });
+
+    if (count === 0) {
+      throw createError(404, 'Application not found');
+    }
+  }
+
+  /**
+   * Summarizes a user's applications: how many are in each stage, and how
+   * many got a response, an interview or an offer
+   * @param userId User ID
+   * @returns Application stats
+   */
+  public async getStats(userId: number): Promise<ApplicationStats> {
+    const applications = await prisma.trackedApplication.findMany({
+      where: { userId },
+      select: {
+        stage: true,
+        appliedAt: true,
+        interviewAt: true,
+        stageChanges: {
+          select: { fromStage: true, toStage: true, changedAt: true },
+          orderBy: [{ changedAt: 'asc' }, { id: 'asc' }]
+        }
+      }
+    });
+
+    const now = new Date();
+    const byStage = Object.fromEntries(APPLICATION_STAGES.map(stage => [stage, 0])) as Record<ApplicationStage, number>;
+    let appliedLast30Days = 0;
+    let upcomingInterviews = 0;
+    let responded = 0;
+    let interviewed = 0;
+    let offered = 0;
+    let daysToResponse = 0;
+
+    for (const application of applications) {
+      byStage[application.stage as ApplicationStage]++;
+
+      if (now.getTime() - application.appliedAt.getTime() <= 30 * DAY_MS) {
+        appliedLast30Days++;
+      }
+      if (application.interviewAt && application.interviewAt > now) {
+        upcomingInterviews++;
+      }
+
+      // Stages reached, including those the application has since moved on from
+      const reached = new Set([application.stage, ...application.stageChanges.map(change => change.toStage)]);
+      if (reached.has('interview') || reached.has('offer')) {
+        interviewed++;
+      }
+      if (reached.has('offer')) {
+        offered++;
+      }
+
+      const response = application.stageChanges.find(change => change.fromStage !== null);
+      if (response) {
+        responded++;
+        daysToResponse += Math.max(0, response.changedAt.getTime() - application.appliedAt.getTime()) / DAY_MS;
+      }
+    }
+
+    const total = applications.length;
+    const share = (count: number) => total > 0 ? Math.round((count / total) * 100) / 100 : 0;
+
+    return {
+      total,
+      byStage,
+      appliedLast30Days,
+      upcomingInterviews,
+      responseRate: share(responded),
+      interviewRate: share(interviewed),
+      offerRate: share(offered),
+      averageDaysToResponse: responded > 0 ? Math.round((daysToResponse / responded) * 10) / 10 : null
+    };
+  }
+
+  /**
+   * Sends the reminders that are due as notifications
+   * @returns Number of reminders sent
+   */
+  public async sendReminders(): Promise<number> {
+    let sent = 0;
+
+    while (true) {
+      const due = await prisma.trackedApplication.findMany({
+        where: { remindAt: { lte: new Date() }, reminderSentAt: null },
+        orderBy: { remindAt: 'asc' },
+        take: REMINDER_BATCH_SIZE,
+        select: {
+          id: true,
+          userId: true,
+          jobId: true,
+          stage: true,
+          notes: true,
+          job: { select: { title: true, company: { select: { name: true } } } }
+        }
+      });
+
+      if (due.length === 0) {
+        break;
+      }
+
+      await prisma.$transaction([
+        prisma.notification.createMany({
+          data: due.map(application => ({
+            userId: application.userId,
+            type: 'application_reminder',
+            title: `Påminnelse: ${application.job.title} hos ${application.job.company.name}`,
+            body: application.notes || `Status: ${STAGE_LABELS[application.stage as ApplicationStage]}`,
+            data: { applicationId: application.id, jobId: application.jobId }
+          }))
+        }),
+        prisma.trackedApplication.updateMany({
+          where: { id: { in: due.map(application => application.id) } },
+          data: { reminderSentAt: new Date() }
+        })
+      ]);
+
+      sent += due.length;
+    }
+
+    if (sent > 0) {
+      logger.info(`Sent ${sent} application reminders`);
+    }
+
+    return sent;
+  }
+
+  /**
+   * Adds the job status to an application
+   * @param application Application with job
+   * @returns Application with job status
+   */
+  private withStatus<T extends ApplicationWithJob>(application: T) {
+    return {
+      ...application,
+      jobStatus: getJobStatus(application.job)
+    };
+  }
+}
+
+// Create and export a singleton instance
+export const applicationTrackerService = new ApplicationTrackerService();
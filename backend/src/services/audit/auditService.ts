@@ -0,0 +1,78 @@
+/**
+ * Service for recording and reading the audit log
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { logger } from '../../utils/logger';
+
+export interface AuditEntry {
+  actorId?: number | null;
+  action: string;
+  entityType: string;
+  entityId: string | number;
+  details?: Prisma.InputJsonValue;
+}
+
+export interface AuditLogFilters {
+  actorId?: number;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  limit: number;
+  offset: number;
+}
+
+class AuditService {
+  /**
+   * Records an audit log entry
+   * @param entry Audit entry
+   * @param tx Transaction to record the entry in, so that it is only kept if the change is
+   */
+  public async record(entry: AuditEntry, tx: Prisma.TransactionClient = prisma): Promise<void> {
+    await tx.auditLog.create({
+      data: {
+        actorId: entry.actorId ?? null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: String(entry.entityId),
+        details: entry.details
+      }
+    });
+
+    logger.info(`Audit: ${entry.action} on ${entry.entityType} ${entry.entityId}`, {
+      actorId: entry.actorId ?? null
+    });
+  }
+
+  /**
+   * Lists audit log entries, newest first
+   * @param filters Filters and pagination
+   * @returns Entries and total count
+   */
+  public async list(filters: AuditLogFilters) {
+    const where: Prisma.AuditLogWhereInput = {
+      ...(filters.actorId !== undefined ? { actorId: filters.actorId } : {}),
+      ...(filters.action ? { action: filters.action } : {}),
+      ...(filters.entityType ? { entityType: filters.entityType } : {}),
+      ...(filters.entityId ? { entityId: filters.entityId } : {})
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: filters.offset,
+        take: filters.limit,
+        include: {
+          actor: { select: { id: true, email: true } }
+        }
+      }),
+      prisma.auditLog.count({ where })
+    ]);
+
+    return { entries, total };
+  }
+}
+
+// Create and export a singleton instance
+export const auditService = new AuditService();
@@ -0,0 +1,316 @@
+/**
+ * Service for registration, login, email verification and password reset
+ */
+import bcrypt from 'bcrypt';
+import createError from 'http-errors';
+import { Prisma, User } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { tokenService, TokenPair, ClientInfo } from './tokenService';
+import { roleService } from './roleService';
+import { Role, isRole } from './permissions';
+import { auditService } from '../audit/auditService';
+import { emailService } from '../email/emailService';
+import { EmailMessage } from '../email/emailTransports';
+import { verificationEmail, passwordResetEmail } from '../email/authEmails';
+import { logger } from '../../utils/logger';
+
+const BCRYPT_SALT_ROUNDS = parseInt(process.env.BCRYPT_SALT_ROUNDS || '10');
+
+// Validity of the links sent by email
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+export interface RegisterInput {
+  email: string;
+  password: string;
+  firstName?: string;
+  lastName?: string;
+  role?: Role;
+}
+
+export interface PublicUser {
+  id: number;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  emailVerified: boolean;
+  roles: Role[];
+  createdAt: Date;
+  lastLoginAt: Date | null;
+}
+
+export interface LoginResult extends TokenPair {
+  user: PublicUser;
+}
+
+type UserWithRoles = User & { roles: Array<{ role: string }> };
+
+const withRoles = {
+  roles: { select: { role: true } }
+} satisfies Prisma.UserInclude;
+
+/**
+ * Strips credentials and tokens from a user
+ * @param user User entity with roles
+ * @returns User safe to return to clients
+ */
+export function toPublicUser(user: UserWithRoles): PublicUser {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    emailVerified: user.emailVerifiedAt !== null,
+    roles: user.roles.map(userRole => userRole.role).filter(isRole),
+    createdAt: user.createdAt,
+    lastLoginAt: user.lastLoginAt
+  };
+}
+
+class AuthService {
+  /**
+   * Registers a new user and sends a verification email
+   * @param input Registration details, with the role defaulting to student
+   * @returns Created user
+   */
+  public async register(input: RegisterInput): Promise<PublicUser> {
+    const email = input.email.toLowerCase();
+    const role = input.role || 'student';
+    const passwordHash = await bcrypt.hash(input.password, BCRYPT_SALT_ROUNDS);
+    const verification = tokenService.createOneTimeToken();
+
+    let user: UserWithRoles;
+    try {
+      user = await prisma.$transaction(async tx => {
+        const created = await tx.user.create({
+          data: {
+            email,
+            passwordHash,
+            firstName: input.firstName,
+            lastName: input.lastName,
+            verificationToken: verification.hash,
+            verificationTokenExpiresAt: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS),
+            roles: { create: { role } }
+          },
+          include: withRoles
+        });
+
+        await auditService.record({
+          actorId: created.id,
+          action: 'role.grant',
+          entityType: 'user',
+          entityId: created.id,
+          details: { role, reason: 'Registration' }
+        }, tx);
+
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw createError(409, 'Email is already registered');
+      }
+      throw error;
+    }
+
+    logger.info(`Registered user ${user.id}`);
+
+    // The account is usable even if the email fails, it can be resent later
+    await this.sendEmail(verificationEmail(email, verification.token));
+
+    return toPublicUser(user);
+  }
+
+  /**
+   * Logs a user in with email and password
+   * @param email Email address
+   * @param password Password
+   * @param client Client information
+   * @returns User and token pair
+   */
+  public async login(email: string, password: string, client: ClientInfo = {}): Promise<LoginResult> {
+    const user = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
+
+    if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+      throw createError(401, 'Invalid email or password');
+    }
+
+    if (!user.isActive) {
+      throw createError(403, 'Account is disabled');
+    }
+
+    await roleService.ensureBootstrapAdmin(user);
+
+    const updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+      include: withRoles
+    });
+
+    const tokens = await tokenService.issueTokens({ id: user.id, email: user.email }, client);
+
+    return {
+      user: toPublicUser(updatedUser),
+      ...tokens
+    };
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair
+   * @param refreshToken Refresh token
+   * @param client Client information
+   * @returns Token pair
+   */
+  public async refresh(refreshToken: string, client: ClientInfo = {}): Promise<TokenPair> {
+    return tokenService.rotateRefreshToken(refreshToken, client);
+  }
+
+  /**
+   * Logs out the session a refresh token belongs to
+   * @param refreshToken Refresh token
+   */
+  public async logout(refreshToken: string): Promise<void> {
+    await tokenService.revokeRefreshToken(refreshToken);
+  }
+
+  /**
+   * Marks the email address of the user holding a verification token as verified
+   * @param token Verification token from the email
+   * @returns Verified user
+   */
+  public async verifyEmail(token: string): Promise<PublicUser> {
+    const user = await prisma.user.findUnique({
+      where: { verificationToken: tokenService.hashToken(token) }
+    });
+
+    if (!user || !user.verificationTokenExpiresAt || user.verificationTokenExpiresAt <= new Date()) {
+      throw createError(400, 'Invalid or expired verification token');
+    }
+
+    const verifiedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        emailVerifiedAt: new Date(),
+        verificationToken: null,
+        verificationTokenExpiresAt: null
+      },
+      include: withRoles
+    });
+
+    return toPublicUser(verifiedUser);
+  }
+
+  /**
+   * Sends a new verification email, invalidating the previous link
+   * @param userId User ID
+   */
+  public async resendVerification(userId: number): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw createError(404, 'User not found');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw createError(400, 'Email is already verified');
+    }
+
+    const verification = tokenService.createOneTimeToken();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        verificationToken: verification.hash,
+        verificationTokenExpiresAt: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS)
+      }
+    });
+
+    await this.sendEmail(verificationEmail(user.email, verification.token));
+  }
+
+  /**
+   * Sends a password reset email. Unknown addresses are ignored silently so
+   * that the endpoint cannot be used to find registered emails.
+   * @param email Email address
+   */
+  public async requestPasswordReset(email: string): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
+
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    const reset = tokenService.createOneTimeToken();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        passwordResetToken: reset.hash,
+        passwordResetExpiresAt: new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS)
+      }
+    });
+
+    await this.sendEmail(passwordResetEmail(user.email, reset.token));
+  }
+
+  /**
+   * Sets a new password using a reset token and ends all sessions
+   * @param token Password reset token from the email
+   * @param password New password
+   */
+  public async resetPassword(token: string, password: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { passwordResetToken: tokenService.hashToken(token) }
+    });
+
+    if (!user || !user.passwordResetExpiresAt || user.passwordResetExpiresAt <= new Date()) {
+      throw createError(400, 'Invalid or expired password reset token');
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        passwordHash: await bcrypt.hash(password, BCRYPT_SALT_ROUNDS),
+        passwordResetToken: null,
+        passwordResetExpiresAt: null,
+        // The reset link proves ownership of the address
+        emailVerifiedAt: user.emailVerifiedAt ?? new Date()
+      }
+    });
+
+    await tokenService.revokeAllForUser(user.id);
+
+    logger.info(`Password reset for user ${user.id}`);
+  }
+
+  /**
+   * Gets a user by ID
+   * @param userId User ID
+   * @returns User
+   */
+  public async getUser(userId: number): Promise<PublicUser> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, include: withRoles });
+
+    if (!user) {
+      throw createError(404, 'User not found');
+    }
+
+    return toPublicUser(user);
+  }
+
+  /**
+   * Sends an email, logging failures instead of failing the request
+   * @param message Email message
+   */
+  private async sendEmail(message: EmailMessage): Promise<void> {
+    try {
+      await emailService.send(message);
+    } catch (error) {
+      logger.error('Failed to send authentication email', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const authService = new AuthService();
@@ -0,0 +1,55 @@
+/**
+ * Roles and the permissions they grant
+ */
+
+export const ROLES = ['student', 'employer', 'moderator', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+// Roles users may pick themselves when registering
+export const SELF_ASSIGNABLE_ROLES: Role[] = ['student', 'employer'];
+
+export const PERMISSIONS = [
+  // Own bookmarks, saved searches and applications
+  'profile:manage',
+  // Employer job postings and received applications
+  'jobs:post',
+  // Hide or restore jobs and review reported content
+  'jobs:moderate',
+  // Job collection
+  'collection:view',
+  'collection:run',
+  // GDPR requests from other users
+  'gdpr:handle',
+  // Merging duplicate companies and managing their aliases
+  'companies:manage',
+  // Granting and revoking roles, reading the audit log
+  'roles:manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  student: ['profile:manage'],
+  employer: ['profile:manage', 'jobs:post'],
+  moderator: ['profile:manage', 'jobs:moderate', 'collection:view'],
+  admin: [...PERMISSIONS]
+};
+
+/**
+ * Collects the permissions granted by a set of roles
+ * @param roles Roles
+ * @returns Permissions
+ */
+export function getPermissions(roles: Role[]): Set<Permission> {
+  return new Set(roles.flatMap(role => ROLE_PERMISSIONS[role] || []));
+}
+
+/**
+ * Checks that a string is a known role
+ * @param role Role name
+ * @returns True if the role exists
+ */
+export function isRole(role: string): role is Role {
+  return (ROLES as readonly string[]).includes(role);
+}
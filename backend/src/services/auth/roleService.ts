@@ -0,0 +1,151 @@
+/**
+ * Service for reading, granting and revoking user roles
+ *
+ * Every role change is written to the audit log in the same transaction as
+ * the change itself.
+ */
+import createError from 'http-errors';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { auditService } from '../audit/auditService';
+import { Role, isRole } from './permissions';
+import { logger } from '../../utils/logger';
+
+// Users with these emails are made admins when they log in with a verified
+// address, so that the first admin can be created without database access
+const BOOTSTRAP_ADMIN_EMAILS = (process.env.ADMIN_EMAILS || '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
+class RoleService {
+  /**
+   * Gets the roles of a user
+   * @param userId User ID
+   * @returns Roles
+   */
+  public async getRoles(userId: number): Promise<Role[]> {
+    const roles = await prisma.userRole.findMany({
+      where: { userId },
+      select: { role: true }
+    });
+
+    // Roles removed from the code are ignored rather than failing requests
+    return roles.map(userRole => userRole.role).filter(isRole);
+  }
+
+  /**
+   * Grants a role to a user
+   * @param userId User receiving the role
+   * @param role Role
+   * @param actorId User granting the role, null for the system
+   * @param reason Optional reason stored in the audit log
+   * @returns Roles of the user after the change
+   */
+  public async grantRole(userId: number, role: Role, actorId: number | null, reason?: string): Promise<Role[]> {
+    await this.ensureUserExists(userId);
+
+    await prisma.$transaction(async tx => {
+      const existing = await tx.userRole.findUnique({
+        where: { userId_role: { userId, role } }
+      });
+
+      if (existing) {
+        throw createError(409, `User already has the role ${role}`);
+      }
+
+      await tx.userRole.create({
+        data: { userId, role, grantedById: actorId }
+      });
+
+      await auditService.record({
+        actorId,
+        action: 'role.grant',
+        entityType: 'user',
+        entityId: userId,
+        details: { role, ...(reason ? { reason } : {}) }
+      }, tx);
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    return this.getRoles(userId);
+  }
+
+  /**
+   * Revokes a role from a user. The last admin cannot be revoked.
+   * @param userId User losing the role
+   * @param role Role
+   * @param actorId User revoking the role
+   * @param reason Optional reason stored in the audit log
+   * @returns Roles of the user after the change
+   */
+  public async revokeRole(userId: number, role: Role, actorId: number | null, reason?: string): Promise<Role[]> {
+    await this.ensureUserExists(userId);
+
+    await prisma.$transaction(async tx => {
+      const existing = await tx.userRole.findUnique({
+        where: { userId_role: { userId, role } }
+      });
+
+      if (!existing) {
+        throw createError(404, `User does not have the role ${role}`);
+      }
+
+      if (role === 'admin' && await tx.userRole.count({ where: { role: 'admin' } }) <= 1) {
+        throw createError(409, 'Cannot revoke the last admin');
+      }
+
+      await tx.userRole.delete({ where: { id: existing.id } });
+
+      await auditService.record({
+        actorId,
+        action: 'role.revoke',
+        entityType: 'user',
+        entityId: userId,
+        details: { role, ...(reason ? { reason } : {}) }
+      }, tx);
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    return this.getRoles(userId);
+  }
+
+  /**
+   * Grants the admin role to a user listed in ADMIN_EMAILS who is not yet an
+   * admin. The address must be verified, or anyone could register it first
+   * and be made admin.
+   * @param user User ID, email address and when it was verified
+   */
+  public async ensureBootstrapAdmin(user: { id: number; email: string; emailVerifiedAt: Date | null }): Promise<void> {
+    if (!user.emailVerifiedAt || !BOOTSTRAP_ADMIN_EMAILS.includes(user.email.toLowerCase())) {
+      return;
+    }
+
+    const roles = await this.getRoles(user.id);
+    if (roles.includes('admin')) {
+      return;
+    }
+
+    try {
+      await this.grantRole(user.id, 'admin', null, 'Listed in ADMIN_EMAILS');
+      logger.info(`Granted admin role to bootstrap admin ${user.id}`);
+    } catch (error) {
+      logger.error(`Failed to grant admin role to bootstrap admin ${user.id}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Throws a 404 error if a user does not exist
+   * @param userId User ID
+   */
+  private async ensureUserExists(userId: number): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+
+    if (!user) {
+      throw createError(404, 'User not found');
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const roleService = new RoleService();
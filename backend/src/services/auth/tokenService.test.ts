@@ -0,0 +1,112 @@
+import { tokenService } from './tokenService';
+
+interface StoredToken {
+  id: string;
+  userId: number;
+  familyId: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  replacedById: string | null;
+}
+
+// In-memory refresh_tokens table
+const tokens = new Map<string, StoredToken>();
+
+jest.mock('../database/db.service', () => {
+  const matches = (token: StoredToken, where: Partial<StoredToken>) =>
+    Object.entries(where).every(([key, value]) => token[key as keyof StoredToken] === value);
+
+  return {
+    prisma: {
+      refreshToken: {
+        create: jest.fn(async ({ data }) => {
+          tokens.set(data.id, { revokedAt: null, replacedById: null, ...data });
+        }),
+        findUnique: jest.fn(async ({ where }) => {
+          const token = tokens.get(where.id);
+          return token ? { ...token, user: { id: token.userId, email: 'student@example.se', isActive: true } } : null;
+        }),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const matched = [...tokens.values()].filter(token => matches(token, where));
+          matched.forEach(token => Object.assign(token, data));
+          return { count: matched.length };
+        })
+      }
+    }
+  };
+});
+
+const user = { id: 12, email: 'student@example.se' };
+
+describe('TokenService refresh token rotation', () => {
+  beforeEach(() => {
+    tokens.clear();
+  });
+
+  it('replaces the presented refresh token with a new one in the same family', async () => {
+    const issued = await tokenService.issueTokens(user);
+
+    const rotated = await tokenService.rotateRefreshToken(issued.refreshToken);
+
+    expect(rotated.refreshToken).not.toBe(issued.refreshToken);
+    expect(tokenService.verifyAccessToken(rotated.accessToken)).toEqual(user);
+
+    const [original, replacement] = [...tokens.values()];
+    expect(original.revokedAt).toBeInstanceOf(Date);
+    expect(original.replacedById).toBe(replacement.id);
+    expect(replacement).toMatchObject({ familyId: original.familyId, revokedAt: null });
+  });
+
+  it('revokes the whole family when a rotated token is used again', async () => {
+    const issued = await tokenService.issueTokens(user);
+    const rotated = await tokenService.rotateRefreshToken(issued.refreshToken);
+
+    await expect(tokenService.rotateRefreshToken(issued.refreshToken))
+      .rejects.toMatchObject({ status: 401, message: 'Refresh token has been revoked' });
+
+    // The token handed out by the legitimate rotation no longer works either
+    await expect(tokenService.rotateRefreshToken(rotated.refreshToken)).rejects.toMatchObject({ status: 401 });
+    expect([...tokens.values()].every(token => token.revokedAt !== null)).toBe(true);
+  });
+
+  it('leaves other sessions of the user alone', async () => {
+    const reused = await tokenService.issueTokens(user);
+    const other = await tokenService.issueTokens(user);
+    await tokenService.rotateRefreshToken(reused.refreshToken);
+
+    await expect(tokenService.rotateRefreshToken(reused.refreshToken)).rejects.toMatchObject({ status: 401 });
+
+    await expect(tokenService.rotateRefreshToken(other.refreshToken)).resolves.toHaveProperty('accessToken');
+  });
+
+  it('does not accept a refresh token as an access token or the other way round', async () => {
+    const issued = await tokenService.issueTokens(user);
+
+    expect(() => tokenService.verifyAccessToken(issued.refreshToken)).toThrow('Invalid token');
+    await expect(tokenService.rotateRefreshToken(issued.accessToken)).rejects.toMatchObject({ status: 401 });
+  });
+});
+
+describe('JWT_SECRET', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('is required outside development and test', () => {
+    process.env = { ...env, NODE_ENV: 'production', JWT_SECRET: '' };
+
+    jest.isolateModules(() => {
+      expect(() => require('./tokenService')).toThrow('JWT_SECRET must be set outside development and test');
+    });
+  });
+
+  it('falls back to a development secret in test', () => {
+    process.env = { ...env, NODE_ENV: 'test', JWT_SECRET: '' };
+
+    jest.isolateModules(() => {
+      expect(() => require('./tokenService')).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Service for issuing and verifying access and refresh tokens
+ *
+ * Access tokens are short-lived JWTs that are never stored. Refresh tokens
+ * are JWTs whose ID refers to a row in refresh_tokens, so that they can be
+ * rotated and revoked. Every refresh token belongs to a family started at
+ * login; presenting a token that has already been replaced revokes the
+ * whole family, since it means the token has been stolen or leaked.
+ */
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import createError from 'http-errors';
+import { prisma } from '../database/db.service';
+import { AuthUser } from '../../types/express';
+import { logger } from '../../utils/logger';
+
+const JWT_SECRET = readJwtSecret();
+const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || JWT_SECRET;
+const JWT_EXPIRATION = (process.env.JWT_EXPIRATION || '15m') as SignOptions['expiresIn'];
+const JWT_REFRESH_EXPIRATION = (process.env.JWT_REFRESH_EXPIRATION || '7d') as SignOptions['expiresIn'];
+
+/**
+ * Reads the secret tokens are signed with. Only development and test fall
+ * back to a fixed secret, since tokens signed with a known secret can be
+ * forged; anywhere else the server refuses to start without one.
+ */
+function readJwtSecret(): string {
+  if (process.env.JWT_SECRET) {
+    return process.env.JWT_SECRET;
+  }
+  if (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test') {
+    return 'development_jwt_secret';
+  }
+  throw new Error('JWT_SECRET must be set outside development and test');
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  // Lifetime of the access token in seconds
+  expiresIn: number;
+}
+
+export interface ClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+interface AccessTokenPayload extends jwt.JwtPayload {
+  type: 'access';
+  email: string;
+}
+
+interface RefreshTokenPayload extends jwt.JwtPayload {
+  type: 'refresh';
+}
+
+class TokenService {
+  /**
+   * Issues a new access token and a refresh token in a new family
+   * @param user Authenticated user
+   * @param client Client information stored with the refresh token
+   * @returns Token pair
+   */
+  public async issueTokens(user: AuthUser, client: ClientInfo = {}): Promise<TokenPair> {
+    const refreshToken = await this.createRefreshToken(user.id, crypto.randomUUID(), client);
+    return this.buildPair(user, refreshToken.token);
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair. The presented token is
+   * revoked and replaced by the new refresh token.
+   * @param token Refresh token
+   * @param client Client information stored with the new refresh token
+   * @returns Token pair
+   */
+  public async rotateRefreshToken(token: string, client: ClientInfo = {}): Promise<TokenPair> {
+    const payload = this.verify<RefreshTokenPayload>(token, JWT_REFRESH_SECRET, 'refresh');
+
+    const stored = await prisma.refreshToken.findUnique({
+      where: { id: payload.jti },
+      include: { user: { select: { id: true, email: true, isActive: true } } }
+    });
+
+    if (!stored) {
+      throw createError(401, 'Invalid refresh token');
+    }
+
+    if (stored.revokedAt) {
+      if (stored.replacedById) {
+        logger.warn(`Refresh token reuse detected for user ${stored.userId}, revoking token family`);
+        await this.revokeFamily(stored.familyId);
+      }
+      throw createError(401, 'Refresh token has been revoked');
+    }
+
+    if (stored.expiresAt <= new Date() || !stored.user.isActive) {
+      throw createError(401, 'Invalid refresh token');
+    }
+
+    const replacement = await this.createRefreshToken(stored.userId, stored.familyId, client);
+
+    // Only one request may rotate a token, a concurrent rotation is treated as reuse
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { id: stored.id, revokedAt: null },
+      data: { revokedAt: new Date(), replacedById: replacement.id }
+    });
+
+    if (count === 0) {
+      await this.revokeFamily(stored.familyId);
+      throw createError(401, 'Refresh token has been revoked');
+    }
+
+    return this.buildPair({ id: stored.user.id, email: stored.user.email }, replacement.token);
+  }
+
+  /**
+   * Revokes the family of a refresh token, ending that session
+   * @param token Refresh token
+   */
+  public async revokeRefreshToken(token: string): Promise<void> {
+    const payload = this.verify<RefreshTokenPayload>(token, JWT_REFRESH_SECRET, 'refresh');
+
+    const stored = await prisma.refreshToken.findUnique({ where: { id: payload.jti } });
+
+    if (stored) {
+      await this.revokeFamily(stored.familyId);
+    }
+  }
+
+  /**
+   * Revokes all refresh tokens of a user, ending every session
+   * @param userId User ID
+   */
+  public async revokeAllForUser(userId: number): Promise<void> {
+    await prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+  }
+
+  /**
+   * Verifies an access token
+   * @param token Access token
+   * @returns User the token was issued to
+   */
+  public verifyAccessToken(token: string): AuthUser {
+    const payload = this.verify<AccessTokenPayload>(token, JWT_SECRET, 'access');
+
+    return {
+      id: Number(payload.sub),
+      email: payload.email
+    };
+  }
+
+  /**
+   * Creates a random token for email links. Only the hash is stored.
+   * @returns Token and its hash
+   */
+  public createOneTimeToken(): { token: string; hash: string } {
+    const token = crypto.randomBytes(32).toString('base64url');
+    return { token, hash: this.hashToken(token) };
+  }
+
+  /**
+   * Hashes a one-time token for storage and lookup
+   * @param token Token
+   * @returns SHA-256 hash
+   */
+  public hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Signs a refresh token and stores it
+   * @param userId User ID
+   * @param familyId Token family
+   * @param client Client information
+   * @returns Token ID and signed token
+   */
+  private async createRefreshToken(
+    userId: number,
+    familyId: string,
+    client: ClientInfo
+  ): Promise<{ id: string; token: string }> {
+    const id = crypto.randomUUID();
+    const token = jwt.sign({ type: 'refresh' }, JWT_REFRESH_SECRET, {
+      subject: String(userId),
+      jwtid: id,
+      expiresIn: JWT_REFRESH_EXPIRATION
+    });
+    const { exp } = jwt.decode(token) as jwt.JwtPayload;
+
+    await prisma.refreshToken.create({
+      data: {
+        id,
+        userId,
+        familyId,
+        expiresAt: new Date(exp! * 1000),
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent?.substring(0, 500)
+      }
+    });
+
+    return { id, token };
+  }
+
+  /**
+   * Signs an access token and combines it with a refresh token
+   * @param user User
+   * @param refreshToken Signed refresh token
+   * @returns Token pair
+   */
+  private buildPair(user: AuthUser, refreshToken: string): TokenPair {
+    const accessToken = jwt.sign({ type: 'access', email: user.email }, JWT_SECRET, {
+      subject: String(user.id),
+      expiresIn: JWT_EXPIRATION
+    });
+    const { exp, iat } = jwt.decode(accessToken) as jwt.JwtPayload;
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: exp! - iat!
+    };
+  }
+
+  /**
+   * Verifies a JWT and checks its type
+   * @param token Token
+   * @param secret Secret the token was signed with
+   * @param type Expected token type
+   * @returns Token payload
+   */
+  private verify<T extends AccessTokenPayload | RefreshTokenPayload>(
+    token: string,
+    secret: string,
+    type: T['type']
+  ): T {
+    try {
+      const payload = jwt.verify(token, secret) as T;
+
+      if (payload.type !== type || !payload.sub || (type === 'refresh' && !payload.jti)) {
+        throw new Error('Unexpected token type');
+      }
+
+      return payload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw createError(401, 'Token has expired');
+      }
+      throw createError(401, 'Invalid token');
+    }
+  }
+
+  /**
+   * Revokes every active token in a family
+   * @param familyId Token family
+   */
+  private async revokeFamily(familyId: string): Promise<void> {
+    await prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+  }
+}
+
+// Create and export a singleton instance
+export const tokenService = new TokenService();
@@ -0,0 +1,508 @@
+/**
+ * Service for managing a user's bookmarked jobs and bookmark folders
+ */
+import createError from 'http-errors';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { jobListInclude } from '../jobs/jobSearchService';
+
+export const BOOKMARK_SORT_ORDERS = ['created', 'deadline'] as const;
+
+export type BookmarkSortOrder = typeof BOOKMARK_SORT_ORDERS[number];
+
+export const BOOKMARK_STATUSES = ['active', 'expired', 'removed'] as const;
+
+export type BookmarkStatus = typeof BOOKMARK_STATUSES[number];
+
+export interface BookmarkFilters {
+  folderId?: number;
+  // Only bookmarks without a folder
+  unfiled?: boolean;
+  tag?: string[];
+  status?: BookmarkStatus[];
+  // Deadline within the next N days
+  deadlineWithinDays?: number;
+  sort: BookmarkSortOrder;
+  limit: number;
+  offset: number;
+}
+
+export interface BookmarkInput {
+  notes?: string | null;
+  folderId?: number | null;
+  tags?: string[];
+}
+
+export interface BookmarkJobStatus {
+  status: BookmarkStatus;
+  expired: boolean;
+  removed: boolean;
+  deadlinePassed: boolean;
+  // Whole days left until the application deadline, null without deadline
+  daysUntilDeadline: number | null;
+}
+
+export interface FolderInput {
+  name?: string;
+  color?: string | null;
+}
+
+const bookmarkInclude = {
+  folder: {
+    select: { id: true, name: true, color: true }
+  },
+  job: {
+    include: jobListInclude
+  },
+  application: {
+    select: { id: true, stage: true, appliedAt: true, interviewAt: true, remindAt: true }
+  }
+} satisfies Prisma.BookmarkInclude;
+
+type BookmarkWithJob = Prisma.BookmarkGetPayload<{ include: typeof bookmarkInclude }>;
+
+const SORT_ORDER_BY: Record<BookmarkSortOrder, Prisma.BookmarkOrderByWithRelationInput[]> = {
+  created: [{ createdAt: 'desc' }, { id: 'desc' }],
+  deadline: [{ job: { applicationDeadline: { sort: 'asc', nulls: 'last' } } }, { id: 'asc' }]
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Works out whether a bookmarked job can still be applied to
+ * @param job Bookmarked job
+ * @param now Current time
+ * @returns Job status
+ */
+export function getJobStatus(
+  job: { removedAt: Date | null; expiresAt: Date | null; applicationDeadline: Date | null },
+  now = new Date()
+): BookmarkJobStatus {
+  const removed = job.removedAt !== null;
+  const expired = job.expiresAt !== null && job.expiresAt <= now;
+  const deadlinePassed = job.applicationDeadline !== null && job.applicationDeadline <= now;
+
+  return {
+    status: removed ? 'removed' : (expired || deadlinePassed) ? 'expired' : 'active',
+    expired: expired || deadlinePassed,
+    removed,
+    deadlinePassed,
+    daysUntilDeadline: job.applicationDeadline
+      ? Math.ceil((job.applicationDeadline.getTime() - now.getTime()) / DAY_MS)
+      : null
+  };
+}
+
+class BookmarkService {
+  /**
+   * Lists a user's bookmarks
+   * @param userId User ID
+   * @param filters Filters, sort order and pagination
+   * @returns Bookmarks with job status and total count
+   */
+  public async listBookmarks(userId: number, filters: BookmarkFilters) {
+    const where = this.buildWhere(userId, filters);
+
+    const [bookmarks, total] = await Promise.all([
+      prisma.bookmark.findMany({
+        where,
+        orderBy: SORT_ORDER_BY[filters.sort],
+        skip: filters.offset,
+        take: filters.limit,
+        include: bookmarkInclude
+      }),
+      prisma.bookmark.count({ where })
+    ]);
+
+    return {
+      bookmarks: bookmarks.map(bookmark => this.withStatus(bookmark)),
+      total
+    };
+  }
+
+  /**
+   * Gets a single bookmark
+   * @param userId User ID
+   * @param bookmarkId Bookmark ID
+   * @returns Bookmark with job status
+   */
+  public async getBookmark(userId: number, bookmarkId: number) {
+    const bookmark = await prisma.bookmark.findFirst({
+      where: { id: bookmarkId, userId },
+      include: bookmarkInclude
+    });
+
+    if (!bookmark) {
+      throw createError(404, 'Bookmark not found');
+    }
+
+    return this.withStatus(bookmark);
+  }
+
+  /**
+   * Bookmarks a job
+   * @param userId User ID
+   * @param jobId Job ID
+   * @param input Notes, folder and tags
+   * @returns Created bookmark
+   */
+  public async addBookmark(userId: number, jobId: number, input: BookmarkInput = {}) {
+    await this.ensureFolderOwned(userId, input.folderId);
+
+    const job = await prisma.job.findUnique({ where: { id: jobId }, select: { id: true } });
+    if (!job) {
+      throw createError(404, 'Job not found');
+    }
+
+    try {
+      const { id } = await prisma.bookmark.create({
+        data: {
+          userId,
+          jobId,
+          notes: input.notes,
+          folderId: input.folderId,
+          tags: this.normalizeTags(input.tags)
+        },
+        select: { id: true }
+      });
+      await this.linkApplications(userId, [jobId]);
+
+      const bookmark = await prisma.bookmark.findUniqueOrThrow({
+        where: { id },
+        include: bookmarkInclude
+      });
+
+      return this.withStatus(bookmark);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw createError(409, 'Job is already bookmarked');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the notes, folder or tags of a bookmark
+   * @param userId User ID
+   * @param bookmarkId Bookmark ID
+   * @param input Fields to update
+   * @returns Updated bookmark
+   */
+  public async updateBookmark(userId: number, bookmarkId: number, input: BookmarkInput) {
+    await this.ensureBookmarkOwned(userId, bookmarkId);
+    await this.ensureFolderOwned(userId, input.folderId);
+
+    const bookmark = await prisma.bookmark.update({
+      where: { id: bookmarkId },
+      data: {
+        notes: input.notes,
+        folderId: input.folderId,
+        tags: input.tags ? this.normalizeTags(input.tags) : undefined
+      },
+      include: bookmarkInclude
+    });
+
+    return this.withStatus(bookmark);
+  }
+
+  /**
+   * Removes a bookmark
+   * @param userId User ID
+   * @param bookmarkId Bookmark ID
+   */
+  public async removeBookmark(userId: number, bookmarkId: number): Promise<void> {
+    const { count } = await prisma.bookmark.deleteMany({
+      where: { id: bookmarkId, userId }
+    });
+
+    if (count === 0) {
+      throw createError(404, 'Bookmark not found');
+    }
+  }
+
+  /**
+   * Bookmarks several jobs at once. Jobs that are already bookmarked or do
+   * not exist are skipped.
+   * @param userId User ID
+   * @param jobIds Job IDs
+   * @param input Folder and tags applied to the new bookmarks
+   * @returns Number of created and skipped bookmarks
+   */
+  public async addBookmarks(
+    userId: number,
+    jobIds: number[],
+    input: Omit<BookmarkInput, 'notes'> = {}
+  ): Promise<{ created: number; skipped: number }> {
+    await this.ensureFolderOwned(userId, input.folderId);
+
+    const uniqueJobIds = [...new Set(jobIds)];
+    const existingJobs = await prisma.job.findMany({
+      where: { id: { in: uniqueJobIds } },
+      select: { id: true }
+    });
+
+    const { count } = await prisma.bookmark.createMany({
+      data: existingJobs.map(job => ({
+        userId,
+        jobId: job.id,
+        folderId: input.folderId,
+        tags: this.normalizeTags(input.tags)
+      })),
+      skipDuplicates: true
+    });
+    await this.linkApplications(userId, existingJobs.map(job => job.id));
+
+    return { created: count, skipped: uniqueJobIds.length - count };
+  }
+
+  /**
+   * Removes the bookmarks of several jobs at once
+   * @param userId User ID
+   * @param jobIds Job IDs
+   * @returns Number of removed bookmarks
+   */
+  public async removeBookmarks(userId: number, jobIds: number[]): Promise<{ removed: number }> {
+    const { count } = await prisma.bookmark.deleteMany({
+      where: { userId, jobId: { in: jobIds } }
+    });
+
+    return { removed: count };
+  }
+
+  /**
+   * Lists the tags a user has used, most used first
+   * @param userId User ID
+   * @returns Tags with the number of bookmarks carrying them
+   */
+  public async listTags(userId: number): Promise<Array<{ tag: string; count: number }>> {
+    const rows = await prisma.$queryRaw<Array<{ tag: string; count: bigint }>>`
+      SELECT tag, COUNT(*) AS count
+      FROM bookmarks, UNNEST(tags) AS tag
+      WHERE "userId" = ${userId}
+      GROUP BY tag
+      ORDER BY count DESC, tag ASC
+    `;
+
+    return rows.map(row => ({ tag: row.tag, count: Number(row.count) }));
+  }
+
+  /**
+   * Lists a user's bookmark folders
+   * @param userId User ID
+   * @returns Folders with bookmark counts
+   */
+  public async listFolders(userId: number) {
+    const folders = await prisma.bookmarkFolder.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { bookmarks: true } } }
+    });
+
+    return folders.map(({ _count, ...folder }) => ({ ...folder, bookmarkCount: _count.bookmarks }));
+  }
+
+  /**
+   * Creates a bookmark folder
+   * @param userId User ID
+   * @param input Folder name and color
+   * @returns Created folder
+   */
+  public async createFolder(userId: number, input: Required<Pick<FolderInput, 'name'>> & FolderInput) {
+    try {
+      return await prisma.bookmarkFolder.create({
+        data: { userId, name: input.name, color: input.color }
+      });
+    } catch (error) {
+      throw this.mapFolderError(error);
+    }
+  }
+
+  /**
+   * Renames or recolors a bookmark folder
+   * @param userId User ID
+   * @param folderId Folder ID
+   * @param input Fields to update
+   * @returns Updated folder
+   */
+  public async updateFolder(userId: number, folderId: number, input: FolderInput) {
+    await this.ensureFolderOwned(userId, folderId);
+
+    try {
+      return await prisma.bookmarkFolder.update({
+        where: { id: folderId },
+        data: { name: input.name, color: input.color }
+      });
+    } catch (error) {
+      throw this.mapFolderError(error);
+    }
+  }
+
+  /**
+   * Deletes a bookmark folder. Its bookmarks are kept without a folder.
+   * @param userId User ID
+   * @param folderId Folder ID
+   */
+  public async deleteFolder(userId: number, folderId: number): Promise<void> {
+    const { count } = await prisma.bookmarkFolder.deleteMany({
+      where: { id: folderId, userId }
+    });
+
+    if (count === 0) {
+      throw createError(404, 'Folder not found');
+    }
+  }
+
+  /**
+   * Builds the where clause for listing bookmarks
+   * @param userId User ID
+   * @param filters Filters
+   * @returns Where input
+   */
+  private buildWhere(userId: number, filters: BookmarkFilters): Prisma.BookmarkWhereInput {
+    const now = new Date();
+    const conditions: Prisma.BookmarkWhereInput[] = [{ userId }];
+
+    if (filters.folderId !== undefined) {
+      conditions.push({ folderId: filters.folderId });
+    } else if (filters.unfiled) {
+      conditions.push({ folderId: null });
+    }
+
+    if (filters.tag?.length) {
+      conditions.push({ tags: { hasSome: filters.tag.map(tag => tag.toLowerCase()) } });
+    }
+
+    if (filters.deadlineWithinDays !== undefined) {
+      conditions.push({
+        job: {
+          applicationDeadline: {
+            gt: now,
+            lte: new Date(now.getTime() + filters.deadlineWithinDays * DAY_MS)
+          }
+        }
+      });
+    }
+
+    if (filters.status?.length) {
+      // Jobs without an expiry date or deadline never expire by it. The active
+      // conditions are spelled out rather than negating the expired ones,
+      // since NOT over a comparison with NULL leaves out those jobs.
+      const statusConditions: Record<BookmarkStatus, Prisma.JobWhereInput> = {
+        removed: { removedAt: { not: null } },
+        expired: {
+          removedAt: null,
+          OR: [{ expiresAt: { lte: now } }, { applicationDeadline: { lte: now } }]
+        },
+        active: {
+          removedAt: null,
+          AND: [
+            { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+            { OR: [{ applicationDeadline: null }, { applicationDeadline: { gt: now } }] }
+          ]
+        }
+      };
+
+      conditions.push({
+        OR: filters.status.map(status => ({ job: statusConditions[status] }))
+      });
+    }
+
+    return { AND: conditions };
+  }
+
+  /**
+   * Adds the job status to a bookmark
+   * @param bookmark Bookmark with job
+   * @returns Bookmark with job status
+   */
+  private withStatus(bookmark: BookmarkWithJob) {
+    return {
+      ...bookmark,
+      jobStatus: getJobStatus(bookmark.job)
+    };
+  }
+
+  /**
+   * Links tracked applications to the bookmarks of their jobs. Applications
+   * lose their link when the bookmark is removed, and get it back when the
+   * job is bookmarked again.
+   * @param userId User ID
+   * @param jobIds Job IDs
+   */
+  private async linkApplications(userId: number, jobIds: number[]): Promise<void> {
+    if (jobIds.length === 0) {
+      return;
+    }
+
+    await prisma.$executeRaw`
+      UPDATE tracked_applications t
+      SET "bookmarkId" = b.id
+      FROM bookmarks b
+      WHERE b."userId" = t."userId"
+        AND b."jobId" = t."jobId"
+        AND t."userId" = ${userId}
+        AND t."jobId" IN (${Prisma.join(jobIds)})
+        AND t."bookmarkId" IS NULL
+    `;
+  }
+
+  /**
+   * Lower-cases, trims and deduplicates tags
+   * @param tags Tags
+   * @returns Normalized tags
+   */
+  private normalizeTags(tags: string[] = []): string[] {
+    return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+  }
+
+  /**
+   * Throws a 404 error unless the bookmark belongs to the user
+   * @param userId User ID
+   * @param bookmarkId Bookmark ID
+   */
+  private async ensureBookmarkOwned(userId: number, bookmarkId: number): Promise<void> {
+    const bookmark = await prisma.bookmark.findFirst({
+      where: { id: bookmarkId, userId },
+      select: { id: true }
+    });
+
+    if (!bookmark) {
+      throw createError(404, 'Bookmark not found');
+    }
+  }
+
+  /**
+   * Throws a 404 error unless the folder belongs to the user
+   * @param userId User ID
+   * @param folderId Folder ID, ignored when null or undefined
+   */
+  private async ensureFolderOwned(userId: number, folderId: number | null | undefined): Promise<void> {
+    if (folderId === null || folderId === undefined) {
+      return;
+    }
+
+    const folder = await prisma.bookmarkFolder.findFirst({
+      where: { id: folderId, userId },
+      select: { id: true }
+    });
+
+    if (!folder) {
+      throw createError(404, 'Folder not found');
+    }
+  }
+
+  /**
+   * Turns unique constraint violations on folder names into 409 errors
+   * @param error Error from Prisma
+   * @returns Error to throw
+   */
+  private mapFolderError(error: unknown): unknown {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return createError(409, 'A folder with that name already exists');
+    }
+    return error;
+  }
+}
+
+// Create and export a singleton instance
+export const bookmarkService = new BookmarkService();
@@ -0,0 +1,45 @@
+/**
+ * Stores where incremental sources resume collecting from
+ */
+import { prisma } from '../database/db.service';
+import { logger } from '../../utils/logger';
+
+class CheckpointStore {
+  /**
+   * Gets the checkpoint of a source
+   * @param sourceId Source ID
+   * @returns Checkpoint, or null when the source has not completed a run
+   */
+  public async get(sourceId: string): Promise<string | null> {
+    const checkpoint = await prisma.collectionCheckpoint.findUnique({ where: { sourceId } });
+
+    return checkpoint?.cursor ?? null;
+  }
+
+  /**
+   * Saves the checkpoint of a source
+   * @param sourceId Source ID
+   * @param cursor New checkpoint
+   */
+  public async save(sourceId: string, cursor: string): Promise<void> {
+    await prisma.collectionCheckpoint.upsert({
+      where: { sourceId },
+      create: { sourceId, cursor },
+      update: { cursor }
+    });
+
+    logger.debug(`Saved checkpoint for ${sourceId}`, { cursor });
+  }
+
+  /**
+   * Removes the checkpoint so the next run starts from scratch
+   * @param sourceId Source ID
+   */
+  public async clear(sourceId: string): Promise<void> {
+    await prisma.collectionCheckpoint.deleteMany({ where: { sourceId } });
+    logger.info(`Cleared checkpoint for ${sourceId}`);
+  }
+}
+
+// Create and export a singleton instance
+export const checkpointStore = new CheckpointStore();
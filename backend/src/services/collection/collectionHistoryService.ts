@@ -0,0 +1,242 @@
+/**
+ * Records collection runs in CollectionHistory and reports on them
+ */
+import createError from 'http-errors';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { CollectionResult, CrawlPolicyRecord, ErrorDetails } from '../scrapers/types';
+import { logger } from '../../utils/logger';
+
+export const COLLECTION_RUN_STATUSES = ['running', 'success', 'partial', 'failure'] as const;
+
+export type CollectionRunStatus = typeof COLLECTION_RUN_STATUSES[number];
+
+export interface CollectionRunFilters {
+  sourceId?: string;
+  status?: CollectionRunStatus;
+  limit: number;
+  offset: number;
+}
+
+// Number of days the success rate and average duration are calculated over
+const STATS_DAYS = parseInt(process.env.COLLECTION_STATS_DAYS || '30');
+
+// Summaries report the error list as a count; getRun returns it in full
+const runSummarySelect = {
+  id: true,
+  sourceId: true,
+  startedAt: true,
+  completedAt: true,
+  durationMs: true,
+  status: true,
+  jobsCollected: true,
+  jobsProcessed: true,
+  validationFailures: true,
+  duplicatesRemoved: true,
+  jobsStored: true,
+  jobsCreated: true,
+  jobsRemoved: true,
+  errors: true
+} satisfies Prisma.CollectionHistorySelect;
+
+type RunRow = Prisma.CollectionHistoryGetPayload<{ select: typeof runSummarySelect }>;
+
+class CollectionHistoryService {
+  /**
+   * Records the start of a run
+   * @param sourceId Source ID
+   * @returns Run ID
+   */
+  public async startRun(sourceId: string): Promise<number> {
+    const run = await prisma.collectionHistory.create({
+      data: { sourceId, status: 'running' }
+    });
+
+    return run.id;
+  }
+
+  /**
+   * Records the outcome of a run with its per-stage counts and errors
+   * @param runId Run ID
+   * @param result Collection result
+   */
+  public async completeRun(runId: number, result: CollectionResult): Promise<void> {
+    try {
+      await prisma.collectionHistory.update({
+        where: { id: runId },
+        data: {
+          status: result.status,
+          completedAt: new Date(),
+          durationMs: result.durationMs,
+          jobsCollected: result.jobsCollected,
+          jobsProcessed: result.jobsProcessed,
+          validationFailures: result.validationFailures,
+          duplicatesRemoved: result.duplicatesRemoved || 0,
+          jobsStored: result.jobsStored,
+          jobsCreated: result.jobsCreated || 0,
+          jobsRemoved: result.jobsRemoved || 0,
+          errors: this.toJson(result.errors),
+          ...(result.crawlPolicy ? { crawlPolicy: this.toJson(result.crawlPolicy) } : {})
+        }
+      });
+    } catch (error) {
+      logger.error(`Failed to record collection run ${runId}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Marks a run whose worker lost its lease as failed
+   * @param runId Run ID
+   */
+  public async failInterruptedRun(runId: number): Promise<void> {
+    const interrupted: ErrorDetails = {
+      code: 'interrupted',
+      message: 'Run was interrupted before it completed',
+      timestamp: new Date(),
+      severity: 'critical'
+    };
+
+    const { count } = await prisma.collectionHistory.updateMany({
+      where: { id: runId, status: 'running' },
+      data: {
+        status: 'failure',
+        completedAt: new Date(),
+        errors: this.toJson([interrupted])
+      }
+    });
+
+    if (count > 0) {
+      logger.warn(`Marked interrupted collection run ${runId} as failed`);
+    }
+  }
+
+  /**
+   * Summarizes each source: the last completed run, the run in progress,
+   * and success rate and average duration over the last STATS_DAYS days
+   * @param sourceIds Registered source IDs; sources with recent runs are added
+   * @returns Status per source
+   */
+  public async getStatus(sourceIds: string[]) {
+    const since = new Date(Date.now() - STATS_DAYS * 24 * 60 * 60 * 1000);
+    const completedSince = { startedAt: { gte: since }, status: { not: 'running' } };
+
+    const [statusCounts, durations] = await Promise.all([
+      prisma.collectionHistory.groupBy({
+        by: ['sourceId', 'status'],
+        where: completedSince,
+        _count: { _all: true }
+      }),
+      prisma.collectionHistory.groupBy({
+        by: ['sourceId'],
+        where: completedSince,
+        _avg: { durationMs: true }
+      })
+    ]);
+
+    const allSourceIds = [...new Set([...sourceIds, ...statusCounts.map(row => row.sourceId)])];
+
+    return Promise.all(allSourceIds.map(async sourceId => {
+      const [lastRun, currentRun] = await Promise.all([
+        prisma.collectionHistory.findFirst({
+          where: { sourceId, status: { not: 'running' } },
+          orderBy: { startedAt: 'desc' },
+          select: runSummarySelect
+        }),
+        prisma.collectionHistory.findFirst({
+          where: { sourceId, status: 'running' },
+          orderBy: { startedAt: 'desc' },
+          select: runSummarySelect
+        })
+      ]);
+
+      const counts = statusCounts.filter(row => row.sourceId === sourceId);
+      const runs = counts.reduce((sum, row) => sum + row._count._all, 0);
+      const successful = counts.find(row => row.status === 'success')?._count._all || 0;
+      const averageDurationMs = durations.find(row => row.sourceId === sourceId)?._avg.durationMs;
+
+      return {
+        sourceId,
+        lastRun: lastRun ? this.toSummary(lastRun) : null,
+        currentRun: currentRun ? this.toSummary(currentRun) : null,
+        stats: {
+          days: STATS_DAYS,
+          runs,
+          byStatus: Object.fromEntries(counts.map(row => [row.status, row._count._all])),
+          successRate: runs > 0 ? Math.round((successful / runs) * 1000) / 1000 : null,
+          averageDurationMs: averageDurationMs != null ? Math.round(averageDurationMs) : null
+        }
+      };
+    }));
+  }
+
+  /**
+   * Lists runs, newest first, without their error lists
+   * @param filters Source and status filters and pagination
+   * @returns Page of runs and the total
+   */
+  public async listRuns(filters: CollectionRunFilters) {
+    const where: Prisma.CollectionHistoryWhereInput = {
+      ...(filters.sourceId ? { sourceId: filters.sourceId } : {}),
+      ...(filters.status ? { status: filters.status } : {})
+    };
+
+    const [runs, total] = await Promise.all([
+      prisma.collectionHistory.findMany({
+        where,
+        orderBy: [{ startedAt: 'desc' }, { id: 'desc' }],
+        take: filters.limit,
+        skip: filters.offset,
+        select: runSummarySelect
+      }),
+      prisma.collectionHistory.count({ where })
+    ]);
+
+    return { runs: runs.map(run => this.toSummary(run)), total };
+  }
+
+  /**
+   * Gets a run with its errors and, for scrapers, its crawl policy decisions
+   * @param runId Run ID
+   * @returns Run
+   */
+  public async getRun(runId: number) {
+    const run = await prisma.collectionHistory.findUnique({
+      where: { id: runId },
+      select: { ...runSummarySelect, crawlPolicy: true }
+    });
+
+    if (!run) {
+      throw createError(404, 'Collection run not found');
+    }
+
+    const { crawlPolicy, ...summary } = run;
+
+    return {
+      ...this.toSummary(summary),
+      errors: (run.errors as unknown as ErrorDetails[] | null) || [],
+      crawlPolicy: (crawlPolicy as unknown as CrawlPolicyRecord[] | null) || []
+    };
+  }
+
+  /**
+   * Replaces the error list with its size
+   */
+  private toSummary({ errors, ...run }: RunRow) {
+    return {
+      ...run,
+      errorCount: Array.isArray(errors) ? errors.length : 0
+    };
+  }
+
+  /**
+   * Dates are stored as ISO strings
+   */
+  private toJson(entries: ErrorDetails[] | CrawlPolicyRecord[]): Prisma.InputJsonArray {
+    return JSON.parse(JSON.stringify(entries));
+  }
+}
+
+// Create and export a singleton instance
+export const collectionHistoryService = new CollectionHistoryService();
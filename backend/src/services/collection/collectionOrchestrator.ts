@@ -0,0 +1,417 @@
+/**
+ * Orchestrates job data collection from multiple sources
+ */
+import { SourceAdapter, CollectionResult, ErrorDetails, SourceConfig, StructuralChange } from '../scrapers/types';
+import { jobtechService } from '../scrapers/jobtech/jobtechService';
+import { DeclarativeScraper } from '../scrapers/declarative/declarativeScraper';
+import { scraperSites } from '../scrapers/config/scraperSites';
+import { createDataSources, ScraperSourceConfig } from '../data-collection';
+import { DataSourceAdapter } from './dataSourceAdapter';
+import { sourceRegistry } from './sourceRegistry';
+import { collectionPipeline } from './collectionPipeline';
+import { CollectionScheduler } from './collectionScheduler';
+import { collectionHistoryService } from './collectionHistoryService';
+import { sourceChangeService } from './sourceChangeService';
+import { collectionQueue, EnqueueOptions } from './collectionQueue';
+import { CollectionWorker } from './collectionWorker';
+import { LeaderLock } from './leaderLock';
+import { logger } from '../../utils/logger';
+import { CollectionJob } from '@prisma/client';
+import createError from 'http-errors';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+export interface CollectionRunOptions {
+  // Aborted when the queued job is cancelled or its lease is lost
+  signal?: AbortSignal;
+  // Called with the CollectionHistory ID once the run is recorded
+  onRunStarted?: (runId: number) => Promise<void>;
+}
+
+class CollectionOrchestrator {
+  private activeTasks: Map<string, Promise<CollectionResult>> = new Map();
+  private readonly scheduler = new CollectionScheduler();
+  private readonly instanceId = `${os.hostname()}:${process.pid}`;
+  // Only the leader turns cron schedules into queued jobs; every instance runs a worker
+  private readonly leaderLock = new LeaderLock('collection-scheduler', this.instanceId);
+  private readonly worker = new CollectionWorker(
+    this.instanceId,
+    (sourceId, options) => this.collectFromSource(sourceId, options)
+  );
+
+  /**
+   * Initializes the orchestrator with all data sources
+   */
+  public async initialize(): Promise<void> {
+    logger.info('Initializing collection orchestrator');
+    
+    try {
+      // Register sources; scrapers and API services are SourceAdapters,
+      // DataSources are wrapped so they share the same pipeline
+      this.registerSource(jobtechService);
+      for (const site of scraperSites) {
+        this.registerScraperSite(site);
+      }
+      for (const dataSource of createDataSources()) {
+        this.registerSource(new DataSourceAdapter(dataSource));
+      }
+      
+      // Initialize all enabled sources
+      for (const source of sourceRegistry.listEnabled()) {
+        const sourceId = source.config.id;
+        try {
+          await source.initialize();
+          logger.info(`Initialized source: ${sourceId}`);
+        } catch (error) {
+          logger.error(`Failed to initialize source: ${sourceId}`, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+      
+      // Start leader election, the queue worker and the schedules
+      await this.leaderLock.start();
+      this.worker.start();
+      this.scheduleCollectionTasks();
+      
+      logger.info('Collection orchestrator initialized successfully');
+    } catch (error) {
+      logger.error('Failed to initialize collection orchestrator', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Registers a data source unless one with the same ID already exists
+   * @param source Source adapter
+   */
+  public registerSource(source: SourceAdapter): void {
+    if (sourceRegistry.get(source.config.id)) {
+      logger.debug(`Source already registered: ${source.config.id}`);
+      return;
+    }
+    sourceRegistry.register(source);
+  }
+
+  /**
+   * Registers a declarative scraper for a site. A broken site config is
+   * logged and skipped so it cannot stop the other sources.
+   * @param site Site configuration
+   */
+  private registerScraperSite(site: ScraperSourceConfig): void {
+    try {
+      this.registerSource(new DeclarativeScraper(site));
+    } catch (error) {
+      logger.error(`Invalid scraper site config: ${site.id}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Lists the configuration of all registered sources
+   * @returns Source configurations with whether a collection is running
+   */
+  public getSources(): Array<SourceConfig & { collecting: boolean }> {
+    return sourceRegistry.list().map(source => ({
+      ...source.config,
+      collecting: this.activeTasks.has(source.config.id)
+    }));
+  }
+
+  /**
+   * Schedules collection tasks based on source configurations. When due,
+   * the leader queues a job unless one is already pending for the source.
+   */
+  public scheduleCollectionTasks(): void {
+    this.scheduler.scheduleAll(sourceRegistry.list(), async sourceId => {
+      if (!this.leaderLock.isLeader) {
+        logger.debug(`Not the scheduler leader, skipping scheduled collection for ${sourceId}`);
+        return;
+      }
+
+      await collectionQueue.enqueue(sourceId, { trigger: 'schedule', skipIfPending: true });
+    });
+  }
+
+  /**
+   * Stops the schedules and the worker and releases the leader lock
+   */
+  public async stop(): Promise<void> {
+    this.scheduler.stopAll();
+    await this.worker.stop();
+    await this.leaderLock.stop();
+    logger.info('Stopped scheduled collection tasks');
+  }
+
+  /**
+   * Queues a collection for a source
+   * @param sourceId Source ID
+   * @param options Trigger and requesting user
+   * @returns Queued job
+   */
+  public async enqueueCollection(sourceId: string, options: EnqueueOptions = {}): Promise<CollectionJob> {
+    if (!sourceRegistry.get(sourceId)) {
+      throw createError(404, `Source not found: ${sourceId}`);
+    }
+
+    return collectionQueue.enqueue(sourceId, options);
+  }
+
+  /**
+   * Queues a collection for every enabled source
+   * @param options Trigger and requesting user
+   * @returns Queued jobs
+   */
+  public async enqueueAllSources(options: EnqueueOptions = {}): Promise<CollectionJob[]> {
+    const jobs: CollectionJob[] = [];
+
+    for (const source of sourceRegistry.listEnabled()) {
+      jobs.push(await collectionQueue.enqueue(source.config.id, options));
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Collects data from all enabled sources
+   */
+  public async collectFromAllSources(): Promise<CollectionResult[]> {
+    logger.info('Starting collection from all enabled sources');
+    
+    const results: CollectionResult[] = [];
+    const errors: ErrorDetails[] = [];
+    
+    for (const source of sourceRegistry.listEnabled()) {
+      const sourceId = source.config.id;
+      
+      try {
+        const result = await this.collectFromSource(sourceId);
+        results.push(result);
+      } catch (error) {
+        const errorDetail: ErrorDetails = {
+          code: 'collection_error',
+          message: `Failed to collect from source ${sourceId}: ${error instanceof Error ? error.message : String(error)}`,
+          timestamp: new Date(),
+          severity: 'error',
+          context: { sourceId }
+        };
+        errors.push(errorDetail);
+        logger.error(`Failed to collect from source: ${sourceId}`, errorDetail);
+      }
+    }
+    
+    logger.info(`Completed collection from all sources: ${results.length} successful, ${errors.length} failed`);
+    
+    return results;
+  }
+
+  /**
+   * Collects data from a specific source
+   * @param sourceId Source ID
+   * @param options Cancellation signal and run callback
+   * @returns Collection result
+   */
+  public async collectFromSource(sourceId: string, options: CollectionRunOptions = {}): Promise<CollectionResult> {
+    logger.info(`Starting collection from source: ${sourceId}`);
+    
+    // Check if source exists
+    const source = sourceRegistry.get(sourceId);
+    if (!source) {
+      throw new Error(`Source not found: ${sourceId}`);
+    }
+    
+    // Check if a collection is already in progress
+    if (this.activeTasks.has(sourceId)) {
+      logger.warn(`Collection already in progress for source: ${sourceId}`);
+      return this.activeTasks.get(sourceId)!;
+    }
+    
+    const startTime = Date.now();
+    
+    try {
+      // Create a task for this collection
+      const task = (async () => {
+        const runId = await collectionHistoryService.startRun(sourceId);
+        await options.onRunStarted?.(runId);
+        
+        try {
+          // Pick up selectors accepted since the source was registered
+          const activeSource = await this.refreshScraperSite(source);
+          
+          // Detect structural changes first
+          await this.detectSourceChanges(sourceId);
+          
+          // Collect, normalize, validate, dedupe and store
+          const result = await collectionPipeline.run(activeSource, options.signal);
+          
+          await collectionHistoryService.completeRun(runId, result);
+          
+          return result;
+        } catch (error) {
+          // Record the failed run before passing the error on
+          await collectionHistoryService.completeRun(runId, {
+            sourceId,
+            timestamp: new Date(),
+            status: 'failure',
+            jobsCollected: 0,
+            jobsProcessed: 0,
+            jobsStored: 0,
+            validationFailures: 0,
+            durationMs: Date.now() - startTime,
+            errors: [{
+              code: options.signal?.aborted ? 'cancelled' : 'critical_error',
+              message: `Critical error: ${error instanceof Error ? error.message : String(error)}`,
+              timestamp: new Date(),
+              severity: 'critical',
+              context: { sourceId }
+            }],
+            jobs: []
+          });
+          
+          throw error;
+        } finally {
+          // Remove task from active tasks when done
+          this.activeTasks.delete(sourceId);
+        }
+      })();
+      
+      // Store the task
+      this.activeTasks.set(sourceId, task);
+      
+      // Execute the task and return the result
+      return await task;
+    } catch (error) {
+      logger.error(`Critical error in collection from ${sourceId}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Detects changes in a source's structure
+   * @param sourceId Source ID
+   * @returns Change detection result
+   */
+  public async detectSourceChanges(sourceId: string): Promise<boolean> {
+    logger.info(`Detecting changes for source: ${sourceId}`);
+    
+    const source = sourceRegistry.get(sourceId);
+    if (!source) {
+      throw new Error(`Source not found: ${sourceId}`);
+    }
+    
+    try {
+      const result = await source.detectStructuralChanges();
+      
+      if (result.status === 'unchanged') {
+        logger.info(`No changes detected for ${sourceId}`);
+        return false;
+      }
+      
+      logger.info(`Detected ${result.status} for ${sourceId} with ${result.changes.length} changes`);
+      
+      // Changes the scraper can't adapt to stay open for an admin, with suggested selectors
+      await sourceChangeService.record(result);
+      
+      // Log changes
+      for (const change of result.changes) {
+        logger.info(`Change in ${sourceId}: ${change.message}`, {
+          elementType: change.elementType,
+          path: change.path,
+          impact: change.impact
+        });
+      }
+      
+      // For high-impact changes, send notifications
+      const highImpactChanges = result.changes.filter(change => change.impact === 'high');
+      if (highImpactChanges.length > 0) {
+        this.notifyAboutChanges(sourceId, highImpactChanges);
+      }
+      
+      return true;
+    } catch (error) {
+      logger.error(`Failed to detect changes for ${sourceId}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Rebuilds a scraper site when selectors have been accepted for it since
+   * it was built, possibly on another instance
+   * @param source Registered source
+   * @returns Source to collect with
+   */
+  private async refreshScraperSite(source: SourceAdapter): Promise<SourceAdapter> {
+    if (!(source instanceof DeclarativeScraper)) {
+      return source;
+    }
+    
+    try {
+      const site = await sourceChangeService.getSite(source.site.id);
+      if (!site || JSON.stringify(site) === JSON.stringify(source.site)) {
+        return source;
+      }
+      
+      const scraper = new DeclarativeScraper(site);
+      await scraper.initialize();
+      sourceRegistry.replace(scraper);
+      
+      logger.info(`Applied accepted selectors to ${site.id}`);
+      return scraper;
+    } catch (error) {
+      logger.error(`Failed to apply accepted selectors to ${source.site.id}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return source;
+    }
+  }
+
+  /**
+   * Sends notifications about structural changes
+   * @param sourceId Source ID
+   * @param changes Changes to notify about
+   */
+  private notifyAboutChanges(sourceId: string, changes: StructuralChange[]): void {
+    // In a real implementation, this would send emails or Slack notifications
+    logger.warn(`High-impact changes detected in ${sourceId}`, { changes });
+    
+    // Log to a special file
+    try {
+      const notificationsDir = path.join(__dirname, '../../../data/change-notifications');
+      
+      // Create notifications directory if it doesn't exist
+      if (!fs.existsSync(notificationsDir)) {
+        fs.mkdirSync(notificationsDir, { recursive: true });
+      }
+      
+      // Generate notification file name with timestamp
+      const timestamp = new Date().toISOString().replace(/[:.-]/g, '_');
+      const fileName = `${sourceId}_${timestamp}.json`;
+      const filePath = path.join(notificationsDir, fileName);
+      
+      // Save to disk
+      fs.writeFileSync(filePath, JSON.stringify({
+        sourceId,
+        timestamp: new Date(),
+        changes
+      }, null, 2));
+      
+      logger.info(`Saved change notification for ${sourceId} to ${filePath}`);
+    } catch (error) {
+      logger.error(`Failed to save change notification for ${sourceId}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const collectionOrchestrator = new CollectionOrchestrator();
\ No newline at end of file
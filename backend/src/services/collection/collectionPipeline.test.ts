@@ -0,0 +1,147 @@
+import { collectionPipeline } from './collectionPipeline';
+import { jobRepository } from '../jobs/jobRepository';
+import { jobDuplicateService } from '../jobs/jobDuplicateService';
+import { CollectionResult, JobData, SourceAdapter } from '../scrapers/types';
+
+jest.mock('../jobs/jobRepository', () => ({
+  jobRepository: {
+    saveJobs: jest.fn(),
+    markRemoved: jest.fn(),
+    markMissingFromSnapshotRemoved: jest.fn()
+  }
+}));
+
+jest.mock('../jobs/jobDuplicateService', () => ({
+  jobDuplicateService: {
+    clusterJobs: jest.fn().mockResolvedValue(undefined),
+    promoteCanonicalJobs: jest.fn().mockResolvedValue(0)
+  }
+}));
+
+jest.mock('../alerts/savedSearchAlertService', () => ({
+  savedSearchAlertService: {
+    processNewJobs: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+const repository = jest.mocked(jobRepository);
+
+const job = (externalId: string, overrides: Partial<JobData> = {}): JobData => ({
+  externalId,
+  source: 'jobtech',
+  sourceUrl: `https://arbetsformedlingen.se/platsbanken/annonser/${externalId}`,
+  title: 'Butiksmedarbetare extra',
+  company: { name: 'Butiken AB' },
+  description: 'Vi söker en butiksmedarbetare för extrajobb på helger.',
+  location: { city: 'Uppsala' },
+  applicationDetails: {},
+  publicationDate: new Date('2025-03-01T08:00:00Z'),
+  skills: [],
+  educationRequirements: [],
+  languages: [],
+  metadata: {},
+  collectingMetadata: {
+    collectedAt: new Date(),
+    processingTimeMs: 0,
+    sourceVersion: '1.0',
+    validationIssues: []
+  },
+  ...overrides
+});
+
+const sourceReturning = (result: Partial<CollectionResult>) => {
+  const source = {
+    config: { id: 'jobtech' },
+    collect: jest.fn().mockResolvedValue({
+      sourceId: 'jobtech',
+      timestamp: new Date(),
+      status: 'success',
+      jobsCollected: 0,
+      jobsProcessed: 0,
+      jobsStored: 0,
+      validationFailures: 0,
+      durationMs: 0,
+      errors: [],
+      jobs: [],
+      ...result
+    }),
+    commitCheckpoint: jest.fn().mockResolvedValue(undefined)
+  };
+
+  return source as unknown as SourceAdapter & { collect: jest.Mock; commitCheckpoint: jest.Mock };
+};
+
+describe('CollectionPipeline removals', () => {
+  beforeEach(() => {
+    repository.saveJobs.mockResolvedValue({ saved: 1, createdJobIds: [1], savedJobIds: [1], failedExternalIds: [] });
+    repository.markRemoved.mockResolvedValue(0);
+    repository.markMissingFromSnapshotRemoved.mockResolvedValue(0);
+  });
+
+  it('expires only stored jobs missing from a full snapshot, keeping ads that failed validation', async () => {
+    repository.markMissingFromSnapshotRemoved.mockResolvedValue(3);
+    const source = sourceReturning({
+      jobs: [job('1001'), job('1002', { description: '' })],
+      snapshotExternalIds: ['1001', '1002', '1003'],
+      checkpoint: '2025-03-02T00:00:00.000Z'
+    });
+
+    const result = await collectionPipeline.run(source);
+
+    expect(repository.saveJobs).toHaveBeenCalledWith([expect.objectContaining({ externalId: '1001' })]);
+    expect(repository.markMissingFromSnapshotRemoved).toHaveBeenCalledWith('jobtech', ['1001', '1002', '1003']);
+    expect(result.jobsRemoved).toBe(3);
+    expect(jobDuplicateService.promoteCanonicalJobs).toHaveBeenCalled();
+    expect(source.commitCheckpoint).toHaveBeenCalledWith('2025-03-02T00:00:00.000Z');
+  });
+
+  it('only marks the ads an incremental run reports as removed', async () => {
+    const source = sourceReturning({ jobs: [job('1001')], removedExternalIds: ['0999'] });
+
+    await collectionPipeline.run(source);
+
+    expect(repository.markRemoved).toHaveBeenCalledWith('jobtech', ['0999']);
+    expect(repository.markMissingFromSnapshotRemoved).not.toHaveBeenCalled();
+  });
+
+  it('expires nothing when the snapshot could not be stored, and keeps the checkpoint', async () => {
+    repository.saveJobs.mockRejectedValue(new Error('connection reset'));
+    const source = sourceReturning({
+      jobs: [job('1001')],
+      snapshotExternalIds: ['1001'],
+      removedExternalIds: ['0999'],
+      checkpoint: '2025-03-02T00:00:00.000Z'
+    });
+
+    const result = await collectionPipeline.run(source);
+
+    expect(repository.markRemoved).not.toHaveBeenCalled();
+    expect(repository.markMissingFromSnapshotRemoved).not.toHaveBeenCalled();
+    expect(source.commitCheckpoint).not.toHaveBeenCalled();
+    expect(result.status).toBe('failure');
+  });
+
+  it('keeps the checkpoint when some jobs failed to save', async () => {
+    repository.saveJobs.mockResolvedValue({ saved: 1, createdJobIds: [1], savedJobIds: [1], failedExternalIds: ['1002'] });
+    const source = sourceReturning({
+      jobs: [job('1001'), job('1002')],
+      removedExternalIds: ['0999'],
+      checkpoint: '2025-03-02T00:00:00.000Z'
+    });
+
+    const result = await collectionPipeline.run(source);
+
+    expect(repository.markRemoved).toHaveBeenCalledWith('jobtech', ['0999']);
+    expect(source.commitCheckpoint).not.toHaveBeenCalled();
+    expect(result.status).toBe('partial');
+    expect(result.errors).toEqual([expect.objectContaining({ code: 'job_save_error' })]);
+  });
+
+  it('expires nothing when the snapshot has no storable jobs', async () => {
+    const source = sourceReturning({ jobs: [job('1001', { description: '' })], snapshotExternalIds: ['1001'] });
+
+    await collectionPipeline.run(source);
+
+    expect(repository.markMissingFromSnapshotRemoved).not.toHaveBeenCalled();
+  });
+});
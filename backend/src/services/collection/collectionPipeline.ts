@@ -0,0 +1,181 @@
+/**
+ * Collection pipeline shared by all sources:
+ * source → normalize → validate → dedupe → persist → cluster cross-source duplicates
+ */
+import { SourceAdapter, CollectionResult, JobData } from '../scrapers/types';
+import { normalizeJobData } from '../scrapers/normalizers/jobDataNormalizer';
+import { validateJobData } from '../scrapers/validators/jobDataValidator';
+import { deduplicator } from './deduplicator';
+import { jobRepository } from '../jobs/jobRepository';
+import { jobDuplicateService } from '../jobs/jobDuplicateService';
+import { savedSearchAlertService } from '../alerts/savedSearchAlertService';
+import { logger } from '../../utils/logger';
+
+export class CollectionPipeline {
+  /**
+   * Collects from a source and runs the jobs through every pipeline stage
+   * @param source Source adapter
+   * @param signal Cancels the source's requests and stops the run between stages when aborted
+   * @returns Collection result with the stored jobs
+   */
+  public async run(source: SourceAdapter, signal?: AbortSignal): Promise<CollectionResult> {
+    const sourceId = source.config.id;
+    const startTime = Date.now();
+
+    // Source
+    const result = await source.collect(signal);
+    this.throwIfCancelled(sourceId, signal);
+
+    // Normalize and validate; jobs with only warnings are kept
+    const validJobs: JobData[] = [];
+    let validationFailures = 0;
+
+    for (const collected of result.jobs) {
+      try {
+        const job = normalizeJobData(collected);
+        const validation = validateJobData(job);
+
+        if (!validation.valid) {
+          validationFailures++;
+        }
+        job.collectingMetadata.validationIssues = validation.issues;
+
+        if (validation.issues.every(issue => issue.severity !== 'error')) {
+          validJobs.push(job);
+        }
+      } catch (error) {
+        validationFailures++;
+        result.errors.push({
+          code: 'job_processing_error',
+          message: `Failed to process job: ${error instanceof Error ? error.message : String(error)}`,
+          timestamp: new Date(),
+          severity: 'error',
+          context: { sourceId, externalId: collected.externalId }
+        });
+      }
+    }
+
+    // Dedupe
+    const { jobs, duplicatesRemoved } = await deduplicator.deduplicate(validJobs);
+    this.throwIfCancelled(sourceId, signal);
+
+    result.jobs = jobs;
+    result.jobsProcessed = jobs.length;
+    result.validationFailures = validationFailures;
+    result.duplicatesRemoved = duplicatesRemoved;
+    result.jobsStored = 0;
+
+    // Persist
+    if (jobs.length > 0) {
+      try {
+        const { saved, createdJobIds, savedJobIds, failedExternalIds } = await jobRepository.saveJobs(jobs);
+
+        result.jobsStored = saved;
+        result.jobsCreated = createdJobIds.length;
+
+        logger.info(`Saved ${saved} jobs from ${sourceId}`);
+
+        if (failedExternalIds.length > 0) {
+          result.errors.push({
+            code: 'job_save_error',
+            message: `Failed to save ${failedExternalIds.length} of ${jobs.length} jobs`,
+            timestamp: new Date(),
+            severity: 'error',
+            context: { sourceId, externalIds: failedExternalIds.slice(0, 100) }
+          });
+        }
+
+        // Link the same ad on other sources before alerts, which only match canonical jobs
+        await jobDuplicateService.clusterJobs(savedJobIds).catch(error => {
+          logger.error(`Failed to cluster duplicates of jobs from ${sourceId}`, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        });
+
+        // Match the new jobs against saved searches without holding up the collection
+        savedSearchAlertService.processNewJobs(createdJobIds).catch(error => {
+          logger.error(`Failed to match new jobs from ${sourceId} against saved searches`, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        });
+      } catch (error) {
+        logger.error(`Failed to save jobs from ${sourceId}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+
+        result.errors.push({
+          code: 'save_error',
+          message: `Failed to save jobs: ${error instanceof Error ? error.message : String(error)}`,
+          timestamp: new Date(),
+          severity: 'error',
+          context: { sourceId }
+        });
+      }
+    }
+
+    // Removals and the checkpoint are only applied once the jobs are stored,
+    // so a failed run is repeated from the same checkpoint. Jobs that failed
+    // to save on their own keep the checkpoint too, or the stream would not
+    // return them until they are edited.
+    const stored = !result.errors.some(error => error.code === 'save_error');
+    const allStored = !result.errors.some(error => error.code === 'job_save_error');
+    if (result.status !== 'failure' && stored) {
+      await this.applyRemovals(source, result);
+
+      if (result.checkpoint && source.commitCheckpoint) {
+        if (allStored) {
+          await source.commitCheckpoint(result.checkpoint);
+        } else {
+          logger.warn(`Keeping the checkpoint of ${sourceId}, since some jobs failed to save`);
+        }
+      }
+    }
+
+    if (result.status === 'success' && result.errors.length > 0) {
+      result.status = result.jobsStored > 0 ? 'partial' : 'failure';
+    }
+    result.durationMs = Date.now() - startTime;
+
+    return result;
+  }
+
+  /**
+   * Marks jobs the source reported as removed, and after a full snapshot,
+   * the stored jobs that were not part of it. Ads in the snapshot that failed
+   * validation or could not be saved are still live and are kept.
+   * @param source Source adapter
+   * @param result Collection result
+   */
+  private async applyRemovals(source: SourceAdapter, result: CollectionResult): Promise<void> {
+    const sourceId = source.config.id;
+    let removed = 0;
+
+    if (result.removedExternalIds && result.removedExternalIds.length > 0) {
+      removed += await jobRepository.markRemoved(sourceId, result.removedExternalIds);
+    }
+
+    // An empty snapshot is more likely an API problem than an empty market
+    if (result.snapshotExternalIds && result.jobsStored > 0) {
+      removed += await jobRepository.markMissingFromSnapshotRemoved(sourceId, result.snapshotExternalIds);
+    }
+
+    result.jobsRemoved = removed;
+
+    // Removed canonical jobs hand their clusters over to an active duplicate
+    if (removed > 0) {
+      await jobDuplicateService.promoteCanonicalJobs();
+    }
+  }
+
+  /**
+   * Stops a run that was cancelled or lost its lease
+   */
+  private throwIfCancelled(sourceId: string, signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new Error(`Collection from ${sourceId} was cancelled`);
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const collectionPipeline = new CollectionPipeline();
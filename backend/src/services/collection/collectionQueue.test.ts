@@ -0,0 +1,105 @@
+import { CollectionJob } from '@prisma/client';
+import { collectionQueue } from './collectionQueue';
+import { collectionHistoryService } from './collectionHistoryService';
+import { prisma } from '../database/db.service';
+
+jest.mock('../database/db.service', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    collectionJob: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn()
+    }
+  }
+}));
+
+jest.mock('./collectionHistoryService', () => ({
+  collectionHistoryService: {
+    failInterruptedRun: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+const db = prisma as unknown as {
+  $queryRaw: jest.Mock;
+  collectionJob: { findUnique: jest.Mock; updateMany: jest.Mock };
+};
+
+// SQL of a tagged $queryRaw call, without its values
+const sqlOf = (call: unknown[]) => (call[0] as TemplateStringsArray).join('?').replace(/\s+/g, ' ');
+
+const leasedJob = (overrides: Partial<CollectionJob> = {}): CollectionJob => ({
+  id: 7,
+  sourceId: 'academic-work',
+  status: 'running',
+  trigger: 'schedule',
+  requestedById: null,
+  attempts: 1,
+  maxAttempts: 3,
+  runAt: new Date(),
+  leasedBy: 'worker-a',
+  leaseExpiresAt: new Date(Date.now() + 60000),
+  heartbeatAt: new Date(),
+  cancelRequested: false,
+  collectionRunId: null,
+  lastError: null,
+  createdAt: new Date(),
+  startedAt: new Date(),
+  completedAt: null,
+  ...overrides
+});
+
+describe('CollectionQueue leasing', () => {
+  it('fails expired leases that are out of attempts before leasing the next job', async () => {
+    db.$queryRaw
+      .mockResolvedValueOnce([{ id: 3, sourceId: 'jobtech', attempts: 3, collectionRunId: 41 }])
+      .mockResolvedValueOnce([{ id: 7 }]);
+    db.collectionJob.findUnique.mockResolvedValue(leasedJob());
+
+    const job = await collectionQueue.claimNext('worker-a');
+
+    const [abandoned, lease] = db.$queryRaw.mock.calls.map(sqlOf);
+    expect(abandoned).toContain(`SET status = 'failed'`);
+    expect(abandoned).toContain(`AND attempts >= "maxAttempts"`);
+    expect(collectionHistoryService.failInterruptedRun).toHaveBeenCalledWith(41);
+
+    // Expired leases are only taken over while they have attempts left
+    expect(lease).toContain(`candidate."leaseExpiresAt" < now() AND candidate.attempts < candidate."maxAttempts"`);
+    expect(db.collectionJob.findUnique).toHaveBeenCalledWith({ where: { id: 7 } });
+    expect(job?.id).toBe(7);
+  });
+
+  it('returns null when no job is due', async () => {
+    db.$queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+
+    await expect(collectionQueue.claimNext('worker-a')).resolves.toBeNull();
+    expect(collectionHistoryService.failInterruptedRun).not.toHaveBeenCalled();
+    expect(db.collectionJob.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('reports a lost lease on heartbeat', async () => {
+    db.collectionJob.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(collectionQueue.heartbeat(7, 'worker-a')).resolves.toEqual({ leaseHeld: false, cancelRequested: false });
+    expect(db.collectionJob.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 7, leasedBy: 'worker-a', status: 'running' }
+    }));
+  });
+
+  it('queues a failed attempt again with backoff while attempts are left', async () => {
+    db.collectionJob.updateMany.mockResolvedValue({ count: 1 });
+
+    await collectionQueue.fail(leasedJob({ attempts: 2 }), 'worker-a', 'timeout');
+
+    const { data } = db.collectionJob.updateMany.mock.calls[0][0];
+    expect(data).toMatchObject({ status: 'queued', leasedBy: null, lastError: 'timeout' });
+    expect(data.runAt.getTime()).toBeGreaterThan(Date.now() + 60000);
+  });
+
+  it('fails the job on its last attempt', async () => {
+    db.collectionJob.updateMany.mockResolvedValue({ count: 1 });
+
+    await collectionQueue.fail(leasedJob({ attempts: 3 }), 'worker-a', 'timeout');
+
+    expect(db.collectionJob.updateMany.mock.calls[0][0].data).toMatchObject({ status: 'failed', lastError: 'timeout' });
+  });
+});
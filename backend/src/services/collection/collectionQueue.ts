@@ -0,0 +1,345 @@
+/**
+ * Postgres-backed queue of collection jobs. Workers lease one job at a time
+ * and keep the lease alive with heartbeats; a job whose lease runs out is
+ * picked up again by another worker. Failed jobs are retried with
+ * exponential backoff.
+ */
+import createError from 'http-errors';
+import { CollectionJob, Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { collectionHistoryService } from './collectionHistoryService';
+import { logger } from '../../utils/logger';
+
+export const COLLECTION_JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+
+export type CollectionJobStatus = typeof COLLECTION_JOB_STATUSES[number];
+
+export type CollectionJobTrigger = 'manual' | 'schedule' | 'startup';
+
+export interface EnqueueOptions {
+  trigger?: CollectionJobTrigger;
+  requestedById?: number;
+  // Skip enqueueing when the source already has a queued or running job
+  skipIfPending?: boolean;
+}
+
+export interface CollectionJobFilters {
+  sourceId?: string;
+  status?: CollectionJobStatus;
+  limit: number;
+  offset: number;
+}
+
+const LEASE_MS = parseInt(process.env.COLLECTION_LEASE_MS || '120000');
+const MAX_ATTEMPTS = parseInt(process.env.COLLECTION_MAX_ATTEMPTS || '3');
+const RETRY_BASE_MS = parseInt(process.env.COLLECTION_RETRY_BASE_MS || '60000');
+
+class CollectionQueue {
+  /**
+   * Adds a collection job for a source
+   * @param sourceId Source ID
+   * @param options Trigger, requesting user and duplicate handling
+   * @returns Queued job, or the pending job when skipIfPending matched one
+   */
+  public async enqueue(sourceId: string, options: EnqueueOptions = {}): Promise<CollectionJob> {
+    if (options.skipIfPending) {
+      const pending = await prisma.collectionJob.findFirst({
+        where: { sourceId, status: { in: ['queued', 'running'] } },
+        orderBy: { id: 'desc' }
+      });
+
+      if (pending) {
+        logger.debug(`Collection for ${sourceId} already pending as job ${pending.id}`);
+        return pending;
+      }
+    }
+
+    const job = await prisma.collectionJob.create({
+      data: {
+        sourceId,
+        trigger: options.trigger || 'manual',
+        requestedById: options.requestedById,
+        maxAttempts: MAX_ATTEMPTS
+      }
+    });
+
+    logger.info(`Queued collection job ${job.id} for ${sourceId}`, { trigger: job.trigger });
+
+    return job;
+  }
+
+  /**
+   * Gets a job
+   * @param id Job ID
+   * @returns Job
+   */
+  public async get(id: number): Promise<CollectionJob> {
+    const job = await prisma.collectionJob.findUnique({ where: { id } });
+
+    if (!job) {
+      throw createError(404, 'Collection job not found');
+    }
+
+    return job;
+  }
+
+  /**
+   * Lists jobs, newest first
+   * @param filters Source and status filters and pagination
+   * @returns Page of jobs and the total
+   */
+  public async list(filters: CollectionJobFilters) {
+    const where: Prisma.CollectionJobWhereInput = {
+      ...(filters.sourceId ? { sourceId: filters.sourceId } : {}),
+      ...(filters.status ? { status: filters.status } : {})
+    };
+
+    const [jobs, total] = await Promise.all([
+      prisma.collectionJob.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        take: filters.limit,
+        skip: filters.offset
+      }),
+      prisma.collectionJob.count({ where })
+    ]);
+
+    return { jobs, total };
+  }
+
+  /**
+   * Cancels a job. Queued jobs are cancelled at once; running jobs are
+   * flagged and stopped by their worker at the next heartbeat.
+   * @param id Job ID
+   * @returns Updated job
+   */
+  public async cancel(id: number): Promise<CollectionJob> {
+    const job = await this.get(id);
+
+    if (job.status === 'queued') {
+      const { count } = await prisma.collectionJob.updateMany({
+        where: { id, status: 'queued' },
+        data: { status: 'cancelled', completedAt: new Date() }
+      });
+
+      // Leased between the read and the update; fall through to a cancel request
+      if (count > 0) {
+        return this.get(id);
+      }
+    }
+
+    if (job.status === 'queued' || job.status === 'running') {
+      return prisma.collectionJob.update({
+        where: { id },
+        data: { cancelRequested: true }
+      });
+    }
+
+    throw createError(409, `Collection job is already ${job.status}`);
+  }
+
+  /**
+   * Leases the next due job. Jobs whose lease has expired are leased again
+   * while they have attempts left, and a source is never leased twice at the
+   * same time.
+   * @param workerId Worker ID
+   * @returns Leased job, or null when nothing is due
+   */
+  public async claimNext(workerId: string): Promise<CollectionJob | null> {
+    await this.failAbandoned();
+
+    const leaseExpiresAt = new Date(Date.now() + LEASE_MS);
+
+    const rows = await prisma.$queryRaw<Array<{ id: number }>>`
+      UPDATE collection_jobs
+      SET status = 'running',
+          "leasedBy" = ${workerId},
+          "leaseExpiresAt" = ${leaseExpiresAt},
+          "heartbeatAt" = now(),
+          attempts = attempts + 1,
+          "startedAt" = COALESCE("startedAt", now())
+      WHERE id = (
+        SELECT candidate.id
+        FROM collection_jobs candidate
+        WHERE (
+            (candidate.status = 'queued' AND candidate."runAt" <= now())
+            OR (
+              candidate.status = 'running'
+              AND candidate."leaseExpiresAt" < now()
+              AND candidate.attempts < candidate."maxAttempts"
+            )
+          )
+          AND NOT EXISTS (
+            SELECT 1
+            FROM collection_jobs active
+            WHERE active."sourceId" = candidate."sourceId"
+              AND active.id <> candidate.id
+              AND active.status = 'running'
+              AND active."leaseExpiresAt" >= now()
+          )
+        ORDER BY candidate."runAt", candidate.id
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `;
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return prisma.collectionJob.findUnique({ where: { id: rows[0].id } });
+  }
+
+  /**
+   * Extends the lease of a running job
+   * @param id Job ID
+   * @param workerId Worker holding the lease
+   * @returns Whether the lease is still held and whether cancellation was requested
+   */
+  public async heartbeat(id: number, workerId: string): Promise<{ leaseHeld: boolean; cancelRequested: boolean }> {
+    const { count } = await prisma.collectionJob.updateMany({
+      where: { id, leasedBy: workerId, status: 'running' },
+      data: {
+        heartbeatAt: new Date(),
+        leaseExpiresAt: new Date(Date.now() + LEASE_MS)
+      }
+    });
+
+    if (count === 0) {
+      return { leaseHeld: false, cancelRequested: false };
+    }
+
+    const job = await prisma.collectionJob.findUnique({
+      where: { id },
+      select: { cancelRequested: true }
+    });
+
+    return { leaseHeld: true, cancelRequested: job?.cancelRequested || false };
+  }
+
+  /**
+   * Links a job to the CollectionHistory row of its current attempt
+   * @param id Job ID
+   * @param collectionRunId CollectionHistory ID
+   */
+  public async setRun(id: number, collectionRunId: number): Promise<void> {
+    await prisma.collectionJob.update({
+      where: { id },
+      data: { collectionRunId }
+    });
+  }
+
+  /**
+   * Marks a leased job as succeeded
+   * @param id Job ID
+   * @param workerId Worker holding the lease
+   */
+  public async complete(id: number, workerId: string): Promise<void> {
+    await prisma.collectionJob.updateMany({
+      where: { id, leasedBy: workerId, status: 'running' },
+      data: {
+        status: 'succeeded',
+        completedAt: new Date(),
+        leasedBy: null,
+        leaseExpiresAt: null,
+        lastError: null
+      }
+    });
+  }
+
+  /**
+   * Marks a leased job as cancelled
+   * @param id Job ID
+   * @param workerId Worker holding the lease
+   */
+  public async markCancelled(id: number, workerId: string): Promise<void> {
+    await prisma.collectionJob.updateMany({
+      where: { id, leasedBy: workerId, status: 'running' },
+      data: {
+        status: 'cancelled',
+        completedAt: new Date(),
+        leasedBy: null,
+        leaseExpiresAt: null
+      }
+    });
+  }
+
+  /**
+   * Records a failed attempt. The job is queued again with exponential
+   * backoff until it runs out of attempts.
+   * @param job Leased job
+   * @param workerId Worker holding the lease
+   * @param message Error message
+   */
+  public async fail(job: CollectionJob, workerId: string, message: string): Promise<void> {
+    const retry = job.attempts < job.maxAttempts && !job.cancelRequested;
+    const delayMs = RETRY_BASE_MS * Math.pow(2, job.attempts - 1);
+
+    await prisma.collectionJob.updateMany({
+      where: { id: job.id, leasedBy: workerId, status: 'running' },
+      data: retry
+        ? {
+            status: 'queued',
+            runAt: new Date(Date.now() + delayMs),
+            leasedBy: null,
+            leaseExpiresAt: null,
+            lastError: message
+          }
+        : {
+            status: 'failed',
+            completedAt: new Date(),
+            leasedBy: null,
+            leaseExpiresAt: null,
+            lastError: message
+          }
+    });
+
+    if (retry) {
+      logger.warn(`Collection job ${job.id} failed, retrying in ${Math.round(delayMs / 1000)}s`, {
+        attempt: job.attempts,
+        error: message
+      });
+    } else {
+      logger.error(`Collection job ${job.id} failed after ${job.attempts} attempts`, { error: message });
+    }
+  }
+
+  /**
+   * Fails running jobs whose lease expired on their last attempt. Their
+   * worker died or hung, and leasing them again would retry forever.
+   */
+  private async failAbandoned(): Promise<void> {
+    const message = 'Lease expired on the last attempt';
+
+    const rows = await prisma.$queryRaw<Array<{
+      id: number;
+      sourceId: string;
+      attempts: number;
+      collectionRunId: number | null;
+    }>>`
+      UPDATE collection_jobs
+      SET status = 'failed',
+          "completedAt" = now(),
+          "leasedBy" = NULL,
+          "leaseExpiresAt" = NULL,
+          "lastError" = ${message}
+      WHERE status = 'running'
+        AND "leaseExpiresAt" < now()
+        AND attempts >= "maxAttempts"
+      RETURNING id, "sourceId", attempts, "collectionRunId"
+    `;
+
+    for (const row of rows) {
+      if (row.collectionRunId) {
+        await collectionHistoryService.failInterruptedRun(row.collectionRunId);
+      }
+      logger.error(`Collection job ${row.id} for ${row.sourceId} failed after ${row.attempts} attempts`, {
+        error: message
+      });
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const collectionQueue = new CollectionQueue();
@@ -0,0 +1,90 @@
+/**
+ * Schedules collection runs for registered sources
+ */
+import cron from 'node-cron';
+import { SourceAdapter } from '../scrapers/types';
+import { logger } from '../../utils/logger';
+
+export class CollectionScheduler {
+  private scheduledJobs: Map<string, cron.ScheduledTask> = new Map();
+
+  /**
+   * Schedules a run for every enabled source, replacing existing schedules
+   * @param sources Sources to schedule
+   * @param run Called with the source ID when a run is due
+   */
+  public scheduleAll(sources: SourceAdapter[], run: (sourceId: string) => Promise<unknown>): void {
+    logger.info('Scheduling collection tasks');
+
+    this.stopAll();
+
+    for (const source of sources) {
+      const sourceId = source.config.id;
+
+      if (!source.config.enabled) {
+        logger.debug(`Skipping disabled source: ${sourceId}`);
+        continue;
+      }
+
+      const cronExpression = source.config.schedule.cron || frequencyToCron(source.config.schedule.frequency);
+
+      try {
+        const task = cron.schedule(cronExpression, () => {
+          run(sourceId).catch(error => {
+            logger.error(`Error in scheduled collection for ${sourceId}`, {
+              error: error instanceof Error ? error.message : String(error)
+            });
+          });
+        }, {
+          timezone: 'Europe/Stockholm'
+        });
+
+        this.scheduledJobs.set(sourceId, task);
+        logger.info(`Scheduled collection for ${sourceId} with cron: ${cronExpression}`);
+      } catch (error) {
+        logger.error(`Failed to schedule collection for ${sourceId}`, {
+          error: error instanceof Error ? error.message : String(error),
+          cronExpression
+        });
+      }
+    }
+
+    logger.info(`Scheduled ${this.scheduledJobs.size} collection tasks`);
+  }
+
+  /**
+   * Stops all scheduled runs
+   */
+  public stopAll(): void {
+    for (const [sourceId, task] of this.scheduledJobs.entries()) {
+      task.stop();
+      logger.debug(`Stopped scheduled task for ${sourceId}`);
+    }
+    this.scheduledJobs.clear();
+  }
+
+  /**
+   * Number of scheduled sources
+   */
+  public get size(): number {
+    return this.scheduledJobs.size;
+  }
+}
+
+/**
+ * Converts frequency to cron expression
+ * @param frequency Frequency
+ * @returns Cron expression
+ */
+function frequencyToCron(frequency: string): string {
+  switch (frequency) {
+    case 'hourly':
+      return '0 * * * *'; // Run at the start of every hour
+    case 'daily':
+      return '0 0 * * *'; // Run at midnight every day
+    case 'weekly':
+      return '0 0 * * 1'; // Run at midnight on Monday
+    default:
+      return '0 0 * * *'; // Default to daily
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Worker that leases collection jobs from the queue and runs them
+ */
+import { CollectionJob } from '@prisma/client';
+import { collectionQueue } from './collectionQueue';
+import { collectionHistoryService } from './collectionHistoryService';
+import { CollectionResult } from '../scrapers/types';
+import { logger } from '../../utils/logger';
+
+const POLL_MS = parseInt(process.env.COLLECTION_QUEUE_POLL_MS || '5000');
+const HEARTBEAT_MS = parseInt(process.env.COLLECTION_HEARTBEAT_MS || '30000');
+
+export type CollectionRunner = (
+  sourceId: string,
+  options: { signal: AbortSignal; onRunStarted: (runId: number) => Promise<void> }
+) => Promise<CollectionResult>;
+
+export class CollectionWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private current: Promise<void> | null = null;
+
+  /**
+   * @param workerId ID written to leased jobs
+   * @param runner Runs a collection for a source
+   */
+  constructor(private readonly workerId: string, private readonly runner: CollectionRunner) {}
+
+  /**
+   * Starts polling the queue
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.poll(), POLL_MS);
+    logger.info(`Collection worker ${this.workerId} started`);
+  }
+
+  /**
+   * Stops polling and waits for the current job to finish
+   */
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.current;
+    logger.info(`Collection worker ${this.workerId} stopped`);
+  }
+
+  /**
+   * Leases and runs due jobs one at a time until the queue is empty
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      let job = await collectionQueue.claimNext(this.workerId);
+
+      while (job && this.timer) {
+        this.current = this.process(job);
+        await this.current;
+        this.current = null;
+
+        job = await collectionQueue.claimNext(this.workerId);
+      }
+    } catch (error) {
+      logger.error('Failed to poll the collection queue', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Runs a leased job, keeping the lease alive and watching for cancellation
+   * @param job Leased job
+   */
+  private async process(job: CollectionJob): Promise<void> {
+    logger.info(`Running collection job ${job.id} for ${job.sourceId}`, { attempt: job.attempts });
+
+    // A previous attempt lost its lease without recording the outcome
+    if (job.collectionRunId) {
+      await collectionHistoryService.failInterruptedRun(job.collectionRunId);
+    }
+
+    const controller = new AbortController();
+
+    const heartbeat = setInterval(async () => {
+      try {
+        const { leaseHeld, cancelRequested } = await collectionQueue.heartbeat(job.id, this.workerId);
+
+        if (!leaseHeld || cancelRequested) {
+          logger.warn(`Stopping collection job ${job.id}`, { leaseHeld, cancelRequested });
+          controller.abort();
+        }
+      } catch (error) {
+        logger.error(`Heartbeat failed for collection job ${job.id}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }, HEARTBEAT_MS);
+
+    try {
+      const result = await this.runner(job.sourceId, {
+        signal: controller.signal,
+        onRunStarted: runId => collectionQueue.setRun(job.id, runId)
+      });
+
+      if (result.status === 'failure') {
+        const message = result.errors.map(error => error.message).join('; ') || 'Collection failed';
+        await collectionQueue.fail(job, this.workerId, message);
+      } else {
+        await collectionQueue.complete(job.id, this.workerId);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (controller.signal.aborted) {
+        await collectionQueue.markCancelled(job.id, this.workerId);
+        logger.info(`Collection job ${job.id} cancelled`);
+      } else {
+        await collectionQueue.fail(job, this.workerId, message);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
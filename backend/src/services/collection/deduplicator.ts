@@ -0,0 +1,40 @@
+/**
+ * Removes duplicate job listings within a collection before they are
+ * stored. The same ad posted on other sources is clustered once stored,
+ * see jobDuplicateService.
+ */
+import { JobData } from '../scrapers/types';
+import { logger } from '../../utils/logger';
+
+export interface DeduplicationResult {
+  jobs: JobData[];
+  duplicatesRemoved: number;
+}
+
+export class Deduplicator {
+  /**
+   * Removes in-batch duplicates
+   * @param jobs Jobs collected from one source
+   * @returns Jobs to store with the number of duplicates removed
+   */
+  public async deduplicate(jobs: JobData[]): Promise<DeduplicationResult> {
+    logger.info(`Deduplicating ${jobs.length} jobs`);
+
+    // The same ad can appear on several result pages; keep the last copy
+    const bySourceKey = new Map<string, JobData>();
+    for (const job of jobs) {
+      bySourceKey.set(`${job.source}:${job.externalId}`, job);
+    }
+    const uniqueJobs = [...bySourceKey.values()];
+
+    logger.info(`Deduplication complete: ${uniqueJobs.length} unique jobs`);
+
+    return {
+      jobs: uniqueJobs,
+      duplicatesRemoved: jobs.length - uniqueJobs.length
+    };
+  }
+}
+
+// Create and export a singleton instance
+export const deduplicator = new Deduplicator();
@@ -0,0 +1,90 @@
+/**
+ * Lease-based leader lock stored in Postgres. The holder renews the lease
+ * well before it expires; if it dies, another instance takes over once the
+ * lease has run out.
+ */
+import { prisma } from '../database/db.service';
+import { logger } from '../../utils/logger';
+
+const LOCK_TTL_MS = parseInt(process.env.LEADER_LOCK_TTL_MS || '60000');
+
+export class LeaderLock {
+  private leader = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param name Lock name
+   * @param holderId ID of this instance
+   */
+  constructor(private readonly name: string, private readonly holderId: string) {}
+
+  /**
+   * Whether this instance currently holds the lock
+   */
+  public get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Tries to take the lock now and keeps renewing it
+   */
+  public async start(): Promise<void> {
+    await this.renew();
+
+    this.timer = setInterval(() => {
+      this.renew().catch(() => undefined);
+    }, Math.floor(LOCK_TTL_MS / 3));
+  }
+
+  /**
+   * Stops renewing and releases the lock if held
+   */
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.leader) {
+      this.leader = false;
+      await prisma.schedulerLock.deleteMany({
+        where: { name: this.name, holder: this.holderId }
+      });
+      logger.info(`Released leader lock ${this.name}`);
+    }
+  }
+
+  /**
+   * Takes the lock if it is free or expired, or extends it if already held
+   */
+  private async renew(): Promise<void> {
+    const expiresAt = new Date(Date.now() + LOCK_TTL_MS);
+
+    try {
+      const rows = await prisma.$queryRaw<Array<{ holder: string }>>`
+        INSERT INTO scheduler_locks (name, holder, "expiresAt")
+        VALUES (${this.name}, ${this.holderId}, ${expiresAt})
+        ON CONFLICT (name) DO UPDATE
+        SET holder = EXCLUDED.holder, "expiresAt" = EXCLUDED."expiresAt"
+        WHERE scheduler_locks.holder = EXCLUDED.holder
+          OR scheduler_locks."expiresAt" < now()
+        RETURNING holder
+      `;
+
+      this.setLeader(rows.length > 0);
+    } catch (error) {
+      // Without a confirmed lease we can't be sure we are still the leader
+      this.setLeader(false);
+      logger.error(`Failed to renew leader lock ${this.name}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private setLeader(leader: boolean): void {
+    if (leader !== this.leader) {
+      logger.info(leader ? `Acquired leader lock ${this.name}` : `Lost leader lock ${this.name}`);
+    }
+    this.leader = leader;
+  }
+}
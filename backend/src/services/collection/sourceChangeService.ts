@@ -0,0 +1,346 @@
+/**
+ * Records structural changes detected in sources and repairs broken
+ * selectors. A candidate selector is previewed against the page the change
+ * was detected on; an accepted one is stored as an override of the site
+ * config and used from the source's next collection.
+ */
+import createError from 'http-errors';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { ChangeDetectionResult, SelectorSuggestion, StructuralChange } from '../scrapers/types';
+import { DeclarativeScraper, applySelectorOverrides } from '../scrapers/declarative/declarativeScraper';
+import { scraperSites } from '../scrapers/config/scraperSites';
+import { ScraperSourceConfig } from '../data-collection';
+import { auditService } from '../audit/auditService';
+import { logger } from '../../utils/logger';
+
+export interface SourceChangeFilters {
+  sourceId?: string;
+  resolved?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface SelectorPreview {
+  key: string;
+  selector: string;
+  jobCards: number;
+  currentJobCards: number; // with the selectors in use
+  fieldCoverage: Record<string, number>; // job cards with a value, per field
+  samples: Array<{ url: string; fields: Record<string, unknown> }>;
+}
+
+// Job cards returned by a preview
+const PREVIEW_SAMPLES = 10;
+
+// The snapshot is only read when previewing
+const changeSelect = {
+  id: true,
+  sourceId: true,
+  detectedAt: true,
+  status: true,
+  changes: true,
+  suggestions: true,
+  resolved: true,
+  resolvedAt: true,
+  resolvedById: true,
+  notes: true
+} satisfies Prisma.SourceChangeSelect;
+
+type ChangeRow = Prisma.SourceChangeGetPayload<{ select: typeof changeSelect }>;
+
+class SourceChangeService {
+  /**
+   * Records a detected change. Changes the scraper can adapt to are stored
+   * as resolved; the others stay open until an admin handles them.
+   * @param result Change detection result
+   * @returns Change ID, or null when nothing changed
+   */
+  public async record(result: ChangeDetectionResult): Promise<number | null> {
+    // A failed detection says nothing about the page
+    if (result.status === 'unchanged' || result.status === 'error') {
+      return null;
+    }
+
+    const change = await prisma.sourceChange.create({
+      data: {
+        sourceId: result.sourceId,
+        detectedAt: result.timestamp,
+        status: result.status,
+        changes: this.toJson(result.changes),
+        suggestions: this.toJson(result.suggestions || []),
+        snapshot: result.snapshot,
+        resolved: result.canAdaptAutomatically,
+        resolvedAt: result.canAdaptAutomatically ? new Date() : null,
+        notes: result.canAdaptAutomatically ? 'No high-impact changes, adapted automatically' : null
+      }
+    });
+
+    logger.info(`Recorded source change ${change.id} for ${result.sourceId}`, {
+      status: result.status,
+      resolved: change.resolved,
+      suggestionCount: result.suggestions?.length || 0
+    });
+
+    return change.id;
+  }
+
+  /**
+   * Lists changes, newest first
+   * @param filters Source and resolved filters and pagination
+   * @returns Page of changes and the total
+   */
+  public async list(filters: SourceChangeFilters) {
+    const where: Prisma.SourceChangeWhereInput = {
+      ...(filters.sourceId ? { sourceId: filters.sourceId } : {}),
+      ...(filters.resolved !== undefined ? { resolved: filters.resolved } : {})
+    };
+
+    const [changes, total] = await Promise.all([
+      prisma.sourceChange.findMany({
+        where,
+        orderBy: [{ detectedAt: 'desc' }, { id: 'desc' }],
+        take: filters.limit,
+        skip: filters.offset,
+        select: changeSelect
+      }),
+      prisma.sourceChange.count({ where })
+    ]);
+
+    return { changes: changes.map(change => this.toResponse(change)), total };
+  }
+
+  /**
+   * Gets a change with its suggestions and the selector overrides of its source
+   * @param changeId Change ID
+   * @returns Change
+   */
+  public async get(changeId: number) {
+    const change = await this.findChange(changeId);
+    const overrides = await this.getOverrides(change.sourceId);
+
+    return { ...this.toResponse(change), overrides };
+  }
+
+  /**
+   * Gets the selectors accepted for a source
+   * @param sourceId Source ID
+   * @returns Selectors by config key
+   */
+  public async getOverrides(sourceId: string): Promise<Record<string, string>> {
+    const overrides = await prisma.sourceConfigOverride.findMany({
+      where: { sourceId },
+      orderBy: { id: 'asc' }
+    });
+
+    return Object.fromEntries(overrides.map(override => [override.key, override.value]));
+  }
+
+  /**
+   * Gets a scraper site config with its accepted selectors applied
+   * @param sourceId Source ID
+   * @returns Site config, or undefined when the source is not a scraper site
+   */
+  public async getSite(sourceId: string): Promise<ScraperSourceConfig | undefined> {
+    const site = scraperSites.find(candidate => candidate.id === sourceId);
+    if (!site) {
+      return undefined;
+    }
+
+    let result = site;
+
+    // An override for a selector since removed from the config is skipped
+    for (const [key, value] of Object.entries(await this.getOverrides(sourceId))) {
+      try {
+        result = applySelectorOverrides(result, { [key]: value });
+      } catch (error) {
+        logger.warn(`Skipping selector override ${key} for ${sourceId}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Extracts the job cards of the change's snapshot with a candidate selector
+   * @param changeId Change ID
+   * @param key Config key of the selector, e.g. selectors.jobCard
+   * @param selector Candidate selector
+   * @returns Extraction with the candidate, and the number of job cards without it
+   */
+  public async preview(changeId: number, key: string, selector: string): Promise<SelectorPreview> {
+    const change = await prisma.sourceChange.findUnique({
+      where: { id: changeId },
+      select: { sourceId: true, snapshot: true }
+    });
+
+    if (!change) {
+      throw createError(404, 'Source change not found');
+    }
+    if (!change.snapshot) {
+      throw createError(409, 'Source change has no snapshot to preview against');
+    }
+
+    const site = await this.getSite(change.sourceId);
+    if (!site) {
+      throw createError(400, `Source ${change.sourceId} has no selectors to repair`);
+    }
+
+    let candidate: DeclarativeScraper;
+    try {
+      candidate = new DeclarativeScraper(applySelectorOverrides(site, { [key]: selector }));
+    } catch (error) {
+      throw createError(400, error instanceof Error ? error.message : String(error));
+    }
+
+    const extract = (scraper: DeclarativeScraper) => {
+      try {
+        return scraper.extractListing(change.snapshot!, site.targetUrl).cards;
+      } catch (error) {
+        // Invalid selectors and pages missing waitForSelector extract nothing
+        return [];
+      }
+    };
+
+    const cards = extract(candidate);
+    const currentCards = extract(new DeclarativeScraper(site));
+
+    const fieldCoverage: Record<string, number> = {};
+    for (const card of cards) {
+      for (const [field, value] of Object.entries(card.fields)) {
+        if (value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)) {
+          fieldCoverage[field] = (fieldCoverage[field] || 0) + 1;
+        }
+      }
+    }
+
+    return {
+      key,
+      selector,
+      jobCards: cards.length,
+      currentJobCards: currentCards.length,
+      fieldCoverage,
+      samples: cards.slice(0, PREVIEW_SAMPLES)
+    };
+  }
+
+  /**
+   * Accepts a selector for a change: stores it as an override of the site
+   * config and marks the change resolved
+   * @param changeId Change ID
+   * @param key Config key of the selector
+   * @param selector Accepted selector
+   * @param actorId Accepting user
+   * @returns Preview of the accepted selector
+   */
+  public async accept(changeId: number, key: string, selector: string, actorId: number | null): Promise<SelectorPreview> {
+    const change = await this.findChange(changeId);
+    if (change.resolved) {
+      throw createError(409, 'Source change is already resolved');
+    }
+
+    const preview = await this.preview(changeId, key, selector);
+    if (preview.jobCards === 0) {
+      throw createError(422, `Selector ${selector} extracts no job cards from the snapshot`);
+    }
+
+    await prisma.$transaction(async tx => {
+      await tx.sourceConfigOverride.upsert({
+        where: { sourceId_key: { sourceId: change.sourceId, key } },
+        create: { sourceId: change.sourceId, key, value: selector, sourceChangeId: changeId, updatedById: actorId },
+        update: { value: selector, sourceChangeId: changeId, updatedById: actorId }
+      });
+
+      await tx.sourceChange.update({
+        where: { id: changeId },
+        data: {
+          resolved: true,
+          resolvedAt: new Date(),
+          resolvedById: actorId,
+          notes: `Accepted ${key}: ${selector}`
+        }
+      });
+
+      await auditService.record({
+        actorId,
+        action: 'source_change.accept',
+        entityType: 'source_change',
+        entityId: changeId,
+        details: { sourceId: change.sourceId, key, selector, jobCards: preview.jobCards }
+      }, tx);
+    });
+
+    logger.info(`Accepted selector ${selector} for ${key} of ${change.sourceId}`, { changeId });
+
+    return preview;
+  }
+
+  /**
+   * Marks a change resolved without changing the source config
+   * @param changeId Change ID
+   * @param actorId Dismissing user
+   * @param notes Why no repair is needed
+   * @returns Change
+   */
+  public async dismiss(changeId: number, actorId: number | null, notes?: string) {
+    const change = await this.findChange(changeId);
+    if (change.resolved) {
+      throw createError(409, 'Source change is already resolved');
+    }
+
+    const updated = await prisma.$transaction(async tx => {
+      const result = await tx.sourceChange.update({
+        where: { id: changeId },
+        data: {
+          resolved: true,
+          resolvedAt: new Date(),
+          resolvedById: actorId,
+          notes: notes || 'Dismissed'
+        },
+        select: changeSelect
+      });
+
+      await auditService.record({
+        actorId,
+        action: 'source_change.dismiss',
+        entityType: 'source_change',
+        entityId: changeId,
+        details: { sourceId: change.sourceId, ...(notes ? { notes } : {}) }
+      }, tx);
+
+      return result;
+    });
+
+    return this.toResponse(updated);
+  }
+
+  private async findChange(changeId: number): Promise<ChangeRow> {
+    const change = await prisma.sourceChange.findUnique({
+      where: { id: changeId },
+      select: changeSelect
+    });
+
+    if (!change) {
+      throw createError(404, 'Source change not found');
+    }
+
+    return change;
+  }
+
+  private toResponse({ changes, suggestions, ...change }: ChangeRow) {
+    return {
+      ...change,
+      changes: (changes as unknown as StructuralChange[] | null) || [],
+      suggestions: (suggestions as unknown as SelectorSuggestion[] | null) || []
+    };
+  }
+
+  private toJson(entries: StructuralChange[] | SelectorSuggestion[]): Prisma.InputJsonArray {
+    return JSON.parse(JSON.stringify(entries));
+  }
+}
+
+// Create and export a singleton instance
+export const sourceChangeService = new SourceChangeService();
@@ -0,0 +1,69 @@
+/**
+ * Registry of all job sources, whether scrapers, API services or DataSources
+ */
+import { SourceAdapter } from '../scrapers/types';
+import { logger } from '../../utils/logger';
+
+export class SourceRegistry {
+  private sources: Map<string, SourceAdapter> = new Map();
+
+  /**
+   * Registers a source under its configured ID
+   * @param source Source adapter
+   */
+  public register(source: SourceAdapter): void {
+    const sourceId = source.config.id;
+
+    if (this.sources.has(sourceId)) {
+      throw new Error(`Source already registered: ${sourceId}`);
+    }
+
+    this.sources.set(sourceId, source);
+    logger.info(`Registered source: ${sourceId}`);
+  }
+
+  /**
+   * Replaces a registered source, e.g. with one built from an updated config
+   * @param source Source adapter
+   */
+  public replace(source: SourceAdapter): void {
+    const sourceId = source.config.id;
+
+    if (!this.sources.has(sourceId)) {
+      throw new Error(`Source not registered: ${sourceId}`);
+    }
+
+    this.sources.set(sourceId, source);
+    logger.info(`Replaced source: ${sourceId}`);
+  }
+
+  /**
+   * Gets a source by ID
+   * @param sourceId Source ID
+   * @returns Source adapter or undefined
+   */
+  public get(sourceId: string): SourceAdapter | undefined {
+    return this.sources.get(sourceId);
+  }
+
+  /**
+   * Lists all registered sources
+   * @returns Source adapters in registration order
+   */
+  public list(): SourceAdapter[] {
+    return [...this.sources.values()];
+  }
+
+  /**
+   * Lists enabled sources, highest priority first
+   * @returns Enabled source adapters
+   */
+  public listEnabled(): SourceAdapter[] {
+    return this.list()
+      .filter(source => source.config.enabled)
+      .sort((a, b) => (b.config.priority || 0) - (a.config.priority || 0));
+  }
+}
+
+// Create and export a singleton instance
+export const sourceRegistry = new SourceRegistry();
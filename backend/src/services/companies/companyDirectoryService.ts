@@ -0,0 +1,263 @@
+/**
+ * Public directory of the companies jobs are posted by. Job counts are over
+ * canonical jobs, so an ad posted on several sources counts once; a job is
+ * open until it is removed at the source or expires.
+ */
+import createError from 'http-errors';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+
+export const COMPANY_SORT_ORDERS = ['openJobs', 'name', 'recent'] as const;
+
+export type CompanySortOrder = typeof COMPANY_SORT_ORDERS[number];
+
+export interface CompanyDirectoryFilters {
+  q?: string;
+  verified?: boolean;
+  hasOpenJobs?: boolean;
+  sort: CompanySortOrder;
+  limit: number;
+  offset: number;
+}
+
+export interface CompanyListItem {
+  id: number;
+  name: string;
+  website: string | null;
+  logoUrl: string | null;
+  verified: boolean;
+  openJobs: number;
+  totalJobs: number;
+  lastPublishedAt: Date | null;
+}
+
+export interface CompanyRole {
+  conceptId: string | null; // Occupation group, or occupation, in the JobTech taxonomy
+  label: string;
+  jobCount: number;
+}
+
+export interface CompanyLocation {
+  name: string; // Municipality, or city when the municipality is unknown
+  region: string | null;
+  jobCount: number;
+}
+
+export interface CompanyTimelineMonth {
+  month: string; // YYYY-MM
+  published: number;
+  removed: number;
+}
+
+// Roles and locations shown on a company profile
+const PROFILE_TOP_ENTRIES = 5;
+// Months covered by the hiring timeline, the current one included
+const TIMELINE_MONTHS = 24;
+
+const OPEN_JOB = Prisma.sql`j."removedAt" IS NULL AND (j."expiresAt" IS NULL OR j."expiresAt" > now())`;
+
+const SORT_ORDER_BY: Record<CompanySortOrder, Prisma.Sql> = {
+  openJobs: Prisma.sql`"openJobs" DESC, c.name ASC, c.id ASC`,
+  name: Prisma.sql`c.name ASC, c.id ASC`,
+  recent: Prisma.sql`"lastPublishedAt" DESC NULLS LAST, c.id ASC`
+};
+
+class CompanyDirectoryService {
+  /**
+   * Lists companies with their job counts
+   * @param filters Name search, verified and open jobs filters, sort order and pagination
+   * @returns Page of companies and the total
+   */
+  public async list(filters: CompanyDirectoryFilters): Promise<{ companies: CompanyListItem[]; total: number }> {
+    const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+
+    if (filters.q) {
+      const pattern = `%${filters.q.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(Prisma.sql`(
+        c.name ILIKE ${pattern}
+        OR EXISTS (SELECT 1 FROM company_aliases a WHERE a."companyId" = c.id AND a.name ILIKE ${pattern})
+      )`);
+    }
+    if (filters.verified !== undefined) {
+      conditions.push(Prisma.sql`c.verified = ${filters.verified}`);
+    }
+
+    const grouped = Prisma.sql`
+      SELECT c.id, c.name, c.website, c."logoUrl", c.verified,
+             (COUNT(j.id) FILTER (WHERE ${OPEN_JOB}))::int AS "openJobs",
+             COUNT(j.id)::int AS "totalJobs",
+             MAX(j."publishedAt") AS "lastPublishedAt"
+      FROM companies c
+      LEFT JOIN jobs j ON j."companyId" = c.id AND j."canonicalJobId" IS NULL
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      GROUP BY c.id
+      ${filters.hasOpenJobs ? Prisma.sql`HAVING COUNT(j.id) FILTER (WHERE ${OPEN_JOB}) > 0` : Prisma.empty}
+    `;
+
+    const [companies, [{ total }]] = await Promise.all([
+      prisma.$queryRaw<CompanyListItem[]>`
+        ${grouped}
+        ORDER BY ${SORT_ORDER_BY[filters.sort]}
+        LIMIT ${filters.limit} OFFSET ${filters.offset}
+      `,
+      prisma.$queryRaw<Array<{ total: number }>>`SELECT COUNT(*)::int AS total FROM (${grouped}) grouped`
+    ]);
+
+    return { companies, total };
+  }
+
+  /**
+   * Gets a company profile: details, job counts, typical roles and
+   * locations, and how many jobs were published and removed per month
+   * @param companyId Company ID
+   * @returns Company profile
+   */
+  public async getProfile(companyId: number) {
+    const company = await prisma.company.findUnique({
+      where: { id: companyId },
+      select: {
+        id: true,
+        name: true,
+        website: true,
+        logoUrl: true,
+        verified: true,
+        organizationNumber: true,
+        aliases: { select: { name: true }, orderBy: { name: 'asc' } }
+      }
+    });
+
+    if (!company) {
+      throw createError(404, 'Company not found');
+    }
+
+    const [[counts], typicalRoles, locations, timeline] = await Promise.all([
+      prisma.$queryRaw<Array<{
+        openJobs: number;
+        totalJobs: number;
+        firstPublishedAt: Date | null;
+        lastPublishedAt: Date | null;
+      }>>`
+        SELECT (COUNT(*) FILTER (WHERE ${OPEN_JOB}))::int AS "openJobs",
+               COUNT(*)::int AS "totalJobs",
+               MIN(j."publishedAt") AS "firstPublishedAt",
+               MAX(j."publishedAt") AS "lastPublishedAt"
+        FROM jobs j
+        WHERE j."companyId" = ${companyId} AND j."canonicalJobId" IS NULL
+      `,
+      this.getTypicalRoles(companyId),
+      this.getLocations(companyId),
+      this.getTimeline(companyId)
+    ]);
+
+    return {
+      ...company,
+      aliases: company.aliases.map(alias => alias.name),
+      jobs: {
+        open: counts.openJobs,
+        closed: counts.totalJobs - counts.openJobs,
+        total: counts.totalJobs,
+        firstPublishedAt: counts.firstPublishedAt,
+        lastPublishedAt: counts.lastPublishedAt
+      },
+      typicalRoles,
+      locations,
+      timeline
+    };
+  }
+
+  /**
+   * Checks that a company exists
+   * @param companyId Company ID
+   */
+  public async assertExists(companyId: number): Promise<void> {
+    const company = await prisma.company.findUnique({ where: { id: companyId }, select: { id: true } });
+
+    if (!company) {
+      throw createError(404, 'Company not found');
+    }
+  }
+
+  /**
+   * Most common occupation groups of the company's jobs. Companies whose
+   * jobs have no taxonomy occupation, such as scraped ones, get their most
+   * common titles instead.
+   */
+  private async getTypicalRoles(companyId: number): Promise<CompanyRole[]> {
+    const occupations = await prisma.$queryRaw<Array<{ conceptId: string; jobCount: number }>>`
+      SELECT COALESCE(j."occupationGroupConceptId", j."occupationConceptId") AS "conceptId",
+             COUNT(*)::int AS "jobCount"
+      FROM jobs j
+      WHERE j."companyId" = ${companyId}
+        AND j."canonicalJobId" IS NULL
+        AND COALESCE(j."occupationGroupConceptId", j."occupationConceptId") IS NOT NULL
+      GROUP BY 1
+      ORDER BY 2 DESC, 1
+      LIMIT ${PROFILE_TOP_ENTRIES}
+    `;
+
+    if (occupations.length > 0) {
+      const concepts = await prisma.taxonomyConcept.findMany({
+        where: { id: { in: occupations.map(occupation => occupation.conceptId) } },
+        select: { id: true, label: true }
+      });
+      const labels = new Map(concepts.map(concept => [concept.id, concept.label]));
+
+      return occupations.map(occupation => ({
+        conceptId: occupation.conceptId,
+        label: labels.get(occupation.conceptId) || occupation.conceptId,
+        jobCount: occupation.jobCount
+      }));
+    }
+
+    return prisma.$queryRaw<CompanyRole[]>`
+      SELECT NULL AS "conceptId", MIN(j.title) AS label, COUNT(*)::int AS "jobCount"
+      FROM jobs j
+      WHERE j."companyId" = ${companyId} AND j."canonicalJobId" IS NULL
+      GROUP BY lower(j.title)
+      ORDER BY 3 DESC, 2
+      LIMIT ${PROFILE_TOP_ENTRIES}
+    `;
+  }
+
+  /**
+   * Municipalities the company's jobs are most often in
+   */
+  private async getLocations(companyId: number): Promise<CompanyLocation[]> {
+    return prisma.$queryRaw<CompanyLocation[]>`
+      SELECT COALESCE(l.municipality, l.city) AS name, MIN(l.region) AS region, COUNT(*)::int AS "jobCount"
+      FROM jobs j
+      JOIN locations l ON l.id = j."locationId"
+      WHERE j."companyId" = ${companyId}
+        AND j."canonicalJobId" IS NULL
+        AND COALESCE(l.municipality, l.city) IS NOT NULL
+      GROUP BY 1
+      ORDER BY 3 DESC, 1
+      LIMIT ${PROFILE_TOP_ENTRIES}
+    `;
+  }
+
+  /**
+   * Jobs published and removed per month, oldest month first, months
+   * without jobs included
+   */
+  private async getTimeline(companyId: number): Promise<CompanyTimelineMonth[]> {
+    return prisma.$queryRaw<CompanyTimelineMonth[]>`
+      SELECT to_char(m.month, 'YYYY-MM') AS month,
+             (SELECT COUNT(*) FROM jobs j
+              WHERE j."companyId" = ${companyId} AND j."canonicalJobId" IS NULL
+                AND date_trunc('month', j."publishedAt") = m.month)::int AS published,
+             (SELECT COUNT(*) FROM jobs j
+              WHERE j."companyId" = ${companyId} AND j."canonicalJobId" IS NULL
+                AND date_trunc('month', j."removedAt") = m.month)::int AS removed
+      FROM generate_series(
+        date_trunc('month', now()::timestamp) - make_interval(months => ${TIMELINE_MONTHS - 1}::int),
+        date_trunc('month', now()::timestamp),
+        interval '1 month'
+      ) AS m(month)
+      ORDER BY m.month
+    `;
+  }
+}
+
+// Create and export a singleton instance
+export const companyDirectoryService = new CompanyDirectoryService();
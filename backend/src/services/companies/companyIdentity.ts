@@ -0,0 +1,101 @@
+/**
+ * Keys companies are resolved by: Swedish organization numbers, validated
+ * with the Luhn check digit, and company names without legal form, case or
+ * punctuation, so that "Finance Group AB" and "Finance Group" resolve to the
+ * same company.
+ */
+
+// Legal forms and country suffixes that don't tell companies apart
+const LEGAL_FORMS = /\b(aktiebolag|ab|hb|kb|inc|llc|ltd|limited|gmbh|oy|asa|sverige|sweden)\b/g;
+
+/**
+ * Normalizes an organization number to NNNNNN-NNNN
+ * @param value Organization number as given by the source, with or without
+ * hyphen or century digits
+ * @returns Normalized number, or null when it is missing or fails the check digit
+ */
+export function normalizeOrganizationNumber(value?: string | null): string | null {
+  let digits = (value || '').replace(/[\s-]/g, '');
+
+  // Sole traders are registered under their personal identity number, which
+  // sources sometimes give with the century
+  if (/^(16|18|19|20)\d{10}$/.test(digits)) {
+    digits = digits.slice(2);
+  }
+
+  if (!/^\d{10}$/.test(digits) || !passesLuhn(digits)) {
+    return null;
+  }
+
+  return `${digits.slice(0, 6)}-${digits.slice(6)}`;
+}
+
+/**
+ * Normalizes a company name for comparison, dropping legal forms such as AB
+ * @param name Company name
+ * @returns Normalized name; a name that is nothing but a legal form is only lowercased
+ */
+export function normalizeCompanyName(name: string): string {
+  const lowercased = name.trim().toLowerCase();
+  const normalized = lowercased
+    .replace(/\(publ\)/g, ' ')
+    .replace(LEGAL_FORMS, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, '');
+
+  return normalized || lowercased;
+}
+
+/**
+ * Compares two normalized company names by edit distance
+ * @param a Normalized name
+ * @param b Normalized name
+ * @returns Similarity from 0 to 1
+ */
+export function companyNameSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (!a || !b) {
+    return 0;
+  }
+
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Luhn check over all ten digits; the last one is the check digit
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,474 @@
+/**
+ * Resolves the companies of collected jobs and keeps them free of
+ * duplicates. A company is found by its organization number when the source
+ * gives a valid one, then by its normalized name or one of its aliases, and
+ * finally by a close match of the name. Duplicates that still slip through
+ * are merged by an admin, which re-points their jobs and keeps their names
+ * as aliases.
+ */
+import createError from 'http-errors';
+import { Company, Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { JobData } from '../scrapers/types';
+import { auditService } from '../audit/auditService';
+import { companyNameSimilarity, normalizeCompanyName, normalizeOrganizationNumber } from './companyIdentity';
+import { logger } from '../../utils/logger';
+
+export interface DuplicateCompanyGroup {
+  normalizedName: string;
+  companies: Array<{ id: number; name: string; organizationNumber: string | null; jobCount: number }>;
+}
+
+const MIN_NAME_SIMILARITY = parseFloat(process.env.COMPANY_MIN_NAME_SIMILARITY || '0.9');
+// Shorter names are too likely to be close to another company's by accident
+const MIN_FUZZY_NAME_LENGTH = 6;
+// Companies compared per fuzzy lookup
+const MAX_FUZZY_CANDIDATES = 100;
+const BATCH_SIZE = 500;
+
+class CompanyService {
+  /**
+   * Finds the company of a collected job, creating it when it is new, and
+   * fills in details the source gives
+   * @param company Company data of the job
+   * @param client Transaction to resolve the company in, if any
+   * @returns Company
+   */
+  public async resolve(company: JobData['company'], client: Prisma.TransactionClient = prisma): Promise<Company> {
+    if (!company || !company.name) {
+      throw new Error('Company name is required');
+    }
+
+    const organizationNumber = normalizeOrganizationNumber(company.organizationNumber);
+    const existingCompany = await this.find(company.name, organizationNumber, client);
+
+    if (existingCompany) {
+      return this.updateDetails(existingCompany, company, organizationNumber, client);
+    }
+
+    try {
+      return await client.company.create({
+        data: {
+          name: company.name,
+          normalizedName: normalizeCompanyName(company.name),
+          website: company.website,
+          email: company.email,
+          phone: company.phone,
+          organizationNumber
+        }
+      });
+    } catch (error) {
+      // Another collection created the company first. A transaction cannot
+      // go on after the error, so the caller retries the whole transaction.
+      if (
+        client === prisma &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return this.resolve(company);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the company an employer registers for, creating it with only its
+   * name when it is new. Nothing the employer gives is written to the
+   * company until an admin has verified the account.
+   * @param name Company name as given by the employer
+   * @param organizationNumber Normalized organization number
+   * @returns Company
+   */
+  public async findOrCreate(name: string, organizationNumber: string): Promise<Company> {
+    const existingCompany = await this.find(name, organizationNumber);
+
+    if (existingCompany) {
+      return existingCompany;
+    }
+
+    try {
+      return await prisma.company.create({
+        data: { name, normalizedName: normalizeCompanyName(name) }
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return this.findOrCreate(name, organizationNumber);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Merges companies into another: their jobs and aliases are moved to it,
+   * their names become its aliases and they are deleted
+   * @param targetId Company to keep
+   * @param companyIds Companies to merge into it
+   * @param actorId Merging user
+   * @returns Kept company with its aliases, and the number of jobs moved
+   */
+  public async merge(targetId: number, companyIds: number[], actorId: number | null) {
+    if (companyIds.includes(targetId)) {
+      throw createError(400, 'A company cannot be merged into itself');
+    }
+
+    const target = await prisma.company.findUnique({ where: { id: targetId } });
+    if (!target) {
+      throw createError(404, 'Company not found');
+    }
+
+    const companies = await prisma.company.findMany({ where: { id: { in: companyIds } } });
+    const missing = companyIds.filter(id => !companies.some(company => company.id === id));
+    if (missing.length > 0) {
+      throw createError(404, `Companies not found: ${missing.join(', ')}`);
+    }
+
+    // Companies with different organization numbers are different legal entities
+    const organizationNumbers = new Set(
+      [target, ...companies].map(company => company.organizationNumber).filter(Boolean)
+    );
+    if (organizationNumbers.size > 1) {
+      throw createError(409, 'Companies with different organization numbers cannot be merged');
+    }
+
+    const { merged, jobsMoved } = await prisma.$transaction(async tx => {
+      let jobsMoved = 0;
+
+      for (const company of companies) {
+        const { count } = await tx.job.updateMany({
+          where: { companyId: company.id },
+          data: { companyId: target.id }
+        });
+        jobsMoved += count;
+
+        await tx.companyAlias.updateMany({
+          where: { companyId: company.id },
+          data: { companyId: target.id }
+        });
+
+        // Jobs collected under the merged company's name resolve to the target from now on
+        if (company.normalizedName && company.normalizedName !== target.normalizedName) {
+          await tx.companyAlias.upsert({
+            where: { normalizedName: company.normalizedName },
+            create: { companyId: target.id, name: company.name, normalizedName: company.normalizedName },
+            update: { companyId: target.id }
+          });
+        }
+
+        await tx.company.delete({ where: { id: company.id } });
+      }
+
+      // Details the target lacks are taken from the merged companies
+      const merged = await tx.company.update({
+        where: { id: target.id },
+        data: {
+          website: target.website || companies.find(company => company.website)?.website,
+          email: target.email || companies.find(company => company.email)?.email,
+          phone: target.phone || companies.find(company => company.phone)?.phone,
+          logoUrl: target.logoUrl || companies.find(company => company.logoUrl)?.logoUrl,
+          organizationNumber: target.organizationNumber ||
+            companies.find(company => company.organizationNumber)?.organizationNumber,
+          verified: target.verified || companies.some(company => company.verified)
+        },
+        include: { aliases: { orderBy: { name: 'asc' } } }
+      });
+
+      await auditService.record({
+        actorId,
+        action: 'company.merge',
+        entityType: 'company',
+        entityId: target.id,
+        details: {
+          mergedCompanies: companies.map(company => ({ id: company.id, name: company.name })),
+          jobsMoved
+        }
+      }, tx);
+
+      return { merged, jobsMoved };
+    });
+
+    logger.info(`Merged companies ${companyIds.join(', ')} into ${target.id}`, { jobsMoved });
+
+    return { company: merged, jobsMoved };
+  }
+
+  /**
+   * Adds a name the company is known by
+   * @param companyId Company ID
+   * @param name Alias
+   * @param actorId Adding user
+   * @returns Created alias
+   */
+  public async addAlias(companyId: number, name: string, actorId: number | null) {
+    const company = await prisma.company.findUnique({ where: { id: companyId } });
+    if (!company) {
+      throw createError(404, 'Company not found');
+    }
+
+    const normalizedName = normalizeCompanyName(name);
+    if (!normalizedName) {
+      throw createError(400, 'Alias has no letters or digits');
+    }
+    if (normalizedName === company.normalizedName) {
+      throw createError(409, 'Alias is the same as the company name');
+    }
+
+    const existingAlias = await prisma.companyAlias.findUnique({ where: { normalizedName } });
+    if (existingAlias) {
+      throw createError(409, `Alias is already used by company ${existingAlias.companyId}`);
+    }
+
+    return prisma.$transaction(async tx => {
+      const alias = await tx.companyAlias.create({
+        data: { companyId, name, normalizedName }
+      });
+
+      await auditService.record({
+        actorId,
+        action: 'company.alias.add',
+        entityType: 'company',
+        entityId: companyId,
+        details: { aliasId: alias.id, name }
+      }, tx);
+
+      return alias;
+    });
+  }
+
+  /**
+   * Removes an alias of a company
+   * @param companyId Company ID
+   * @param aliasId Alias ID
+   * @param actorId Removing user
+   */
+  public async removeAlias(companyId: number, aliasId: number, actorId: number | null): Promise<void> {
+    const alias = await prisma.companyAlias.findFirst({ where: { id: aliasId, companyId } });
+    if (!alias) {
+      throw createError(404, 'Alias not found');
+    }
+
+    await prisma.$transaction(async tx => {
+      await tx.companyAlias.delete({ where: { id: aliasId } });
+
+      await auditService.record({
+        actorId,
+        action: 'company.alias.remove',
+        entityType: 'company',
+        entityId: companyId,
+        details: { aliasId, name: alias.name }
+      }, tx);
+    });
+  }
+
+  /**
+   * Lists groups of companies with the same normalized name, the candidates
+   * for merging, largest groups first
+   * @param limit Groups per page
+   * @param offset Groups to skip
+   * @returns Groups of companies
+   */
+  public async findDuplicates(limit: number, offset: number): Promise<DuplicateCompanyGroup[]> {
+    return prisma.$queryRaw<DuplicateCompanyGroup[]>`
+      SELECT c."normalizedName",
+             json_agg(json_build_object(
+               'id', c.id,
+               'name', c.name,
+               'organizationNumber', c."organizationNumber",
+               'jobCount', (SELECT COUNT(*) FROM jobs j WHERE j."companyId" = c.id)
+             ) ORDER BY c.id) AS companies
+      FROM companies c
+      WHERE c."normalizedName" <> ''
+      GROUP BY c."normalizedName"
+      HAVING COUNT(*) > 1
+      ORDER BY COUNT(*) DESC, c."normalizedName"
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+  }
+
+  /**
+   * Normalizes the names and organization numbers of companies stored before
+   * they were resolved by them
+   * @returns Number of companies updated
+   */
+  public async backfill(): Promise<number> {
+    let updated = 0;
+    let lastId = 0;
+
+    for (;;) {
+      const companies = await prisma.company.findMany({
+        where: { id: { gt: lastId }, normalizedName: '' },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE
+      });
+
+      if (companies.length === 0) {
+        break;
+      }
+
+      for (const company of companies) {
+        const organizationNumber = normalizeOrganizationNumber(company.organizationNumber);
+
+        try {
+          await prisma.company.update({
+            where: { id: company.id },
+            data: {
+              normalizedName: normalizeCompanyName(company.name),
+              ...(organizationNumber ? { organizationNumber } : {})
+            }
+          });
+        } catch (error) {
+          // Two companies with the same number written differently are merge candidates
+          logger.warn(`Failed to normalize company ${company.id}`, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+          await prisma.company.update({
+            where: { id: company.id },
+            data: { normalizedName: normalizeCompanyName(company.name) }
+          });
+        }
+        updated++;
+      }
+
+      lastId = companies[companies.length - 1].id;
+    }
+
+    if (updated > 0) {
+      logger.info(`Normalized ${updated} companies`);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Finds a company by organization number, normalized name or alias, or a
+   * close match of the name
+   */
+  private async find(
+    name: string,
+    organizationNumber: string | null,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<Company | null> {
+    const normalizedName = normalizeCompanyName(name);
+
+    return (organizationNumber && await client.company.findUnique({ where: { organizationNumber } })) ||
+      await this.findByName(normalizedName, organizationNumber, client) ||
+      await this.findBySimilarName(name, normalizedName, organizationNumber, client);
+  }
+
+  /**
+   * Finds a company by normalized name or alias. A company registered under
+   * another organization number is a different company with the same name.
+   */
+  private async findByName(
+    normalizedName: string,
+    organizationNumber: string | null,
+    client: Prisma.TransactionClient
+  ): Promise<Company | null> {
+    if (!normalizedName) {
+      return null;
+    }
+
+    const companies = await client.company.findMany({
+      where: {
+        OR: [
+          { normalizedName },
+          { aliases: { some: { normalizedName } } }
+        ]
+      },
+      orderBy: { id: 'asc' }
+    });
+
+    return companies.find(company => this.sameEntity(company, organizationNumber)) || null;
+  }
+
+  /**
+   * Finds the company whose normalized name is closest to the given one, and
+   * keeps the name as an alias so that the next lookup is exact
+   */
+  private async findBySimilarName(
+    name: string,
+    normalizedName: string,
+    organizationNumber: string | null,
+    client: Prisma.TransactionClient
+  ): Promise<Company | null> {
+    if (normalizedName.length < MIN_FUZZY_NAME_LENGTH) {
+      return null;
+    }
+
+    const candidates = await client.company.findMany({
+      where: { normalizedName: { startsWith: normalizedName.slice(0, 3) } },
+      orderBy: { id: 'asc' },
+      take: MAX_FUZZY_CANDIDATES
+    });
+
+    let best: { company: Company; similarity: number } | null = null;
+
+    for (const candidate of candidates) {
+      const similarity = companyNameSimilarity(normalizedName, candidate.normalizedName);
+
+      if (
+        similarity >= MIN_NAME_SIMILARITY &&
+        (!best || similarity > best.similarity) &&
+        this.sameEntity(candidate, organizationNumber)
+      ) {
+        best = { company: candidate, similarity };
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    await client.companyAlias.upsert({
+      where: { normalizedName },
+      create: { companyId: best.company.id, name, normalizedName },
+      update: {}
+    });
+
+    logger.debug(`Matched company ${name} to ${best.company.name}`, {
+      companyId: best.company.id,
+      similarity: best.similarity
+    });
+
+    return best.company;
+  }
+
+  /**
+   * Updates the details of a resolved company with those the source gives
+   */
+  private async updateDetails(
+    existingCompany: Company,
+    company: JobData['company'],
+    organizationNumber: string | null,
+    client: Prisma.TransactionClient
+  ): Promise<Company> {
+    if (
+      (company.website && existingCompany.website !== company.website) ||
+      (company.email && existingCompany.email !== company.email) ||
+      (company.phone && existingCompany.phone !== company.phone) ||
+      (organizationNumber && !existingCompany.organizationNumber) ||
+      !existingCompany.normalizedName
+    ) {
+      return client.company.update({
+        where: {
+          id: existingCompany.id
+        },
+        data: {
+          normalizedName: existingCompany.normalizedName || normalizeCompanyName(existingCompany.name),
+          website: company.website || existingCompany.website,
+          email: company.email || existingCompany.email,
+          phone: company.phone || existingCompany.phone,
+          organizationNumber: existingCompany.organizationNumber || organizationNumber
+        }
+      });
+    }
+
+    return existingCompany;
+  }
+
+  private sameEntity(company: Company, organizationNumber: string | null): boolean {
+    return !organizationNumber || !company.organizationNumber || company.organizationNumber === organizationNumber;
+  }
+}
+
+// Create and export a singleton instance
+export const companyService = new CompanyService();
@@ -12,30 +12,60 @@ export interface ScraperSource extends DataSource {
   detectChanges(): Promise<boolean>;
 }
 
+/**
+ * How a field is read from a page. A plain string is a CSS selector whose
+ * trimmed text is used.
+ */
+export interface FieldExtraction {
+  selector: string;
+  attribute?: string; // read an attribute (href, datetime, content) instead of the text
+  html?: boolean; // keep the inner HTML instead of the text
+  regex?: string; // keep the first capture group, or the whole match (case-insensitive)
+  parser?: 'text' | 'date' | 'url' | 'email';
+  locale?: 'sv' | 'en'; // language of dates, defaults to Swedish
+  multiple?: boolean; // collect every match, e.g. list items
+  default?: string; // used when nothing matches
+}
+
+export type FieldSelector = string | FieldExtraction;
+
 /**
  * Configuration for scraper sources
  */
 export interface ScraperSourceConfig extends DataSourceConfig {
   targetUrl: string;
   paginationConfig?: {
-    type: 'url' | 'click' | 'scroll' | 'none';
-    selector?: string;
+    type: 'url' | 'param' | 'offset' | 'next-link' | 'click' | 'scroll' | 'none';
+    selector?: string; // next-page link for next-link, button for click
     maxPages?: number;
-    urlPattern?: string;
+    urlPattern?: string; // {page} and {offset} are replaced
+    paramName?: string; // query parameter for param and offset
+    pageSize?: number; // jobs per page for offset
+    firstPage?: number; // number of the first page, defaults to 1
   };
+  // Read from each job card on the listing pages. jobList and jobCard locate
+  // the cards; url links to the job. Other keys are fields, see below.
   selectors: {
     jobList: string;
     jobCard: string;
-    title: string;
-    company?: string;
-    location?: string;
-    url: string;
-    description?: string;
-    requirements?: string;
-    salary?: string;
-    postedDate?: string;
-    [key: string]: string | undefined;
+    url: FieldSelector;
+    title?: FieldSelector;
+    company?: FieldSelector;
+    location?: FieldSelector;
+    description?: FieldSelector;
+    requirements?: FieldSelector;
+    salary?: FieldSelector;
+    postedDate?: FieldSelector;
+    [key: string]: FieldSelector | undefined;
   };
+  // Read from each job's own page, which is only fetched when set. Fields
+  // found here take precedence over the job card. Known fields: externalId,
+  // title, company, location, city, municipality, region, description,
+  // descriptionFormatted, applicationUrl, applicationEmail, deadline,
+  // postedDate, expiryDate, employmentType, workingHoursType, duration,
+  // salary, skills, preferredSkills and languages. Other fields are kept
+  // in the job's metadata.
+  detailSelectors?: Record<string, FieldSelector | undefined>;
   useHeadlessBrowser: boolean;
   waitForSelector?: string;
   proxy?: {
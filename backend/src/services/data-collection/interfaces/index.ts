@@ -0,0 +1,3 @@
+export * from './DataSource';
+export * from './ApiSource';
+export * from './ScraperSource';
@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { ApiSource, ApiSourceConfig, JobDto } from '../../interfaces';
 import { Logger } from '../../../../utils/logger';
+import { requestLimiter, requestDelayToRate } from '../../../scrapers/base/requestLimiter';
 
 /**
  * Base class for all API-based job sources
@@ -44,6 +45,18 @@ export abstract class BaseApiSource implements ApiSource {
     this.httpClient = axios.create(axiosConfig);
     this.logger = new Logger(`ApiSource:${this.name}`);
     
+    // Shared rate, concurrency and retry limits
+    requestLimiter.apply(this.httpClient, {
+      id: this.id,
+      rateLimitPerMinute: requestDelayToRate(this.requestDelay),
+      maxConcurrentRequests: this.concurrencyLimit,
+      retryConfig: {
+        maxRetries: 3,
+        initialDelay: 1000,
+        backoffFactor: 2
+      }
+    });
+    
     // Add request interceptor for logging
     this.httpClient.interceptors.request.use((config) => {
       this.logger.debug(`Making request to: ${config.url}`);
@@ -1,3 +1,4 @@
+import axios from 'axios';
 import { BaseApiSource } from './BaseApiSource';
 import { ApiSourceConfig, JobDto } from '../../interfaces';
 
@@ -116,7 +117,7 @@ export class JobTechApiSource extends BaseApiSource {
       this.logger.info('Successfully authenticated with JobTech API');
     } catch (error) {
       this.logger.error('Failed to authenticate with JobTech API', { error });
-      throw new Error(`JobTech API authentication failed: ${error.message}`);
+      throw new Error(`JobTech API authentication failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
   
@@ -189,11 +190,6 @@ export class JobTechApiSource extends BaseApiSource {
         // Check if we need to fetch more
         offset += hits.length;
         hasMore = offset < total.value;
-        
-        // Add delay between requests if configured
-        if (hasMore && this.requestDelay > 0) {
-          await this.delay(this.requestDelay);
-        }
       } catch (error) {
         this.logger.error(`Failed to fetch jobs at offset ${offset}`, { error });
         throw error;
@@ -0,0 +1,47 @@
+/**
+ * Email templates for saved search alerts
+ */
+import { EmailMessage } from './emailTransports';
+import type { AlertJob, AlertMessage } from '../alerts/alertChannels';
+import { escapeHtml } from '../../utils/html';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+/**
+ * Describes a job on a single line
+ * @param job Job
+ * @returns Title followed by company and municipality, when known
+ */
+function describeJob(job: AlertJob): string {
+  const details = [job.companyName, job.municipality].filter(Boolean).join(', ');
+  return details ? `${job.title} (${details})` : job.title;
+}
+
+/**
+ * Builds the email listing new jobs matching the user's saved searches
+ * @param message Alert message
+ * @returns Email message
+ */
+export function searchAlertEmail(message: AlertMessage): EmailMessage {
+  const subject = message.totalMatches === 1
+    ? '1 nytt jobb matchar dina bevakningar'
+    : `${message.totalMatches} nya jobb matchar dina bevakningar`;
+
+  const text = message.searches.map(search => [
+    `${search.name}:`,
+    ...search.jobs.map(job => `- ${describeJob(job)}\n  ${FRONTEND_URL}/jobs/${job.id}`)
+  ].join('\n')).join('\n\n');
+
+  const html = message.searches.map(search => `<h3>${escapeHtml(search.name)}</h3>
+<ul>
+${search.jobs.map(job => `<li><a href="${FRONTEND_URL}/jobs/${job.id}">${escapeHtml(describeJob(job))}</a></li>`).join('\n')}
+</ul>`).join('\n');
+
+  return {
+    to: message.email,
+    subject,
+    text: `${text}\n\nDu kan ändra dina bevakningar under ${FRONTEND_URL}/saved-searches.`,
+    html: `${html}
+<p>Du kan ändra dina bevakningar under <a href="${FRONTEND_URL}/saved-searches">Mina bevakningar</a>.</p>`
+  };
+}
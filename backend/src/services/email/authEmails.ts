@@ -0,0 +1,44 @@
+/**
+ * Email templates for the authentication flows
+ */
+import { EmailMessage } from './emailTransports';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+/**
+ * Builds the email sent to verify a new email address
+ * @param to Recipient
+ * @param token Verification token
+ * @returns Email message
+ */
+export function verificationEmail(to: string, token: string): EmailMessage {
+  const link = `${FRONTEND_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: 'Bekräfta din e-postadress',
+    text: `Välkommen! Bekräfta din e-postadress genom att öppna länken nedan:\n\n${link}\n\nLänken är giltig i 24 timmar.`,
+    html: `<p>Välkommen! Bekräfta din e-postadress genom att klicka på länken nedan:</p>
+<p><a href="${link}">Bekräfta e-postadress</a></p>
+<p>Länken är giltig i 24 timmar.</p>`
+  };
+}
+
+/**
+ * Builds the email sent when a password reset is requested
+ * @param to Recipient
+ * @param token Password reset token
+ * @returns Email message
+ */
+export function passwordResetEmail(to: string, token: string): EmailMessage {
+  const link = `${FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: 'Återställ ditt lösenord',
+    text: `Vi har fått en begäran om att återställa ditt lösenord. Öppna länken nedan för att välja ett nytt:\n\n${link}\n\nLänken är giltig i en timme. Om du inte har begärt detta kan du ignorera mejlet.`,
+    html: `<p>Vi har fått en begäran om att återställa ditt lösenord.</p>
+<p><a href="${link}">Välj ett nytt lösenord</a></p>
+<p>Länken är giltig i en timme. Om du inte har begärt detta kan du ignorera mejlet.</p>`
+  };
+}
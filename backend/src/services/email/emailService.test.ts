@@ -0,0 +1,52 @@
+import { LogEmailTransport } from './emailTransports';
+import { logger } from '../../utils/logger';
+
+describe('LogEmailTransport', () => {
+  it('logs the recipient and subject but not the body', async () => {
+    const info = jest.spyOn(logger, 'info').mockImplementation(() => logger);
+
+    await new LogEmailTransport().send({
+      from: 'no-reply@example.com',
+      to: 'student@example.se',
+      subject: 'Återställ ditt lösenord',
+      text: 'https://example.com/reset-password?token=secret-token',
+      html: '<a href="https://example.com/reset-password?token=secret-token">Återställ</a>'
+    });
+
+    expect(info).toHaveBeenCalledTimes(1);
+    expect(JSON.stringify(info.mock.calls)).not.toContain('secret-token');
+    expect(info.mock.calls[0][0]).toContain('student@example.se');
+  });
+});
+
+describe('EMAIL_TRANSPORT', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('is required in production', () => {
+    process.env = { ...env, NODE_ENV: 'production', EMAIL_TRANSPORT: '' };
+
+    jest.isolateModules(() => {
+      expect(() => require('./emailService')).toThrow('EMAIL_TRANSPORT must be set in production');
+    });
+  });
+
+  it('must name a registered transport', () => {
+    process.env = { ...env, EMAIL_TRANSPORT: 'smtp', EMAIL_HOST: '' };
+
+    jest.isolateModules(() => {
+      expect(() => require('./emailService')).toThrow('Unknown email transport: smtp');
+    });
+  });
+
+  it('sends through SMTP when a host is configured', () => {
+    process.env = { ...env, NODE_ENV: 'production', EMAIL_TRANSPORT: 'smtp', EMAIL_HOST: 'smtp.example.com' };
+
+    jest.isolateModules(() => {
+      expect(() => require('./emailService')).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Service for sending emails through a pluggable transport
+ *
+ * The transport is chosen with EMAIL_TRANSPORT ('smtp', 'file' or 'log').
+ * Other transports can be added with registerTransport.
+ */
+import path from 'path';
+import {
+  EmailMessage,
+  EmailTransport,
+  FileEmailTransport,
+  LogEmailTransport,
+  SmtpEmailTransport
+} from './emailTransports';
+import { logger } from '../../utils/logger';
+
+const EMAIL_FROM = process.env.EMAIL_FROM || 'no-reply@example.com';
+const EMAIL_OUTBOX_DIR = process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), 'data', 'outbox', 'email');
+
+/**
+ * Reads the transport to send with. Production has no default, so that
+ * mail is not silently dropped by a transport that only logs or writes files.
+ */
+function readTransportName(): string {
+  if (process.env.EMAIL_TRANSPORT) {
+    return process.env.EMAIL_TRANSPORT;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('EMAIL_TRANSPORT must be set in production');
+  }
+  return 'file';
+}
+
+class EmailService {
+  private transports = new Map<string, EmailTransport>();
+  private activeTransport = 'file';
+
+  constructor() {
+    this.registerTransport(new FileEmailTransport(EMAIL_OUTBOX_DIR));
+    this.registerTransport(new LogEmailTransport());
+
+    if (process.env.EMAIL_HOST) {
+      this.registerTransport(new SmtpEmailTransport({
+        host: process.env.EMAIL_HOST,
+        port: parseInt(process.env.EMAIL_PORT || '587'),
+        user: process.env.EMAIL_USER,
+        password: process.env.EMAIL_PASSWORD
+      }));
+    }
+
+    this.useTransport(readTransportName());
+  }
+
+  /**
+   * Registers a transport, replacing any transport with the same name
+   * @param transport Email transport
+   */
+  public registerTransport(transport: EmailTransport): void {
+    this.transports.set(transport.name, transport);
+  }
+
+  /**
+   * Selects the transport used for sending
+   * @param name Transport name
+   */
+  public useTransport(name: string): void {
+    if (!this.transports.has(name)) {
+      throw new Error(`Unknown email transport: ${name}`);
+    }
+
+    this.activeTransport = name;
+  }
+
+  /**
+   * Sends an email
+   * @param message Email message
+   */
+  public async send(message: EmailMessage): Promise<void> {
+    const transport = this.transports.get(this.activeTransport);
+
+    if (!transport) {
+      throw new Error(`Unknown email transport: ${this.activeTransport}`);
+    }
+
+    try {
+      await transport.send({ ...message, from: EMAIL_FROM });
+    } catch (error) {
+      logger.error(`Failed to send email "${message.subject}" to ${message.to}`, {
+        error: error instanceof Error ? error.message : String(error),
+        transport: transport.name
+      });
+      throw error;
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const emailService = new EmailService();
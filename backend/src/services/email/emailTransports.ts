@@ -0,0 +1,94 @@
+/**
+ * Transports used by the email service to deliver messages
+ */
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { logger } from '../../utils/logger';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Writes every message as a JSON file to a local directory. Intended for
+ * development, where the files can be inspected instead of sending mail.
+ */
+export class FileEmailTransport implements EmailTransport {
+  public readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  public async send(message: EmailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}_${safeRecipient}.json`;
+    const filePath = path.join(this.directory, fileName);
+
+    await fs.promises.writeFile(filePath, JSON.stringify({
+      ...message,
+      date: new Date().toISOString()
+    }, null, 2));
+
+    logger.info(`Email "${message.subject}" to ${message.to} written to ${filePath}`);
+  }
+}
+
+/**
+ * Logs that a message would have been sent, without sending it. Only the
+ * subject and recipient are logged: bodies carry password reset and
+ * verification links.
+ */
+export class LogEmailTransport implements EmailTransport {
+  public readonly name = 'log';
+
+  public async send(message: EmailMessage & { from: string }): Promise<void> {
+    logger.info(`Email "${message.subject}" to ${message.to} not sent, logged only`);
+  }
+}
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Sends messages through an SMTP server. Port 465 uses TLS from the start;
+ * other ports upgrade with STARTTLS when the server offers it.
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  public readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(settings: SmtpSettings) {
+    this.transporter = nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.port === 465,
+      auth: settings.user ? { user: settings.user, pass: settings.password } : undefined
+    });
+  }
+
+  public async send(message: EmailMessage & { from: string }): Promise<void> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    });
+
+    logger.info(`Email "${message.subject}" to ${message.to} sent`, { messageId: info.messageId });
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Employer accounts tie users with the employer role to the company they
+ * post for. A new account is pending until an admin has checked the
+ * organization number; verifying it also verifies the company.
+ */
+import createError from 'http-errors';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { companyService } from '../companies/companyService';
+import { normalizeOrganizationNumber } from '../companies/companyIdentity';
+import { auditService } from '../audit/auditService';
+import { logger } from '../../utils/logger';
+
+export const EMPLOYER_ACCOUNT_STATUSES = ['pending', 'verified', 'rejected'] as const;
+
+export type EmployerAccountStatus = typeof EMPLOYER_ACCOUNT_STATUSES[number];
+
+export interface EmployerRegistration {
+  companyName: string;
+  organizationNumber: string;
+  website?: string;
+  email?: string;
+  phone?: string;
+  jobTitle?: string;
+}
+
+export interface EmployerAccountFilters {
+  status?: EmployerAccountStatus;
+  limit: number;
+  offset: number;
+}
+
+const accountInclude = {
+  company: {
+    select: { id: true, name: true, organizationNumber: true, website: true, logoUrl: true, verified: true }
+  }
+} satisfies Prisma.EmployerAccountInclude;
+
+type EmployerAccountWithCompany = Prisma.EmployerAccountGetPayload<{ include: typeof accountInclude }>;
+
+class EmployerAccountService {
+  /**
+   * Creates an employer account for a user and the company they post for.
+   * The company is found like those of collected jobs, so an employer whose
+   * company already has jobs takes over its profile once verified. The
+   * company details are kept on the account until then.
+   * @param userId Employer user ID
+   * @param registration Company details
+   * @returns Pending account
+   */
+  public async register(userId: number, registration: EmployerRegistration): Promise<EmployerAccountWithCompany> {
+    const existingAccount = await prisma.employerAccount.findUnique({ where: { userId } });
+    if (existingAccount) {
+      throw createError(409, 'You already have an employer account');
+    }
+
+    const organizationNumber = normalizeOrganizationNumber(registration.organizationNumber);
+    if (!organizationNumber) {
+      throw createError(400, 'Invalid organization number');
+    }
+
+    const company = await companyService.findOrCreate(registration.companyName, organizationNumber);
+
+    const account = await prisma.$transaction(async tx => {
+      const created = await tx.employerAccount.create({
+        data: {
+          userId,
+          companyId: company.id,
+          jobTitle: registration.jobTitle,
+          organizationNumber,
+          website: registration.website,
+          email: registration.email,
+          phone: registration.phone
+        },
+        include: accountInclude
+      });
+
+      await auditService.record({
+        actorId: userId,
+        action: 'employer_account.register',
+        entityType: 'employer_account',
+        entityId: created.id,
+        details: { companyId: company.id, organizationNumber }
+      }, tx);
+
+      return created;
+    });
+
+    logger.info(`Employer account ${account.id} registered for company ${company.id}`, { userId });
+
+    return account;
+  }
+
+  /**
+   * Gets a user's employer account
+   * @param userId User ID
+   * @returns Account with its company
+   */
+  public async get(userId: number): Promise<EmployerAccountWithCompany> {
+    const account = await prisma.employerAccount.findUnique({
+      where: { userId },
+      include: accountInclude
+    });
+
+    if (!account) {
+      throw createError(404, 'Employer account not found');
+    }
+
+    return account;
+  }
+
+  /**
+   * Gets a user's employer account, which must have been verified
+   * @param userId User ID
+   * @returns Verified account with its company
+   */
+  public async getVerified(userId: number): Promise<EmployerAccountWithCompany> {
+    const account = await this.get(userId);
+
+    if (account.status !== 'verified') {
+      throw createError(403, 'Employer account is not verified');
+    }
+
+    return account;
+  }
+
+  /**
+   * Lists employer accounts for review, oldest first
+   * @param filters Status filter and pagination
+   * @returns Page of accounts and the total
+   */
+  public async list(filters: EmployerAccountFilters) {
+    const where: Prisma.EmployerAccountWhereInput = filters.status ? { status: filters.status } : {};
+
+    const [accounts, total] = await Promise.all([
+      prisma.employerAccount.findMany({
+        where,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: filters.offset,
+        take: filters.limit,
+        include: {
+          ...accountInclude,
+          user: { select: { id: true, email: true, firstName: true, lastName: true } }
+        }
+      }),
+      prisma.employerAccount.count({ where })
+    ]);
+
+    return { accounts, total };
+  }
+
+  /**
+   * Verifies or rejects a pending employer account. Verifying also verifies
+   * the company and records the organization number and details the
+   * employer gave.
+   * @param accountId Account ID
+   * @param approve Whether to verify the account
+   * @param actorId Reviewing user
+   * @param notes Reason, shown to the employer
+   * @returns Reviewed account
+   */
+  public async review(accountId: number, approve: boolean, actorId: number, notes?: string) {
+    const account = await prisma.employerAccount.findUnique({
+      where: { id: accountId },
+      include: accountInclude
+    });
+
+    if (!account) {
+      throw createError(404, 'Employer account not found');
+    }
+    if (account.status !== 'pending') {
+      throw createError(409, `Employer account is already ${account.status}`);
+    }
+    if (
+      approve &&
+      account.company.organizationNumber &&
+      account.company.organizationNumber !== account.organizationNumber
+    ) {
+      throw createError(409, 'Organization number does not match the company');
+    }
+
+    const reviewed = await prisma.$transaction(async tx => {
+      if (approve) {
+        await tx.company.update({
+          where: { id: account.companyId },
+          data: {
+            verified: true,
+            organizationNumber: account.organizationNumber,
+            website: account.website ?? undefined,
+            email: account.email ?? undefined,
+            phone: account.phone ?? undefined
+          }
+        });
+      }
+
+      const updated = await tx.employerAccount.update({
+        where: { id: accountId },
+        data: {
+          status: approve ? 'verified' : 'rejected',
+          reviewedById: actorId,
+          reviewedAt: new Date(),
+          reviewNotes: notes
+        },
+        include: accountInclude
+      });
+
+      await tx.notification.create({
+        data: {
+          userId: account.userId,
+          type: 'employer_account',
+          title: approve
+            ? `Ditt arbetsgivarkonto för ${account.company.name} är verifierat`
+            : `Ditt arbetsgivarkonto för ${account.company.name} godkändes inte`,
+          body: approve
+            ? 'Du kan nu publicera annonser och ta emot ansökningar.'
+            : notes || 'Kontakta oss om du har frågor.',
+          data: { accountId, companyId: account.companyId }
+        }
+      });
+
+      await auditService.record({
+        actorId,
+        action: approve ? 'employer_account.verify' : 'employer_account.reject',
+        entityType: 'employer_account',
+        entityId: accountId,
+        details: { companyId: account.companyId, ...(notes ? { notes } : {}) }
+      }, tx);
+
+      return updated;
+    });
+
+    logger.info(`Employer account ${accountId} ${reviewed.status}`, { companyId: account.companyId });
+
+    return reviewed;
+  }
+}
+
+// Create and export a singleton instance
+export const employerAccountService = new EmployerAccountService();
@@ -0,0 +1,187 @@
+/**
+ * Applications students send to direct postings that don't name an external
+ * application URL or email. They land in the inbox of the company's verified
+ * employer accounts, and the student is notified as the status moves on.
+ */
+import createError from 'http-errors';
+import { JobApplication, Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { employerAccountService } from './employerAccountService';
+import { logger } from '../../utils/logger';
+
+export const JOB_APPLICATION_STATUSES = ['received', 'reviewing', 'interview', 'rejected', 'hired'] as const;
+
+export type JobApplicationStatus = typeof JOB_APPLICATION_STATUSES[number];
+
+export interface JobApplicationInput {
+  message: string;
+  cvUrl?: string;
+}
+
+export interface JobApplicationFilters {
+  status?: JobApplicationStatus;
+  limit: number;
+  offset: number;
+}
+
+// Status names shown to the applicant
+const STATUS_LABELS: Record<JobApplicationStatus, string> = {
+  received: 'Mottagen',
+  reviewing: 'Under granskning',
+  interview: 'Kallad till intervju',
+  rejected: 'Inte aktuell',
+  hired: 'Anställd'
+};
+
+class JobApplicationService {
+  /**
+   * Applies to a job posted directly by an employer
+   * @param userId Student user ID
+   * @param jobId Job ID
+   * @param input Cover message and CV link
+   * @returns Created application
+   */
+  public async apply(userId: number, jobId: number, input: JobApplicationInput): Promise<JobApplication> {
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: { id: true, posting: true }
+    });
+
+    if (!job) {
+      throw createError(404, 'Job not found');
+    }
+
+    const posting = job.posting;
+    if (!posting) {
+      throw createError(400, 'Applications for this job are made at its source');
+    }
+    if (posting.applicationUrl || posting.applicationEmail) {
+      throw createError(400, 'Applications for this job are made through the employer\'s own channel');
+    }
+    if (posting.status !== 'published') {
+      throw createError(409, 'Job posting is closed');
+    }
+    if (posting.applicationDeadline && posting.applicationDeadline < new Date()) {
+      throw createError(409, 'The application deadline has passed');
+    }
+
+    let application: JobApplication;
+    try {
+      application = await prisma.jobApplication.create({
+        data: {
+          postingId: posting.id,
+          userId,
+          message: input.message,
+          cvUrl: input.cvUrl
+        }
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw createError(409, 'You have already applied to this job');
+      }
+      throw error;
+    }
+
+    const employers = await prisma.employerAccount.findMany({
+      where: { companyId: posting.companyId, status: 'verified' },
+      select: { userId: true }
+    });
+
+    if (employers.length > 0) {
+      await prisma.notification.createMany({
+        data: employers.map(employer => ({
+          userId: employer.userId,
+          type: 'application_received',
+          title: `Ny ansökan till ${posting.title}`,
+          body: 'En student har skickat en ansökan till din annons.',
+          data: { postingId: posting.id, applicationId: application.id }
+        }))
+      });
+    }
+
+    logger.info(`Application ${application.id} received for job posting ${posting.id}`, { userId });
+
+    return application;
+  }
+
+  /**
+   * Lists the applications to one of the employer's postings, oldest first
+   * @param userId Employer user ID, whose account must be verified
+   * @param postingId Posting ID
+   * @param filters Status filter and pagination
+   * @returns Page of applications with their applicants, and the total
+   */
+  public async listForPosting(userId: number, postingId: number, filters: JobApplicationFilters) {
+    const account = await employerAccountService.getVerified(userId);
+    const posting = await prisma.jobPosting.findFirst({
+      where: { id: postingId, companyId: account.companyId },
+      select: { id: true }
+    });
+
+    if (!posting) {
+      throw createError(404, 'Job posting not found');
+    }
+
+    const where: Prisma.JobApplicationWhereInput = {
+      postingId,
+      ...(filters.status ? { status: filters.status } : {})
+    };
+
+    const [applications, total] = await Promise.all([
+      prisma.jobApplication.findMany({
+        where,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: filters.offset,
+        take: filters.limit,
+        include: {
+          user: { select: { id: true, email: true, firstName: true, lastName: true } }
+        }
+      }),
+      prisma.jobApplication.count({ where })
+    ]);
+
+    return { applications, total };
+  }
+
+  /**
+   * Moves an application to another status and notifies the applicant
+   * @param userId Employer user ID, whose account must be verified
+   * @param applicationId Application ID
+   * @param status New status
+   * @returns Updated application
+   */
+  public async updateStatus(userId: number, applicationId: number, status: JobApplicationStatus): Promise<JobApplication> {
+    const account = await employerAccountService.getVerified(userId);
+    const application = await prisma.jobApplication.findFirst({
+      where: { id: applicationId, posting: { companyId: account.companyId } },
+      include: { posting: { select: { id: true, title: true } } }
+    });
+
+    if (!application) {
+      throw createError(404, 'Application not found');
+    }
+    if (application.status === status) {
+      return application;
+    }
+
+    const updated = await prisma.jobApplication.update({
+      where: { id: applicationId },
+      data: { status }
+    });
+
+    await prisma.notification.create({
+      data: {
+        userId: application.userId,
+        type: 'application_status',
+        title: `Din ansökan till ${application.posting.title} har uppdaterats`,
+        body: `Status: ${STATUS_LABELS[status]}`,
+        data: { postingId: application.posting.id, applicationId, status }
+      }
+    });
+
+    return updated;
+  }
+}
+
+// Create and export a singleton instance
+export const jobApplicationService = new JobApplicationService();
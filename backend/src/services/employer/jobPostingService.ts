@@ -0,0 +1,322 @@
+/**
+ * Jobs employers post directly. A posting is edited as a draft and, once the
+ * employer is verified, published as a job with source 'direct' through the
+ * same normalization, validation and save steps as collected jobs. Closing a
+ * posting marks its job removed; publishing it again reopens the job.
+ */
+import createError from 'http-errors';
+import { JobPosting, Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { JobData, ValidationIssue } from '../scrapers/types';
+import { normalizeJobData } from '../scrapers/normalizers/jobDataNormalizer';
+import { validateJobData } from '../scrapers/validators/jobDataValidator';
+import { jobRepository } from '../jobs/jobRepository';
+import { jobDuplicateService } from '../jobs/jobDuplicateService';
+import { savedSearchAlertService } from '../alerts/savedSearchAlertService';
+import { employerAccountService } from './employerAccountService';
+import { logger } from '../../utils/logger';
+
+export const DIRECT_SOURCE = 'direct';
+
+export const JOB_POSTING_STATUSES = ['draft', 'published', 'closed'] as const;
+
+export type JobPostingStatus = typeof JOB_POSTING_STATUSES[number];
+
+export interface JobPostingInput {
+  title?: string;
+  description?: string;
+  employmentType?: string | null;
+  workingHoursType?: string | null;
+  duration?: string | null;
+  salary?: string | null;
+  city?: string | null;
+  municipality?: string | null;
+  region?: string | null;
+  address?: string | null;
+  skills?: string[];
+  applicationDeadline?: Date | null;
+  expiresAt?: Date | null;
+  applicationUrl?: string | null;
+  applicationEmail?: string | null;
+}
+
+export interface JobPostingFilters {
+  status?: JobPostingStatus;
+  limit: number;
+  offset: number;
+}
+
+type PostingCompany = { name: string; organizationNumber: string | null; website: string | null };
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+class JobPostingService {
+  /**
+   * Lists the postings of the employer's company, newest first
+   * @param userId Employer user ID
+   * @param filters Status filter and pagination
+   * @returns Page of postings with their application counts, and the total
+   */
+  public async list(userId: number, filters: JobPostingFilters) {
+    const account = await employerAccountService.get(userId);
+    const where: Prisma.JobPostingWhereInput = {
+      companyId: account.companyId,
+      ...(filters.status ? { status: filters.status } : {})
+    };
+
+    const [postings, total] = await Promise.all([
+      prisma.jobPosting.findMany({
+        where,
+        orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+        skip: filters.offset,
+        take: filters.limit,
+        include: { _count: { select: { applications: true } } }
+      }),
+      prisma.jobPosting.count({ where })
+    ]);
+
+    return { postings, total };
+  }
+
+  /**
+   * Gets a posting with the issues that would stop it from being published
+   * @param userId Employer user ID
+   * @param postingId Posting ID
+   * @returns Posting and its validation issues
+   */
+  public async get(userId: number, postingId: number) {
+    const account = await employerAccountService.get(userId);
+    const posting = await this.findPosting(account.companyId, postingId);
+
+    return {
+      ...posting,
+      validationIssues: this.validate(posting, account.company).issues
+    };
+  }
+
+  /**
+   * Creates a draft posting. Drafts can be written before the employer
+   * account is verified.
+   * @param userId Employer user ID
+   * @param input Posting fields; title and description are required
+   * @returns Draft posting
+   */
+  public async create(userId: number, input: JobPostingInput & { title: string; description: string }): Promise<JobPosting> {
+    const account = await employerAccountService.get(userId);
+
+    return prisma.jobPosting.create({
+      data: {
+        ...input,
+        companyId: account.companyId,
+        createdById: userId
+      }
+    });
+  }
+
+  /**
+   * Updates a draft or published posting. Changes to a published posting
+   * are saved to its job right away, which records them in the job history.
+   * @param userId Employer user ID
+   * @param postingId Posting ID
+   * @param input Fields to change
+   * @returns Updated posting
+   */
+  public async update(userId: number, postingId: number, input: JobPostingInput): Promise<JobPosting> {
+    const account = await employerAccountService.get(userId);
+    const posting = await this.findPosting(account.companyId, postingId);
+
+    if (posting.status === 'closed') {
+      throw createError(409, 'Closed postings cannot be edited; publish the posting again first');
+    }
+
+    if (posting.status === 'published') {
+      await employerAccountService.getVerified(userId);
+      const updated = { ...posting, ...input };
+      await this.saveAsJob(updated, account.company);
+    }
+
+    return prisma.jobPosting.update({
+      where: { id: postingId },
+      data: input
+    });
+  }
+
+  /**
+   * Deletes a posting that has never been published
+   * @param userId Employer user ID
+   * @param postingId Posting ID
+   */
+  public async delete(userId: number, postingId: number): Promise<void> {
+    const account = await employerAccountService.get(userId);
+    const posting = await this.findPosting(account.companyId, postingId);
+
+    if (posting.status !== 'draft' || posting.jobId !== null) {
+      throw createError(409, 'Only unpublished drafts can be deleted; close the posting instead');
+    }
+
+    await prisma.jobPosting.delete({ where: { id: postingId } });
+  }
+
+  /**
+   * Publishes a draft or closed posting as a job
+   * @param userId Employer user ID, whose account must be verified
+   * @param postingId Posting ID
+   * @returns Published posting
+   */
+  public async publish(userId: number, postingId: number): Promise<JobPosting> {
+    const account = await employerAccountService.getVerified(userId);
+    const posting = await this.findPosting(account.companyId, postingId);
+
+    if (posting.status === 'published') {
+      throw createError(409, 'Job posting is already published');
+    }
+
+    const jobId = await this.saveAsJob(posting, account.company);
+
+    const published = await prisma.jobPosting.update({
+      where: { id: postingId },
+      data: {
+        status: 'published',
+        jobId,
+        publishedAt: posting.publishedAt ?? new Date(),
+        closedAt: null
+      }
+    });
+
+    logger.info(`Job posting ${postingId} published as job ${jobId}`, { companyId: account.companyId });
+
+    return published;
+  }
+
+  /**
+   * Closes a published posting; its job is marked removed
+   * @param userId Employer user ID
+   * @param postingId Posting ID
+   * @returns Closed posting
+   */
+  public async close(userId: number, postingId: number): Promise<JobPosting> {
+    const account = await employerAccountService.get(userId);
+    const posting = await this.findPosting(account.companyId, postingId);
+
+    if (posting.status !== 'published') {
+      throw createError(409, 'Only published postings can be closed');
+    }
+
+    const closedAt = new Date();
+    await jobRepository.markRemoved(DIRECT_SOURCE, [String(posting.id)], closedAt);
+
+    const closed = await prisma.jobPosting.update({
+      where: { id: postingId },
+      data: { status: 'closed', closedAt }
+    });
+
+    logger.info(`Job posting ${postingId} closed`, { companyId: account.companyId });
+
+    return closed;
+  }
+
+  /**
+   * Finds a posting of the employer's company; postings of other
+   * companies are reported as missing
+   */
+  private async findPosting(companyId: number, postingId: number): Promise<JobPosting> {
+    const posting = await prisma.jobPosting.findFirst({
+      where: { id: postingId, companyId }
+    });
+
+    if (!posting) {
+      throw createError(404, 'Job posting not found');
+    }
+
+    return posting;
+  }
+
+  /**
+   * Normalizes and validates a posting as job data
+   */
+  private validate(posting: JobPosting, company: PostingCompany): { job: JobData; issues: ValidationIssue[] } {
+    const job = normalizeJobData(this.toJobData(posting, company));
+    const { issues } = validateJobData(job);
+    job.collectingMetadata.validationIssues = issues;
+
+    return { job, issues };
+  }
+
+  /**
+   * Saves a posting as a job, the way the collection pipeline saves
+   * collected jobs
+   * @returns ID of the job
+   */
+  private async saveAsJob(posting: JobPosting, company: PostingCompany): Promise<number> {
+    const { job, issues } = this.validate(posting, company);
+    const errors = issues.filter(issue => issue.severity === 'error');
+
+    if (errors.length > 0) {
+      throw createError(422, `Job posting is not valid: ${errors.map(issue => issue.message).join('; ')}`);
+    }
+
+    const { savedJobIds, createdJobIds } = await jobRepository.saveJobs([job]);
+    if (savedJobIds.length === 0) {
+      throw createError(500, 'Failed to save job posting');
+    }
+
+    await jobDuplicateService.clusterJobs(savedJobIds).catch(error => {
+      logger.error(`Failed to cluster duplicates of job posting ${posting.id}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+
+    savedSearchAlertService.processNewJobs(createdJobIds).catch(error => {
+      logger.error(`Failed to match job posting ${posting.id} against saved searches`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+
+    return savedJobIds[0];
+  }
+
+  private toJobData(posting: JobPosting, company: PostingCompany): JobData {
+    return {
+      externalId: String(posting.id),
+      source: DIRECT_SOURCE,
+      sourceUrl: `${FRONTEND_URL}/postings/${posting.id}`,
+      title: posting.title,
+      company: {
+        name: company.name,
+        organizationNumber: company.organizationNumber ?? undefined,
+        website: company.website ?? undefined
+      },
+      description: posting.description,
+      location: {
+        city: posting.city ?? undefined,
+        municipality: posting.municipality ?? undefined,
+        region: posting.region ?? undefined,
+        address: posting.address ?? undefined
+      },
+      applicationDetails: {
+        email: posting.applicationEmail ?? undefined,
+        url: posting.applicationUrl ?? undefined,
+        deadlineDate: posting.applicationDeadline ?? undefined
+      },
+      employmentType: posting.employmentType ?? undefined,
+      workingHoursType: posting.workingHoursType ?? undefined,
+      duration: posting.duration ?? undefined,
+      salary: posting.salary ?? undefined,
+      publicationDate: posting.publishedAt ?? new Date(),
+      expirationDate: posting.expiresAt ?? undefined,
+      skills: posting.skills.map(name => ({ name, required: false })),
+      educationRequirements: [],
+      languages: [],
+      metadata: { postingId: posting.id },
+      collectingMetadata: {
+        collectedAt: new Date(),
+        processingTimeMs: 0,
+        sourceVersion: '1.0',
+        validationIssues: []
+      }
+    };
+  }
+}
+
+// Create and export a singleton instance
+export const jobPostingService = new JobPostingService();
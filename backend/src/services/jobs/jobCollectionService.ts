@@ -1,7 +1,7 @@
 /**
  * Service for initializing and managing job data collection
  */
-import { collectionOrchestrator } from '../scrapers/orchestrator/collectionOrchestrator';
+import { collectionOrchestrator } from '../collection/collectionOrchestrator';
 import { logger } from '../../utils/logger';
 
 class JobCollectionService {
@@ -43,6 +43,19 @@ class JobCollectionService {
     }
   }
 
+  /**
+   * Stops scheduling and lets the running collection job finish
+   */
+  public async stop(): Promise<void> {
+    try {
+      await collectionOrchestrator.stop();
+    } catch (error) {
+      logger.error('Failed to stop job collection', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
   /**
    * Runs an initial collection on startup if enabled
    */
@@ -56,28 +69,12 @@ class JobCollectionService {
     }
     
     try {
-      logger.info('Running initial job collection');
-      
-      // Delay initial collection to ensure server is fully started
-      setTimeout(async () => {
-        try {
-          const results = await collectionOrchestrator.collectFromAllSources();
-          
-          logger.info('Initial job collection completed', {
-            sourceCount: results.length,
-            jobsCollected: results.reduce((sum, result) => sum + result.jobsCollected, 0),
-            jobsStored: results.reduce((sum, result) => sum + result.jobsStored, 0)
-          });
-        } catch (error) {
-          logger.error('Error in initial job collection', {
-            error: error instanceof Error ? error.message : String(error)
-          });
-        }
-      }, 10000); // 10 second delay
+      // Other instances starting at the same time share the pending jobs
+      const jobs = await collectionOrchestrator.enqueueAllSources({ trigger: 'startup', skipIfPending: true });
       
-      logger.info('Initial job collection scheduled');
+      logger.info('Initial job collection queued', { jobIds: jobs.map(job => job.id) });
     } catch (error) {
-      logger.error('Failed to schedule initial job collection', {
+      logger.error('Failed to queue initial job collection', {
         error: error instanceof Error ? error.message : String(error)
       });
     }
@@ -0,0 +1,103 @@
+import { jobDuplicateService } from './jobDuplicateService';
+import { estimateSimilarity, fingerprintJob } from './jobSimilarity';
+import { prisma } from '../database/db.service';
+
+jest.mock('../database/db.service', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn().mockResolvedValue([]),
+    job: {
+      update: jest.fn((args: unknown) => ({ update: args })),
+      updateMany: jest.fn((args: unknown) => ({ updateMany: args }))
+    }
+  }
+}));
+
+const db = prisma as unknown as {
+  $queryRaw: jest.Mock;
+  $transaction: jest.Mock;
+  job: { update: jest.Mock; updateMany: jest.Mock };
+};
+
+const DESCRIPTION = 'Vi söker en engagerad lagermedarbetare till vårt lager i Jönköping. Du plockar och packar ' +
+  'order, tar emot leveranser och håller ordning i lagret. Arbetet sker dagtid måndag till fredag och ' +
+  'truckkort är meriterande. Tjänsten passar dig som studerar och vill jobba extra under terminen.';
+
+const clusterJob = (id: number, overrides: Record<string, unknown> = {}, description = DESCRIPTION) => ({
+  id,
+  source: 'jobtech',
+  canonicalJobId: null,
+  publishedAt: new Date('2025-03-01T08:00:00Z'),
+  companyId: id,
+  companyName: 'Lagerbolaget AB',
+  municipality: 'Jönköping',
+  city: 'Jönköping',
+  ...fingerprintJob('Lagermedarbetare extra', description),
+  ...overrides
+});
+
+describe('jobSimilarity', () => {
+  it('scores a reposted ad with small edits as similar and unrelated ads as dissimilar', () => {
+    const original = fingerprintJob('Lagermedarbetare extra', DESCRIPTION);
+    const reposted = fingerprintJob('Lagermedarbetare extra', `${DESCRIPTION} Välkommen med din ansökan!`);
+    const unrelated = fingerprintJob('Kundtjänstmedarbetare', 'Du svarar på frågor från våra kunder via telefon och chatt.');
+
+    expect(estimateSimilarity(original.minhashSignature, reposted.minhashSignature)).toBeGreaterThan(0.6);
+    expect(original.minhashBands.some(band => reposted.minhashBands.includes(band))).toBe(true);
+    expect(estimateSimilarity(original.minhashSignature, unrelated.minhashSignature)).toBeLessThan(0.2);
+  });
+
+  it('treats a missing signature as no match', () => {
+    expect(estimateSimilarity([], fingerprintJob('Lagermedarbetare', DESCRIPTION).minhashSignature)).toBe(0);
+  });
+});
+
+describe('JobDuplicateService clustering', () => {
+  it('links a cross-source duplicate into the cluster of the earlier job', async () => {
+    const job = clusterJob(20, { source: 'academic-work', companyName: 'Lagerbolaget Sverige AB' });
+    db.$queryRaw.mockResolvedValueOnce([job]).mockResolvedValueOnce([clusterJob(10, { canonicalJobId: 5 })]);
+
+    await expect(jobDuplicateService.clusterJobs([20])).resolves.toEqual({ linked: 1, detached: 0 });
+
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+    expect(db.job.updateMany).toHaveBeenCalledWith({ where: { canonicalJobId: 20 }, data: { canonicalJobId: 5 } });
+    expect(db.job.update).toHaveBeenCalledWith({ where: { id: 20 }, data: { canonicalJobId: 5 } });
+    expect(db.job.update).toHaveBeenCalledWith({
+      where: { id: 20 },
+      data: { duplicateSimilarity: expect.any(Number) }
+    });
+  });
+
+  it('does not link similar ads from different companies or cities', async () => {
+    const job = clusterJob(20, { source: 'academic-work' });
+    db.$queryRaw.mockResolvedValueOnce([job]).mockResolvedValueOnce([
+      clusterJob(10, { companyName: 'Bemanningsföretaget AB' }),
+      clusterJob(11, { city: 'Växjö', municipality: 'Växjö' })
+    ]);
+
+    await expect(jobDuplicateService.clusterJobs([20])).resolves.toEqual({ linked: 0, detached: 0 });
+
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('leaves jobs already in the same cluster unchanged', async () => {
+    const job = clusterJob(20, { source: 'academic-work', canonicalJobId: 10 });
+    db.$queryRaw.mockResolvedValueOnce([job]).mockResolvedValueOnce([clusterJob(10)]);
+
+    await expect(jobDuplicateService.clusterJobs([20])).resolves.toEqual({ linked: 0, detached: 0 });
+
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('detaches a duplicate whose ad no longer matches its cluster', async () => {
+    const job = clusterJob(20, { source: 'academic-work', canonicalJobId: 10 }, 'Helt ny annonstext om ett annat jobb.');
+    db.$queryRaw.mockResolvedValueOnce([job]).mockResolvedValueOnce([clusterJob(10)]);
+
+    await expect(jobDuplicateService.clusterJobs([20])).resolves.toEqual({ linked: 0, detached: 1 });
+
+    expect(db.job.update).toHaveBeenCalledWith({
+      where: { id: 20 },
+      data: { canonicalJobId: null, duplicateSimilarity: null }
+    });
+  });
+});
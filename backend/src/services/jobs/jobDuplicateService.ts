@@ -0,0 +1,275 @@
+/**
+ * Clusters the same ad posted on several sources. Candidates share an LSH
+ * band of the job's MinHash signature; a candidate is a duplicate when its
+ * estimated similarity is high enough, the companies and locations match
+ * and it was published within the date window. Duplicates point at the
+ * canonical job of their cluster, the one search lists.
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { estimateSimilarity, fingerprintJob } from './jobSimilarity';
+import { normalizeCompanyName } from '../companies/companyIdentity';
+import { logger } from '../../utils/logger';
+
+interface ClusterJob {
+  id: number;
+  source: string;
+  canonicalJobId: number | null;
+  publishedAt: Date;
+  companyId: number;
+  minhashSignature: number[];
+  minhashBands: string[];
+  companyName: string;
+  municipality: string | null;
+  city: string | null;
+}
+
+export interface ClusterResult {
+  linked: number;
+  detached: number;
+}
+
+const MIN_SIMILARITY = parseFloat(process.env.DUPLICATE_MIN_SIMILARITY || '0.6');
+const WINDOW_DAYS = parseInt(process.env.DUPLICATE_WINDOW_DAYS || '14');
+// Candidates checked per job; a band shared by many ads is boilerplate, not a duplicate
+const MAX_CANDIDATES = 50;
+const BATCH_SIZE = 500;
+
+class JobDuplicateService {
+  /**
+   * Links each job to the cluster of its closest cross-source duplicate, and
+   * detaches duplicates that no longer match anything
+   * @param jobIds Jobs to cluster, e.g. the jobs saved by a collection run
+   * @returns Number of jobs linked and detached
+   */
+  public async clusterJobs(jobIds: number[]): Promise<ClusterResult> {
+    const result: ClusterResult = { linked: 0, detached: 0 };
+
+    for (let i = 0; i < jobIds.length; i += BATCH_SIZE) {
+      const jobs = await this.findJobs(Prisma.sql`j.id = ANY(${jobIds.slice(i, i + BATCH_SIZE)}::int[])`);
+
+      for (const job of jobs) {
+        try {
+          const outcome = await this.clusterJob(job);
+          if (outcome === 'linked') {
+            result.linked++;
+          } else if (outcome === 'detached') {
+            result.detached++;
+          }
+        } catch (error) {
+          logger.error(`Failed to cluster job ${job.id}`, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    }
+
+    if (result.linked > 0 || result.detached > 0) {
+      logger.info(`Linked ${result.linked} cross-source duplicates, detached ${result.detached}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Fingerprints and clusters active jobs stored before they were fingerprinted
+   * @returns Number of jobs fingerprinted
+   */
+  public async backfill(): Promise<number> {
+    let fingerprinted = 0;
+
+    for (;;) {
+      const jobs = await prisma.job.findMany({
+        where: { removedAt: null, minhashSignature: { isEmpty: true } },
+        select: { id: true, title: true, description: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE
+      });
+
+      if (jobs.length === 0) {
+        break;
+      }
+
+      for (const job of jobs) {
+        await prisma.job.update({
+          where: { id: job.id },
+          data: fingerprintJob(job.title, job.description)
+        });
+      }
+
+      await this.clusterJobs(jobs.map(job => job.id));
+      fingerprinted += jobs.length;
+    }
+
+    logger.info(`Fingerprinted ${fingerprinted} jobs for duplicate detection`);
+
+    return fingerprinted;
+  }
+
+  /**
+   * Makes the earliest active duplicate the canonical job of clusters whose
+   * canonical job was removed, so the ad stays listed
+   * @returns Number of clusters given a new canonical job
+   */
+  public async promoteCanonicalJobs(): Promise<number> {
+    const promoted = await prisma.$executeRaw`
+      WITH promoted AS (
+        SELECT DISTINCT ON (d."canonicalJobId") d."canonicalJobId" AS "oldId", d.id AS "newId"
+        FROM jobs d
+        JOIN jobs c ON c.id = d."canonicalJobId"
+        WHERE c."removedAt" IS NOT NULL AND d."removedAt" IS NULL
+        ORDER BY d."canonicalJobId", d."publishedAt", d.id
+      )
+      UPDATE jobs j
+      SET "canonicalJobId" = CASE WHEN j.id = p."newId" THEN NULL ELSE p."newId" END
+      FROM promoted p
+      WHERE j."canonicalJobId" = p."oldId" OR j.id = p."oldId"
+    `;
+
+    if (promoted > 0) {
+      logger.info(`Promoted new canonical jobs for clusters with removed canonical jobs`, { jobsUpdated: promoted });
+    }
+
+    return promoted;
+  }
+
+  /**
+   * Clusters a single job
+   * @param job Job to cluster
+   * @returns What was changed
+   */
+  private async clusterJob(job: ClusterJob): Promise<'linked' | 'detached' | 'unchanged'> {
+    const match = await this.findBestMatch(job);
+
+    if (!match) {
+      // A duplicate whose ad was edited away from its cluster stands on its own again
+      if (job.canonicalJobId !== null) {
+        await prisma.job.update({
+          where: { id: job.id },
+          data: { canonicalJobId: null, duplicateSimilarity: null }
+        });
+        return 'detached';
+      }
+      return 'unchanged';
+    }
+
+    const ownCanonical = job.canonicalJobId ?? job.id;
+    const matchCanonical = match.job.canonicalJobId ?? match.job.id;
+
+    if (ownCanonical === matchCanonical) {
+      return 'unchanged';
+    }
+
+    // Clusters are merged into the one whose canonical job was stored first
+    const [canonical, merged] = ownCanonical < matchCanonical
+      ? [ownCanonical, matchCanonical]
+      : [matchCanonical, ownCanonical];
+
+    await prisma.$transaction([
+      prisma.job.updateMany({
+        where: { canonicalJobId: merged },
+        data: { canonicalJobId: canonical }
+      }),
+      prisma.job.update({
+        where: { id: merged },
+        data: { canonicalJobId: canonical }
+      }),
+      prisma.job.update({
+        where: { id: job.id },
+        data: { duplicateSimilarity: match.similarity }
+      })
+    ]);
+
+    logger.debug(`Linked job ${job.id} from ${job.source} to cluster ${canonical}`, {
+      matchedJobId: match.job.id,
+      matchedSource: match.job.source,
+      similarity: match.similarity
+    });
+
+    return 'linked';
+  }
+
+  /**
+   * Finds the most similar active job from another source
+   * @param job Job to match
+   * @returns Closest duplicate and its similarity, or null
+   */
+  private async findBestMatch(job: ClusterJob): Promise<{ job: ClusterJob; similarity: number } | null> {
+    if (job.minhashBands.length === 0) {
+      return null;
+    }
+
+    const windowMs = WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const candidates = await this.findJobs(Prisma.sql`
+      j."minhashBands" && ${job.minhashBands}::text[]
+      AND j.id <> ${job.id}
+      AND j.source <> ${job.source}
+      AND j."removedAt" IS NULL
+      AND j."publishedAt" BETWEEN ${new Date(job.publishedAt.getTime() - windowMs)}
+        AND ${new Date(job.publishedAt.getTime() + windowMs)}
+    `, MAX_CANDIDATES);
+
+    let best: { job: ClusterJob; similarity: number } | null = null;
+
+    for (const candidate of candidates) {
+      const similarity = estimateSimilarity(job.minhashSignature, candidate.minhashSignature);
+
+      if (
+        similarity >= MIN_SIMILARITY &&
+        (!best || similarity > best.similarity) &&
+        this.sameCompany(job, candidate) &&
+        this.sameLocation(job, candidate)
+      ) {
+        best = { job: candidate, similarity };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Companies match when the jobs were resolved to the same company, their
+   * names match without legal forms, or one contains the other
+   * (Academic Work / Academic Work Sweden AB)
+   */
+  private sameCompany(a: ClusterJob, b: ClusterJob): boolean {
+    if (a.companyId === b.companyId) {
+      return true;
+    }
+
+    const nameA = normalizeCompanyName(a.companyName);
+    const nameB = normalizeCompanyName(b.companyName);
+
+    if (!nameA || !nameB) {
+      return false;
+    }
+
+    return nameA === nameB ||
+      (Math.min(nameA.length, nameB.length) >= 4 && (nameA.includes(nameB) || nameB.includes(nameA)));
+  }
+
+  /**
+   * Locations match unless both jobs name different municipalities or cities
+   */
+  private sameLocation(a: ClusterJob, b: ClusterJob): boolean {
+    const same = (x: string | null, y: string | null) => !x || !y || x.toLowerCase() === y.toLowerCase();
+
+    return same(a.municipality, b.municipality) && same(a.city, b.city);
+  }
+
+  private async findJobs(condition: Prisma.Sql, limit?: number): Promise<ClusterJob[]> {
+    return prisma.$queryRaw<ClusterJob[]>`
+      SELECT j.id, j.source, j."canonicalJobId", j."publishedAt", j."companyId", j."minhashSignature", j."minhashBands",
+             c.name AS "companyName", l.municipality, l.city
+      FROM jobs j
+      JOIN companies c ON c.id = j."companyId"
+      LEFT JOIN locations l ON l.id = j."locationId"
+      WHERE ${condition}
+      ORDER BY j.id
+      ${limit ? Prisma.sql`LIMIT ${limit}` : Prisma.empty}
+    `;
+  }
+}
+
+// Create and export a singleton instance
+export const jobDuplicateService = new JobDuplicateService();
@@ -0,0 +1,324 @@
+/**
+ * Service for calculating facet counts for job searches
+ *
+ * Each facet is counted with all active filters except its own, so that
+ * selecting "Stockholm" still shows how many jobs the other regions have.
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { jobSearchService, JobSearchFilters, SearchMatches } from './jobSearchService';
+import { logger } from '../../utils/logger';
+
+export interface FacetBucket {
+  id?: number;
+  value: string;
+  count: number;
+  parentId?: number | null;
+}
+
+export interface JobFacets {
+  region: FacetBucket[];
+  municipality: FacetBucket[];
+  employmentType: FacetBucket[];
+  workingHoursType: FacetBucket[];
+  skill: FacetBucket[];
+  educationArea: FacetBucket[];
+  language: FacetBucket[];
+  source: FacetBucket[];
+}
+
+// Filters that each facet leaves out when counting
+const FACET_FILTER_KEYS: Record<keyof JobFacets, Array<keyof JobSearchFilters>> = {
+  region: ['region', 'regionConceptId'],
+  municipality: ['municipality', 'municipalityConceptId'],
+  employmentType: ['employmentType'],
+  workingHoursType: ['workingHoursType'],
+  skill: ['skillId', 'skill', 'skillConceptId'],
+  educationArea: ['educationAreaId'],
+  language: ['languageId', 'language', 'languageConceptId'],
+  source: ['source']
+};
+
+const TOP_SKILLS_LIMIT = parseInt(process.env.SEARCH_FACET_SKILL_LIMIT || '20');
+
+class JobFacetService {
+  /**
+   * Calculates all facets for a search
+   * @param filters Active search filters
+   * @param matches Full-text and distance matches, if already resolved
+   * @returns Facet buckets
+   */
+  public async getFacets(filters: JobSearchFilters, matches: SearchMatches = {}): Promise<JobFacets> {
+    const whereFor = async (facet: keyof JobFacets) => {
+      const facetFilters = this.omitFilters(filters, FACET_FILTER_KEYS[facet]);
+      const omitsActiveFilter = FACET_FILTER_KEYS[facet].some(key => filters[key] !== undefined);
+
+      // The matches are narrowed by every filter, so a facet that leaves one
+      // out needs matches of its own
+      const facetMatches = omitsActiveFilter && (matches.text || matches.distances)
+        ? await jobSearchService.resolveMatches(facetFilters)
+        : matches;
+
+      return jobSearchService.buildWhere(facetFilters, facetMatches);
+    };
+
+    try {
+      const [
+        region,
+        municipality,
+        employmentType,
+        workingHoursType,
+        skill,
+        educationArea,
+        language,
+        source
+      ] = await Promise.all([
+        whereFor('region').then(where => this.countLocations(where, 'region')),
+        whereFor('municipality').then(where => this.countLocations(where, 'municipality')),
+        whereFor('employmentType').then(where => this.countJobField(where, 'employmentType')),
+        whereFor('workingHoursType').then(where => this.countJobField(where, 'workingHoursType')),
+        whereFor('skill').then(where => this.countSkills(where)),
+        whereFor('educationArea').then(where => this.countEducationAreas(where)),
+        whereFor('language').then(where => this.countLanguages(where)),
+        whereFor('source').then(where => this.countSources(where))
+      ]);
+
+      return {
+        region,
+        municipality,
+        employmentType,
+        workingHoursType,
+        skill,
+        educationArea,
+        language,
+        source
+      };
+    } catch (error) {
+      logger.error('Failed to calculate search facets', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Counts jobs per value of a scalar job field
+   * @param where Job where input
+   * @param field Job field
+   * @returns Facet buckets
+   */
+  private async countJobField(
+    where: Prisma.JobWhereInput,
+    field: 'employmentType' | 'workingHoursType'
+  ): Promise<FacetBucket[]> {
+    const groups = await prisma.job.groupBy({
+      by: [field],
+      where,
+      _count: { _all: true }
+    });
+
+    return this.sortBuckets(
+      groups
+        .filter(group => group[field])
+        .map(group => ({ value: group[field] as string, count: group._count._all }))
+    );
+  }
+
+  /**
+   * Counts jobs per source. Like the source filter, a job counts for its
+   * own source and for the sources its active duplicates were posted on.
+   * @param where Job where input
+   * @returns Facet buckets
+   */
+  private async countSources(where: Prisma.JobWhereInput): Promise<FacetBucket[]> {
+    const sources = await prisma.job.groupBy({
+      by: ['source'],
+      where: { removedAt: null }
+    });
+
+    const counts = await Promise.all(sources.map(async ({ source }) => ({
+      value: source,
+      count: await prisma.job.count({
+        where: {
+          AND: [
+            where,
+            {
+              OR: [
+                { source },
+                { duplicates: { some: { source, removedAt: null } } }
+              ]
+            }
+          ]
+        }
+      })
+    })));
+
+    return this.sortBuckets(counts.filter(bucket => bucket.count > 0));
+  }
+
+  /**
+   * Counts jobs per region or municipality
+   * @param where Job where input
+   * @param field Location field
+   * @returns Facet buckets
+   */
+  private async countLocations(
+    where: Prisma.JobWhereInput,
+    field: 'region' | 'municipality'
+  ): Promise<FacetBucket[]> {
+    const groups = await prisma.job.groupBy({
+      by: ['locationId'],
+      where: { AND: [where, { locationId: { not: null } }] },
+      _count: { _all: true }
+    });
+
+    const locations = await prisma.location.findMany({
+      where: { id: { in: groups.map(group => group.locationId!) } },
+      select: { id: true, region: true, municipality: true }
+    });
+    const valueByLocation = new Map<number, string | null>(locations.map(location => [location.id, location[field]]));
+
+    // Several locations share the same region or municipality
+    const counts = new Map<string, number>();
+    for (const group of groups) {
+      const value = valueByLocation.get(group.locationId!);
+      if (value) {
+        counts.set(value, (counts.get(value) || 0) + group._count._all);
+      }
+    }
+
+    return this.sortBuckets([...counts].map(([value, count]) => ({ value, count })));
+  }
+
+  /**
+   * Counts jobs per skill, limited to the most common skills
+   * @param where Job where input
+   * @returns Facet buckets
+   */
+  private async countSkills(where: Prisma.JobWhereInput): Promise<FacetBucket[]> {
+    const groups = await prisma.jobSkill.groupBy({
+      by: ['skillId'],
+      where: { job: where },
+      _count: { skillId: true },
+      orderBy: { _count: { skillId: 'desc' } },
+      take: TOP_SKILLS_LIMIT
+    });
+
+    const skills = await prisma.skill.findMany({
+      where: { id: { in: groups.map(group => group.skillId) } }
+    });
+    const nameById = new Map(skills.map(skill => [skill.id, skill.name]));
+
+    return groups
+      .filter(group => nameById.has(group.skillId))
+      .map(group => ({
+        id: group.skillId,
+        value: nameById.get(group.skillId)!,
+        count: group._count.skillId
+      }));
+  }
+
+  /**
+   * Counts jobs per language
+   * @param where Job where input
+   * @returns Facet buckets
+   */
+  private async countLanguages(where: Prisma.JobWhereInput): Promise<FacetBucket[]> {
+    const groups = await prisma.jobLanguage.groupBy({
+      by: ['languageId'],
+      where: { job: where },
+      _count: { languageId: true }
+    });
+
+    const languages = await prisma.language.findMany({
+      where: { id: { in: groups.map(group => group.languageId) } }
+    });
+    const nameById = new Map(languages.map(language => [language.id, language.name]));
+
+    return this.sortBuckets(
+      groups
+        .filter(group => nameById.has(group.languageId))
+        .map(group => ({
+          id: group.languageId,
+          value: nameById.get(group.languageId)!,
+          count: group._count.languageId
+        }))
+    );
+  }
+
+  /**
+   * Counts jobs per education area. A job requiring a sub-area is also
+   * counted for every parent area, but only once per area even if it
+   * requires several of its sub-areas.
+   * @param where Job where input
+   * @returns Facet buckets
+   */
+  private async countEducationAreas(where: Prisma.JobWhereInput): Promise<FacetBucket[]> {
+    const [requirements, areas] = await Promise.all([
+      prisma.jobEducationRequirement.findMany({
+        where: { job: where },
+        select: { jobId: true, educationAreaId: true }
+      }),
+      prisma.educationArea.findMany({
+        select: { id: true, name: true, parentId: true }
+      })
+    ]);
+
+    const areaById = new Map(areas.map(area => [area.id, area]));
+    const jobsByArea = new Map<number, Set<number>>();
+
+    for (const requirement of requirements) {
+      // Walk up the hierarchy, guarding against cycles
+      const visited = new Set<number>();
+      let areaId: number | null = requirement.educationAreaId;
+
+      while (areaId !== null && !visited.has(areaId)) {
+        visited.add(areaId);
+
+        if (!jobsByArea.has(areaId)) {
+          jobsByArea.set(areaId, new Set());
+        }
+        jobsByArea.get(areaId)!.add(requirement.jobId);
+
+        areaId = areaById.get(areaId)?.parentId ?? null;
+      }
+    }
+
+    return this.sortBuckets(
+      [...jobsByArea]
+        .filter(([areaId]) => areaById.has(areaId))
+        .map(([areaId, jobIds]) => ({
+          id: areaId,
+          value: areaById.get(areaId)!.name,
+          parentId: areaById.get(areaId)!.parentId,
+          count: jobIds.size
+        }))
+    );
+  }
+
+  /**
+   * Returns a copy of the filters without the given keys
+   * @param filters Search filters
+   * @param keys Keys to leave out
+   * @returns Filters
+   */
+  private omitFilters(filters: JobSearchFilters, keys: Array<keyof JobSearchFilters>): JobSearchFilters {
+    const result = { ...filters };
+    for (const key of keys) {
+      delete result[key];
+    }
+    return result;
+  }
+
+  /**
+   * Sorts buckets by count, then alphabetically
+   * @param buckets Facet buckets
+   * @returns Sorted buckets
+   */
+  private sortBuckets(buckets: FacetBucket[]): FacetBucket[] {
+    return buckets.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value, 'sv'));
+  }
+}
+
+// Create and export a singleton instance
+export const jobFacetService = new JobFacetService();
@@ -0,0 +1,192 @@
+/**
+ * Distance search over job locations
+ *
+ * Jobs are placed using the coordinates of their location. Locations without
+ * coordinates fall back to the centroid of their municipality (see
+ * prisma/functions/municipality_centroids.sql), in which case the position
+ * is marked as approximate.
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { logger } from '../../utils/logger';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface JobPosition extends GeoPoint {
+  approximate: boolean;
+  distanceKm?: number;
+}
+
+// Upper bound on the number of jobs considered for a single radius search,
+// applied after the search filters
+const MAX_GEO_MATCHES = parseInt(process.env.SEARCH_MAX_GEO_MATCHES || '5000');
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Joins jobs to their position, preferring the location's own coordinates
+ * over the municipality centroid
+ * @param conditions Conditions on the jobs, referring to them as `j`
+ * @returns SQL fragment
+ */
+const positionedJobs = (conditions: Prisma.Sql = Prisma.sql`TRUE`) => Prisma.sql`
+  SELECT
+    j.id,
+    COALESCE(l.latitude, c.latitude) AS latitude,
+    COALESCE(l.longitude, c.longitude) AS longitude,
+    (l.latitude IS NULL OR l.longitude IS NULL) AS approximate
+  FROM jobs j
+  JOIN locations l ON l.id = j."locationId"
+  LEFT JOIN municipality_centroids c ON LOWER(c.municipality) = LOWER(l.municipality)
+  WHERE ((l.latitude IS NOT NULL AND l.longitude IS NOT NULL) OR c.id IS NOT NULL)
+    AND ${conditions}
+`;
+
+/**
+ * Builds the haversine distance in kilometres between a point and the
+ * latitude/longitude columns of the positioned jobs
+ * @param point Origin
+ * @returns SQL fragment
+ */
+function buildDistance(point: GeoPoint): Prisma.Sql {
+  return Prisma.sql`(
+    2 * ${EARTH_RADIUS_KM} * ASIN(SQRT(
+      POWER(SIN(RADIANS(latitude - ${point.latitude}) / 2), 2) +
+      COS(RADIANS(${point.latitude})) * COS(RADIANS(latitude)) *
+      POWER(SIN(RADIANS(longitude - ${point.longitude}) / 2), 2)
+    ))
+  )`;
+}
+
+class JobGeoSearch {
+  // Matches returned at most by findWithinRadius
+  public readonly maxMatches = MAX_GEO_MATCHES;
+
+  /**
+   * Finds jobs within a radius of a point, nearest first
+   * @param point Origin
+   * @param radiusKm Radius in kilometres
+   * @param conditions Search filters as SQL, see buildJobConditionsSql
+   * @param jobIds Only consider these jobs
+   * @returns Map of job ID to distance in kilometres, in ascending distance order
+   */
+  public async findWithinRadius(
+    point: GeoPoint,
+    radiusKm: number,
+    conditions: Prisma.Sql,
+    jobIds?: number[]
+  ): Promise<Map<number, number>> {
+    if (jobIds?.length === 0) {
+      return new Map();
+    }
+
+    const restriction = jobIds ? Prisma.sql`AND id = ANY(${jobIds}::int[])` : Prisma.empty;
+
+    // A bounding box lets the database skip most rows before computing distances
+    const latDelta = radiusKm / 111.32;
+    const lngDelta = radiusKm / (111.32 * Math.max(Math.cos(point.latitude * Math.PI / 180), 0.01));
+
+    try {
+      const rows = await prisma.$queryRaw<Array<{ id: number; distance: number }>>`
+        SELECT id, distance
+        FROM (
+          SELECT id, ${buildDistance(point)} AS distance
+          FROM (${positionedJobs(conditions)}) AS positioned
+          WHERE latitude BETWEEN ${point.latitude - latDelta} AND ${point.latitude + latDelta}
+            AND longitude BETWEEN ${point.longitude - lngDelta} AND ${point.longitude + lngDelta}
+            ${restriction}
+        ) AS distances
+        WHERE distance <= ${radiusKm}
+        ORDER BY distance ASC, id DESC
+        LIMIT ${MAX_GEO_MATCHES}
+      `;
+
+      return new Map(rows.map(row => [row.id, Number(row.distance)]));
+    } catch (error) {
+      logger.error('Failed to run radius search', {
+        error: error instanceof Error ? error.message : String(error),
+        point,
+        radiusKm
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the positions of a set of jobs
+   * @param jobIds Job IDs
+   * @param distances Distances to include, from findWithinRadius
+   * @returns Map of job ID to position, for the jobs that can be placed
+   */
+  public async getPositions(jobIds: number[], distances?: Map<number, number>): Promise<Map<number, JobPosition>> {
+    if (jobIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await prisma.$queryRaw<Array<{ id: number; latitude: number; longitude: number; approximate: boolean }>>`
+      SELECT id, latitude, longitude, approximate
+      FROM (${positionedJobs()}) AS positioned
+      WHERE id IN (${Prisma.join(jobIds)})
+    `;
+
+    return new Map(rows.map(row => [row.id, {
+      latitude: Number(row.latitude),
+      longitude: Number(row.longitude),
+      approximate: row.approximate,
+      ...(distances?.has(row.id) ? { distanceKm: Math.round(distances.get(row.id)! * 10) / 10 } : {})
+    }]));
+  }
+
+  /**
+   * Looks up the centroid of a municipality
+   * @param municipality Municipality name
+   * @returns Centroid or null if the municipality is unknown
+   */
+  public async getMunicipalityCentroid(municipality: string): Promise<GeoPoint | null> {
+    const centroid = await prisma.municipalityCentroid.findFirst({
+      where: { municipality: { equals: municipality, mode: Prisma.QueryMode.insensitive } },
+      select: { latitude: true, longitude: true }
+    });
+
+    return centroid;
+  }
+
+  /**
+   * Recalculates the derived centroids from the coordinates of collected
+   * locations. Seeded centroids are never overwritten.
+   * @returns Number of centroids created or updated
+   */
+  public async refreshCentroids(): Promise<number> {
+    try {
+      const count = await prisma.$executeRaw`
+        INSERT INTO municipality_centroids (municipality, region, latitude, longitude, source, "updatedAt")
+        SELECT municipality, MAX(region), AVG(latitude), AVG(longitude), 'derived', NOW()
+        FROM locations
+        WHERE municipality IS NOT NULL
+          AND latitude IS NOT NULL
+          AND longitude IS NOT NULL
+        GROUP BY municipality
+        ON CONFLICT (municipality) DO UPDATE
+          SET latitude = EXCLUDED.latitude,
+              longitude = EXCLUDED.longitude,
+              region = EXCLUDED.region,
+              "updatedAt" = NOW()
+          WHERE municipality_centroids.source = 'derived'
+      `;
+
+      logger.debug(`Refreshed ${count} municipality centroids`);
+      return count;
+    } catch (error) {
+      logger.error('Failed to refresh municipality centroids', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const jobGeoSearch = new JobGeoSearch();
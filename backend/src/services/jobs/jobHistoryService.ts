@@ -0,0 +1,211 @@
+/**
+ * Keeps the change history of jobs. Each collection that changes a tracked
+ * field writes a new version with a field-level diff, and users who
+ * bookmarked the job are notified when a key field such as the deadline
+ * changes.
+ */
+import createError from 'http-errors';
+import { Job, Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { logger } from '../../utils/logger';
+
+// Fields whose changes are recorded
+export const TRACKED_JOB_FIELDS = [
+  'title',
+  'description',
+  'applicationDeadline',
+  'salary',
+  'employmentType',
+  'workingHoursType',
+  'duration',
+  'expiresAt',
+  'applicationUrl',
+  'applicationEmail'
+] as const satisfies ReadonlyArray<keyof Job>;
+
+export type TrackedJobField = typeof TRACKED_JOB_FIELDS[number];
+
+export interface JobFieldChange {
+  field: TrackedJobField;
+  from: string | null; // dates as ISO strings
+  to: string | null;
+}
+
+// Fields that bookmark holders are notified about, with their labels
+const NOTIFIED_FIELDS: Partial<Record<TrackedJobField, string>> = {
+  applicationDeadline: 'Sista ansökningsdag',
+  title: 'Titel',
+  salary: 'Lön',
+  employmentType: 'Anställningsform',
+  workingHoursType: 'Arbetstid',
+  applicationUrl: 'Ansökningslänk'
+};
+
+class JobHistoryService {
+  /**
+   * Records the tracked fields that differ between two states of a job
+   * @param previous Job before the update
+   * @param current Job after the update
+   * @returns Recorded changes, empty when nothing meaningful changed
+   */
+  public async recordChanges(previous: Job, current: Job): Promise<JobFieldChange[]> {
+    const changes = diffJobs(previous, current);
+
+    if (changes.length === 0) {
+      return changes;
+    }
+
+    const version = await prisma.$transaction(async tx => {
+      const latest = await tx.jobVersion.findFirst({
+        where: { jobId: current.id },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+
+      const created = await tx.jobVersion.create({
+        data: {
+          jobId: current.id,
+          version: (latest?.version || 0) + 1,
+          changes: changes as unknown as Prisma.InputJsonArray
+        }
+      });
+
+      return created.version;
+    });
+
+    logger.debug(`Recorded version ${version} of job ${current.id}`, {
+      fields: changes.map(change => change.field)
+    });
+
+    await this.notifyBookmarkHolders(current, version, changes).catch(error => {
+      logger.error(`Failed to notify bookmark holders about changes to job ${current.id}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+
+    return changes;
+  }
+
+  /**
+   * Gets the change history of a job, newest first
+   * @param jobId Job ID
+   * @returns Versions with their changes
+   */
+  public async getHistory(jobId: number) {
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: { id: true, collectedAt: true }
+    });
+
+    if (!job) {
+      throw createError(404, 'Job not found');
+    }
+
+    const versions = await prisma.jobVersion.findMany({
+      where: { jobId },
+      orderBy: { version: 'desc' }
+    });
+
+    return {
+      jobId,
+      firstCollectedAt: job.collectedAt,
+      versions: versions.map(version => ({
+        version: version.version,
+        changedAt: version.changedAt,
+        changes: version.changes as unknown as JobFieldChange[]
+      }))
+    };
+  }
+
+  /**
+   * Notifies users who bookmarked the job about changes to key fields
+   * @param job Job after the update
+   * @param version Recorded version
+   * @param changes Recorded changes
+   */
+  private async notifyBookmarkHolders(job: Job, version: number, changes: JobFieldChange[]): Promise<void> {
+    const notified = changes.filter(change => NOTIFIED_FIELDS[change.field]);
+    if (notified.length === 0) {
+      return;
+    }
+
+    const bookmarks = await prisma.bookmark.findMany({
+      where: { jobId: job.id },
+      select: { userId: true }
+    });
+    if (bookmarks.length === 0) {
+      return;
+    }
+
+    const deadlineChanged = notified.some(change => change.field === 'applicationDeadline');
+    const body = notified
+      .map(change => `${NOTIFIED_FIELDS[change.field]}: ${formatValue(change.from)} → ${formatValue(change.to)}`)
+      .join('\n');
+
+    await prisma.notification.createMany({
+      data: bookmarks.map(bookmark => ({
+        userId: bookmark.userId,
+        type: 'job_changed',
+        title: deadlineChanged
+          ? `Ny sista ansökningsdag för ${job.title}`
+          : `${job.title} har ändrats`,
+        body,
+        data: {
+          jobId: job.id,
+          version,
+          fields: notified.map(change => change.field)
+        }
+      }))
+    });
+
+    logger.info(`Notified ${bookmarks.length} users about changes to job ${job.id}`);
+  }
+}
+
+/**
+ * Compares the tracked fields of two states of a job. Whitespace-only
+ * changes are ignored.
+ * @param previous Job before the update
+ * @param current Job after the update
+ * @returns Changed fields
+ */
+export function diffJobs(previous: Job, current: Job): JobFieldChange[] {
+  const changes: JobFieldChange[] = [];
+
+  for (const field of TRACKED_JOB_FIELDS) {
+    const from = toComparable(previous[field]);
+    const to = toComparable(current[field]);
+
+    if (from !== to) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Converts a field value to a string for comparison and storage
+ */
+function toComparable(value: string | Date | null): string | null {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text ? text : null;
+}
+
+/**
+ * Formats a value for a notification, dates without the time
+ */
+function formatValue(value: string | null): string {
+  if (value === null) {
+    return '–';
+  }
+
+  return /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.slice(0, 10) : value;
+}
+
+// Create and export a singleton instance
+export const jobHistoryService = new JobHistoryService();
@@ -0,0 +1,80 @@
+import { jobRepository } from './jobRepository';
+import { JobData } from '../scrapers/types';
+import { companyService } from '../companies/companyService';
+
+jest.mock('@prisma/client', () => {
+  const actual = jest.requireActual('@prisma/client');
+  const client = {
+    $transaction: jest.fn(),
+    job: { findMany: jest.fn(), create: jest.fn() },
+    location: { findFirst: jest.fn(), create: jest.fn(), update: jest.fn() }
+  };
+
+  return { ...actual, PrismaClient: jest.fn(() => client) };
+});
+
+jest.mock('../companies/companyService', () => ({
+  companyService: { resolve: jest.fn() }
+}));
+
+jest.mock('./jobHistoryService', () => ({
+  jobHistoryService: { recordChanges: jest.fn() }
+}));
+
+const db = jobRepository['prisma'] as unknown as {
+  $transaction: jest.Mock;
+  job: { findMany: jest.Mock; create: jest.Mock };
+  location: { findFirst: jest.Mock; create: jest.Mock; update: jest.Mock };
+};
+
+const job = (externalId: string, coordinates?: [number, number]): JobData => ({
+  externalId,
+  source: 'jobtech',
+  sourceUrl: `https://example.com/jobs/${externalId}`,
+  title: 'Lagermedarbetare extra',
+  description: 'Vi söker en lagermedarbetare som vill jobba extra under studietiden.',
+  company: { name: 'Lagerbolaget AB' },
+  location: { city: 'Jönköping', municipality: 'Jönköping', region: 'Jönköpings län', coordinates },
+  publicationDate: new Date('2025-03-01T08:00:00Z'),
+  metadata: {}
+} as JobData);
+
+describe('JobRepository.saveJobs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Every job is saved in a transaction on the same client
+    db.$transaction.mockImplementation(async (save: (tx: unknown) => Promise<unknown>) => save(db));
+    db.job.findMany.mockResolvedValue([]);
+    db.job.create.mockImplementation(async ({ data }) => ({ id: Number(data.externalId), ...data }));
+    db.location.findFirst.mockResolvedValue(null);
+    db.location.create.mockImplementation(async ({ data }) => ({ id: 50 + db.location.create.mock.calls.length, ...data }));
+    jest.mocked(companyService.resolve).mockReset().mockResolvedValueOnce({ id: 7 } as never).mockResolvedValueOnce({ id: 8 } as never);
+  });
+
+  it('resolves the company and location of each job in its transaction', async () => {
+    await jobRepository.saveJobs([job('1')]);
+
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+    expect(companyService.resolve).toHaveBeenCalledWith(expect.objectContaining({ name: 'Lagerbolaget AB' }), db);
+    expect(db.job.create).toHaveBeenCalledWith({ data: expect.objectContaining({ companyId: 7, locationId: 51 }) });
+  });
+
+  it('forgets the rows created by a job whose transaction rolled back', async () => {
+    db.job.create.mockRejectedValueOnce(new Error('value too long for type character varying(255)'));
+
+    const result = await jobRepository.saveJobs([job('1'), job('2')]);
+
+    expect(result.failedExternalIds).toEqual(['1']);
+    expect(result.savedJobIds).toEqual([2]);
+    expect(companyService.resolve).toHaveBeenCalledTimes(2);
+    expect(db.location.create).toHaveBeenCalledTimes(2);
+    expect(db.job.create).toHaveBeenLastCalledWith({ data: expect.objectContaining({ companyId: 8, locationId: 52 }) });
+  });
+
+  it('looks up a location again for jobs with other coordinates', async () => {
+    await jobRepository.saveJobs([job('1', [57.78, 14.16]), job('2', [57.78, 14.16]), job('3', [57.75, 14.2])]);
+
+    expect(db.location.findFirst).toHaveBeenCalledTimes(2);
+    expect(companyService.resolve).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,10 +1,49 @@
 /**
  * Repository for managing job data in the database
  */
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { JobData } from '../scrapers/types';
+import { fingerprintJob } from './jobSimilarity';
+import { jobHistoryService } from './jobHistoryService';
+import { companyService } from '../companies/companyService';
+import { normalizeCompanyName, normalizeOrganizationNumber } from '../companies/companyIdentity';
 import { logger } from '../../utils/logger';
 
+export interface SaveJobsResult {
+  saved: number;
+  createdJobIds: number[];
+  savedJobIds: number[];
+  // External IDs of the jobs that failed to save
+  failedExternalIds: string[];
+}
+
+// IDs of the rows jobs share, looked up once per saveJobs call
+interface SaveCache {
+  companies: Map<string, number>;
+  locations: Map<string, number | null>;
+  skills: Map<string, number>;
+  educationAreas: Map<string, number>;
+  languages: Map<string, number>;
+  // Removes the IDs added while saving the current job, for when its
+  // transaction rolls back and the rows it created are gone
+  undo: Array<() => void>;
+}
+
+const existingJobInclude = {
+  skills: true,
+  educationRequirements: true,
+  languages: true
+} satisfies Prisma.JobInclude;
+
+type ExistingJob = Prisma.JobGetPayload<{ include: typeof existingJobInclude }>;
+
+type SkillRow = { skillId: number; required: boolean };
+type EducationRow = { educationAreaId: number; required: boolean };
+type LanguageRow = { languageId: number; level: string | null; required: boolean };
+
+// Jobs whose stored rows are looked up with one query
+const SAVE_CHUNK_SIZE = parseInt(process.env.JOB_SAVE_CHUNK_SIZE || '100');
+
 class JobRepository {
   private prisma: PrismaClient;
   
@@ -13,28 +52,51 @@ class JobRepository {
   }
 
   /**
-   * Saves jobs to the database
+   * Saves jobs to the database. Stored jobs are looked up a chunk at a time,
+   * and each job is saved in one transaction, together with the company,
+   * location, skills, education areas and languages it refers to.
    * @param jobs Jobs to save
-   * @returns Number of jobs saved
+   * @returns Number of jobs saved, the IDs of the saved jobs and of those that were new, and
+   * the external IDs of the jobs that failed
    */
-  public async saveJobs(jobs: JobData[]): Promise<number> {
+  public async saveJobs(jobs: JobData[]): Promise<SaveJobsResult> {
     logger.info(`Saving ${jobs.length} jobs to the database`);
     let savedCount = 0;
-    
+    const createdJobIds: number[] = [];
+    const savedJobIds: number[] = [];
+    const failedExternalIds: string[] = [];
+    const cache = this.createCache();
+
     try {
-      for (const job of jobs) {
-        try {
-          await this.saveJob(job);
-          savedCount++;
-        } catch (error) {
-          logger.error(`Failed to save job ${job.externalId} from ${job.source}`, {
-            error: error instanceof Error ? error.message : String(error)
-          });
+      for (let i = 0; i < jobs.length; i += SAVE_CHUNK_SIZE) {
+        const chunk = jobs.slice(i, i + SAVE_CHUNK_SIZE);
+        const existingJobs = await this.findExistingJobs(chunk);
+
+        for (const job of chunk) {
+          try {
+            const { job: savedJob, created } = await this.persistJob(
+              job,
+              existingJobs.get(this.jobKey(job.source, job.externalId)),
+              cache
+            );
+            savedCount++;
+            savedJobIds.push(savedJob.id);
+
+            if (created) {
+              createdJobIds.push(savedJob.id);
+            }
+          } catch (error) {
+            failedExternalIds.push(job.externalId);
+            logger.error(`Failed to save job ${job.externalId} from ${job.source}`, {
+              error: error instanceof Error ? error.message : String(error)
+            });
+          }
         }
       }
       
       logger.info(`Successfully saved ${savedCount} of ${jobs.length} jobs`);
-      return savedCount;
+      
+      return { saved: savedCount, createdJobIds, savedJobIds, failedExternalIds };
     } catch (error) {
       logger.error('Failed to save jobs', {
         error: error instanceof Error ? error.message : String(error)
@@ -43,31 +105,126 @@ class JobRepository {
     }
   }
 
+  /**
+   * Marks jobs removed at the source
+   * @param source Source ID
+   * @param externalIds External IDs of the removed ads
+   * @param removedAt Removal time
+   * @returns Number of jobs marked
+   */
+  public async markRemoved(source: string, externalIds: string[], removedAt: Date = new Date()): Promise<number> {
+    let removed = 0;
+    
+    // Keep each statement well below the Postgres bind parameter limit
+    for (let i = 0; i < externalIds.length; i += 1000) {
+      const { count } = await this.prisma.job.updateMany({
+        where: {
+          source,
+          externalId: { in: externalIds.slice(i, i + 1000) },
+          removedAt: null
+        },
+        data: { removedAt }
+      });
+      removed += count;
+    }
+    
+    if (removed > 0) {
+      logger.info(`Marked ${removed} jobs from ${source} as removed`);
+    }
+    
+    return removed;
+  }
+
+  /**
+   * Marks stored jobs missing from a full snapshot as removed
+   * @param source Source ID
+   * @param snapshotExternalIds External IDs of every live ad in the snapshot
+   * @returns Number of jobs marked
+   */
+  public async markMissingFromSnapshotRemoved(source: string, snapshotExternalIds: string[]): Promise<number> {
+    // One array parameter, since a snapshot has more IDs than Postgres allows bind parameters
+    const count = await this.prisma.$executeRaw`
+      UPDATE jobs
+      SET "removedAt" = now(), "updatedAt" = now()
+      WHERE source = ${source}
+        AND "removedAt" IS NULL
+        AND NOT ("externalId" = ANY(${snapshotExternalIds}::text[]))
+    `;
+    
+    if (count > 0) {
+      logger.info(`Marked ${count} jobs from ${source} missing from the snapshot as removed`);
+    }
+    
+    return count;
+  }
+
   /**
    * Saves a single job to the database
    * @param job Job to save
    * @returns Created or updated job
    */
   public async saveJob(job: JobData): Promise<any> {
+    const existingJobs = await this.findExistingJobs([job]);
+    const { job: savedJob } = await this.persistJob(
+      job,
+      existingJobs.get(this.jobKey(job.source, job.externalId)),
+      this.createCache()
+    );
+    return savedJob;
+  }
+
+  /**
+   * Creates or updates a job in one transaction, keeping track of which of
+   * the two happened
+   * @param job Job to save
+   * @param existingJob Stored job with the same external ID and source, if any
+   * @param cache IDs of shared rows looked up earlier in the run
+   * @param retry Whether to try again when another collection wrote a row first
+   * @returns Created or updated job and whether it was created
+   */
+  private async persistJob(
+    job: JobData,
+    existingJob: ExistingJob | undefined,
+    cache: SaveCache,
+    retry = true
+  ): Promise<{ job: any; created: boolean }> {
     logger.debug(`Saving job ${job.externalId} from ${job.source}`);
-    
+    cache.undo = [];
+
     try {
-      // Check if job already exists by external ID and source
-      const existingJob = await this.prisma.job.findFirst({
-        where: {
-          externalId: job.externalId,
-          source: job.source
+      const result = await this.prisma.$transaction(async tx => {
+        if (existingJob) {
+          // Update existing job
+          return { job: await this.updateJob(tx, existingJob, job, cache), created: false };
+        } else {
+          // Create new job
+          return { job: await this.createJob(tx, job, cache), created: true };
         }
       });
-      
+      cache.undo = [];
+
       if (existingJob) {
-        // Update existing job
-        return this.updateJob(existingJob.id, job);
-      } else {
-        // Create new job
-        return this.createJob(job);
+        // History is best effort; a failure must not fail the collection
+        await jobHistoryService.recordChanges(existingJob, result.job).catch(error => {
+          logger.error(`Failed to record history of job ${existingJob.id}`, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        });
       }
+
+      return result;
     } catch (error) {
+      cache.undo.forEach(undo => undo());
+      cache.undo = [];
+
+      // Another collection created a shared row or the job itself first. The
+      // transaction cannot go on after the error, so the job is saved again
+      // against the rows stored now.
+      if (retry && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const existingJobs = await this.findExistingJobs([job]);
+        return this.persistJob(job, existingJobs.get(this.jobKey(job.source, job.externalId)), cache, false);
+      }
+
       logger.error(`Failed to save job ${job.externalId} from ${job.source}`, {
         error: error instanceof Error ? error.message : String(error)
       });
@@ -77,21 +234,23 @@ class JobRepository {
 
   /**
    * Creates a new job in the database
+   * @param tx Transaction the job is saved in
    * @param job Job data
+   * @param cache IDs of shared rows looked up earlier in the run
    * @returns Created job
    */
-  private async createJob(job: JobData): Promise<any> {
+  private async createJob(tx: Prisma.TransactionClient, job: JobData, cache: SaveCache): Promise<any> {
     logger.debug(`Creating new job ${job.externalId} from ${job.source}`);
     
     try {
-      // Create company if it doesn't exist
-      const company = await this.findOrCreateCompany(job.company);
-      
-      // Create location if it doesn't exist
-      const location = await this.findOrCreateLocation(job.location);
+      const companyId = await this.resolveCompanyId(tx, job.company, cache);
+      const locationId = await this.resolveLocationId(tx, job.location, cache);
+      const skills = await this.resolveSkills(tx, job.skills, cache);
+      const educationRequirements = await this.resolveEducationRequirements(tx, job.educationRequirements, cache);
+      const languages = await this.resolveLanguages(tx, job.languages, cache);
       
-      // Create job
-      const createdJob = await this.prisma.job.create({
+      // Create job with its associations
+      const createdJob = await tx.job.create({
         data: {
           externalId: job.externalId,
           source: job.source,
@@ -99,8 +258,8 @@ class JobRepository {
           title: job.title,
           description: job.description,
           descriptionFormatted: job.descriptionFormatted,
-          companyId: company.id,
-          locationId: location?.id,
+          companyId,
+          locationId,
           applicationEmail: job.applicationDetails?.email,
           applicationUrl: job.applicationDetails?.url,
           applicationReference: job.applicationDetails?.reference,
@@ -113,27 +272,21 @@ class JobRepository {
           publishedAt: job.publicationDate,
           updatedAt: job.lastPublicationDate || job.publicationDate,
           expiresAt: job.expirationDate,
+          occupationConceptId: job.occupation?.id,
+          occupationGroupConceptId: job.occupationGroup?.id,
+          occupationFieldConceptId: job.occupationField?.id,
           metaData: job.metadata as any,
           studentRelevanceScore: job.metadata.studentRelevanceScore as number || 0,
-          qualityScore: job.qualityScore || 0
+          qualityScore: job.qualityScore || 0,
+          ...fingerprintJob(job.title, job.description),
+          skills: skills.length > 0 ? { createMany: { data: skills } } : undefined,
+          educationRequirements: educationRequirements.length > 0
+            ? { createMany: { data: educationRequirements } }
+            : undefined,
+          languages: languages.length > 0 ? { createMany: { data: languages } } : undefined
         }
       });
       
-      // Create skills associations
-      if (job.skills && job.skills.length > 0) {
-        await this.createJobSkills(createdJob.id, job.skills);
-      }
-      
-      // Create education requirements associations
-      if (job.educationRequirements && job.educationRequirements.length > 0) {
-        await this.createJobEducationRequirements(createdJob.id, job.educationRequirements);
-      }
-      
-      // Create language associations
-      if (job.languages && job.languages.length > 0) {
-        await this.createJobLanguages(createdJob.id, job.languages);
-      }
-      
       logger.debug(`Successfully created job ${job.externalId} from ${job.source}`);
       
       return createdJob;
@@ -147,22 +300,32 @@ class JobRepository {
 
   /**
    * Updates an existing job in the database
-   * @param jobId Job ID
+   * @param tx Transaction the job is saved in
+   * @param existingJob Job as stored before the update, with its associations
    * @param job Job data
+   * @param cache IDs of shared rows looked up earlier in the run
    * @returns Updated job
    */
-  private async updateJob(jobId: number, job: JobData): Promise<any> {
+  private async updateJob(
+    tx: Prisma.TransactionClient,
+    existingJob: ExistingJob,
+    job: JobData,
+    cache: SaveCache
+  ): Promise<any> {
+    const jobId = existingJob.id;
     logger.debug(`Updating job ${job.externalId} from ${job.source}`);
     
     try {
-      // Update company if needed
-      const company = await this.findOrCreateCompany(job.company);
-      
-      // Update location if needed
-      const location = await this.findOrCreateLocation(job.location);
+      const companyId = await this.resolveCompanyId(tx, job.company, cache);
+      const locationId = await this.resolveLocationId(tx, job.location, cache);
+      const skills = await this.resolveSkills(tx, job.skills, cache);
+      const educationRequirements = await this.resolveEducationRequirements(tx, job.educationRequirements, cache);
+      const languages = await this.resolveLanguages(tx, job.languages, cache);
       
-      // Update job
-      const updatedJob = await this.prisma.job.update({
+      // Update job, writing only the associations that changed. Ads
+      // collected without skills, education or languages keep the ones
+      // stored earlier.
+      const updatedJob = await tx.job.update({
         where: {
           id: jobId
         },
@@ -171,8 +334,8 @@ class JobRepository {
           title: job.title,
           description: job.description,
           descriptionFormatted: job.descriptionFormatted,
-          companyId: company.id,
-          locationId: location?.id,
+          companyId,
+          locationId,
           applicationEmail: job.applicationDetails?.email,
           applicationUrl: job.applicationDetails?.url,
           applicationReference: job.applicationDetails?.reference,
@@ -184,27 +347,22 @@ class JobRepository {
           salary: job.salary,
           updatedAt: new Date(),
           expiresAt: job.expirationDate,
+          removedAt: null, // Republished ads become active again
+          occupationConceptId: job.occupation?.id,
+          occupationGroupConceptId: job.occupationGroup?.id,
+          occupationFieldConceptId: job.occupationField?.id,
           metaData: job.metadata as any,
           studentRelevanceScore: job.metadata.studentRelevanceScore as number || 0,
-          qualityScore: job.qualityScore || 0
+          qualityScore: job.qualityScore || 0,
+          ...fingerprintJob(job.title, job.description),
+          skills: skills.length > 0 ? this.skillChanges(jobId, existingJob.skills, skills) : undefined,
+          educationRequirements: educationRequirements.length > 0
+            ? this.educationChanges(jobId, existingJob.educationRequirements, educationRequirements)
+            : undefined,
+          languages: languages.length > 0 ? this.languageChanges(jobId, existingJob.languages, languages) : undefined
         }
       });
       
-      // Update skills associations
-      if (job.skills && job.skills.length > 0) {
-        await this.updateJobSkills(jobId, job.skills);
-      }
-      
-      // Update education requirements associations
-      if (job.educationRequirements && job.educationRequirements.length > 0) {
-        await this.updateJobEducationRequirements(jobId, job.educationRequirements);
-      }
-      
-      // Update language associations
-      if (job.languages && job.languages.length > 0) {
-        await this.updateJobLanguages(jobId, job.languages);
-      }
-      
       logger.debug(`Successfully updated job ${job.externalId} from ${job.source}`);
       
       return updatedJob;
@@ -216,72 +374,13 @@ class JobRepository {
     }
   }
 
-  /**
-   * Finds or creates a company in the database
-   * @param company Company data
-   * @returns Company entity
-   */
-  private async findOrCreateCompany(company: JobData['company']): Promise<any> {
-    if (!company || !company.name) {
-      throw new Error('Company name is required');
-    }
-    
-    try {
-      // Try to find existing company by name
-      const existingCompany = await this.prisma.company.findFirst({
-        where: {
-          name: company.name
-        }
-      });
-      
-      if (existingCompany) {
-        // Update company if needed
-        if (
-          existingCompany.website !== company.website ||
-          existingCompany.email !== company.email ||
-          existingCompany.phone !== company.phone ||
-          existingCompany.organizationNumber !== company.organizationNumber
-        ) {
-          return this.prisma.company.update({
-            where: {
-              id: existingCompany.id
-            },
-            data: {
-              website: company.website || existingCompany.website,
-              email: company.email || existingCompany.email,
-              phone: company.phone || existingCompany.phone,
-              organizationNumber: company.organizationNumber || existingCompany.organizationNumber
-            }
-          });
-        }
-        
-        return existingCompany;
-      } else {
-        // Create new company
-        return this.prisma.company.create({
-          data: {
-            name: company.name,
-            website: company.website,
-            email: company.email,
-            phone: company.phone,
-            organizationNumber: company.organizationNumber
-          }
-        });
-      }
-    } catch (error) {
-      logger.error(`Failed to find or create company ${company.name}`, {
-        error: error instanceof Error ? error.message : String(error)
-      });
-      throw error;
-    }
-  }
-
   /**
    * Finds or creates a location in the database
+   * @param tx Transaction the job is saved in
    * @param location Location data
    * @returns Location entity
    */
-  private async findOrCreateLocation(location: JobData['location']): Promise<any | null> {
+  private async findOrCreateLocation(tx: Prisma.TransactionClient, location: JobData['location']): Promise<any | null> {
     if (!location || (!location.city && !location.municipality && !location.region)) {
       return null;
     }
@@ -294,7 +393,11 @@ class JobRepository {
       if (location.municipality) query.municipality = location.municipality;
       if (location.region) query.region = location.region;
       
-      const existingLocation = await this.prisma.location.findFirst({
+      // Workplaces with a street address get their own location so that
+      // their coordinates are not overwritten by other jobs in the same city
+      query.address = location.address || null;
+      
+      const existingLocation = await tx.location.findFirst({
         where: query
       });
       
@@ -303,18 +406,23 @@ class JobRepository {
         if (
           existingLocation.address !== location.address ||
           existingLocation.postalCode !== location.postalCode ||
+          (location.municipalityConceptId &&
+            existingLocation.municipalityConceptId !== location.municipalityConceptId) ||
+          (location.regionConceptId && existingLocation.regionConceptId !== location.regionConceptId) ||
           (location.coordinates && (
             existingLocation.latitude !== location.coordinates[0] ||
             existingLocation.longitude !== location.coordinates[1]
           ))
         ) {
-          return this.prisma.location.update({
+          return tx.location.update({
             where: {
               id: existingLocation.id
             },
             data: {
               address: location.address || existingLocation.address,
               postalCode: location.postalCode || existingLocation.postalCode,
+              municipalityConceptId: location.municipalityConceptId || existingLocation.municipalityConceptId,
+              regionConceptId: location.regionConceptId || existingLocation.regionConceptId,
               latitude: location.coordinates ? location.coordinates[0] : existingLocation.latitude,
               longitude: location.coordinates ? location.coordinates[1] : existingLocation.longitude
             }
@@ -324,11 +432,14 @@ class JobRepository {
         return existingLocation;
       } else {
         // Create new location
-        return this.prisma.location.create({
+        return tx.location.create({
           data: {
             city: location.city,
             municipality: location.municipality,
             region: location.region,
+            municipalityConceptId: location.municipalityConceptId,
+            regionConceptId: location.regionConceptId,
+            country: location.country,
             address: location.address,
             postalCode: location.postalCode,
             latitude: location.coordinates ? location.coordinates[0] : null,
@@ -345,59 +456,83 @@ class JobRepository {
   }
 
   /**
-   * Creates job skills associations
-   * @param jobId Job ID
-   * @param skills Skills data
+   * Finds the stored jobs of a chunk, with their associations
+   * @param jobs Jobs about to be saved
+   * @returns Stored jobs by source and external ID
    */
-  private async createJobSkills(jobId: number, skills: JobData['skills']): Promise<void> {
-    try {
-      for (const skill of skills) {
-        // Find or create skill
-        const skillEntity = await this.prisma.skill.upsert({
-          where: {
-            name: skill.name
-          },
-          update: {},
-          create: {
-            name: skill.name
-          }
-        });
-        
-        // Create association
-        await this.prisma.jobSkill.create({
-          data: {
-            jobId,
-            skillId: skillEntity.id,
-            required: skill.required
-          }
-        });
-      }
-    } catch (error) {
-      logger.error(`Failed to create job skills for job ID ${jobId}`, {
-        error: error instanceof Error ? error.message : String(error)
-      });
-      throw error;
+  private async findExistingJobs(jobs: JobData[]): Promise<Map<string, ExistingJob>> {
+    const externalIdsBySource = new Map<string, string[]>();
+    for (const job of jobs) {
+      externalIdsBySource.set(job.source, [...(externalIdsBySource.get(job.source) || []), job.externalId]);
     }
+
+    const existingJobs = await this.prisma.job.findMany({
+      where: {
+        OR: [...externalIdsBySource].map(([source, externalIds]) => ({
+          source,
+          externalId: { in: externalIds }
+        }))
+      },
+      include: existingJobInclude
+    });
+
+    return new Map(existingJobs.map(job => [this.jobKey(job.source, job.externalId), job]));
+  }
+
+  private jobKey(source: string, externalId: string): string {
+    return `${source}:${externalId}`;
+  }
+
+  private createCache(): SaveCache {
+    return {
+      companies: new Map(),
+      locations: new Map(),
+      skills: new Map(),
+      educationAreas: new Map(),
+      languages: new Map(),
+      undo: []
+    };
   }
 
   /**
-   * Updates job skills associations
-   * @param jobId Job ID
-   * @param skills Skills data
+   * Adds an ID to the run cache, to be removed again if the transaction of
+   * the current job rolls back
    */
-  private async updateJobSkills(jobId: number, skills: JobData['skills']): Promise<void> {
+  private remember<T>(cache: SaveCache, ids: Map<string, T>, key: string, id: T): void {
+    ids.set(key, id);
+    cache.undo.push(() => ids.delete(key));
+  }
+
+  /**
+   * Gets the ID of a company, resolving it the first time the run sees it
+   * @param tx Transaction the job is saved in
+   * @param company Company data
+   * @param cache IDs of shared rows looked up earlier in the run
+   * @returns Company ID
+   */
+  private async resolveCompanyId(
+    tx: Prisma.TransactionClient,
+    company: JobData['company'],
+    cache: SaveCache
+  ): Promise<number> {
+    // The keys companyService resolves by
+    const organizationNumber = normalizeOrganizationNumber(company?.organizationNumber);
+    const key = organizationNumber
+      ? `org:${organizationNumber}`
+      : `name:${normalizeCompanyName(company?.name || '')}`;
+
+    const cached = cache.companies.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
     try {
-      // Delete existing associations
-      await this.prisma.jobSkill.deleteMany({
-        where: {
-          jobId
-        }
-      });
-      
-      // Create new associations
-      await this.createJobSkills(jobId, skills);
+      const { id } = await companyService.resolve(company, tx);
+      this.remember(cache, cache.companies, key, id);
+
+      return id;
     } catch (error) {
-      logger.error(`Failed to update job skills for job ID ${jobId}`, {
+      logger.error(`Failed to resolve company ${company?.name}`, {
         error: error instanceof Error ? error.message : String(error)
       });
       throw error;
@@ -405,131 +540,271 @@ class JobRepository {
   }
 
   /**
-   * Creates job education requirements associations
-   * @param jobId Job ID
-   * @param educationRequirements Education requirements data
+   * Gets the ID of a location, finding or creating it the first time the run sees it
+   * @param tx Transaction the job is saved in
+   * @param location Location data
+   * @param cache IDs of shared rows looked up earlier in the run
+   * @returns Location ID, or null for jobs without a location
    */
-  private async createJobEducationRequirements(
-    jobId: number, 
-    educationRequirements: JobData['educationRequirements']
-  ): Promise<void> {
-    try {
-      for (const education of educationRequirements) {
-        // Find or create education area
-        const educationEntity = await this.prisma.educationArea.upsert({
+  private async resolveLocationId(
+    tx: Prisma.TransactionClient,
+    location: JobData['location'],
+    cache: SaveCache
+  ): Promise<number | null> {
+    if (!location) {
+      return null;
+    }
+
+    // The fields findOrCreateLocation matches on, and the coordinates it
+    // updates, so that a job with other coordinates still gets them stored
+    const key = JSON.stringify([
+      location.city,
+      location.municipality,
+      location.region,
+      location.address || null,
+      location.coordinates || null
+    ]);
+    const cached = cache.locations.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const entity = await this.findOrCreateLocation(tx, location);
+    const id: number | null = entity?.id ?? null;
+    this.remember(cache, cache.locations, key, id);
+
+    return id;
+  }
+
+  /**
+   * Gets the skill associations of a job
+   * @param tx Transaction the job is saved in
+   * @param skills Skills data
+   * @param cache IDs of shared rows looked up earlier in the run
+   * @returns One row per skill
+   */
+  private async resolveSkills(
+    tx: Prisma.TransactionClient,
+    skills: JobData['skills'],
+    cache: SaveCache
+  ): Promise<SkillRow[]> {
+    const rows = new Map<number, SkillRow>();
+
+    for (const skill of skills || []) {
+      const skillId = await this.cachedId(cache, cache.skills, skill, async () =>
+        // Match on the taxonomy concept first so renamed labels keep their row
+        (skill.conceptId && await tx.skill.findFirst({
           where: {
-            name: education.name
+            conceptId: skill.conceptId
+          }
+        })) || tx.skill.upsert({
+          where: {
+            name: skill.name
           },
-          update: {},
+          update: skill.conceptId ? { conceptId: skill.conceptId } : {},
           create: {
-            name: education.name
-          }
-        });
-        
-        // Create association
-        await this.prisma.jobEducationRequirement.create({
-          data: {
-            jobId,
-            educationAreaId: educationEntity.id,
-            required: education.required
+            name: skill.name,
+            conceptId: skill.conceptId
           }
-        });
-      }
-    } catch (error) {
-      logger.error(`Failed to create job education requirements for job ID ${jobId}`, {
-        error: error instanceof Error ? error.message : String(error)
-      });
-      throw error;
+        })
+      );
+      rows.set(skillId, { skillId, required: skill.required });
     }
+
+    return [...rows.values()];
   }
 
   /**
-   * Updates job education requirements associations
-   * @param jobId Job ID
+   * Gets the education requirement associations of a job
+   * @param tx Transaction the job is saved in
    * @param educationRequirements Education requirements data
+   * @param cache IDs of shared rows looked up earlier in the run
+   * @returns One row per education area
    */
-  private async updateJobEducationRequirements(
-    jobId: number, 
-    educationRequirements: JobData['educationRequirements']
-  ): Promise<void> {
-    try {
-      // Delete existing associations
-      await this.prisma.jobEducationRequirement.deleteMany({
-        where: {
-          jobId
-        }
-      });
-      
-      // Create new associations
-      await this.createJobEducationRequirements(jobId, educationRequirements);
-    } catch (error) {
-      logger.error(`Failed to update job education requirements for job ID ${jobId}`, {
-        error: error instanceof Error ? error.message : String(error)
-      });
-      throw error;
+  private async resolveEducationRequirements(
+    tx: Prisma.TransactionClient,
+    educationRequirements: JobData['educationRequirements'],
+    cache: SaveCache
+  ): Promise<EducationRow[]> {
+    const rows = new Map<number, EducationRow>();
+
+    for (const education of educationRequirements || []) {
+      const educationAreaId = await this.cachedId(cache, cache.educationAreas, education, async () =>
+        // Match on the taxonomy concept first so renamed labels keep their row
+        (education.conceptId && await tx.educationArea.findFirst({
+          where: {
+            conceptId: education.conceptId
+          }
+        })) || tx.educationArea.upsert({
+          where: {
+            name: education.name
+          },
+          update: education.conceptId ? { conceptId: education.conceptId } : {},
+          create: {
+            name: education.name,
+            conceptId: education.conceptId
+          }
+        })
+      );
+      rows.set(educationAreaId, { educationAreaId, required: education.required });
     }
+
+    return [...rows.values()];
   }
 
   /**
-   * Creates job languages associations
-   * @param jobId Job ID
+   * Gets the language associations of a job
+   * @param tx Transaction the job is saved in
    * @param languages Languages data
+   * @param cache IDs of shared rows looked up earlier in the run
+   * @returns One row per language
    */
-  private async createJobLanguages(jobId: number, languages: JobData['languages']): Promise<void> {
-    try {
-      for (const language of languages) {
-        // Find or create language
-        const languageEntity = await this.prisma.language.upsert({
+  private async resolveLanguages(
+    tx: Prisma.TransactionClient,
+    languages: JobData['languages'],
+    cache: SaveCache
+  ): Promise<LanguageRow[]> {
+    const rows = new Map<number, LanguageRow>();
+
+    for (const language of languages || []) {
+      const languageId = await this.cachedId(cache, cache.languages, language, async () =>
+        // Match on the taxonomy concept first so renamed labels keep their row
+        (language.conceptId && await tx.language.findFirst({
+          where: {
+            conceptId: language.conceptId
+          }
+        })) || tx.language.upsert({
           where: {
             name: language.name
           },
-          update: {},
+          update: language.conceptId ? { conceptId: language.conceptId } : {},
           create: {
-            name: language.name
-          }
-        });
-        
-        // Create association
-        await this.prisma.jobLanguage.create({
-          data: {
-            jobId,
-            languageId: languageEntity.id,
-            level: language.level,
-            required: language.required
+            name: language.name,
+            conceptId: language.conceptId
           }
-        });
-      }
-    } catch (error) {
-      logger.error(`Failed to create job languages for job ID ${jobId}`, {
-        error: error instanceof Error ? error.message : String(error)
-      });
-      throw error;
+        })
+      );
+      rows.set(languageId, { languageId, level: language.level || null, required: language.required });
     }
+
+    return [...rows.values()];
   }
 
   /**
-   * Updates job languages associations
-   * @param jobId Job ID
-   * @param languages Languages data
+   * Gets the ID of a taxonomy row from the run cache, looking it up on a miss
+   * @param cache IDs of shared rows looked up earlier in the run
+   * @param ids IDs of the kind of row, by concept ID or name
+   * @param entry Skill, education area or language of a job
+   * @param lookup Finds or creates the row
+   * @returns Row ID
    */
-  private async updateJobLanguages(jobId: number, languages: JobData['languages']): Promise<void> {
-    try {
-      // Delete existing associations
-      await this.prisma.jobLanguage.deleteMany({
-        where: {
-          jobId
-        }
-      });
-      
-      // Create new associations
-      await this.createJobLanguages(jobId, languages);
-    } catch (error) {
-      logger.error(`Failed to update job languages for job ID ${jobId}`, {
-        error: error instanceof Error ? error.message : String(error)
-      });
-      throw error;
+  private async cachedId(
+    cache: SaveCache,
+    ids: Map<string, number>,
+    entry: { name: string; conceptId?: string },
+    lookup: () => Promise<{ id: number }>
+  ): Promise<number> {
+    const key = entry.conceptId ? `concept:${entry.conceptId}` : `name:${entry.name}`;
+    let id = ids.get(key);
+
+    if (id === undefined) {
+      id = (await lookup()).id;
+      this.remember(cache, ids, key, id);
     }
+
+    return id;
   }
+
+  /**
+   * Builds the nested writes that turn a job's stored skills into the collected ones
+   */
+  private skillChanges(jobId: number, existing: SkillRow[], skills: SkillRow[]) {
+    const { removed, added, changed } = diffAssociations(
+      existing,
+      skills,
+      row => row.skillId,
+      (a, b) => a.required === b.required
+    );
+
+    return {
+      deleteMany: removed.length > 0 ? { skillId: { in: removed } } : undefined,
+      createMany: added.length > 0 ? { data: added } : undefined,
+      update: changed.map(row => ({
+        where: { jobId_skillId: { jobId, skillId: row.skillId } },
+        data: { required: row.required }
+      }))
+    };
+  }
+
+  /**
+   * Builds the nested writes that turn a job's stored education requirements
+   * into the collected ones
+   */
+  private educationChanges(jobId: number, existing: EducationRow[], educationRequirements: EducationRow[]) {
+    const { removed, added, changed } = diffAssociations(
+      existing,
+      educationRequirements,
+      row => row.educationAreaId,
+      (a, b) => a.required === b.required
+    );
+
+    return {
+      deleteMany: removed.length > 0 ? { educationAreaId: { in: removed } } : undefined,
+      createMany: added.length > 0 ? { data: added } : undefined,
+      update: changed.map(row => ({
+        where: { jobId_educationAreaId: { jobId, educationAreaId: row.educationAreaId } },
+        data: { required: row.required }
+      }))
+    };
+  }
+
+  /**
+   * Builds the nested writes that turn a job's stored languages into the collected ones
+   */
+  private languageChanges(jobId: number, existing: LanguageRow[], languages: LanguageRow[]) {
+    const { removed, added, changed } = diffAssociations(
+      existing,
+      languages,
+      row => row.languageId,
+      (a, b) => a.required === b.required && a.level === b.level
+    );
+
+    return {
+      deleteMany: removed.length > 0 ? { languageId: { in: removed } } : undefined,
+      createMany: added.length > 0 ? { data: added } : undefined,
+      update: changed.map(row => ({
+        where: { jobId_languageId: { jobId, languageId: row.languageId } },
+        data: { level: row.level, required: row.required }
+      }))
+    };
+  }
+}
+
+/**
+ * Compares a job's stored associations with the collected ones
+ * @param existing Stored rows
+ * @param desired Collected rows
+ * @param key ID of the associated row
+ * @param same Whether two rows for the same ID have the same attributes
+ * @returns IDs to delete, rows to create and rows to update
+ */
+function diffAssociations<T>(
+  existing: T[],
+  desired: T[],
+  key: (row: T) => number,
+  same: (a: T, b: T) => boolean
+): { removed: number[]; added: T[]; changed: T[] } {
+  const stored = new Map(existing.map(row => [key(row), row]));
+  const wanted = new Set(desired.map(key));
+
+  return {
+    removed: [...stored.keys()].filter(id => !wanted.has(id)),
+    added: desired.filter(row => !stored.has(key(row))),
+    changed: desired.filter(row => {
+      const current = stored.get(key(row));
+      return current !== undefined && !same(current, row);
+    })
+  };
 }
 
 // Create and export a singleton instance
@@ -0,0 +1,68 @@
+import { buildJobConditions, ConditionFilterKey, FILTER_CONDITIONS } from './jobSearchConditions';
+import { JobSearchFilters } from './jobSearchService';
+import { jobSearchFiltersSchema } from '../../api/validators/jobValidators';
+
+jest.mock('../database/db.service', () => ({ prisma: {} }));
+
+// One value for every filter that is a condition on a job
+const FILTERS: Required<Pick<JobSearchFilters, ConditionFilterKey>> = {
+  region: ['Stockholms län'],
+  municipality: ['Solna'],
+  city: ['Råsunda'],
+  regionConceptId: ['CifL_Rzy_Mku'],
+  municipalityConceptId: ['zHxw_uJZ_NJ8'],
+  companyId: [7],
+  company: 'Lagerbolaget',
+  occupationConceptId: ['j7Cq_ZJe_GkT'],
+  educationAreaId: [3],
+  skillId: [11],
+  skill: ['TypeScript'],
+  skillConceptId: ['skill-concept'],
+  languageId: [2],
+  language: ['Engelska'],
+  languageConceptId: ['language-concept'],
+  employmentType: ['Temporary'],
+  workingHoursType: ['Part-time'],
+  source: ['jobtech'],
+  deadlineFrom: new Date('2025-03-01'),
+  deadlineTo: new Date('2025-04-01'),
+  minRelevance: 40,
+  minQuality: 60
+};
+
+// Filters resolved into full-text and distance matches instead of conditions
+const MATCH_FILTERS = ['q', 'lat', 'lng', 'near', 'radius', 'includeExpired'];
+
+describe('job search conditions', () => {
+  it('cover every filter the search accepts', () => {
+    const accepted = Object.keys(jobSearchFiltersSchema.describe().keys);
+
+    expect(accepted.filter(key => !MATCH_FILTERS.includes(key)).sort()).toEqual(Object.keys(FILTER_CONDITIONS).sort());
+  });
+
+  it('pass the filter values to both the Prisma and the SQL form', () => {
+    for (const key of Object.keys(FILTER_CONDITIONS) as ConditionFilterKey[]) {
+      const { where, sql } = buildJobConditions({ includeExpired: true, [key]: FILTERS[key] }).slice(-1)[0];
+      const values = ([] as unknown[]).concat(FILTERS[key]);
+      const sqlValues = JSON.stringify(sql.values).toLowerCase();
+
+      for (const value of values) {
+        const expected = (value instanceof Date ? value.toISOString() : String(value)).toLowerCase();
+        expect([key, JSON.stringify(where).toLowerCase()]).toEqual([key, expect.stringContaining(expected)]);
+        expect([key, sqlValues]).toEqual([key, expect.stringContaining(expected)]);
+      }
+    }
+  });
+
+  it('apply the same conditions in both forms', () => {
+    const conditions = buildJobConditions(FILTERS);
+
+    // Removed, duplicate and expired jobs, then one condition per filter
+    expect(conditions).toHaveLength(3 + Object.keys(FILTERS).length);
+    expect(conditions.every(({ where, sql }) => Object.keys(where).length > 0 && sql.sql.length > 0)).toBe(true);
+  });
+
+  it('skip filters without a value', () => {
+    expect(buildJobConditions({ region: [], company: '', includeExpired: true })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Search filters as conditions on jobs, each written both as a Prisma where
+ * input, used by the search and facet queries, and as SQL, used by the
+ * full-text and distance searches. Those run as raw queries capped to a
+ * number of matches, so the filters have to be applied before the cap or
+ * broad searches would lose matches to removed, expired and duplicate jobs
+ * or to other filters.
+ *
+ * Every filter is described once, with both forms side by side; the type of
+ * FILTER_CONDITIONS makes a new filter fail to compile until it has both.
+ * The SQL refers to the jobs table as `j`.
+ */
+import { Prisma } from '@prisma/client';
+import type { JobSearchFilters } from './jobSearchService';
+
+export interface JobCondition {
+  where: Prisma.JobWhereInput;
+  sql: Prisma.Sql;
+}
+
+// Filters that are not conditions on a job: the search string and the
+// point to search around are resolved into matches first
+type MatchFilterKey = 'q' | 'lat' | 'lng' | 'near' | 'radius' | 'includeExpired';
+
+export type ConditionFilterKey = Exclude<keyof JobSearchFilters, MatchFilterKey>;
+
+type FilterConditions = {
+  [K in ConditionFilterKey]-?: (value: NonNullable<JobSearchFilters[K]>) => JobCondition;
+};
+
+const insensitive = Prisma.QueryMode.insensitive;
+const lowered = (values: string[]) => values.map(value => value.toLowerCase());
+
+/**
+ * Condition on the location of a job
+ */
+function locationCondition(where: Prisma.LocationWhereInput, sql: Prisma.Sql): JobCondition {
+  return {
+    where: { location: where },
+    sql: Prisma.sql`EXISTS (SELECT 1 FROM locations l WHERE l.id = j."locationId" AND ${sql})`
+  };
+}
+
+export const FILTER_CONDITIONS: FilterConditions = {
+  // Location filters
+  region: values => locationCondition(
+    { region: { in: values, mode: insensitive } },
+    Prisma.sql`LOWER(l.region) = ANY(${lowered(values)}::text[])`
+  ),
+  municipality: values => locationCondition(
+    { municipality: { in: values, mode: insensitive } },
+    Prisma.sql`LOWER(l.municipality) = ANY(${lowered(values)}::text[])`
+  ),
+  city: values => locationCondition(
+    { city: { in: values, mode: insensitive } },
+    Prisma.sql`LOWER(l.city) = ANY(${lowered(values)}::text[])`
+  ),
+  regionConceptId: values => locationCondition(
+    { regionConceptId: { in: values } },
+    Prisma.sql`l."regionConceptId" = ANY(${values}::text[])`
+  ),
+  municipalityConceptId: values => locationCondition(
+    { municipalityConceptId: { in: values } },
+    Prisma.sql`l."municipalityConceptId" = ANY(${values}::text[])`
+  ),
+
+  // Company filters
+  companyId: values => ({
+    where: { companyId: { in: values } },
+    sql: Prisma.sql`j."companyId" = ANY(${values}::int[])`
+  }),
+  company: name => ({
+    where: { company: { name: { contains: name, mode: insensitive } } },
+    sql: Prisma.sql`EXISTS (
+      SELECT 1 FROM companies c
+      WHERE c.id = j."companyId" AND c.name ILIKE ${`%${name.replace(/[\\%_]/g, '\\$&')}%`}
+    )`
+  }),
+
+  // An occupation concept may be an occupation name, group or field
+  occupationConceptId: values => ({
+    where: {
+      OR: [
+        { occupationConceptId: { in: values } },
+        { occupationGroupConceptId: { in: values } },
+        { occupationFieldConceptId: { in: values } }
+      ]
+    },
+    sql: Prisma.sql`(
+      j."occupationConceptId" = ANY(${values}::text[])
+      OR j."occupationGroupConceptId" = ANY(${values}::text[])
+      OR j."occupationFieldConceptId" = ANY(${values}::text[])
+    )`
+  }),
+
+  // Education areas match the area itself or any of its sub-areas
+  educationAreaId: values => ({
+    where: {
+      educationRequirements: {
+        some: { educationArea: { OR: [{ id: { in: values } }, { parentId: { in: values } }] } }
+      }
+    },
+    sql: Prisma.sql`EXISTS (
+      SELECT 1 FROM job_education_requirements r
+      JOIN education_areas a ON a.id = r."educationAreaId"
+      WHERE r."jobId" = j.id AND (a.id = ANY(${values}::int[]) OR a."parentId" = ANY(${values}::int[]))
+    )`
+  }),
+
+  // Skills
+  skillId: values => ({
+    where: { skills: { some: { skillId: { in: values } } } },
+    sql: Prisma.sql`EXISTS (
+      SELECT 1 FROM job_skills js WHERE js."jobId" = j.id AND js."skillId" = ANY(${values}::int[])
+    )`
+  }),
+  skill: values => ({
+    where: { skills: { some: { skill: { name: { in: values, mode: insensitive } } } } },
+    sql: Prisma.sql`EXISTS (
+      SELECT 1 FROM job_skills js JOIN skills s ON s.id = js."skillId"
+      WHERE js."jobId" = j.id AND LOWER(s.name) = ANY(${lowered(values)}::text[])
+    )`
+  }),
+  skillConceptId: values => ({
+    where: { skills: { some: { skill: { conceptId: { in: values } } } } },
+    sql: Prisma.sql`EXISTS (
+      SELECT 1 FROM job_skills js JOIN skills s ON s.id = js."skillId"
+      WHERE js."jobId" = j.id AND s."conceptId" = ANY(${values}::text[])
+    )`
+  }),
+
+  // Languages
+  languageId: values => ({
+    where: { languages: { some: { languageId: { in: values } } } },
+    sql: Prisma.sql`EXISTS (
+      SELECT 1 FROM job_languages jl WHERE jl."jobId" = j.id AND jl."languageId" = ANY(${values}::int[])
+    )`
+  }),
+  language: values => ({
+    where: { languages: { some: { language: { name: { in: values, mode: insensitive } } } } },
+    sql: Prisma.sql`EXISTS (
+      SELECT 1 FROM job_languages jl JOIN languages lang ON lang.id = jl."languageId"
+      WHERE jl."jobId" = j.id AND LOWER(lang.name) = ANY(${lowered(values)}::text[])
+    )`
+  }),
+  languageConceptId: values => ({
+    where: { languages: { some: { language: { conceptId: { in: values } } } } },
+    sql: Prisma.sql`EXISTS (
+      SELECT 1 FROM job_languages jl JOIN languages lang ON lang.id = jl."languageId"
+      WHERE jl."jobId" = j.id AND lang."conceptId" = ANY(${values}::text[])
+    )`
+  }),
+
+  // Job details
+  employmentType: values => ({
+    where: { employmentType: { in: values, mode: insensitive } },
+    sql: Prisma.sql`LOWER(j."employmentType") = ANY(${lowered(values)}::text[])`
+  }),
+  workingHoursType: values => ({
+    where: { workingHoursType: { in: values, mode: insensitive } },
+    sql: Prisma.sql`LOWER(j."workingHoursType") = ANY(${lowered(values)}::text[])`
+  }),
+  // A canonical job also matches the sources its active duplicates were posted on
+  source: values => ({
+    where: {
+      OR: [
+        { source: { in: values } },
+        { duplicates: { some: { source: { in: values }, removedAt: null } } }
+      ]
+    },
+    sql: Prisma.sql`(
+      j.source = ANY(${values}::text[])
+      OR EXISTS (
+        SELECT 1 FROM jobs d
+        WHERE d."canonicalJobId" = j.id AND d."removedAt" IS NULL AND d.source = ANY(${values}::text[])
+      )
+    )`
+  }),
+  deadlineFrom: date => ({
+    where: { applicationDeadline: { gte: date } },
+    sql: Prisma.sql`j."applicationDeadline" >= ${date}`
+  }),
+  deadlineTo: date => ({
+    where: { applicationDeadline: { lte: date } },
+    sql: Prisma.sql`j."applicationDeadline" <= ${date}`
+  }),
+  minRelevance: score => ({
+    where: { studentRelevanceScore: { gte: score } },
+    sql: Prisma.sql`j."studentRelevanceScore" >= ${score}`
+  }),
+  minQuality: score => ({
+    where: { qualityScore: { gte: score } },
+    sql: Prisma.sql`j."qualityScore" >= ${score}`
+  })
+};
+
+/**
+ * Lists the conditions for a set of filters, starting with those every
+ * search applies
+ * @param filters Search filters
+ * @returns Conditions, to be ANDed together
+ */
+export function buildJobConditions(filters: JobSearchFilters): JobCondition[] {
+  const conditions: JobCondition[] = [
+    // Jobs removed at the source are only reachable through bookmarks
+    { where: { removedAt: null }, sql: Prisma.sql`j."removedAt" IS NULL` },
+    // The same ad posted on several sources is listed once, as its canonical job
+    { where: { canonicalJobId: null }, sql: Prisma.sql`j."canonicalJobId" IS NULL` }
+  ];
+
+  if (!filters.includeExpired) {
+    conditions.push({
+      where: { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+      sql: Prisma.sql`(j."expiresAt" IS NULL OR j."expiresAt" > now())`
+    });
+  }
+
+  for (const key of Object.keys(FILTER_CONDITIONS) as ConditionFilterKey[]) {
+    const value = filters[key];
+
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+
+    const build = FILTER_CONDITIONS[key] as (value: unknown) => JobCondition;
+    conditions.push(build(value));
+  }
+
+  return conditions;
+}
+
+/**
+ * Builds the where conditions for a set of filters as SQL
+ * @param filters Search filters
+ * @returns SQL fragment with the conditions ANDed together
+ */
+export function buildJobConditionsSql(filters: JobSearchFilters): Prisma.Sql {
+  return Prisma.join(buildJobConditions(filters).map(condition => condition.sql), ' AND ');
+}
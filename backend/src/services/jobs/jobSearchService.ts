@@ -0,0 +1,431 @@
+/**
+ * Service for searching and filtering job listings
+ */
+import { Prisma } from '@prisma/client';
+import createError from 'http-errors';
+import { prisma } from '../database/db.service';
+import { jobTextSearch, TextSearchHighlight } from './jobTextSearch';
+import { jobGeoSearch, GeoPoint, JobPosition } from './jobGeoSearch';
+import { jobFacetService, JobFacets } from './jobFacetService';
+import { buildJobConditions, buildJobConditionsSql } from './jobSearchConditions';
+import { encodeCursor, decodeCursor } from '../../utils/pagination';
+import { logger } from '../../utils/logger';
+
+export const JOB_SORT_ORDERS = ['rank', 'distance', 'published', 'deadline', 'relevance', 'quality'] as const;
+
+export type JobSortOrder = typeof JOB_SORT_ORDERS[number];
+
+export interface JobSearchFilters {
+  q?: string;
+  region?: string[];
+  municipality?: string[];
+  city?: string[];
+  // JobTech taxonomy concept IDs
+  regionConceptId?: string[];
+  municipalityConceptId?: string[];
+  occupationConceptId?: string[];
+  lat?: number;
+  lng?: number;
+  near?: string;
+  radius?: number;
+  companyId?: number[];
+  company?: string;
+  educationAreaId?: number[];
+  skillId?: number[];
+  skill?: string[];
+  skillConceptId?: string[];
+  languageId?: number[];
+  language?: string[];
+  languageConceptId?: string[];
+  employmentType?: string[];
+  workingHoursType?: string[];
+  source?: string[];
+  deadlineFrom?: Date;
+  deadlineTo?: Date;
+  minRelevance?: number;
+  minQuality?: number;
+  includeExpired?: boolean;
+}
+
+export interface JobSearchOptions extends JobSearchFilters {
+  sort?: JobSortOrder;
+  cursor?: string;
+  limit: number;
+  facets?: boolean;
+}
+
+export type JobListItem = Prisma.JobGetPayload<{ include: typeof jobListInclude }> & {
+  searchMatch?: TextSearchHighlight;
+  position?: JobPosition;
+};
+
+/**
+ * Jobs matched by the full-text and distance searches, which cannot be
+ * expressed as Prisma filters
+ */
+export interface SearchMatches {
+  // Job ID to full-text rank
+  text?: Map<number, number>;
+  // Job ID to distance in kilometres
+  distances?: Map<number, number>;
+  // Whether either search stopped at its maximum number of matches
+  capped?: boolean;
+}
+
+export interface JobSearchResult {
+  jobs: JobListItem[];
+  total: number;
+  // The total only counts the jobs among the capped full-text or distance
+  // matches, so more jobs match than it says
+  totalCapped: boolean;
+  nextCursor: string | null;
+  hasMore: boolean;
+  facets?: JobFacets;
+}
+
+type JobPage = Omit<JobSearchResult, 'totalCapped' | 'facets'>;
+
+/**
+ * Relations included for every job in a result list
+ */
+export const jobListInclude = {
+  company: {
+    select: { id: true, name: true, logoUrl: true, verified: true }
+  },
+  location: true,
+  skills: {
+    include: { skill: true }
+  },
+  educationRequirements: {
+    include: { educationArea: true }
+  },
+  languages: {
+    include: { language: true }
+  },
+  // "Also posted on": active postings of the same ad on other sources
+  duplicates: {
+    where: { removedAt: null },
+    select: { id: true, source: true, sourceUrl: true },
+    orderBy: { id: 'asc' }
+  }
+} satisfies Prisma.JobInclude;
+
+// Radius used when searching near a point without an explicit radius
+const DEFAULT_RADIUS_KM = parseFloat(process.env.SEARCH_DEFAULT_RADIUS_KM || '25');
+
+/**
+ * Sort orders, always ending with the ID so that the ordering is total
+ * and cursor pagination is stable. Rank and distance ordering is done on
+ * the full-text and distance matches and has no Prisma equivalent.
+ */
+const SORT_ORDER_BY: Record<Exclude<JobSortOrder, 'rank' | 'distance'>, Prisma.JobOrderByWithRelationInput[]> = {
+  published: [{ publishedAt: 'desc' }, { id: 'desc' }],
+  deadline: [{ applicationDeadline: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
+  relevance: [{ studentRelevanceScore: 'desc' }, { publishedAt: 'desc' }, { id: 'desc' }],
+  quality: [{ qualityScore: 'desc' }, { publishedAt: 'desc' }, { id: 'desc' }]
+};
+
+class JobSearchService {
+  /**
+   * Searches jobs matching the given filters. When a search string is given
+   * the results default to being ordered by full-text rank and every job
+   * gets a highlighted title and snippet. When searching near a point the
+   * results default to being ordered by distance.
+   * @param options Filters, sort order and pagination
+   * @returns Page of jobs with pagination information
+   */
+  public async searchJobs(options: JobSearchOptions): Promise<JobSearchResult> {
+    const { sort = this.getDefaultSort(options), cursor, limit, facets, ...filters } = options;
+
+    try {
+      const { where, matches } = await this.resolveWhere(filters);
+
+      // Facets reuse the full-text and distance matches so those searches only run once
+      const [result, facetCounts] = await Promise.all([
+        this.fetchPage(where, matches, sort, cursor, limit),
+        facets ? jobFacetService.getFacets(filters, matches) : Promise.resolve(undefined)
+      ]);
+
+      if (facetCounts) {
+        result.facets = facetCounts;
+      }
+
+      if (result.jobs.length > 0) {
+        const jobIds = result.jobs.map(job => job.id);
+        const [positions, highlights] = await Promise.all([
+          jobGeoSearch.getPositions(jobIds, matches.distances),
+          filters.q ? jobTextSearch.getHighlights(jobIds, filters.q) : Promise.resolve(undefined)
+        ]);
+
+        result.jobs = result.jobs.map(job => ({
+          ...job,
+          searchMatch: highlights?.get(job.id),
+          position: positions.get(job.id)
+        }));
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to search jobs', {
+        error: error instanceof Error ? error.message : String(error),
+        filters
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves filters into a Prisma where clause, running the full-text
+   * search and the distance search first if the filters call for them
+   * @param filters Search filters
+   * @param jobIds Only match these jobs, e.g. the jobs created by a collection run
+   * @returns Where input and the full-text and distance matches, if any
+   */
+  public async resolveWhere(filters: JobSearchFilters, jobIds?: number[]): Promise<{
+    where: Prisma.JobWhereInput;
+    matches: SearchMatches;
+  }> {
+    const matches = await this.resolveMatches(filters, jobIds);
+    const where = this.buildWhere(filters, matches);
+
+    return {
+      where: jobIds ? { AND: [where, { id: { in: jobIds } }] } : where,
+      matches
+    };
+  }
+
+  /**
+   * Runs the full-text search and the distance search if the filters call
+   * for them. Both apply the other filters before capping their matches.
+   * @param filters Search filters
+   * @param jobIds Only match these jobs
+   * @returns Full-text and distance matches
+   */
+  public async resolveMatches(filters: JobSearchFilters, jobIds?: number[]): Promise<SearchMatches> {
+    const point = await this.resolvePoint(filters);
+    const radius = filters.radius ?? DEFAULT_RADIUS_KM;
+    const conditions = filters.q || point ? buildJobConditionsSql(filters) : Prisma.empty;
+
+    const [text, distances] = await Promise.all([
+      filters.q ? jobTextSearch.findMatches(filters.q, conditions, jobIds) : Promise.resolve(undefined),
+      point ? jobGeoSearch.findWithinRadius(point, radius, conditions, jobIds) : Promise.resolve(undefined)
+    ]);
+
+    return {
+      text,
+      distances,
+      capped: (text?.size ?? 0) >= jobTextSearch.maxMatches || (distances?.size ?? 0) >= jobGeoSearch.maxMatches
+    };
+  }
+
+  /**
+   * Resolves the point to search around, either given as coordinates or as
+   * the name of a municipality
+   * @param filters Search filters
+   * @returns Point or null if the search is not restricted by distance
+   */
+  private async resolvePoint(filters: JobSearchFilters): Promise<GeoPoint | null> {
+    if (filters.lat !== undefined && filters.lng !== undefined) {
+      return { latitude: filters.lat, longitude: filters.lng };
+    }
+
+    if (filters.near) {
+      const centroid = await jobGeoSearch.getMunicipalityCentroid(filters.near);
+
+      if (!centroid) {
+        throw createError(400, `Unknown municipality: ${filters.near}`);
+      }
+
+      return centroid;
+    }
+
+    return null;
+  }
+
+  /**
+   * Picks the sort order used when none is given
+   * @param filters Search filters
+   * @returns Sort order
+   */
+  private getDefaultSort(filters: JobSearchFilters): JobSortOrder {
+    if (filters.q) {
+      return 'rank';
+    }
+
+    return (filters.lat !== undefined || filters.near) ? 'distance' : 'published';
+  }
+
+  /**
+   * Fetches a page of jobs in the given sort order
+   * @param where Where input
+   * @param matches Full-text and distance matches
+   * @param sort Sort order
+   * @param cursor Encoded cursor
+   * @param limit Page size
+   * @returns Page of jobs
+   */
+  private async fetchPage(
+    where: Prisma.JobWhereInput,
+    matches: SearchMatches,
+    sort: JobSortOrder,
+    cursor: string | undefined,
+    limit: number
+  ): Promise<JobSearchResult> {
+    let page: JobPage;
+
+    if (sort === 'rank' && matches.text) {
+      page = await this.searchByScore(where, matches.text, 'desc', cursor, limit);
+    } else if (sort === 'distance' && matches.distances) {
+      page = await this.searchByScore(where, matches.distances, 'asc', cursor, limit);
+    } else {
+      page = await this.searchByOrder(where, sort === 'rank' || sort === 'distance' ? 'published' : sort, cursor, limit);
+    }
+
+    return { ...page, totalCapped: !!matches.capped };
+  }
+
+  /**
+   * Fetches a page of jobs using one of the Prisma sort orders
+   * @param where Where input
+   * @param sort Sort order
+   * @param cursor Encoded cursor
+   * @param limit Page size
+   * @returns Page of jobs
+   */
+  private async searchByOrder(
+    where: Prisma.JobWhereInput,
+    sort: Exclude<JobSortOrder, 'rank' | 'distance'>,
+    cursor: string | undefined,
+    limit: number
+  ): Promise<JobPage> {
+    const cursorId = cursor ? this.parseCursor(cursor).id : undefined;
+
+    if (cursor && cursorId === undefined) {
+      throw createError(400, 'Invalid cursor');
+    }
+
+    const [jobs, total] = await Promise.all([
+      prisma.job.findMany({
+        where,
+        orderBy: SORT_ORDER_BY[sort],
+        take: limit + 1,
+        ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : {}),
+        include: jobListInclude
+      }),
+      prisma.job.count({ where })
+    ]);
+
+    const hasMore = jobs.length > limit;
+    const page = hasMore ? jobs.slice(0, limit) : jobs;
+
+    return {
+      jobs: page,
+      total,
+      nextCursor: hasMore ? encodeCursor({ id: page[page.length - 1].id }) : null,
+      hasMore
+    };
+  }
+
+  /**
+   * Fetches a page of jobs ordered by full-text rank or distance
+   * @param where Where input, already restricted to the scored jobs
+   * @param scores Map of job ID to rank or distance
+   * @param direction Sort direction of the scores
+   * @param cursor Encoded cursor
+   * @param limit Page size
+   * @returns Page of jobs
+   */
+  private async searchByScore(
+    where: Prisma.JobWhereInput,
+    scores: Map<number, number>,
+    direction: 'asc' | 'desc',
+    cursor: string | undefined,
+    limit: number
+  ): Promise<JobPage> {
+    const offset = cursor ? this.parseCursor(cursor).offset : 0;
+
+    if (offset === undefined) {
+      throw createError(400, 'Invalid cursor');
+    }
+
+    // Apply the remaining filters to the scored jobs, then order by score
+    const sign = direction === 'asc' ? 1 : -1;
+    const candidates = await prisma.job.findMany({ where, select: { id: true } });
+    const rankedIds = candidates
+      .map(candidate => candidate.id)
+      .sort((a, b) => sign * (scores.get(a)! - scores.get(b)!) || b - a);
+
+    const pageIds = rankedIds.slice(offset, offset + limit);
+    const jobs = await prisma.job.findMany({
+      where: { id: { in: pageIds } },
+      include: jobListInclude
+    });
+    const jobsById = new Map(jobs.map(job => [job.id, job]));
+    const hasMore = offset + limit < rankedIds.length;
+
+    return {
+      jobs: pageIds.map(id => jobsById.get(id)).filter((job): job is NonNullable<typeof job> => !!job),
+      total: rankedIds.length,
+      nextCursor: hasMore ? encodeCursor({ offset: offset + limit }) : null,
+      hasMore
+    };
+  }
+
+  /**
+   * Gets a single job with all its relations. A duplicate links to its
+   * canonical job.
+   * @param id Job ID
+   * @returns Job or null if not found
+   */
+  public async getJobById(id: number) {
+    return prisma.job.findUnique({
+      where: { id },
+      include: {
+        ...jobListInclude,
+        company: true,
+        canonicalJob: {
+          select: { id: true, source: true, sourceUrl: true, removedAt: true }
+        }
+      }
+    });
+  }
+
+  /**
+   * Builds the Prisma where clause for a set of filters
+   * @param filters Search filters
+   * @param matches Full-text and distance matches for the filters
+   * @returns Where input
+   */
+  public buildWhere(filters: JobSearchFilters, matches: SearchMatches = {}): Prisma.JobWhereInput {
+    const conditions = buildJobConditions(filters).map(condition => condition.where);
+
+    if (matches.text) {
+      conditions.push({ id: { in: [...matches.text.keys()] } });
+    }
+    if (matches.distances) {
+      conditions.push({ id: { in: [...matches.distances.keys()] } });
+    }
+
+    return { AND: conditions };
+  }
+
+  /**
+   * Decodes a pagination cursor. Cursors hold either the ID of the last job
+   * (Prisma sort orders) or an offset (rank and distance ordering).
+   * @param cursor Encoded cursor
+   * @returns Cursor payload
+   */
+  private parseCursor(cursor: string): { id?: number; offset?: number } {
+    const payload = decodeCursor<{ id?: number; offset?: number }>(cursor);
+    const isValid = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) >= 0);
+
+    if (!payload || !isValid(payload.id) || !isValid(payload.offset)) {
+      throw createError(400, 'Invalid cursor');
+    }
+
+    return payload;
+  }
+}
+
+// Create and export a singleton instance
+export const jobSearchService = new JobSearchService();
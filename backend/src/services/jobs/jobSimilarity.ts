@@ -0,0 +1,151 @@
+/**
+ * MinHash signatures of job ads, for finding the same ad posted on several
+ * sources. The title and description are split into word shingles; the
+ * share of signature values two ads have in common estimates the Jaccard
+ * similarity of their shingle sets. Signatures are split into LSH bands so
+ * that candidates can be looked up by any shared band.
+ */
+
+export interface JobFingerprint {
+  minhashSignature: number[];
+  minhashBands: string[];
+}
+
+// Words per shingle
+const SHINGLE_SIZE = 3;
+// Bands of ROWS_PER_BAND values; ads with a Jaccard similarity of 0.5
+// share at least one band with a probability of about 0.93
+const BAND_COUNT = 20;
+const ROWS_PER_BAND = 3;
+const SIGNATURE_SIZE = BAND_COUNT * ROWS_PER_BAND;
+
+// Fixed seeds, so that signatures stay comparable across runs
+const SEEDS = (() => {
+  const seeds: number[] = [];
+  let state = 0x9e3779b9;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    state = (Math.imul(state, 1664525) + 1013904223) | 0;
+    seeds.push(state);
+  }
+  return seeds;
+})();
+
+/**
+ * Computes the signature and bands of a job ad
+ * @param title Job title
+ * @param description Job description
+ * @returns Fingerprint to store with the job
+ */
+export function fingerprintJob(title: string, description: string): JobFingerprint {
+  const minhashSignature = minhash(shingles(`${title} ${description}`));
+
+  return {
+    minhashSignature,
+    minhashBands: toBands(minhashSignature)
+  };
+}
+
+/**
+ * Estimates the Jaccard similarity of two ads from their signatures
+ * @param a Signature
+ * @param b Signature
+ * @returns Similarity from 0 to 1, 0 when either signature is missing
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== SIGNATURE_SIZE || b.length !== SIGNATURE_SIZE) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) {
+      shared++;
+    }
+  }
+
+  return shared / SIGNATURE_SIZE;
+}
+
+/**
+ * Splits text into overlapping word shingles
+ */
+function shingles(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/<[^>]*>/g, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  const result = new Set<string>();
+
+  if (words.length < SHINGLE_SIZE) {
+    result.add(words.join(' '));
+    return result;
+  }
+
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+
+  return result;
+}
+
+/**
+ * Smallest seeded hash of the shingles, per seed
+ */
+function minhash(shingleSet: Set<string>): number[] {
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0x7fffffff);
+
+  for (const shingle of shingleSet) {
+    const base = fnv1a(shingle);
+
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix(base ^ SEEDS[i]);
+      if (value < signature[i]) {
+        signature[i] = value;
+      }
+    }
+  }
+
+  return signature;
+}
+
+function toBands(signature: number[]): string[] {
+  const bands: string[] = [];
+
+  for (let band = 0; band < BAND_COUNT; band++) {
+    const rows = signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND);
+    bands.push(`${band}:${(fnv1a(rows.join(',')) >>> 0).toString(16)}`);
+  }
+
+  return bands;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash | 0;
+}
+
+/**
+ * MurmurHash3 finalizer, spreading the seeded hash over all 32 bits; the
+ * result fits a Postgres integer
+ */
+function mix(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+
+  return hash | 0;
+}
@@ -0,0 +1,13 @@
+import { headlineToHtml } from './jobTextSearch';
+
+jest.mock('../database/db.service', () => ({ prisma: {} }));
+
+describe('headlineToHtml', () => {
+  it('escapes the ad text and marks the matches', () => {
+    const headline = 'Sommarjobb <img src=x onerror="alert(1)"> som \uE000lagerarbetare\uE001 & truckförare';
+
+    expect(headlineToHtml(headline)).toBe(
+      'Sommarjobb &lt;img src=x onerror=&quot;alert(1)&quot;&gt; som <mark>lagerarbetare</mark> &amp; truckförare'
+    );
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * PostgreSQL full-text search over the jobs.search_document column
+ *
+ * The search document is maintained by database triggers (see
+ * prisma/functions/indexing.sql). Queries are parsed with both the Swedish
+ * and the English configuration so that English ads can still be found.
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { escapeHtml } from '../../utils/html';
+import { logger } from '../../utils/logger';
+
+export interface TextSearchHighlight {
+  rank: number;
+  title: string;
+  snippet: string;
+}
+
+// Upper bound on the number of matches considered for a single query,
+// applied after the search filters
+const MAX_TEXT_MATCHES = parseInt(process.env.SEARCH_MAX_TEXT_MATCHES || '5000');
+
+// ts_headline returns the stored text as is, so matches are marked with
+// private use characters and the text is escaped before they become <mark>
+const START_SEL = '\uE000';
+const STOP_SEL = '\uE001';
+const HEADLINE_OPTIONS = `StartSel="${START_SEL}", StopSel="${STOP_SEL}", MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "`;
+const TITLE_HEADLINE_OPTIONS = `StartSel="${START_SEL}", StopSel="${STOP_SEL}", HighlightAll=true`;
+
+/**
+ * Turns a ts_headline result into HTML with the matches in <mark>
+ * @param headline Text with matches between START_SEL and STOP_SEL
+ * @returns Escaped HTML
+ */
+export function headlineToHtml(headline: string): string {
+  return escapeHtml(headline)
+    .replace(/\uE000/g, '<mark>')
+    .replace(/\uE001/g, '</mark>');
+}
+
+/**
+ * Builds the tsquery for a user supplied search string
+ * @param q Search string
+ * @returns SQL fragment
+ */
+function buildTsQuery(q: string): Prisma.Sql {
+  return Prisma.sql`(websearch_to_tsquery('swedish', ${q}) || websearch_to_tsquery('english', ${q}))`;
+}
+
+class JobTextSearch {
+  // Matches returned at most by findMatches
+  public readonly maxMatches = MAX_TEXT_MATCHES;
+
+  /**
+   * Finds jobs matching a search string, best matches first
+   * @param q Search string
+   * @param conditions Search filters as SQL, see buildJobConditionsSql
+   * @param jobIds Only consider these jobs
+   * @returns Map of job ID to rank, in descending rank order
+   */
+  public async findMatches(q: string, conditions: Prisma.Sql, jobIds?: number[]): Promise<Map<number, number>> {
+    if (jobIds?.length === 0) {
+      return new Map();
+    }
+
+    const restriction = jobIds ? Prisma.sql`AND j.id = ANY(${jobIds}::int[])` : Prisma.empty;
+
+    try {
+      const rows = await prisma.$queryRaw<Array<{ id: number; rank: number }>>`
+        SELECT j.id, ts_rank_cd(j.search_document, query) AS rank
+        FROM jobs j, ${buildTsQuery(q)} AS query
+        WHERE j.search_document @@ query AND ${conditions} ${restriction}
+        ORDER BY rank DESC, j.id DESC
+        LIMIT ${MAX_TEXT_MATCHES}
+      `;
+
+      return new Map(rows.map(row => [row.id, Number(row.rank)]));
+    } catch (error) {
+      logger.error('Failed to run full-text search', {
+        error: error instanceof Error ? error.message : String(error),
+        q
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates highlighted title and description snippets for a set of jobs
+   * @param jobIds Job IDs
+   * @param q Search string
+   * @returns Map of job ID to highlight
+   */
+  public async getHighlights(jobIds: number[], q: string): Promise<Map<number, TextSearchHighlight>> {
+    if (jobIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await prisma.$queryRaw<Array<{ id: number; rank: number; title: string; snippet: string }>>`
+      SELECT
+        id,
+        ts_rank_cd(search_document, query) AS rank,
+        ts_headline('swedish', title, query, ${TITLE_HEADLINE_OPTIONS}) AS title,
+        ts_headline('swedish', description, query, ${HEADLINE_OPTIONS}) AS snippet
+      FROM jobs, ${buildTsQuery(q)} AS query
+      WHERE id IN (${Prisma.join(jobIds)})
+    `;
+
+    return new Map(rows.map(row => [row.id, {
+      rank: Number(row.rank),
+      title: headlineToHtml(row.title),
+      snippet: headlineToHtml(row.snippet)
+    }]));
+  }
+}
+
+// Create and export a singleton instance
+export const jobTextSearch = new JobTextSearch();
@@ -0,0 +1,79 @@
+/**
+ * Service for reading a user's in-app notifications
+ */
+import createError from 'http-errors';
+import { prisma } from '../database/db.service';
+
+export interface NotificationFilters {
+  unread?: boolean;
+  limit: number;
+  offset: number;
+}
+
+class NotificationService {
+  /**
+   * Lists a user's notifications, newest first
+   * @param userId User ID
+   * @param filters Unread filter and pagination
+   * @returns Page of notifications, the total and the number of unread
+   */
+  public async listNotifications(userId: number, filters: NotificationFilters) {
+    const where = {
+      userId,
+      ...(filters.unread ? { readAt: null } : {})
+    };
+
+    const [notifications, total, unread] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: filters.limit,
+        skip: filters.offset
+      }),
+      prisma.notification.count({ where }),
+      prisma.notification.count({ where: { userId, readAt: null } })
+    ]);
+
+    return { notifications, total, unread };
+  }
+
+  /**
+   * Marks a notification as read
+   * @param userId User ID
+   * @param id Notification ID
+   * @returns Updated notification
+   */
+  public async markAsRead(userId: number, id: number) {
+    const notification = await prisma.notification.findFirst({ where: { id, userId } });
+
+    if (!notification) {
+      throw createError(404, 'Notification not found');
+    }
+
+    if (notification.readAt) {
+      return notification;
+    }
+
+    return prisma.notification.update({
+      where: { id },
+      data: { readAt: new Date() }
+    });
+  }
+
+  /**
+   * Marks all of a user's notifications as read
+   * @param userId User ID
+   * @returns Number of notifications marked
+   */
+  public async markAllAsRead(userId: number): Promise<{ updated: number }> {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() }
+    });
+
+    return { updated: count };
+  }
+}
+
+// Create and export a singleton instance
+export const notificationService = new NotificationService();
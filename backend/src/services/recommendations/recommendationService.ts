@@ -0,0 +1,489 @@
+/**
+ * Service for recommending jobs to a student
+ *
+ * Jobs are scored on how well they fit what we know about the student:
+ * the education area of their profile, and the skills, places and working
+ * hours of the jobs they have bookmarked and searched for. Each factor
+ * scores between 0 and 1 and contributes with its weight; factors we have
+ * no signal for are left out and the remaining weights scaled up, so that
+ * a student with an empty history still gets comparable scores.
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../database/db.service';
+import { jobSearchService, jobListInclude } from '../jobs/jobSearchService';
+
+export const RECOMMENDATION_FACTORS = ['education', 'skills', 'location', 'workingHours', 'relevance'] as const;
+
+export type RecommendationFactor = typeof RECOMMENDATION_FACTORS[number];
+
+export interface RecommendationOptions {
+  limit: number;
+  offset: number;
+}
+
+export interface RecommendationReason {
+  factor: RecommendationFactor;
+  // Points the factor added to the score
+  points: number;
+  message: string;
+}
+
+type RecommendedJob = Prisma.JobGetPayload<{ include: typeof jobListInclude }>;
+
+export type Recommendation = RecommendedJob & {
+  recommendation: {
+    // 0-100
+    score: number;
+    reasons: RecommendationReason[];
+  };
+};
+
+type EducationRelation = 'exact' | 'narrower' | 'broader';
+
+interface AreaAffinity {
+  score: number;
+  relation: EducationRelation;
+}
+
+/**
+ * What we know about a student, each map from a value to a weight between
+ * 0 and 1
+ */
+interface StudentSignals {
+  educationArea: { id: number; name: string } | null;
+  areaAffinity: Map<number, AreaAffinity>;
+  skills: Map<number, number>;
+  municipalities: Map<string, number>;
+  regions: Map<string, number>;
+  workingHours: Map<string, number>;
+  bookmarkedJobIds: number[];
+}
+
+const FACTOR_WEIGHTS: Record<RecommendationFactor, number> = {
+  education: 0.35,
+  skills: 0.25,
+  location: 0.15,
+  workingHours: 0.1,
+  relevance: 0.15
+};
+
+// A job requiring a sub-area of the student's area fits better than one
+// asking for the broader area the student's area belongs to
+const EDUCATION_AFFINITY: Record<EducationRelation, number> = {
+  exact: 1,
+  narrower: 0.8,
+  broader: 0.6
+};
+
+// Jobs scored per request, picked by student relevance among the jobs
+// matching any of the student's signals
+const CANDIDATE_LIMIT = parseInt(process.env.RECOMMENDATION_CANDIDATE_LIMIT || '500');
+
+// Amount of history the signals are built from
+const HISTORY_LIMIT = 100;
+
+// Number of matching skills needed for a full skill score
+const SKILL_SATURATION = 3;
+
+/**
+ * Reads a filter value from stored search filters as a list of strings
+ * @param value Filter value, a list or a comma separated string
+ * @returns List of values
+ */
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(item => String(item).trim()).filter(Boolean);
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return String(value).split(',').map(item => item.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Scales the counts in a map to weights, the most common value getting 1
+ * @param counts Value to count
+ * @returns Value to weight
+ */
+function normalize<K>(counts: Map<K, number>): Map<K, number> {
+  const max = Math.max(0, ...counts.values());
+  return new Map([...counts].map(([key, count]) => [key, max > 0 ? count / max : 0]));
+}
+
+/**
+ * Adds to the count of a value
+ * @param counts Value to count
+ * @param key Value
+ * @param amount Amount to add
+ */
+function increment<K>(counts: Map<K, number>, key: K, amount = 1): void {
+  counts.set(key, (counts.get(key) ?? 0) + amount);
+}
+
+class RecommendationService {
+  /**
+   * Recommends jobs to a user, best fit first. Jobs the user has already
+   * bookmarked are left out.
+   * @param userId User ID
+   * @param options Pagination
+   * @returns Page of recommended jobs, each with its score and the reasons
+   * behind it, and the number of jobs scored
+   */
+  public async getRecommendations(userId: number, options: RecommendationOptions): Promise<{
+    recommendations: Recommendation[];
+    total: number;
+  }> {
+    const signals = await this.getSignals(userId);
+
+    const jobs = await prisma.job.findMany({
+      where: this.buildCandidateWhere(signals),
+      include: jobListInclude,
+      orderBy: [{ studentRelevanceScore: 'desc' }, { publishedAt: 'desc' }, { id: 'desc' }],
+      take: CANDIDATE_LIMIT
+    });
+
+    const recommendations = jobs
+      .map(job => ({ ...job, recommendation: this.scoreJob(job, signals) }))
+      .sort((a, b) => b.recommendation.score - a.recommendation.score || b.id - a.id);
+
+    return {
+      recommendations: recommendations.slice(options.offset, options.offset + options.limit),
+      total: recommendations.length
+    };
+  }
+
+  /**
+   * Collects what we know about a user from their profile, bookmarks,
+   * search history and saved searches
+   * @param userId User ID
+   * @returns Student signals
+   */
+  private async getSignals(userId: number): Promise<StudentSignals> {
+    const [profile, bookmarks, searches, savedSearches] = await Promise.all([
+      prisma.profile.findUnique({
+        where: { userId },
+        select: { educationArea: { select: { id: true, name: true } } }
+      }),
+      prisma.bookmark.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: HISTORY_LIMIT,
+        select: {
+          job: {
+            select: {
+              id: true,
+              workingHoursType: true,
+              location: { select: { municipality: true, city: true, region: true } },
+              skills: { select: { skillId: true } }
+            }
+          }
+        }
+      }),
+      prisma.searchHistory.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: HISTORY_LIMIT,
+        select: { query: true, filters: true }
+      }),
+      prisma.savedSearch.findMany({
+        where: { userId },
+        select: { query: true, filters: true }
+      })
+    ]);
+
+    const skills = new Map<number, number>();
+    const municipalities = new Map<string, number>();
+    const regions = new Map<string, number>();
+    const workingHours = new Map<string, number>();
+
+    for (const { job } of bookmarks) {
+      for (const { skillId } of job.skills) {
+        increment(skills, skillId);
+      }
+      const municipality = job.location?.municipality || job.location?.city;
+      if (municipality) {
+        increment(municipalities, municipality.toLowerCase());
+      }
+      if (job.location?.region) {
+        increment(regions, job.location.region.toLowerCase());
+      }
+      if (job.workingHoursType) {
+        increment(workingHours, job.workingHoursType);
+      }
+    }
+
+    // Searches name skills either as filters or in the search string
+    const skillNames = new Map<string, number>();
+    const skillIds: number[] = [];
+
+    for (const search of [...searches, ...savedSearches]) {
+      const filters = (search.filters ?? {}) as Record<string, unknown>;
+
+      // Both the whole search string and its words, to catch skill names
+      // made up of several words
+      const query = (search.query ?? '').trim();
+      for (const term of new Set([query, ...query.split(/[\s,]+/)])) {
+        if (term.length >= 2) {
+          increment(skillNames, term.toLowerCase());
+        }
+      }
+      for (const name of toList(filters.skill)) {
+        increment(skillNames, name.toLowerCase());
+      }
+      skillIds.push(...toList(filters.skillId).map(Number).filter(Number.isInteger));
+
+      for (const municipality of [...toList(filters.municipality), ...toList(filters.city), ...toList(filters.near)]) {
+        increment(municipalities, municipality.toLowerCase());
+      }
+      for (const region of toList(filters.region)) {
+        increment(regions, region.toLowerCase());
+      }
+      for (const type of toList(filters.workingHoursType)) {
+        increment(workingHours, type);
+      }
+    }
+
+    for (const skillId of skillIds) {
+      increment(skills, skillId);
+    }
+
+    if (skillNames.size > 0) {
+      const matchedSkills = await prisma.skill.findMany({
+        where: { name: { in: [...skillNames.keys()], mode: Prisma.QueryMode.insensitive } },
+        select: { id: true, name: true }
+      });
+
+      for (const skill of matchedSkills) {
+        increment(skills, skill.id, skillNames.get(skill.name.toLowerCase()) ?? 1);
+      }
+    }
+
+    const educationArea = profile?.educationArea ?? null;
+
+    return {
+      educationArea,
+      areaAffinity: educationArea ? await this.getAreaAffinity(educationArea.id) : new Map(),
+      skills: normalize(skills),
+      municipalities: normalize(municipalities),
+      regions: normalize(regions),
+      workingHours: normalize(workingHours),
+      bookmarkedJobIds: bookmarks.map(bookmark => bookmark.job.id)
+    };
+  }
+
+  /**
+   * Works out how well each education area fits a student's area: the area
+   * itself, its sub-areas at any depth and the areas it belongs to
+   * @param educationAreaId Education area of the student
+   * @returns Education area ID to affinity
+   */
+  private async getAreaAffinity(educationAreaId: number): Promise<Map<number, AreaAffinity>> {
+    const areas = await prisma.educationArea.findMany({
+      select: { id: true, parentId: true }
+    });
+
+    const parentById = new Map(areas.map(area => [area.id, area.parentId]));
+    const childrenById = new Map<number, number[]>();
+
+    for (const area of areas) {
+      if (area.parentId !== null) {
+        childrenById.set(area.parentId, [...(childrenById.get(area.parentId) ?? []), area.id]);
+      }
+    }
+
+    const affinity = new Map<number, AreaAffinity>([
+      [educationAreaId, { score: EDUCATION_AFFINITY.exact, relation: 'exact' }]
+    ]);
+
+    // Sub-areas, guarding against cycles
+    const queue = [...(childrenById.get(educationAreaId) ?? [])];
+    while (queue.length > 0) {
+      const areaId = queue.shift()!;
+      if (affinity.has(areaId)) {
+        continue;
+      }
+      affinity.set(areaId, { score: EDUCATION_AFFINITY.narrower, relation: 'narrower' });
+      queue.push(...(childrenById.get(areaId) ?? []));
+    }
+
+    // Areas the student's area belongs to
+    let parentId = parentById.get(educationAreaId) ?? null;
+    while (parentId !== null && !affinity.has(parentId)) {
+      affinity.set(parentId, { score: EDUCATION_AFFINITY.broader, relation: 'broader' });
+      parentId = parentById.get(parentId) ?? null;
+    }
+
+    return affinity;
+  }
+
+  /**
+   * Builds the filter picking the jobs to score: active jobs the user has
+   * not bookmarked that match at least one of the user's signals. Without
+   * any signals every active job is a candidate.
+   * @param signals Student signals
+   * @returns Job where input
+   */
+  private buildCandidateWhere(signals: StudentSignals): Prisma.JobWhereInput {
+    const matchesSignal: Prisma.JobWhereInput[] = [];
+
+    if (signals.areaAffinity.size > 0) {
+      matchesSignal.push({
+        educationRequirements: { some: { educationAreaId: { in: [...signals.areaAffinity.keys()] } } }
+      });
+    }
+    if (signals.skills.size > 0) {
+      matchesSignal.push({ skills: { some: { skillId: { in: [...signals.skills.keys()] } } } });
+    }
+    if (signals.municipalities.size > 0) {
+      matchesSignal.push({
+        location: {
+          OR: [...signals.municipalities.keys()].flatMap(name => [
+            { municipality: { equals: name, mode: Prisma.QueryMode.insensitive } },
+            { city: { equals: name, mode: Prisma.QueryMode.insensitive } }
+          ])
+        }
+      });
+    }
+    if (signals.regions.size > 0) {
+      matchesSignal.push({
+        location: {
+          OR: [...signals.regions.keys()].map(name => ({
+            region: { equals: name, mode: Prisma.QueryMode.insensitive }
+          }))
+        }
+      });
+    }
+
+    return {
+      AND: [
+        jobSearchService.buildWhere({}),
+        ...(signals.bookmarkedJobIds.length > 0 ? [{ id: { notIn: signals.bookmarkedJobIds } }] : []),
+        ...(matchesSignal.length > 0 ? [{ OR: matchesSignal }] : [])
+      ]
+    };
+  }
+
+  /**
+   * Scores a job for a student
+   * @param job Job with its requirements and location
+   * @param signals Student signals
+   * @returns Score between 0 and 100 and the reasons behind it, most
+   * important first
+   */
+  private scoreJob(job: RecommendedJob, signals: StudentSignals): Recommendation['recommendation'] {
+    const factors: Array<{ factor: RecommendationFactor; score: number; message: string }> = [];
+    const active = new Set<RecommendationFactor>(['relevance']);
+
+    // Education area
+    if (signals.educationArea) {
+      active.add('education');
+
+      let best: { affinity: AreaAffinity; name: string } | null = null;
+      for (const requirement of job.educationRequirements) {
+        const affinity = signals.areaAffinity.get(requirement.educationAreaId);
+        if (affinity && (!best || affinity.score > best.affinity.score)) {
+          best = { affinity, name: requirement.educationArea.name };
+        }
+      }
+
+      if (best) {
+        const studentArea = signals.educationArea.name;
+        factors.push({
+          factor: 'education',
+          score: best.affinity.score,
+          message: best.affinity.relation === 'exact'
+            ? `Söker personer inom ditt utbildningsområde ${studentArea}`
+            : best.affinity.relation === 'narrower'
+              ? `Söker ${best.name}, en inriktning inom ditt utbildningsområde ${studentArea}`
+              : `Söker ${best.name}, som ditt utbildningsområde ${studentArea} hör till`
+        });
+      }
+    }
+
+    // Skills
+    if (signals.skills.size > 0) {
+      active.add('skills');
+
+      const matching = job.skills
+        .filter(jobSkill => signals.skills.has(jobSkill.skillId))
+        .sort((a, b) => signals.skills.get(b.skillId)! - signals.skills.get(a.skillId)!);
+
+      if (matching.length > 0) {
+        const total = matching.reduce((sum, jobSkill) => sum + signals.skills.get(jobSkill.skillId)!, 0);
+        const needed = Math.min(job.skills.length, SKILL_SATURATION);
+
+        factors.push({
+          factor: 'skills',
+          score: Math.min(total / needed, 1),
+          message: `Efterfrågar ${matching.slice(0, 3).map(jobSkill => jobSkill.skill.name).join(', ')}, som du har visat intresse för`
+        });
+      }
+    }
+
+    // Location, preferring municipality over region
+    if (signals.municipalities.size > 0 || signals.regions.size > 0) {
+      active.add('location');
+
+      const municipality = job.location?.municipality || job.location?.city;
+      const municipalityWeight = municipality ? signals.municipalities.get(municipality.toLowerCase()) : undefined;
+      const region = job.location?.region;
+      const regionWeight = region ? signals.regions.get(region.toLowerCase()) : undefined;
+
+      if (municipality && municipalityWeight) {
+        factors.push({
+          factor: 'location',
+          score: municipalityWeight,
+          message: `Ligger i ${municipality}, där du har letat efter jobb`
+        });
+      } else if (region && regionWeight) {
+        factors.push({
+          factor: 'location',
+          score: regionWeight * 0.5,
+          message: `Ligger i ${region}, där du har letat efter jobb`
+        });
+      }
+    }
+
+    // Working hours
+    if (signals.workingHours.size > 0) {
+      active.add('workingHours');
+
+      const weight = job.workingHoursType ? signals.workingHours.get(job.workingHoursType) : undefined;
+      if (job.workingHoursType && weight) {
+        factors.push({
+          factor: 'workingHours',
+          score: weight,
+          message: `Arbetstid: ${job.workingHoursType}, som passar det du brukar söka`
+        });
+      }
+    }
+
+    // Student relevance
+    factors.push({
+      factor: 'relevance',
+      score: Math.max(0, Math.min(job.studentRelevanceScore / 100, 1)),
+      message: job.studentRelevanceScore >= 70
+        ? 'Särskilt lämpligt för studenter'
+        : 'Bedömt som relevant för studenter'
+    });
+
+    const totalWeight = [...active].reduce((sum, factor) => sum + FACTOR_WEIGHTS[factor], 0);
+
+    const reasons = factors
+      .map(({ factor, score, message }) => ({
+        factor,
+        points: Math.round(score * FACTOR_WEIGHTS[factor] / totalWeight * 1000) / 10,
+        message
+      }))
+      .filter(reason => reason.points > 0)
+      .sort((a, b) => b.points - a.points);
+
+    return {
+      score: Math.round(reasons.reduce((sum, reason) => sum + reason.points, 0) * 10) / 10,
+      reasons
+    };
+  }
+}
+
+// Create and export a singleton instance
+export const recommendationService = new RecommendationService();
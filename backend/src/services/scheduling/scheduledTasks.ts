@@ -0,0 +1,42 @@
+/**
+ * The recurring background tasks, with their schedules in Swedish time
+ */
+import { TaskScheduler } from './taskScheduler';
+import { savedSearchAlertService } from '../alerts/savedSearchAlertService';
+import { taxonomyService } from '../taxonomy/taxonomyService';
+import { jobDuplicateService } from '../jobs/jobDuplicateService';
+import { jobGeoSearch } from '../jobs/jobGeoSearch';
+import { companyService } from '../companies/companyService';
+import { applicationTrackerService } from '../applications/applicationTrackerService';
+
+/**
+ * Registers every recurring task on a scheduler
+ * @param scheduler Task scheduler
+ */
+export function registerScheduledTasks(scheduler: TaskScheduler): void {
+  // Saved search digests, daily at 7:00 and weekly on Monday at 7:00
+  scheduler.register('sendDailySearchAlerts', '0 7 * * *', () => savedSearchAlertService.sendDigests('daily'));
+  scheduler.register('sendWeeklySearchAlerts', '0 7 * * 1', () => savedSearchAlertService.sendDigests('weekly'));
+
+  // Digests that failed to send, at a quarter past every hour
+  scheduler.register('retrySearchAlerts', '15 * * * *', () => savedSearchAlertService.retryFailedDigests());
+
+  // Application reminders that are due, every 15 minutes
+  scheduler.register('sendApplicationReminders', '*/15 * * * *', () => applicationTrackerService.sendReminders());
+
+  // Municipality centroids moved or added by the coordinates of collected jobs, hourly
+  scheduler.register('refreshMunicipalityCentroids', '45 * * * *', () => jobGeoSearch.refreshCentroids());
+
+  // JobTech taxonomy mirror, weekly on Sunday at 4:00
+  scheduler.register('syncTaxonomy', '0 4 * * 0', () => taxonomyService.sync());
+
+  // Companies stored before they were resolved by organization number and name, daily at 4:15
+  scheduler.register('normalizeCompanies', '15 4 * * *', () => companyService.backfill());
+
+  // Jobs stored before they were fingerprinted, and clusters whose canonical
+  // job was removed, daily at 4:30
+  scheduler.register('clusterDuplicateJobs', '30 4 * * *', async () => {
+    await jobDuplicateService.backfill();
+    await jobDuplicateService.promoteCanonicalJobs();
+  });
+}
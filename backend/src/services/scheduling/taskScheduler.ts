@@ -0,0 +1,105 @@
+/**
+ * Runs recurring background tasks such as alert digests and reminders.
+ * Every instance keeps the schedules, but only the holder of the leader lock
+ * runs a task when it is due, so each run happens once across instances.
+ */
+import os from 'os';
+import cron from 'node-cron';
+import { LeaderLock } from '../collection/leaderLock';
+import { logger } from '../../utils/logger';
+
+interface RegisteredTask {
+  schedule: string;
+  run: () => Promise<unknown>;
+}
+
+export class TaskScheduler {
+  private tasks: Map<string, RegisteredTask> = new Map();
+  private scheduledJobs: Map<string, cron.ScheduledTask> = new Map();
+  // Tasks with a run in progress on this instance
+  private running: Set<string> = new Set();
+  private readonly leaderLock = new LeaderLock('task-scheduler', `${os.hostname()}:${process.pid}`);
+
+  /**
+   * Registers a task, to be scheduled when the scheduler starts
+   * @param name Task name
+   * @param schedule Cron expression, in Swedish time
+   * @param run Runs the task
+   */
+  public register(name: string, schedule: string, run: () => Promise<unknown>): void {
+    if (!cron.validate(schedule)) {
+      throw new Error(`Invalid schedule "${schedule}" for task ${name}`);
+    }
+
+    this.tasks.set(name, { schedule, run });
+  }
+
+  /**
+   * Starts leader election and schedules every registered task
+   */
+  public async start(): Promise<void> {
+    await this.leaderLock.start();
+
+    for (const [name, { schedule }] of this.tasks.entries()) {
+      this.scheduledJobs.set(name, cron.schedule(schedule, () => {
+        void this.runTask(name);
+      }, {
+        timezone: 'Europe/Stockholm'
+      }));
+    }
+
+    logger.info(`Scheduled ${this.scheduledJobs.size} background tasks`);
+  }
+
+  /**
+   * Stops the schedules and releases the leader lock
+   */
+  public async stop(): Promise<void> {
+    for (const task of this.scheduledJobs.values()) {
+      task.stop();
+    }
+    this.scheduledJobs.clear();
+
+    await this.leaderLock.stop();
+  }
+
+  /**
+   * Runs a task if this instance is the leader and the task isn't already running
+   * @param name Task name
+   * @returns Whether the task ran
+   */
+  public async runTask(name: string): Promise<boolean> {
+    const task = this.tasks.get(name);
+    if (!task) {
+      throw new Error(`Task ${name} is not registered`);
+    }
+
+    if (!this.leaderLock.isLeader) {
+      logger.debug(`Not the scheduler leader, skipping task ${name}`);
+      return false;
+    }
+
+    if (this.running.has(name)) {
+      logger.warn(`Task ${name} is still running, skipping this run`);
+      return false;
+    }
+
+    this.running.add(name);
+    logger.info(`Running scheduled task: ${name}`);
+
+    try {
+      await task.run();
+      return true;
+    } catch (error) {
+      logger.error(`Error in scheduled task ${name}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    } finally {
+      this.running.delete(name);
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const taskScheduler = new TaskScheduler();
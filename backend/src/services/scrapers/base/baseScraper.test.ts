@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { InternalAxiosRequestConfig } from 'axios';
+import { DeclarativeScraper } from '../declarative/declarativeScraper';
+import { academicWorkSite } from '../config/scraperSites';
+
+jest.mock('./crawlPolicy', () => ({
+  ...jest.requireActual('./crawlPolicy'),
+  crawlPolicy: {
+    check: jest.fn(async (url: string) => ({
+      url,
+      host: new URL(url).host,
+      allowed: true,
+      robotsTxt: 'missing',
+      robotsCheckedAt: new Date(),
+      crawlDelayMs: 0
+    })),
+    waitForTurn: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+const fixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, '../declarative/__fixtures__', name), 'utf-8');
+
+describe('BaseScraper cancellation', () => {
+  it('passes the collection signal to its requests and stops requesting once it is aborted', async () => {
+    const scraper = new DeclarativeScraper({
+      ...academicWorkSite,
+      concurrencyLimit: 1,
+      requestDelay: 10,
+      paginationConfig: { type: 'none' }
+    });
+    const controller = new AbortController();
+    const requests: InternalAxiosRequestConfig[] = [];
+
+    scraper['client'].defaults.adapter = async config => {
+      requests.push(config);
+
+      // Cancel while the first job page is being fetched
+      if (requests.length === 2) {
+        controller.abort();
+      }
+
+      const html = requests.length === 1 ? fixture('academic-work-listing.html') : fixture('academic-work-job.html');
+      return { data: html, status: 200, statusText: 'OK', headers: {}, config };
+    };
+
+    const result = await scraper.collect(controller.signal);
+
+    // The job page in flight is discarded and the second one never requested
+    expect(requests).toHaveLength(2);
+    expect(requests.every(request => request.signal === controller.signal)).toBe(true);
+    expect(result.jobsCollected).toBe(2);
+    expect(result.jobs).toHaveLength(0);
+    expect(result.errors.map(error => error.message)).toEqual([expect.stringContaining('canceled')]);
+
+    // Requests outside a collection are not tied to its signal
+    await scraper.testConnection();
+    expect(requests[2].signal).toBeUndefined();
+  });
+});
@@ -1,12 +1,22 @@
 /**
  * Base scraper class for web scraping job listings
  */
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
 import * as cheerio from 'cheerio';
 import { v4 as uuidv4 } from 'uuid';
-import { SourceAdapter, SourceConfig, CollectionResult, ErrorDetails, ChangeDetectionResult, JobData } from '../types';
+import {
+  SourceAdapter,
+  SourceConfig,
+  CollectionResult,
+  ErrorDetails,
+  ChangeDetectionResult,
+  JobData,
+  CrawlPolicyRecord
+} from '../types';
+import { crawlPolicy, CrawlRefusedError, SCRAPER_USER_AGENT } from './crawlPolicy';
+import { requestLimiter } from './requestLimiter';
+import { suggestSelectors, SelectorTarget } from './selectorRepair';
 import { logger } from '../../../utils/logger';
-import { validateJobData } from '../validators/jobDataValidator';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
@@ -32,7 +42,6 @@ export interface ScraperConfig extends SourceConfig {
     jobType?: string;
   };
   requestHeaders?: Record<string, string>;
-  useUserAgent?: boolean;
   proxyConfig?: {
     enabled: boolean;
     rotationStrategy: 'round-robin' | 'random';
@@ -40,11 +49,18 @@ export interface ScraperConfig extends SourceConfig {
   };
 }
 
+// Number of refused URLs kept per host in the collection result
+const MAX_REFUSED_URLS = 20;
+
 export abstract class BaseScraper implements SourceAdapter {
   protected readonly client: AxiosInstance;
   public readonly config: ScraperConfig;
   protected fingerprints: Map<string, string> = new Map();
   protected readonly snapshotDir: string;
+  // Crawl policy decisions of the current collection, per host
+  protected crawlRecords: Map<string, CrawlPolicyRecord> = new Map();
+  // Signal of the current collection, attached to every request
+  protected signal?: AbortSignal;
   
   /**
    * Creates a new base scraper
@@ -66,15 +82,25 @@ export abstract class BaseScraper implements SourceAdapter {
       headers: {
         'Accept': 'text/html,application/xhtml+xml,application/xml',
         'Accept-Language': 'en-US,en;q=0.5',
-        ...(config.useUserAgent ? {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        } : {}),
+        // We identify ourselves rather than pose as a browser
+        'User-Agent': SCRAPER_USER_AGENT,
         ...(config.requestHeaders || {})
       }
     });
     
-    // Set up request interceptor for rate limiting
-    this.client.interceptors.request.use(this.rateLimit.bind(this));
+    // Rate, concurrency and retry limits come from the source configuration
+    requestLimiter.apply(this.client, config);
+    
+    // Interceptors added later run first, so robots.txt is checked before waiting
+    this.client.interceptors.request.use(this.enforceCrawlPolicy.bind(this));
+    
+    // Requests of a cancelled collection are aborted, including those waiting their turn
+    this.client.interceptors.request.use(config => {
+      if (this.signal && !config.signal) {
+        config.signal = this.signal;
+      }
+      return config;
+    });
   }
 
   /**
@@ -131,11 +157,28 @@ export abstract class BaseScraper implements SourceAdapter {
 
   /**
    * Collects job listings from the source
+   * @param signal Cancels the collection's requests when aborted
+   */
+  public async collect(signal?: AbortSignal): Promise<CollectionResult> {
+    this.signal = signal;
+    
+    try {
+      return await this.collectListings();
+    } finally {
+      this.signal = undefined;
+    }
+  }
+
+  /**
+   * Collects job URLs from the listing pages and the job data behind them
+   * @protected
+   * @returns Collection result
    */
-  public async collect(): Promise<CollectionResult> {
+  protected async collectListings(): Promise<CollectionResult> {
     const startTime = Date.now();
     const errors: ErrorDetails[] = [];
     const jobsData: JobData[] = [];
+    this.crawlRecords.clear();
     
     logger.info(`Starting collection for ${this.config.name}`);
     
@@ -144,56 +187,43 @@ export abstract class BaseScraper implements SourceAdapter {
       const jobUrls = await this.collectJobUrls();
       logger.info(`Collected ${jobUrls.length} job URLs from ${this.config.name}`);
       
-      // Process each job URL
-      let processed = 0;
-      let validationFailures = 0;
-      
-      for (const url of jobUrls) {
-        try {
-          // Check if we've exceeded the maximum concurrent requests
-          await this.enforceMaxConcurrentRequests();
-          
-          // Extract job data
-          const jobData = await this.extractJobData(url);
+      // Process the job URLs with up to maxConcurrentRequests in flight;
+      // validation happens in the collection pipeline
+      let next = 0;
+      const worker = async () => {
+        while (next < jobUrls.length && !this.signal?.aborted) {
+          const url = jobUrls[next++];
           
-          // Validate job data
-          const validationResult = validateJobData(jobData);
-          
-          if (validationResult.valid) {
-            jobsData.push(jobData);
-            processed++;
-          } else {
-            validationFailures++;
-            // Add validation issues to job metadata
-            jobData.collectingMetadata.validationIssues = validationResult.issues;
-            
-            // Include job if only warnings
-            if (validationResult.issues.every(issue => issue.severity !== 'error')) {
-              jobsData.push(jobData);
-              processed++;
+          try {
+            jobsData.push(await this.extractJobData(url));
+          } catch (error) {
+            // Refused URLs are recorded in the crawl policy, not as errors
+            if (error instanceof CrawlRefusedError) {
+              continue;
             }
+            
+            const errorDetail: ErrorDetails = {
+              code: 'job_extraction_error',
+              message: `Failed to extract job data from ${url}: ${error instanceof Error ? error.message : String(error)}`,
+              timestamp: new Date(),
+              severity: 'error',
+              context: { url }
+            };
+            errors.push(errorDetail);
+            logger.error(`Failed to extract job data for ${this.config.name}`, errorDetail);
           }
-          
-          // Add a small delay between requests
-          await new Promise(resolve => setTimeout(resolve, 200));
-        } catch (error) {
-          const errorDetail: ErrorDetails = {
-            code: 'job_extraction_error',
-            message: `Failed to extract job data from ${url}: ${error instanceof Error ? error.message : String(error)}`,
-            timestamp: new Date(),
-            severity: 'error',
-            context: { url }
-          };
-          errors.push(errorDetail);
-          logger.error(`Failed to extract job data for ${this.config.name}`, errorDetail);
         }
-      }
+      };
+      
+      await Promise.all(
+        Array.from({ length: Math.max(1, this.config.maxConcurrentRequests) }, () => worker())
+      );
       
       const status = errors.length === 0 ? 'success' : (jobsData.length > 0 ? 'partial' : 'failure');
       
       logger.info(`Collection completed for ${this.config.name}`, {
         jobsCollected: jobUrls.length,
-        jobsProcessed: processed,
+        jobsProcessed: jobsData.length,
         errorCount: errors.length,
         durationMs: Date.now() - startTime
       });
@@ -203,12 +233,13 @@ export abstract class BaseScraper implements SourceAdapter {
         timestamp: new Date(),
         status,
         jobsCollected: jobUrls.length,
-        jobsProcessed: processed,
-        jobsStored: jobsData.length,
-        validationFailures,
+        jobsProcessed: jobsData.length,
+        jobsStored: 0, // Updated by the collection pipeline once the jobs are stored
+        validationFailures: 0,
         durationMs: Date.now() - startTime,
         errors,
-        jobs: jobsData
+        jobs: jobsData,
+        crawlPolicy: [...this.crawlRecords.values()]
       };
     } catch (error) {
       const errorDetail: ErrorDetails = {
@@ -231,7 +262,8 @@ export abstract class BaseScraper implements SourceAdapter {
         validationFailures: 0,
         durationMs: Date.now() - startTime,
         errors,
-        jobs: []
+        jobs: [],
+        crawlPolicy: [...this.crawlRecords.values()]
       };
     }
   }
@@ -282,8 +314,12 @@ export abstract class BaseScraper implements SourceAdapter {
         };
       }
       
-      // Fingerprints don't match, analyze changes
-      const changes = await this.analyzeStructuralChanges(oldFingerprint, newFingerprint);
+      // Fingerprints don't match, analyze changes against the page we just fetched
+      const oldSnapshot = this.loadSnapshot('listing');
+      const changes = await this.analyzeStructuralChanges(oldFingerprint, newFingerprint, html);
+      
+      // Propose replacements for selectors that no longer match
+      const suggestions = oldSnapshot ? suggestSelectors(oldSnapshot, html, this.getSelectorTargets()) : [];
       
       // Update fingerprint and save snapshot if changes detected
       this.fingerprints.set('listing', newFingerprint);
@@ -299,7 +335,8 @@ export abstract class BaseScraper implements SourceAdapter {
       logger.info(`Structural change detection completed for ${this.config.name}`, {
         status,
         changeCount: changes.length,
-        majorChangeCount: majorChanges.length
+        majorChangeCount: majorChanges.length,
+        suggestionCount: suggestions.length
       });
       
       return {
@@ -307,7 +344,9 @@ export abstract class BaseScraper implements SourceAdapter {
         timestamp: new Date(),
         status,
         changes,
-        canAdaptAutomatically
+        canAdaptAutomatically,
+        suggestions,
+        snapshot: html
       };
     } catch (error) {
       logger.error(`Failed to detect structural changes for ${this.config.name}`, {
@@ -487,21 +526,23 @@ export abstract class BaseScraper implements SourceAdapter {
    * @protected
    * @param oldFingerprint Old fingerprint
    * @param newFingerprint New fingerprint
+   * @param currentSnapshot Current page, fetched when not given
    * @returns List of structural changes
    */
-  protected async analyzeStructuralChanges(oldFingerprint: string, newFingerprint: string): Promise<any[]> {
+  protected async analyzeStructuralChanges(
+    oldFingerprint: string,
+    newFingerprint: string,
+    currentSnapshot?: string
+  ): Promise<any[]> {
     // Basic implementation - in a real system this would be more sophisticated
     const changes = [];
     
     try {
       // Load the old snapshot
-      const oldSnapshotPath = path.join(this.snapshotDir, 'listing.html');
-      const oldSnapshot = fs.existsSync(oldSnapshotPath) ? 
-        fs.readFileSync(oldSnapshotPath, 'utf-8') : '';
+      const oldSnapshot = this.loadSnapshot('listing');
       
       // Fetch the current page
-      const response = await this.client.get(this.config.listingPath);
-      const newSnapshot = response.data;
+      const newSnapshot = currentSnapshot ?? (await this.client.get(this.config.listingPath)).data;
       
       if (!oldSnapshot) {
         changes.push({
@@ -629,27 +670,69 @@ export abstract class BaseScraper implements SourceAdapter {
   }
 
   /**
-   * Rate limits requests according to configuration
+   * Lists the selectors checked against the listing page, with the config
+   * keys that suggested replacements are accepted under
    * @protected
-   * @param config Request config
-   * @returns Modified request config
+   * @returns Selector targets
    */
-  protected async rateLimit(config: AxiosRequestConfig): Promise<AxiosRequestConfig> {
-    // Add a random delay to avoid detection and spread out requests
-    const delay = Math.floor(60000 / this.config.rateLimitPerMinute);
-    await new Promise(resolve => setTimeout(resolve, delay));
+  protected getSelectorTargets(): SelectorTarget[] {
+    const targets: SelectorTarget[] = [
+      { key: 'listingSelector', selector: this.config.listingSelector },
+      { key: 'detailLinkSelector', selector: this.config.detailLinkSelector, scope: this.config.listingSelector }
+    ];
     
-    return config;
+    for (const [field, selector] of Object.entries(this.config.fieldsMap)) {
+      if (selector) {
+        targets.push({ key: `fieldsMap.${field}`, selector });
+      }
+    }
+    
+    return targets;
   }
 
   /**
-   * Enforces the maximum number of concurrent requests
+   * Refuses requests that robots.txt disallows and spaces requests to each
+   * host by its crawl delay. Decisions are recorded for the collection result.
    * @protected
+   * @param config Request config
+   * @returns Request config
    */
-  protected async enforceMaxConcurrentRequests(): Promise<void> {
-    // Simple implementation - in a real system this would use a semaphore
-    const delay = Math.floor(1000 / this.config.maxConcurrentRequests);
-    await new Promise(resolve => setTimeout(resolve, delay));
+  protected async enforceCrawlPolicy(config: InternalAxiosRequestConfig): Promise<InternalAxiosRequestConfig> {
+    const decision = await crawlPolicy.check(this.client.getUri(config));
+    
+    let record = this.crawlRecords.get(decision.host);
+    if (!record) {
+      record = {
+        host: decision.host,
+        robotsTxt: decision.robotsTxt,
+        robotsCheckedAt: decision.robotsCheckedAt,
+        crawlDelayMs: decision.crawlDelayMs,
+        requestsAllowed: 0,
+        requestsRefused: 0,
+        refusedUrls: []
+      };
+      this.crawlRecords.set(decision.host, record);
+    }
+    
+    // The latest rules applied
+    record.robotsTxt = decision.robotsTxt;
+    record.robotsCheckedAt = decision.robotsCheckedAt;
+    record.crawlDelayMs = decision.crawlDelayMs;
+    
+    if (!decision.allowed) {
+      record.requestsRefused++;
+      if (record.refusedUrls.length < MAX_REFUSED_URLS) {
+        record.refusedUrls.push(decision.url);
+      }
+      
+      logger.info(`Crawl policy refused ${decision.url} for ${this.config.name}`, { robotsTxt: decision.robotsTxt });
+      throw new CrawlRefusedError(decision);
+    }
+    
+    record.requestsAllowed++;
+    await crawlPolicy.waitForTurn(decision);
+    
+    return config;
   }
 
   /**
@@ -700,6 +783,18 @@ export abstract class BaseScraper implements SourceAdapter {
     }
   }
 
+  /**
+   * Loads a saved snapshot of a page
+   * @protected
+   * @param name Snapshot name
+   * @returns HTML content, or an empty string when there is none
+   */
+  protected loadSnapshot(name: string): string {
+    const snapshotPath = path.join(this.snapshotDir, `${name}.html`);
+    
+    return fs.existsSync(snapshotPath) ? fs.readFileSync(snapshotPath, 'utf-8') : '';
+  }
+
   /**
    * Saves a snapshot of a page
    * @protected
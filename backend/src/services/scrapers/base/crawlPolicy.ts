@@ -0,0 +1,188 @@
+/**
+ * Crawl policy shared by all scrapers. robots.txt is fetched and cached per
+ * host; URLs it disallows are refused, and requests to a host are spaced by
+ * its Crawl-delay (or our own minimum delay, whichever is longer).
+ */
+import axios from 'axios';
+import robotsParser from 'robots-parser';
+import * as crypto from 'crypto';
+import { logger } from '../../../utils/logger';
+
+type Robots = ReturnType<typeof robotsParser>;
+
+export const SCRAPER_USER_AGENT = process.env.SCRAPER_USER_AGENT ||
+  'Student-Jobs-Platform-Bot/1.0 (+https://studentjobsplatform.com/bot; bot@studentjobsplatform.com)';
+
+// Product token that robots.txt User-agent lines are matched against
+const USER_AGENT_TOKEN = SCRAPER_USER_AGENT.split('/')[0];
+
+const ROBOTS_CACHE_MS = parseInt(process.env.ROBOTS_CACHE_MINUTES || '1440') * 60 * 1000;
+// An unreachable robots.txt blocks the host, so it is retried sooner
+const ROBOTS_RETRY_MS = parseInt(process.env.ROBOTS_RETRY_MINUTES || '10') * 60 * 1000;
+const MIN_CRAWL_DELAY_MS = parseInt(process.env.CRAWL_MIN_DELAY_MS || '1000');
+
+export type RobotsTxtStatus = 'fetched' | 'missing' | 'unavailable';
+
+export interface CrawlDecision {
+  url: string;
+  host: string;
+  allowed: boolean;
+  robotsTxt: RobotsTxtStatus;
+  robotsCheckedAt: Date;
+  crawlDelayMs: number;
+}
+
+interface RobotsEntry {
+  status: RobotsTxtStatus;
+  robots: Robots | null; // null when there are no rules to follow
+  checkedAt: Date;
+  expiresAt: number;
+  hash?: string;
+}
+
+/**
+ * Thrown for requests the crawl policy does not allow
+ */
+export class CrawlRefusedError extends Error {
+  constructor(public readonly decision: CrawlDecision) {
+    super(decision.robotsTxt === 'unavailable'
+      ? `robots.txt for ${decision.host} could not be read, refusing ${decision.url}`
+      : `Disallowed by robots.txt: ${decision.url}`);
+    this.name = 'CrawlRefusedError';
+  }
+}
+
+class CrawlPolicy {
+  private entries: Map<string, RobotsEntry> = new Map();
+  private pending: Map<string, Promise<RobotsEntry>> = new Map();
+  // Earliest time of the next request, per host
+  private nextRequestAt: Map<string, number> = new Map();
+
+  /**
+   * Checks a URL against the robots.txt of its host
+   * @param url Absolute URL
+   * @returns Decision, with the host's crawl delay
+   */
+  public async check(url: string): Promise<CrawlDecision> {
+    const { origin, host } = new URL(url);
+    const entry = await this.getEntry(origin);
+
+    // Without readable rules we can't know what is allowed, so nothing is
+    const allowed = entry.status === 'unavailable'
+      ? false
+      : entry.robots?.isAllowed(url, USER_AGENT_TOKEN) !== false;
+
+    const crawlDelaySeconds = entry.robots?.getCrawlDelay(USER_AGENT_TOKEN) || 0;
+
+    return {
+      url,
+      host,
+      allowed,
+      robotsTxt: entry.status,
+      robotsCheckedAt: entry.checkedAt,
+      crawlDelayMs: Math.max(crawlDelaySeconds * 1000, MIN_CRAWL_DELAY_MS)
+    };
+  }
+
+  /**
+   * Waits until the host's crawl delay has passed since the previous
+   * request to it, and reserves the next slot
+   * @param decision Decision for the request
+   */
+  public async waitForTurn(decision: CrawlDecision): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequestAt.get(decision.host) || 0);
+
+    this.nextRequestAt.set(decision.host, slot + decision.crawlDelayMs);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  /**
+   * Gets the cached robots.txt of a host, fetching it when stale
+   * @param origin Host origin
+   * @returns Robots entry
+   */
+  private async getEntry(origin: string): Promise<RobotsEntry> {
+    const cached = this.entries.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    // Concurrent requests to the same host share one fetch
+    let pending = this.pending.get(origin);
+    if (!pending) {
+      pending = this.fetchRobots(origin, cached).finally(() => this.pending.delete(origin));
+      this.pending.set(origin, pending);
+    }
+
+    const entry = await pending;
+    this.entries.set(origin, entry);
+
+    return entry;
+  }
+
+  /**
+   * Fetches and parses robots.txt. A missing file (4xx) allows everything;
+   * a server error, network error or access-controlled file (401/403)
+   * allows nothing, unless an earlier copy of the rules is cached.
+   * @param origin Host origin
+   * @param previous Previously cached entry
+   * @returns Robots entry
+   */
+  private async fetchRobots(origin: string, previous?: RobotsEntry): Promise<RobotsEntry> {
+    const robotsUrl = `${origin}/robots.txt`;
+    const checkedAt = new Date();
+
+    try {
+      const response = await axios.get<string>(robotsUrl, {
+        timeout: 10000,
+        maxRedirects: 5,
+        maxContentLength: 500 * 1024, // Crawlers need only read the first 500 KiB
+        responseType: 'text',
+        headers: { 'User-Agent': SCRAPER_USER_AGENT },
+        validateStatus: () => true
+      });
+
+      if (response.status >= 200 && response.status < 300) {
+        const content = String(response.data);
+        const hash = crypto.createHash('sha256').update(content).digest('hex');
+
+        if (previous?.hash && previous.hash !== hash) {
+          logger.warn(`robots.txt changed for ${origin}`, { robotsUrl });
+        }
+
+        return {
+          status: 'fetched',
+          robots: robotsParser(robotsUrl, content),
+          checkedAt,
+          expiresAt: Date.now() + ROBOTS_CACHE_MS,
+          hash
+        };
+      }
+
+      if (response.status >= 400 && response.status < 500 && response.status !== 401 && response.status !== 403) {
+        logger.debug(`No robots.txt for ${origin}`, { status: response.status });
+        return { status: 'missing', robots: null, checkedAt, expiresAt: Date.now() + ROBOTS_CACHE_MS };
+      }
+
+      throw new Error(`robots.txt returned status ${response.status}`);
+    } catch (error) {
+      logger.warn(`Could not read robots.txt for ${origin}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      // Keep following the last rules we could read until they can be refreshed
+      if (previous && previous.status !== 'unavailable') {
+        return { ...previous, expiresAt: Date.now() + ROBOTS_RETRY_MS };
+      }
+
+      return { status: 'unavailable', robots: null, checkedAt, expiresAt: Date.now() + ROBOTS_RETRY_MS };
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const crawlPolicy = new CrawlPolicy();
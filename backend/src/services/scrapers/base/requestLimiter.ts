@@ -0,0 +1,297 @@
+/**
+ * Rate and concurrency limits shared by all sources. Requests are paced by a
+ * token bucket per host and capped by a semaphore per source. Failed
+ * requests are retried with the source's backoff, and 429/503 responses
+ * pause every request to the host for as long as Retry-After asks.
+ */
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { SourceConfig } from '../types';
+import { logger } from '../../../utils/logger';
+
+export type RequestLimits = Pick<SourceConfig, 'id' | 'rateLimitPerMinute' | 'maxConcurrentRequests' | 'retryConfig'>;
+
+interface LimitedRequestConfig extends InternalAxiosRequestConfig {
+  releaseSlot?: () => void;
+  retryCount?: number;
+}
+
+// A Retry-After longer than this fails the request instead of stalling the source
+const MAX_RETRY_AFTER_MS = parseInt(process.env.RATE_LIMIT_MAX_RETRY_AFTER_SECONDS || '300') * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Token bucket: holds up to `capacity` tokens, refilled at a steady rate.
+ * Each request takes one token, waiting for it when the bucket is empty.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+  private pausedUntil = 0;
+  // Waiting callers are served in order
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param ratePerMinute Tokens added per minute
+   * @param capacity Largest burst
+   */
+  constructor(private ratePerMinute: number, private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Lowers the rate; sources sharing a host get the strictest of their limits
+   * @param ratePerMinute New rate
+   */
+  public lowerRate(ratePerMinute: number): void {
+    if (ratePerMinute < this.ratePerMinute) {
+      this.refill();
+      this.ratePerMinute = ratePerMinute;
+    }
+  }
+
+  /**
+   * Hands out no tokens until the given time
+   * @param time Timestamp in ms
+   */
+  public pauseUntil(time: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, time);
+  }
+
+  /**
+   * Waits for and takes a token
+   */
+  public take(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn.catch(() => undefined);
+
+    return turn;
+  }
+
+  private async waitForToken(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+
+      if (this.pausedUntil > now) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.refill();
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(Math.ceil(((1 - this.tokens) * 60000) / this.ratePerMinute));
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.refilledAt) * this.ratePerMinute) / 60000);
+    this.refilledAt = now;
+  }
+}
+
+/**
+ * Counting semaphore; waiting callers are let in in order
+ */
+export class Semaphore {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  /**
+   * @param max Number of holders allowed at the same time
+   */
+  constructor(private readonly max: number) {}
+
+  /**
+   * Waits for a free slot
+   * @returns Function that releases the slot; calling it again does nothing
+   */
+  public async acquire(): Promise<() => void> {
+    if (this.active < this.max) {
+      this.active++;
+    } else {
+      // The releasing holder hands its slot over, so active stays the same
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
+
+class RequestLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+  private semaphores: Map<string, Semaphore> = new Map();
+
+  /**
+   * Applies a source's limits to its HTTP client. Request interceptors added
+   * after this run before it, so checks that may refuse a request should be
+   * added afterwards.
+   * @param client HTTP client
+   * @param limits Source ID, rate, concurrency and retry configuration
+   */
+  public apply(client: AxiosInstance, limits: RequestLimits): void {
+    client.interceptors.request.use(config => this.beforeRequest(client, config, limits));
+
+    client.interceptors.response.use(
+      response => this.afterResponse(response),
+      error => this.onError(client, error, limits)
+    );
+  }
+
+  /**
+   * Waits for a concurrency slot of the source, then for a token of the host
+   */
+  private async beforeRequest(
+    client: AxiosInstance,
+    config: LimitedRequestConfig,
+    limits: RequestLimits
+  ): Promise<InternalAxiosRequestConfig> {
+    const bucket = this.getBucket(this.getHost(client, config), limits);
+
+    config.releaseSlot = await this.getSemaphore(limits).acquire();
+    await bucket.take();
+
+    return config;
+  }
+
+  private afterResponse(response: AxiosResponse): AxiosResponse {
+    (response.config as LimitedRequestConfig).releaseSlot?.();
+    return response;
+  }
+
+  /**
+   * Retries rate-limited, unavailable and failed requests with backoff,
+   * honouring Retry-After
+   */
+  private async onError(client: AxiosInstance, error: unknown, limits: RequestLimits): Promise<AxiosResponse> {
+    // Requests refused before they were sent, e.g. by the crawl policy
+    if (!axios.isAxiosError(error) || !error.config) {
+      throw error;
+    }
+
+    const config = error.config as LimitedRequestConfig;
+    config.releaseSlot?.();
+
+    const status = error.response?.status;
+    const retryCount = config.retryCount || 0;
+
+    // Client errors won't change on retry, and cancelled requests are meant to stop
+    const retryable = status === undefined
+      ? error.code !== 'ERR_CANCELED'
+      : status === 429 || status >= 500;
+
+    if (!retryable || retryCount >= limits.retryConfig.maxRetries) {
+      throw error;
+    }
+
+    let delayMs = limits.retryConfig.initialDelay * Math.pow(limits.retryConfig.backoffFactor, retryCount);
+
+    if (status === 429 || status === 503) {
+      const retryAfterMs = parseRetryAfter(error.response?.headers['retry-after']);
+
+      if (retryAfterMs !== undefined) {
+        if (retryAfterMs > MAX_RETRY_AFTER_MS) {
+          logger.warn(`${limits.id}: Retry-After of ${Math.round(retryAfterMs / 1000)}s is too long, giving up`, {
+            url: config.url,
+            status
+          });
+          throw error;
+        }
+        delayMs = retryAfterMs;
+      }
+
+      // The whole host is backing off, not just this request
+      this.getBucket(this.getHost(client, config), limits).pauseUntil(Date.now() + delayMs);
+    }
+
+    config.retryCount = retryCount + 1;
+
+    logger.warn(`${limits.id}: retrying request in ${delayMs}ms (${config.retryCount}/${limits.retryConfig.maxRetries})`, {
+      url: config.url,
+      method: config.method,
+      status: status ?? error.code
+    });
+
+    await sleep(delayMs);
+
+    return client.request(config);
+  }
+
+  private getBucket(host: string, limits: RequestLimits): TokenBucket {
+    let bucket = this.buckets.get(host);
+
+    if (!bucket) {
+      bucket = new TokenBucket(limits.rateLimitPerMinute, Math.max(1, limits.maxConcurrentRequests));
+      this.buckets.set(host, bucket);
+    } else {
+      bucket.lowerRate(limits.rateLimitPerMinute);
+    }
+
+    return bucket;
+  }
+
+  private getSemaphore(limits: RequestLimits): Semaphore {
+    let semaphore = this.semaphores.get(limits.id);
+
+    if (!semaphore) {
+      semaphore = new Semaphore(Math.max(1, limits.maxConcurrentRequests));
+      this.semaphores.set(limits.id, semaphore);
+    }
+
+    return semaphore;
+  }
+
+  private getHost(client: AxiosInstance, config: InternalAxiosRequestConfig): string {
+    return new URL(client.getUri(config)).host;
+  }
+}
+
+/**
+ * Converts a delay between requests to a rate
+ * @param requestDelay Delay in ms
+ * @returns Requests per minute
+ */
+export function requestDelayToRate(requestDelay: number): number {
+  return requestDelay > 0 ? Math.floor(60000 / requestDelay) : 60;
+}
+
+/**
+ * Parses a Retry-After header, given in seconds or as an HTTP date
+ * @param value Header value
+ * @returns Delay in ms, or undefined when missing or invalid
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Create and export a singleton instance
+export const requestLimiter = new RequestLimiter();
@@ -0,0 +1,257 @@
+/**
+ * Proposes replacement selectors for selectors that matched the old snapshot
+ * of a page but match nothing in the new one. Elements the old selector
+ * matched are compared with every element of the new page by text, tag,
+ * classes, attributes and parent; selectors built from the closest elements
+ * are then scored by how well what they match resembles the old matches.
+ */
+import * as cheerio from 'cheerio';
+import { SelectorSuggestion } from '../types';
+
+export interface SelectorTarget {
+  key: string; // config path, e.g. selectors.jobCard
+  selector: string;
+  scope?: string; // selector the target is relative to, e.g. the job card
+}
+
+interface ElementProfile {
+  tag: string;
+  classes: string[];
+  attributes: string[];
+  text: string;
+  parent: string;
+}
+
+// Old matches compared against, and the candidates kept per broken selector
+const MAX_EXAMPLES = 20;
+const MAX_CANDIDATES = 3;
+// Elements scoring lower than this don't look like the old matches
+const MIN_ELEMENT_SCORE = 0.5;
+const MIN_CANDIDATE_SCORE = 0.3;
+
+/**
+ * Suggests replacements for the targets that broke between two snapshots
+ * @param oldHtml Previous snapshot
+ * @param newHtml Current snapshot
+ * @param targets Selectors to check
+ * @returns Suggestions for the broken selectors
+ */
+export function suggestSelectors(oldHtml: string, newHtml: string, targets: SelectorTarget[]): SelectorSuggestion[] {
+  const $old = cheerio.load(oldHtml);
+  const $new = cheerio.load(newHtml);
+  const suggestions: SelectorSuggestion[] = [];
+
+  for (const target of targets) {
+    try {
+      const oldMatches = select($old, target.selector, target.scope);
+      if (oldMatches.length === 0 || select($new, target.selector, target.scope).length > 0) {
+        continue;
+      }
+
+      suggestions.push({
+        key: target.key,
+        selector: target.selector,
+        candidates: findCandidates($old, oldMatches, $new, target)
+      });
+    } catch (error) {
+      // An invalid selector in the config can't be compared
+      continue;
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * Finds and scores replacement selectors for a broken target
+ */
+function findCandidates(
+  $old: cheerio.CheerioAPI,
+  oldMatches: cheerio.Cheerio<any>,
+  $new: cheerio.CheerioAPI,
+  target: SelectorTarget
+): SelectorSuggestion['candidates'] {
+  const examples = oldMatches.slice(0, MAX_EXAMPLES).toArray().map(element => profile($old(element)));
+
+  // A broken scope means the page changed around the target too, so look everywhere
+  const newScope = target.scope ? $new(target.scope) : $new.root();
+  const searchRoot = newScope.length > 0 ? newScope : $new.root();
+
+  // Score every element by its closest old match
+  const elementScores = new Map<any, number>();
+  searchRoot.find('*').each((_, element) => {
+    const candidate = profile($new(element));
+    const score = Math.max(...examples.map(example => similarity(example, candidate)));
+
+    if (score >= MIN_ELEMENT_SCORE) {
+      elementScores.set(element, score);
+    }
+  });
+
+  const closest = [...elementScores.entries()].sort((a, b) => b[1] - a[1]).slice(0, 10);
+  const selectors = new Set(closest.flatMap(([element]) => buildSelectors($new(element))));
+  const scope = newScope.length > 0 ? target.scope : undefined;
+
+  const candidates: SelectorSuggestion['candidates'] = [];
+
+  for (const selector of selectors) {
+    let matches: cheerio.Cheerio<any>;
+    try {
+      matches = select($new, selector, scope);
+    } catch (error) {
+      continue;
+    }
+    if (matches.length === 0) {
+      continue;
+    }
+
+    // Share of the matches that look like the old ones, their average resemblance,
+    // and how close the number of matches is to before
+    const scores = matches.toArray().map(element => elementScores.get(element) || 0);
+    const precision = scores.filter(score => score > 0).length / scores.length;
+    const resemblance = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const countRatio = Math.min(matches.length, oldMatches.length) / Math.max(matches.length, oldMatches.length);
+    const score = precision * resemblance * Math.sqrt(countRatio);
+
+    if (score >= MIN_CANDIDATE_SCORE) {
+      candidates.push({
+        selector,
+        score: Math.round(score * 100) / 100,
+        matches: matches.length,
+        samples: matches.slice(0, 3).toArray().map(element => normalizeText($new(element).text()).slice(0, 100))
+      });
+    }
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score || a.selector.length - b.selector.length)
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Selects elements, relative to a scope when one is given
+ */
+function select($: cheerio.CheerioAPI, selector: string, scope?: string): cheerio.Cheerio<any> {
+  return scope ? $(scope).find(selector) : $(selector);
+}
+
+/**
+ * Builds simple selectors for an element: by ID, by each stable class,
+ * by all its stable classes, and by tag under its parent's class
+ */
+function buildSelectors(element: cheerio.Cheerio<any>): string[] {
+  const tag = (element.prop('tagName') || '').toLowerCase();
+  const classes = stableClasses(element.attr('class'));
+  const id = element.attr('id');
+  const selectors: string[] = [];
+
+  if (id && isStableName(id)) {
+    selectors.push(`#${id}`);
+  }
+
+  for (const className of classes) {
+    selectors.push(`.${className}`, `${tag}.${className}`);
+  }
+
+  if (classes.length > 1) {
+    selectors.push(`${tag}.${classes.join('.')}`);
+  }
+
+  const parentClasses = stableClasses(element.parent().attr('class'));
+  if (parentClasses.length > 0) {
+    selectors.push(`.${parentClasses[0]} > ${tag}`);
+  }
+
+  return selectors;
+}
+
+/**
+ * Compares two elements
+ * @returns Similarity from 0 to 1
+ */
+function similarity(a: ElementProfile, b: ElementProfile): number {
+  // Listing pages mostly show the same jobs before and after a redesign
+  const text = a.text && b.text
+    ? (a.text === b.text ? 1 : jaccard(a.text.split(' '), b.text.split(' ')))
+    : (a.text === b.text ? 0.5 : 0);
+
+  return (
+    0.4 * text +
+    0.2 * (a.tag === b.tag ? 1 : 0) +
+    0.2 * dice(a.classes.join(' '), b.classes.join(' ')) +
+    0.1 * jaccard(a.attributes, b.attributes) +
+    0.1 * dice(a.parent, b.parent)
+  );
+}
+
+function profile(element: cheerio.Cheerio<any>): ElementProfile {
+  const parent = element.parent();
+
+  return {
+    tag: (element.prop('tagName') || '').toLowerCase(),
+    classes: stableClasses(element.attr('class')),
+    attributes: Object.keys(element.attr() || {}).filter(name => name !== 'class' && name !== 'id').sort(),
+    text: normalizeText(element.text()).slice(0, 200),
+    parent: `${(parent.prop('tagName') || '').toLowerCase()} ${stableClasses(parent.attr('class')).join(' ')}`
+  };
+}
+
+/**
+ * Classes usable in a selector; generated ones (css-1x2y3z) change on every build
+ */
+function stableClasses(classAttribute?: string): string[] {
+  return (classAttribute || '').split(/\s+/).filter(isStableName);
+}
+
+function isStableName(name: string): boolean {
+  return /^[a-zA-Z_-][\w-]*$/.test(name) && !/\d{4,}/.test(name) && !/^(css|sc|jsx)-/.test(name);
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function jaccard(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 && setB.size === 0) {
+    return 1;
+  }
+
+  const shared = [...setA].filter(item => setB.has(item)).length;
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Dice coefficient of character bigrams, so job-card and jobCard count as close
+ */
+function dice(a: string, b: string): number {
+  const bigrams = (value: string) => {
+    const normalized = value.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const result: string[] = [];
+    for (let i = 0; i < normalized.length - 1; i++) {
+      result.push(normalized.slice(i, i + 2));
+    }
+    return result;
+  };
+
+  const bigramsA = bigrams(a);
+  const bigramsB = bigrams(b);
+  if (bigramsA.length === 0 || bigramsB.length === 0) {
+    return bigramsA.length === bigramsB.length && a === b ? 1 : 0;
+  }
+
+  const counts = new Map<string, number>();
+  bigramsA.forEach(bigram => counts.set(bigram, (counts.get(bigram) || 0) + 1));
+
+  let shared = 0;
+  for (const bigram of bigramsB) {
+    const count = counts.get(bigram) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(bigram, count - 1);
+    }
+  }
+
+  return (2 * shared) / (bigramsA.length + bigramsB.length);
+}
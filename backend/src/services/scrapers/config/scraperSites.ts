@@ -0,0 +1,68 @@
+/**
+ * Sites collected by the declarative scraper. Adding a site only takes a
+ * config entry; check it against saved pages with src/scripts/test-scraper.ts.
+ */
+import { ScraperSourceConfig } from '../../data-collection';
+
+export const academicWorkSite: ScraperSourceConfig = {
+  id: 'academic-work',
+  name: 'Academic Work',
+  type: 'scraper',
+  isEnabled: true,
+  scheduleExpression: '0 5 * * *', // Every day at 05:00
+  priority: 50,
+  concurrencyLimit: 2,
+  requestDelay: 3000, // 20 requests per minute
+  targetUrl: 'https://www.academicwork.se/se/jobbsokande/lediga-jobb',
+  paginationConfig: {
+    type: 'param',
+    paramName: 'page',
+    maxPages: 10
+  },
+  selectors: {
+    jobList: '.job-list__list',
+    jobCard: '.job-card',
+    url: '.job-card__link'
+  },
+  detailSelectors: {
+    title: '.job-detail-main__title',
+    company: { selector: '.job-detail-main__information p a', default: 'Academic Work' },
+    location: { selector: '.job-detail-main__information p:nth-child(3)', regex: 'Location:\\s*(.*)' },
+    description: '.job-detail-description',
+    descriptionFormatted: '.job-detail-description',
+    applicationUrl: '.job-detail-apply__button',
+    deadline: {
+      selector: '.job-detail-publish__deadline span',
+      regex: 'Application deadline:\\s*(.*)',
+      parser: 'date',
+      locale: 'en'
+    },
+    workingHoursType: {
+      selector: '.job-detail-main__information p:nth-child(4)',
+      regex: '\\b(Full-time|Part-time)\\b'
+    },
+    employmentType: {
+      selector: '.job-detail-main__information p:nth-child(4)',
+      regex: '\\b(Permanent|Temporary|Contract)\\b'
+    },
+    duration: {
+      selector: '.job-detail-main__information p:nth-child(4)',
+      regex: '\\d+\\s*(?:weeks?|months?|years?)'
+    },
+    skills: [
+      '.job-detail-description h2:contains("Requirements") + ul li',
+      '.job-detail-description h2:contains("Qualifications") + ul li'
+    ].join(', '),
+    preferredSkills: [
+      '.job-detail-description h2:contains("Merits") + ul li',
+      '.job-detail-description h2:contains("Nice to have") + ul li'
+    ].join(', ')
+  },
+  useHeadlessBrowser: false,
+  sourceSpecificConfig: {}
+};
+
+// Export all scraper sites
+export const scraperSites: ScraperSourceConfig[] = [
+  academicWorkSite
+];
@@ -12,6 +12,7 @@ export const jobTechConfig: SourceConfig = {
     frequency: 'hourly',
     cron: '0 * * * *'  // Every hour
   },
+  priority: 100,
   maxConcurrentRequests: 5,
   rateLimitPerMinute: 60,  // Maximum requests per minute
   retryConfig: {
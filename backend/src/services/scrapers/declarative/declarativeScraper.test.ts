@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeclarativeScraper, applySelectorOverrides } from './declarativeScraper';
+import { academicWorkSite } from '../config/scraperSites';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf-8');
+
+const LISTING_URL = academicWorkSite.targetUrl;
+const JOB_URL = 'https://www.academicwork.se/se/jobb/junior-utvecklare-till-techbolag/12345';
+
+describe('DeclarativeScraper', () => {
+  const scraper = new DeclarativeScraper(academicWorkSite);
+
+  describe('extractListing', () => {
+    it('reads the linked job cards with absolute URLs', () => {
+      const { cards } = scraper.extractListing(fixture('academic-work-listing.html'), LISTING_URL);
+
+      expect(cards.map(card => card.url)).toEqual([
+        JOB_URL,
+        'https://www.academicwork.se/se/jobb/ekonomiassistent-deltid/67890'
+      ]);
+    });
+
+    it('follows next links when configured', () => {
+      const nextLinkScraper = new DeclarativeScraper({
+        ...academicWorkSite,
+        paginationConfig: { type: 'next-link', selector: '.pagination__next' }
+      });
+
+      const { nextPageUrl } = nextLinkScraper.extractListing(fixture('academic-work-listing.html'), LISTING_URL);
+
+      expect(nextPageUrl).toBe('https://www.academicwork.se/se/jobbsokande/lediga-jobb?page=2');
+    });
+
+    it('fails on a page without the element it waits for', () => {
+      const waitingScraper = new DeclarativeScraper({ ...academicWorkSite, waitForSelector: '.job-list__loaded' });
+
+      expect(() => waitingScraper.extractListing(fixture('academic-work-listing.html'), LISTING_URL))
+        .toThrow('has no element matching .job-list__loaded');
+    });
+  });
+
+  describe('extractJob', () => {
+    it('maps the job page to the unified job format', () => {
+      const job = scraper.extractJob(JOB_URL, { url: JOB_URL }, fixture('academic-work-job.html'));
+
+      expect(job).toMatchObject({
+        externalId: '12345',
+        source: 'academic-work',
+        sourceUrl: JOB_URL,
+        title: 'Junior utvecklare till techbolag',
+        company: { name: 'Techbolaget AB' },
+        location: { city: 'Stockholm', region: 'Stockholms län' },
+        applicationDetails: {
+          url: 'https://www.academicwork.se/se/ansok/12345',
+          deadlineDate: new Date(2025, 2, 31)
+        },
+        workingHoursType: 'Full-time',
+        employmentType: 'Temporary',
+        duration: '6 months',
+        skills: [
+          { name: 'TypeScript', required: true },
+          { name: 'SQL', required: true },
+          { name: 'React', required: false }
+        ]
+      });
+      expect(job.description).toContain('söker en junior utvecklare');
+      expect(job.descriptionFormatted).toContain('<h2>Requirements</h2>');
+    });
+
+    it('uses the configured default company when the page names none', () => {
+      const html = fixture('academic-work-job.html').replace(/<a href="\/se\/foretag\/techbolaget">.*?<\/a>/, '');
+
+      const job = scraper.extractJob(JOB_URL, { url: JOB_URL }, html);
+
+      expect(job.company.name).toBe('Academic Work');
+    });
+
+    it('fails on a page without a title', () => {
+      const html = fixture('academic-work-job.html').replace(/<h1[\s\S]*?<\/h1>/, '');
+
+      expect(() => scraper.extractJob(JOB_URL, { url: JOB_URL }, html)).toThrow(`No title found for ${JOB_URL}`);
+    });
+  });
+
+  describe('site validation', () => {
+    it('refuses sites it cannot scrape', () => {
+      expect(() => new DeclarativeScraper({ ...academicWorkSite, useHeadlessBrowser: true }))
+        .toThrow('headless browser scraping is not supported');
+      expect(() => new DeclarativeScraper({ ...academicWorkSite, paginationConfig: { type: 'next-link' } }))
+        .toThrow('next-link pagination needs a selector');
+    });
+  });
+});
+
+describe('applySelectorOverrides', () => {
+  it('replaces selectors and keeps the rest of the extraction rules', () => {
+    const site = applySelectorOverrides(academicWorkSite, {
+      'selectors.jobCard': '.job-item',
+      'detailSelectors.deadline': '.deadline span'
+    });
+
+    expect(site.selectors.jobCard).toBe('.job-item');
+    expect(site.detailSelectors?.deadline).toMatchObject({ selector: '.deadline span', parser: 'date', locale: 'en' });
+    expect(academicWorkSite.selectors.jobCard).toBe('.job-card');
+  });
+
+  it('rejects unknown selector keys', () => {
+    expect(() => applySelectorOverrides(academicWorkSite, { 'selectors.salary': '.salary' }))
+      .toThrow('academic-work: unknown selector selectors.salary');
+  });
+});
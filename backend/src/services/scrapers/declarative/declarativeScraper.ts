@@ -0,0 +1,476 @@
+/**
+ * Generic scraper driven entirely by a ScraperSourceConfig record. Job cards
+ * are read from the listing pages, and each job's own page when the config
+ * has detail selectors.
+ */
+import * as cheerio from 'cheerio';
+import * as crypto from 'crypto';
+import { BaseScraper, ScraperConfig } from '../base/baseScraper';
+import { requestDelayToRate } from '../base/requestLimiter';
+import { SelectorTarget } from '../base/selectorRepair';
+import { JobData } from '../types';
+import { ScraperSourceConfig, FieldSelector } from '../../data-collection';
+import { extractFields, ExtractedFields, FieldValue } from './fieldExtractor';
+import { logger } from '../../../utils/logger';
+
+type PaginationConfig = NonNullable<ScraperSourceConfig['paginationConfig']>;
+
+export interface ListingPage {
+  cards: Array<{ url: string; fields: ExtractedFields }>;
+  nextPageUrl?: string;
+}
+
+// Keys of ScraperSourceConfig.selectors that locate cards rather than fields
+const CARD_LOCATORS = ['jobList', 'jobCard'];
+
+export class DeclarativeScraper extends BaseScraper {
+  // Fields read from each job card, by job URL, during the current collection
+  private cards: Map<string, ExtractedFields> = new Map();
+
+  /**
+   * Creates a scraper for a site
+   * @param site Site configuration
+   */
+  constructor(public readonly site: ScraperSourceConfig) {
+    super(toScraperConfig(site));
+    validateSite(site);
+  }
+
+  /**
+   * Reads the job cards and the next page link from a listing page
+   * @param html Listing page HTML
+   * @param pageUrl URL of the page
+   * @returns Job cards and, for next-link pagination, the next page URL
+   */
+  public extractListing(html: string, pageUrl: string): ListingPage {
+    const $ = cheerio.load(html);
+    this.assertReady($, pageUrl);
+
+    const cards: ListingPage['cards'] = [];
+
+    $(this.config.listingSelector).each((_, element) => {
+      const fields = extractFields($, this.site.selectors, pageUrl, $(element), CARD_LOCATORS);
+
+      if (typeof fields.url === 'string') {
+        cards.push({ url: fields.url, fields });
+      }
+    });
+
+    const pagination = this.site.paginationConfig;
+    let nextPageUrl: string | undefined;
+
+    if (pagination?.type === 'next-link' && pagination.selector) {
+      const href = $(pagination.selector).first().attr('href');
+      nextPageUrl = href ? new URL(href, pageUrl).toString() : undefined;
+    }
+
+    return { cards, nextPageUrl };
+  }
+
+  /**
+   * Builds a job from its card and, when configured, its own page
+   * @param url Job URL
+   * @param cardFields Fields read from the job card
+   * @param html Job page HTML, when the site has detail selectors
+   * @returns Job data
+   */
+  public extractJob(url: string, cardFields: ExtractedFields, html?: string): JobData {
+    const startTime = Date.now();
+    let fields = cardFields;
+
+    if (html !== undefined && this.site.detailSelectors) {
+      const $ = cheerio.load(html);
+      fields = { ...cardFields, ...extractFields($, this.site.detailSelectors, url) };
+    }
+
+    return this.toJobData(url, fields, Date.now() - startTime);
+  }
+
+  /**
+   * Collects job URLs from the listing pages, keeping each card's fields
+   * @returns List of job URLs
+   */
+  protected async collectJobUrls(): Promise<string[]> {
+    this.cards.clear();
+
+    const pagination: PaginationConfig = this.site.paginationConfig || { type: 'none' };
+    const maxPages = pagination.maxPages || 5;
+    let pageUrl: string | undefined = this.site.targetUrl;
+
+    for (let page = 1; pageUrl && page <= maxPages; page++) {
+      let listing: ListingPage;
+
+      try {
+        const response = await this.client.get(pageUrl);
+        listing = this.extractListing(response.data, pageUrl);
+      } catch (error) {
+        // Without the first page there is nothing to collect
+        if (page === 1) {
+          throw error;
+        }
+
+        logger.error(`Failed to extract job URLs from page ${page} for ${this.config.name}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        break;
+      }
+
+      const newCards = listing.cards.filter(card => !this.cards.has(card.url));
+      newCards.forEach(card => this.cards.set(card.url, card.fields));
+
+      // Past the last page, or a site that keeps serving its last page
+      if (newCards.length === 0) {
+        break;
+      }
+
+      pageUrl = this.getPageUrl(pagination, page + 1, listing.nextPageUrl);
+
+      // Add a small delay between page requests
+      if (pageUrl) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+
+    return [...this.cards.keys()];
+  }
+
+  /**
+   * Extracts job data for a collected job URL
+   * @param url Job URL
+   * @returns Job data
+   */
+  protected async extractJobData(url: string): Promise<JobData> {
+    const cardFields = this.cards.get(url) || {};
+
+    if (!this.site.detailSelectors) {
+      return this.extractJob(url, cardFields);
+    }
+
+    const response = await this.client.get(url);
+
+    return this.extractJob(url, cardFields, response.data);
+  }
+
+  /**
+   * Lists the listing page selectors under their site config keys, so
+   * accepted replacements can be applied with applySelectorOverrides
+   * @returns Selector targets
+   */
+  protected getSelectorTargets(): SelectorTarget[] {
+    const { jobList, jobCard } = this.site.selectors;
+    const targets: SelectorTarget[] = [
+      { key: 'selectors.jobList', selector: jobList },
+      { key: 'selectors.jobCard', selector: jobCard, scope: jobList }
+    ];
+
+    for (const [field, selector] of Object.entries(this.site.selectors)) {
+      const cssSelector = selectorOf(selector);
+
+      if (cssSelector && !CARD_LOCATORS.includes(field)) {
+        targets.push({ key: `selectors.${field}`, selector: cssSelector, scope: this.config.listingSelector });
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Gets the URL of a listing page
+   * @param pagination Pagination configuration
+   * @param page Page to get, 1-based
+   * @param nextPageUrl Next page link found on the previous page
+   * @returns Page URL, or undefined when there are no more pages
+   */
+  private getPageUrl(pagination: PaginationConfig, page: number, nextPageUrl?: string): string | undefined {
+    const pageNumber = (pagination.firstPage ?? 1) + page - 1;
+    const offset = (page - 1) * (pagination.pageSize || 20);
+
+    switch (pagination.type) {
+      case 'param': {
+        const url = new URL(this.site.targetUrl);
+        url.searchParams.set(pagination.paramName || 'page', String(pageNumber));
+        return url.toString();
+      }
+      case 'offset': {
+        const url = new URL(this.site.targetUrl);
+        url.searchParams.set(pagination.paramName || 'offset', String(offset));
+        return url.toString();
+      }
+      case 'url':
+        return new URL(
+          pagination.urlPattern!
+            .replace('{page}', String(pageNumber))
+            .replace('{offset}', String(offset)),
+          this.site.targetUrl
+        ).toString();
+      case 'next-link':
+        return nextPageUrl;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Checks that the page has rendered the content we wait for
+   * @param $ Loaded page
+   * @param pageUrl URL of the page
+   */
+  private assertReady($: cheerio.CheerioAPI, pageUrl: string): void {
+    if (this.site.waitForSelector && $(this.site.waitForSelector).length === 0) {
+      throw new Error(`Page ${pageUrl} has no element matching ${this.site.waitForSelector}`);
+    }
+  }
+
+  /**
+   * Maps extracted fields to the unified job format
+   * @param url Job URL
+   * @param fields Extracted fields
+   * @param processingTimeMs Time spent extracting
+   * @returns Job data
+   */
+  private toJobData(url: string, fields: ExtractedFields, processingTimeMs: number): JobData {
+    const text = (field: string) => {
+      const value = fields[field];
+      return typeof value === 'string' ? value : undefined;
+    };
+    const date = (field: string) => {
+      const value = fields[field];
+      return value instanceof Date ? value : undefined;
+    };
+    const list = (field: string) => {
+      const value = fields[field];
+      return Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+    };
+
+    const title = text('title');
+    if (!title) {
+      throw new Error(`No title found for ${url}`);
+    }
+
+    const company = text('company');
+    if (!company) {
+      throw new Error(`No company found for ${url}`);
+    }
+
+    return {
+      externalId: text('externalId') || getExternalId(url),
+      source: this.site.id,
+      sourceUrl: url,
+      title,
+      company: {
+        name: company
+      },
+      description: text('description') || '',
+      descriptionFormatted: text('descriptionFormatted'),
+      location: this.toLocation(fields),
+      applicationDetails: {
+        url: text('applicationUrl') || url,
+        email: text('applicationEmail'),
+        deadlineDate: date('deadline')
+      },
+      employmentType: text('employmentType'),
+      workingHoursType: text('workingHoursType'),
+      duration: text('duration'),
+      salary: text('salary'),
+      publicationDate: date('postedDate') || new Date(),
+      expirationDate: date('expiryDate'),
+      skills: [
+        ...list('skills').map(name => ({ name, required: true })),
+        ...list('preferredSkills').map(name => ({ name, required: false }))
+      ],
+      educationRequirements: [],
+      languages: list('languages').map(name => ({ name, required: false })),
+      metadata: {
+        originalUrl: url,
+        ...getExtraFields(fields)
+      },
+      collectingMetadata: {
+        collectedAt: new Date(),
+        processingTimeMs,
+        sourceVersion: '1.0',
+        validationIssues: []
+      }
+    };
+  }
+
+  /**
+   * Builds the location from city/municipality/region fields, or from a
+   * combined "City, Region" location field
+   * @param fields Extracted fields
+   * @returns Location
+   */
+  private toLocation(fields: ExtractedFields): JobData['location'] {
+    const text = (field: string) => (typeof fields[field] === 'string' ? fields[field] as string : undefined);
+
+    if (text('city') || text('municipality') || text('region')) {
+      return {
+        city: text('city'),
+        municipality: text('municipality'),
+        region: text('region')
+      };
+    }
+
+    const parts = (text('location') || '').split(',').map(part => part.trim()).filter(Boolean);
+
+    return {
+      city: parts[0],
+      region: parts[1]
+    };
+  }
+}
+
+// Fields mapped onto JobData; anything else is kept in the metadata
+const KNOWN_FIELDS = [
+  'url', 'externalId', 'title', 'company', 'location', 'city', 'municipality', 'region',
+  'description', 'descriptionFormatted', 'applicationUrl', 'applicationEmail', 'deadline',
+  'postedDate', 'expiryDate', 'employmentType', 'workingHoursType', 'duration', 'salary',
+  'skills', 'preferredSkills', 'languages'
+];
+
+/**
+ * Converts a site configuration to the base scraper configuration
+ * @param site Site configuration
+ * @returns Scraper configuration
+ */
+function toScraperConfig(site: ScraperSourceConfig): ScraperConfig {
+  const target = new URL(site.targetUrl);
+  const listingSelector = `${site.selectors.jobList} ${site.selectors.jobCard}`;
+  // Structural change detection looks the fields up on the listing page
+  const cardField = (field: string) => {
+    const selector = selectorOf(site.selectors[field]);
+    return selector ? `${listingSelector} ${selector}` : undefined;
+  };
+
+  return {
+    id: site.id,
+    name: site.name,
+    type: 'scraper',
+    enabled: site.isEnabled,
+    schedule: {
+      frequency: 'daily',
+      cron: site.scheduleExpression
+    },
+    priority: site.priority,
+    maxConcurrentRequests: site.concurrencyLimit,
+    rateLimitPerMinute: requestDelayToRate(site.requestDelay),
+    retryConfig: {
+      maxRetries: 3,
+      initialDelay: 2000,
+      backoffFactor: 2
+    },
+    baseUrl: target.origin,
+    listingPath: `${target.pathname}${target.search}`,
+    listingSelector,
+    detailLinkSelector: selectorOf(site.selectors.url)!,
+    fieldsMap: {
+      title: cardField('title') || listingSelector,
+      company: cardField('company'),
+      location: cardField('location'),
+      description: cardField('description')
+    },
+    requestHeaders: site.sourceSpecificConfig.requestHeaders
+  };
+}
+
+/**
+ * Replaces selectors of a site configuration, keeping the rest of each
+ * field's extraction rules
+ * @param site Site configuration
+ * @param overrides Selectors by config key, e.g. selectors.jobCard
+ * @returns Site configuration with the selectors replaced
+ */
+export function applySelectorOverrides(
+  site: ScraperSourceConfig,
+  overrides: Record<string, string>
+): ScraperSourceConfig {
+  const selectors = { ...site.selectors };
+  const detailSelectors = site.detailSelectors ? { ...site.detailSelectors } : undefined;
+
+  for (const [key, value] of Object.entries(overrides)) {
+    const [group, field] = key.split('.');
+    const fields: Record<string, FieldSelector | undefined> | undefined =
+      group === 'selectors' ? selectors : group === 'detailSelectors' ? detailSelectors : undefined;
+    const current = fields?.[field];
+
+    if (!fields || current === undefined) {
+      throw new Error(`${site.id}: unknown selector ${key}`);
+    }
+
+    fields[field] = typeof current === 'string' ? value : { ...current, selector: value };
+  }
+
+  return { ...site, selectors, detailSelectors };
+}
+
+/**
+ * Checks that a site configuration can be run by the declarative scraper
+ * @param site Site configuration
+ */
+function validateSite(site: ScraperSourceConfig): void {
+  const pagination = site.paginationConfig;
+
+  if (site.useHeadlessBrowser) {
+    throw new Error(`${site.id}: headless browser scraping is not supported`);
+  }
+  if (pagination && (pagination.type === 'click' || pagination.type === 'scroll')) {
+    throw new Error(`${site.id}: ${pagination.type} pagination needs a headless browser`);
+  }
+  if (pagination?.type === 'url' && !pagination.urlPattern) {
+    throw new Error(`${site.id}: url pagination needs a urlPattern`);
+  }
+  if (pagination?.type === 'next-link' && !pagination.selector) {
+    throw new Error(`${site.id}: next-link pagination needs a selector`);
+  }
+  if (!site.selectors.title && !site.detailSelectors?.title) {
+    throw new Error(`${site.id}: no title selector`);
+  }
+
+  // Fail on start-up rather than on every job
+  for (const selector of [...Object.values(site.selectors), ...Object.values(site.detailSelectors || {})]) {
+    if (selector && typeof selector !== 'string' && selector.regex) {
+      try {
+        new RegExp(selector.regex);
+      } catch (error) {
+        throw new Error(`${site.id}: invalid regex ${selector.regex}`);
+      }
+    }
+  }
+}
+
+/**
+ * Gets the CSS selector of a field
+ * @param selector Field selector
+ * @returns CSS selector, or undefined when the field has none
+ */
+function selectorOf(selector?: FieldSelector): string | undefined {
+  return selector === undefined ? undefined : typeof selector === 'string' ? selector : selector.selector;
+}
+
+/**
+ * Derives a stable external ID from a job URL: its last path segment, or a
+ * hash of the URL when the path has none
+ * @param url Job URL
+ * @returns External ID
+ */
+function getExternalId(url: string): string {
+  const segments = new URL(url).pathname.split('/').filter(Boolean);
+
+  return segments[segments.length - 1] || crypto.createHash('sha1').update(url).digest('hex');
+}
+
+/**
+ * Gets the fields that have no JobData counterpart
+ * @param fields Extracted fields
+ * @returns Unknown fields, with dates as ISO strings
+ */
+function getExtraFields(fields: ExtractedFields): Record<string, Exclude<FieldValue, Date>> {
+  const extra: Record<string, Exclude<FieldValue, Date>> = {};
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (!KNOWN_FIELDS.includes(field)) {
+      extra[field] = value instanceof Date ? value.toISOString() : value;
+    }
+  }
+
+  return extra;
+}
@@ -0,0 +1,101 @@
+import * as cheerio from 'cheerio';
+import { extractField, extractFields, parseDate, toExtraction } from './fieldExtractor';
+
+const PAGE_URL = 'https://jobs.example.se/lediga-jobb';
+
+describe('parseDate', () => {
+  const now = new Date(2025, 2, 15, 12, 0);
+
+  it('reads ISO dates', () => {
+    expect(parseDate('2025-04-01', 'sv', now)).toEqual(new Date(2025, 3, 1));
+  });
+
+  it('reads Swedish and English month names', () => {
+    expect(parseDate('15 mars 2025', 'sv', now)).toEqual(new Date(2025, 2, 15));
+    expect(parseDate('March 31, 2025', 'en', now)).toEqual(new Date(2025, 2, 31));
+  });
+
+  it('reads numeric dates as day/month in Swedish and month/day in English', () => {
+    expect(parseDate('3/4/2025', 'sv', now)).toEqual(new Date(2025, 3, 3));
+    expect(parseDate('3/4/2025', 'en', now)).toEqual(new Date(2025, 2, 4));
+  });
+
+  it('reads relative dates', () => {
+    expect(parseDate('idag', 'sv', now)).toEqual(new Date(2025, 2, 15));
+    expect(parseDate('igår', 'sv', now)).toEqual(new Date(2025, 2, 14));
+    expect(parseDate('för 3 dagar sedan', 'sv', now)).toEqual(new Date(2025, 2, 12, 12, 0));
+  });
+
+  it('puts dates without a year within two months back and ten months ahead', () => {
+    expect(parseDate('15 dec', 'sv', new Date(2025, 0, 10))).toEqual(new Date(2024, 11, 15));
+    expect(parseDate('15 jan', 'sv', new Date(2025, 10, 10))).toEqual(new Date(2026, 0, 15));
+  });
+
+  it('returns undefined for text that is not a date', () => {
+    expect(parseDate('Snarast', 'sv', now)).toBeUndefined();
+    expect(parseDate('', 'sv', now)).toBeUndefined();
+  });
+});
+
+describe('extractField', () => {
+  const $ = cheerio.load(`
+    <div class="job">
+      <h2 class="title">  Lagerarbetare
+        sommar 2025 </h2>
+      <a class="apply" href="/ansok/42">Ansök</a>
+      <a class="contact" href="mailto:jobb@example.se?subject=Ansökan">Mejla oss</a>
+      <p class="deadline">Sista ansökningsdag: 2025-05-01</p>
+      <ul class="skills"><li>Truckkort</li><li>B-körkort</li></ul>
+    </div>
+  `);
+
+  it('reads the text with whitespace collapsed', () => {
+    expect(extractField($, { selector: '.title' }, PAGE_URL)).toBe('Lagerarbetare sommar 2025');
+  });
+
+  it('resolves links against the page URL', () => {
+    expect(extractField($, toExtraction('applicationUrl', '.apply'), PAGE_URL)).toBe('https://jobs.example.se/ansok/42');
+  });
+
+  it('reads email addresses from mailto links', () => {
+    const extraction = toExtraction('applicationEmail', { selector: '.contact', attribute: 'href' });
+
+    expect(extractField($, extraction, PAGE_URL)).toBe('jobb@example.se');
+  });
+
+  it('keeps the first capture group of the regex and parses it', () => {
+    const extraction = toExtraction('deadline', { selector: '.deadline', regex: 'ansökningsdag:\\s*(.*)' });
+
+    expect(extractField($, extraction, PAGE_URL)).toEqual(new Date(2025, 4, 1));
+  });
+
+  it('collects every match of multiple fields', () => {
+    expect(extractField($, toExtraction('skills', '.skills li'), PAGE_URL)).toEqual(['Truckkort', 'B-körkort']);
+  });
+
+  it('falls back to the default when nothing matches', () => {
+    expect(extractField($, { selector: '.company', default: 'Bemanningsbolaget' }, PAGE_URL)).toBe('Bemanningsbolaget');
+    expect(extractField($, { selector: '.company' }, PAGE_URL)).toBeUndefined();
+  });
+});
+
+describe('extractFields', () => {
+  it('reads fields relative to a root element and leaves out skipped keys and misses', () => {
+    const $ = cheerio.load(`
+      <ul>
+        <li class="card"><a href="/jobb/1">Första</a></li>
+        <li class="card"><a href="/jobb/2">Andra</a></li>
+      </ul>
+    `);
+
+    const fields = extractFields(
+      $,
+      { jobCard: '.card', url: 'a', title: 'a', company: '.company' },
+      PAGE_URL,
+      $('.card').eq(1),
+      ['jobCard']
+    );
+
+    expect(fields).toEqual({ url: 'https://jobs.example.se/jobb/2', title: 'Andra' });
+  });
+});
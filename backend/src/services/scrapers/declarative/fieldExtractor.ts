@@ -0,0 +1,294 @@
+/**
+ * Reads fields from scraped pages as described by FieldSelectors
+ */
+import * as cheerio from 'cheerio';
+import { FieldExtraction, FieldSelector } from '../../data-collection';
+
+export type FieldValue = string | string[] | Date | undefined;
+
+export type ExtractedFields = Record<string, FieldValue>;
+
+// Defaults for known fields, so that plain selectors do the expected thing
+const FIELD_DEFAULTS: Record<string, Partial<FieldExtraction>> = {
+  url: { attribute: 'href', parser: 'url' },
+  applicationUrl: { attribute: 'href', parser: 'url' },
+  applicationEmail: { parser: 'email' },
+  descriptionFormatted: { html: true },
+  postedDate: { parser: 'date' },
+  deadline: { parser: 'date' },
+  expiryDate: { parser: 'date' },
+  skills: { multiple: true },
+  preferredSkills: { multiple: true },
+  languages: { multiple: true }
+};
+
+const MONTHS: Record<string, number> = {
+  januari: 0, january: 0, jan: 0,
+  februari: 1, february: 1, feb: 1,
+  mars: 2, march: 2, mar: 2,
+  april: 3, apr: 3,
+  maj: 4, may: 4,
+  juni: 5, june: 5, jun: 5,
+  juli: 6, july: 6, jul: 6,
+  augusti: 7, august: 7, aug: 7,
+  september: 8, sept: 8, sep: 8,
+  oktober: 9, october: 9, okt: 9, oct: 9,
+  november: 10, nov: 10,
+  december: 11, dec: 11
+};
+
+const RELATIVE_UNITS_MS: Record<string, number> = {
+  minut: 60 * 1000, minuter: 60 * 1000, minute: 60 * 1000, minutes: 60 * 1000,
+  timme: 60 * 60 * 1000, timmar: 60 * 60 * 1000, hour: 60 * 60 * 1000, hours: 60 * 60 * 1000,
+  dag: 24 * 60 * 60 * 1000, dagar: 24 * 60 * 60 * 1000, day: 24 * 60 * 60 * 1000, days: 24 * 60 * 60 * 1000,
+  vecka: 7 * 24 * 60 * 60 * 1000, veckor: 7 * 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000, weeks: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Normalizes a field selector to a full extraction with the field's defaults
+ * @param field Field name
+ * @param selector Field selector
+ * @returns Field extraction
+ */
+export function toExtraction(field: string, selector: FieldSelector): FieldExtraction {
+  const extraction = typeof selector === 'string' ? { selector } : selector;
+
+  return { ...FIELD_DEFAULTS[field], ...extraction };
+}
+
+/**
+ * Reads all configured fields
+ * @param $ Loaded page
+ * @param selectors Field selectors by field name
+ * @param pageUrl URL of the page, for resolving relative links
+ * @param root Element the selectors are relative to, e.g. a job card
+ * @param skip Keys that are not fields
+ * @returns Field values; fields that matched nothing are left out
+ */
+export function extractFields(
+  $: cheerio.CheerioAPI,
+  selectors: Record<string, FieldSelector | undefined>,
+  pageUrl: string,
+  root?: cheerio.Cheerio<any>,
+  skip: string[] = []
+): ExtractedFields {
+  const fields: ExtractedFields = {};
+
+  for (const [field, selector] of Object.entries(selectors)) {
+    if (!selector || skip.includes(field)) {
+      continue;
+    }
+
+    const value = extractField($, toExtraction(field, selector), pageUrl, root);
+    if (value !== undefined) {
+      fields[field] = value;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Reads one field
+ * @param $ Loaded page
+ * @param extraction How to read the field
+ * @param pageUrl URL of the page, for resolving relative links
+ * @param root Element the selector is relative to
+ * @returns Field value, a list for multiple fields, or undefined
+ */
+export function extractField(
+  $: cheerio.CheerioAPI,
+  extraction: FieldExtraction,
+  pageUrl: string,
+  root?: cheerio.Cheerio<any>
+): FieldValue {
+  const matches = root ? root.find(extraction.selector) : $(extraction.selector);
+  const elements = extraction.multiple ? matches.toArray() : matches.first().toArray();
+
+  const values: Array<string | Date> = [];
+
+  for (const element of elements) {
+    const raw = readElement($(element), extraction);
+    const value = raw !== undefined ? parseValue(applyRegex(raw, extraction.regex), extraction, pageUrl) : undefined;
+
+    if (value !== undefined) {
+      values.push(value);
+    }
+  }
+
+  if (extraction.multiple) {
+    return values.length > 0 ? values.map(value => String(value)) : undefined;
+  }
+
+  if (values.length > 0) {
+    return values[0];
+  }
+
+  return extraction.default !== undefined
+    ? parseValue(extraction.default, extraction, pageUrl)
+    : undefined;
+}
+
+/**
+ * Parses a date as written on Swedish or English job sites, e.g.
+ * "2025-03-15", "15 mars 2025", "15/3", "idag", "igår" or "för 3 dagar sedan"
+ * @param text Date text
+ * @param locale Language of the text; decides whether 3/4 is day/month
+ * @param now Reference time for relative dates
+ * @returns Date, or undefined when the text is not a recognizable date
+ */
+export function parseDate(text: string, locale: 'sv' | 'en' = 'sv', now: Date = new Date()): Date | undefined {
+  const value = text.trim().toLowerCase();
+  if (!value) {
+    return undefined;
+  }
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const daysFromToday = (days: number) => new Date(today.getTime() + days * 24 * 60 * 60 * 1000);
+
+  if (/^(idag|i dag|today)\b/.test(value)) {
+    return today;
+  }
+  if (/^(igår|i går|yesterday)\b/.test(value)) {
+    return daysFromToday(-1);
+  }
+  if (/^(imorgon|i morgon|tomorrow)\b/.test(value)) {
+    return daysFromToday(1);
+  }
+
+  // "för 3 dagar sedan", "3 days ago"
+  const relative = value.match(/(\d+)\s+([a-zåäö]+)\s+(sedan|ago)/);
+  if (relative && RELATIVE_UNITS_MS[relative[2]]) {
+    return new Date(now.getTime() - parseInt(relative[1]) * RELATIVE_UNITS_MS[relative[2]]);
+  }
+
+  // ISO dates, with or without time
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    const date = new Date(value.length > 10 ? text.trim() : `${iso[0]}T00:00:00`);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  // "15 mars 2025", "15 mar", "march 15, 2025"
+  const dayMonth = value.match(/(\d{1,2})\.?\s+([a-zåäö]+)\.?(?:\s+(\d{4}))?/);
+  const monthDay = value.match(/([a-zåäö]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?(?:\s+(\d{4}))?/);
+  const named = dayMonth && MONTHS[dayMonth[2]] !== undefined
+    ? { day: dayMonth[1], month: MONTHS[dayMonth[2]], year: dayMonth[3] }
+    : monthDay && MONTHS[monthDay[1]] !== undefined
+      ? { day: monthDay[2], month: MONTHS[monthDay[1]], year: monthDay[3] }
+      : null;
+  if (named) {
+    return buildDate(named.year, named.month, parseInt(named.day), today);
+  }
+
+  // "15/3/2025" is day/month in Swedish and month/day in English
+  const numeric = value.match(/^(\d{1,2})[/.](\d{1,2})(?:[/.](\d{2,4}))?$/);
+  if (numeric) {
+    const [first, second] = [parseInt(numeric[1]), parseInt(numeric[2])];
+    const [day, month] = locale === 'sv' ? [first, second] : [second, first];
+    const year = numeric[3] && numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3];
+    return buildDate(year, month - 1, day, today);
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the raw value of an element
+ * @param element Matched element
+ * @param extraction How to read the field
+ * @returns Trimmed value, or undefined when empty
+ */
+function readElement(element: cheerio.Cheerio<any>, extraction: FieldExtraction): string | undefined {
+  const value = extraction.attribute
+    ? element.attr(extraction.attribute)
+    : extraction.html
+      ? element.html()
+      : element.text().replace(/\s+/g, ' ');
+
+  const trimmed = value?.trim();
+
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Applies the field's regex
+ * @param value Raw value
+ * @param regex Pattern, or undefined to keep the value as is
+ * @returns First capture group, the whole match, or undefined when it does not match
+ */
+function applyRegex(value: string, regex?: string): string | undefined {
+  if (!regex) {
+    return value;
+  }
+
+  const match = value.match(new RegExp(regex, 'i'));
+  if (!match) {
+    return undefined;
+  }
+
+  return (match[1] ?? match[0]).trim() || undefined;
+}
+
+/**
+ * Converts a value with the field's parser
+ * @param value Value after the regex
+ * @param extraction How to read the field
+ * @param pageUrl URL of the page, for resolving relative links
+ * @returns Parsed value, or undefined when it cannot be parsed
+ */
+function parseValue(value: string | undefined, extraction: FieldExtraction, pageUrl: string): string | Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  switch (extraction.parser) {
+    case 'date':
+      return parseDate(value, extraction.locale);
+    case 'url':
+      try {
+        return new URL(value, pageUrl).toString();
+      } catch {
+        return undefined;
+      }
+    case 'email': {
+      const email = value.replace(/^mailto:/i, '').split('?')[0].trim();
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : undefined;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Builds a date from its parts. Dates without a year are assumed to fall
+ * between two months ago and ten months ahead, which suits both deadlines
+ * and recent publication dates.
+ * @param year Year, if given
+ * @param month Month, 0-based
+ * @param day Day of month
+ * @param today Start of today
+ * @returns Date, or undefined when the parts are out of range
+ */
+function buildDate(year: string | undefined, month: number, day: number, today: Date): Date | undefined {
+  if (month < 0 || month > 11 || day < 1 || day > 31) {
+    return undefined;
+  }
+
+  if (year) {
+    return new Date(parseInt(year), month, day);
+  }
+
+  const date = new Date(today.getFullYear(), month, day);
+  const twoMonthsAgo = new Date(today.getFullYear(), today.getMonth() - 2, today.getDate());
+
+  // "15 dec" read in January is last December, "15 jan" read in November is next January
+  if (date < twoMonthsAgo) {
+    date.setFullYear(date.getFullYear() + 1);
+  } else if (date.getTime() - today.getTime() > 10 * 31 * 24 * 60 * 60 * 1000) {
+    date.setFullYear(date.getFullYear() - 1);
+  }
+
+  return date;
+}
@@ -29,6 +29,8 @@ export function jobtechToJobData(ad: JobTechAd): JobData {
       city: ad.workplace_address?.city,
       municipality: ad.workplace_address?.municipality,
       region: ad.workplace_address?.region,
+      municipalityConceptId: ad.workplace_address?.municipality_concept_id,
+      regionConceptId: ad.workplace_address?.region_concept_id,
       country: ad.workplace_address?.country,
       address: ad.workplace_address?.street_address,
       postalCode: ad.workplace_address?.postcode,
@@ -112,14 +114,18 @@ export function jobtechToJobData(ad: JobTechAd): JobData {
 }
 
 /**
- * Maps JobTech taxonomy items to name-required pairs
+ * Maps JobTech taxonomy items to names with their concept IDs
  * @param items Taxonomy items
  * @param required Whether the items are required
  * @returns Name-required pairs
  */
-function mapTaxonomyItems(items: JobTechTaxonomyItem[], required: boolean): Array<{ name: string, required: boolean }> {
+function mapTaxonomyItems(
+  items: JobTechTaxonomyItem[],
+  required: boolean
+): Array<{ name: string, conceptId: string, required: boolean }> {
   return items.map(item => ({
     name: item.label,
+    conceptId: item.concept_id,
     required,
   }));
 }
@@ -130,9 +136,13 @@ function mapTaxonomyItems(items: JobTechTaxonomyItem[], required: boolean): Arra
  * @param required Whether the languages are required
  * @returns Formatted language items
  */
-function mapLanguageItems(items: JobTechLanguageItem[], required: boolean): Array<{ name: string, level?: string, required: boolean }> {
+function mapLanguageItems(
+  items: JobTechLanguageItem[],
+  required: boolean
+): Array<{ name: string, conceptId: string, level?: string, required: boolean }> {
   return items.map(item => ({
     name: item.label,
+    conceptId: item.concept_id,
     level: item.language_level?.label,
     required,
   }));
@@ -0,0 +1,99 @@
+import { Readable } from 'stream';
+import { InternalAxiosRequestConfig } from 'axios';
+import { jobtechService } from './jobtechService';
+import { JobTechAd } from './jobtechTypes';
+import { checkpointStore } from '../../collection/checkpointStore';
+import { taxonomyService } from '../../taxonomy/taxonomyService';
+
+jest.mock('../../collection/checkpointStore', () => ({
+  checkpointStore: { get: jest.fn(), save: jest.fn() }
+}));
+
+jest.mock('../../taxonomy/taxonomyService', () => ({
+  taxonomyService: {
+    findConceptIdsByLegacyIds: jest.fn(),
+    sync: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+const IT_FIELD = 'apaJ_2ja_LuF';
+const TRANSPORT_FIELD = 'ASGV_zcE_bWf';
+
+const ad = (id: string, occupationField: string, overrides: Partial<JobTechAd> = {}): JobTechAd => ({
+  id,
+  headline: 'Junior utvecklare',
+  description: { text: 'Vi söker en junior utvecklare som vill jobba extra under studietiden.' },
+  employer: { name: 'Techbolaget AB' },
+  publication_date: '2025-03-01T08:00:00',
+  last_publication_date: '2025-04-01T23:59:59',
+  workplace_address: { municipality: 'Uppsala' },
+  occupation_field: { concept_id: occupationField, label: 'Yrkesområde' },
+  ...overrides
+});
+
+const requests: InternalAxiosRequestConfig[] = [];
+
+// Serves the ads as a streamed JSON array, in small chunks
+const serve = (body: string) => {
+  jobtechService['streamClient'].defaults.adapter = async config => {
+    requests.push(config);
+    const chunks = body.match(/[\s\S]{1,64}/g) || [];
+    return { data: Readable.from(chunks), status: 200, statusText: 'OK', headers: {}, config };
+  };
+};
+
+describe('JobTechService stream collection', () => {
+  beforeEach(() => {
+    requests.length = 0;
+    jest.mocked(taxonomyService.findConceptIdsByLegacyIds).mockResolvedValue([IT_FIELD]);
+  });
+
+  it('keeps only student occupation fields from the snapshot and lists their IDs for removals', async () => {
+    jest.mocked(checkpointStore.get).mockResolvedValue(null);
+    serve(JSON.stringify([ad('1001', IT_FIELD), ad('1002', TRANSPORT_FIELD), ad('1003', IT_FIELD)]));
+
+    const result = await jobtechService.collectIncremental();
+
+    expect(requests[0].url).toBe('/snapshot');
+    expect(requests[0].params).toEqual({ 'occupation-concept-id': [IT_FIELD] });
+    expect(result.jobsCollected).toBe(3);
+    expect(result.jobs.map(job => job.externalId)).toEqual(['1001', '1003']);
+    expect(result.snapshotExternalIds).toEqual(['1001', '1003']);
+    expect(result.checkpoint).toBeDefined();
+  });
+
+  it('fetches changes since the checkpoint, with removed ads', async () => {
+    jest.mocked(checkpointStore.get).mockResolvedValue('2025-03-02T12:00:00.000Z');
+    serve(JSON.stringify([ad('1001', IT_FIELD), { id: '0999', removed: true }]));
+
+    const result = await jobtechService.collectIncremental();
+
+    expect(requests[0].url).toBe('/stream');
+    expect(requests[0].params).toMatchObject({ date: '2025-03-02T11:55:00', 'occupation-concept-id': [IT_FIELD] });
+    expect(result.jobs.map(job => job.externalId)).toEqual(['1001']);
+    expect(result.removedExternalIds).toEqual(['0999']);
+    expect(result.snapshotExternalIds).toBeUndefined();
+  });
+
+  it('fails the run when the response is cut off', async () => {
+    jest.mocked(checkpointStore.get).mockResolvedValue(null);
+    serve(JSON.stringify([ad('1001', IT_FIELD), ad('1002', IT_FIELD)]).slice(0, -40));
+
+    const result = await jobtechService.collectIncremental();
+
+    expect(result.status).toBe('failure');
+    expect(result.jobs).toEqual([]);
+    expect(result.errors[0].code).toBe('jobtech_stream_error');
+  });
+
+  it('syncs an empty taxonomy mirror before collecting', async () => {
+    jest.mocked(checkpointStore.get).mockResolvedValue(null);
+    jest.mocked(taxonomyService.findConceptIdsByLegacyIds).mockResolvedValueOnce([]).mockResolvedValueOnce([IT_FIELD]);
+    serve('[]');
+
+    await jobtechService.collectIncremental();
+
+    expect(taxonomyService.sync).toHaveBeenCalled();
+    expect(requests[0].params).toEqual({ 'occupation-concept-id': [IT_FIELD] });
+  });
+});
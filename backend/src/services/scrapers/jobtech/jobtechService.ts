@@ -0,0 +1,545 @@
+/**
+ * JobTech API service for fetching job listings
+ */
+import axios, { AxiosInstance } from 'axios';
+import { pipeline, Readable } from 'stream';
+import { parser } from 'stream-json';
+import { streamArray } from 'stream-json/streamers/StreamArray';
+import { JobTechSearchParams, JobTechSearchResponse, JobTechAd } from './jobtechTypes';
+import { ErrorDetails, CollectionResult, ChangeDetectionResult, JobData, SourceAdapter } from '../types';
+import { jobTechConfig } from '../config/sourceConfigs';
+import { logger } from '../../../utils/logger';
+import { jobtechToJobData } from './jobtechMapper';
+import { checkpointStore } from '../../collection/checkpointStore';
+import { requestLimiter } from '../base/requestLimiter';
+import { taxonomyService } from '../../taxonomy/taxonomyService';
+import NodeCache from 'node-cache';
+
+// Legacy taxonomy IDs of occupation fields popular with students,
+// resolved to concept IDs through the taxonomy mirror
+const STUDENT_OCCUPATION_FIELD_LEGACY_IDS = [
+  '3',  // Data/IT
+  '5',  // Education
+  '9',  // Natural sciences/Research
+  '11', // Economics/Administration
+  '12', // Healthcare
+  '18', // Technology/Engineering
+  '22'  // Culture/Media/Design
+];
+
+export class JobTechService implements SourceAdapter {
+  public readonly config = jobTechConfig;
+  private apiClient: AxiosInstance;
+  private streamClient: AxiosInstance;
+  private cache: NodeCache;
+
+  constructor() {
+    // Initialize axios client with base configuration
+    this.apiClient = axios.create({
+      baseURL: process.env.JOBTECH_API_URL || 'https://jobsearch.api.jobtechdev.se',
+      timeout: parseInt(process.env.JOBTECH_REQUEST_TIMEOUT_MS || '30000'),
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Student-Jobs-Platform/1.0 (https://studentjobsplatform.com; admin@studentjobsplatform.com)'
+      }
+    });
+
+    // The stream API serves snapshots of every published ad, so it gets a longer timeout.
+    // Filters are repeated query parameters, without brackets.
+    this.streamClient = axios.create({
+      baseURL: process.env.JOBTECH_STREAM_URL || 'https://jobstream.api.jobtechdev.se',
+      timeout: parseInt(process.env.JOBTECH_STREAM_TIMEOUT_MS || '300000'),
+      paramsSerializer: { indexes: null },
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Student-Jobs-Platform/1.0 (https://studentjobsplatform.com; admin@studentjobsplatform.com)'
+      }
+    });
+
+    // Rate limiting and retries are shared with the other sources and follow jobTechConfig
+    for (const client of [this.apiClient, this.streamClient]) {
+      requestLimiter.apply(client, jobTechConfig);
+    }
+
+    // Initialize cache
+    const cacheTTL = parseInt(process.env.JOBTECH_API_CACHE_MINUTES || '15') * 60; // Convert to seconds
+    this.cache = new NodeCache({ stdTTL: cacheTTL, checkperiod: 120 });
+    
+    logger.info('JobTech API service initialized');
+  }
+
+  /**
+   * Initializes the source; the API client is ready once constructed
+   */
+  public async initialize(): Promise<void> {
+    const reachable = await this.testConnection();
+    if (!reachable) {
+      logger.warn('JobTech API is not reachable, collection will be retried on schedule');
+    }
+  }
+
+  /**
+   * Tests if the JobTech API can be reached
+   * @returns True if a minimal search succeeds
+   */
+  public async testConnection(): Promise<boolean> {
+    try {
+      await this.apiClient.get('/search', { params: { limit: 0 } });
+      return true;
+    } catch (error) {
+      logger.error('JobTech API connection test failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Collects jobs. In stream mode (the default) the first run loads the full
+   * snapshot and later runs fetch the changes since the checkpoint; search
+   * mode runs a capped keyword search for student-relevant jobs.
+   * @param signal Cancels the API requests when aborted
+   * @returns Collection result
+   */
+  public async collect(signal?: AbortSignal): Promise<CollectionResult> {
+    if ((process.env.JOBTECH_COLLECTION_MODE || 'stream') === 'search') {
+      return this.collectJobs(true, signal);
+    }
+
+    return this.collectIncremental(signal);
+  }
+
+  /**
+   * Saves the stream checkpoint once the pipeline has stored the jobs
+   * @param checkpoint Stream timestamp
+   */
+  public async commitCheckpoint(checkpoint: string): Promise<void> {
+    await checkpointStore.save(this.config.id, checkpoint);
+  }
+
+  /**
+   * Collects from the stream API: a full snapshot when there is no
+   * checkpoint, otherwise the ads changed since the checkpoint. Only ads in
+   * the occupation fields popular with students are kept, and the response
+   * is parsed one ad at a time instead of being buffered whole.
+   * @param signal Cancels the API requests when aborted
+   * @returns Collection result with removed ads and the next checkpoint
+   */
+  public async collectIncremental(signal?: AbortSignal): Promise<CollectionResult> {
+    const startTime = Date.now();
+    const errors: ErrorDetails[] = [];
+    const checkpoint = await checkpointStore.get(this.config.id);
+
+    // Ads published in the last moments may not be visible yet; leave them for the next run
+    const until = new Date(Date.now() - 60 * 1000);
+
+    try {
+      const occupationFields = await this.getStudentOccupationFields();
+      const filter = { 'occupation-concept-id': occupationFields };
+      let ads: AsyncGenerator<JobTechAd>;
+
+      if (checkpoint) {
+        // Overlap the previous window a little; storing an ad twice is harmless
+        const overlapMinutes = parseInt(process.env.JOBTECH_STREAM_OVERLAP_MINUTES || '5');
+        const since = new Date(new Date(checkpoint).getTime() - overlapMinutes * 60 * 1000);
+
+        logger.info('Fetching JobTech stream changes', { since, until });
+        ads = this.streamAds('/stream', {
+          date: this.formatStreamDate(since),
+          'updated-before-date': this.formatStreamDate(until),
+          ...filter
+        }, signal);
+      } else {
+        logger.info('No JobTech checkpoint, loading full snapshot');
+        ads = this.streamAds('/snapshot', filter, signal);
+      }
+
+      const studentOccupationFields = new Set(occupationFields);
+      const jobs: JobData[] = [];
+      const removedExternalIds: string[] = [];
+      const liveExternalIds: string[] = [];
+      let jobsCollected = 0;
+
+      for await (const ad of ads) {
+        jobsCollected++;
+
+        if (ad.removed) {
+          removedExternalIds.push(ad.id);
+          continue;
+        }
+
+        // Filtered here as well, so that only student-relevant ads are stored whatever the API applies
+        if (!ad.occupation_field || !studentOccupationFields.has(ad.occupation_field.concept_id)) {
+          continue;
+        }
+        liveExternalIds.push(ad.id);
+
+        try {
+          jobs.push(jobtechToJobData(ad));
+        } catch (error) {
+          const errorDetail: ErrorDetails = {
+            code: 'jobtech_job_processing_error',
+            message: `Failed to process job: ${error instanceof Error ? error.message : String(error)}`,
+            timestamp: new Date(),
+            severity: 'error',
+            context: { jobId: ad.id }
+          };
+          errors.push(errorDetail);
+          logger.error('Error processing JobTech job', errorDetail);
+        }
+      }
+
+      logger.info('JobTech stream collection complete', {
+        mode: checkpoint ? 'stream' : 'snapshot',
+        ads: jobsCollected,
+        jobs: jobs.length,
+        removed: removedExternalIds.length
+      });
+
+      return {
+        sourceId: this.config.id,
+        timestamp: new Date(),
+        status: errors.length === 0 ? 'success' : (jobs.length > 0 ? 'partial' : 'failure'),
+        jobsCollected,
+        jobsProcessed: jobs.length,
+        jobsStored: 0, // Updated by the collection pipeline once the jobs are stored
+        validationFailures: 0,
+        durationMs: Date.now() - startTime,
+        errors,
+        jobs,
+        removedExternalIds,
+        // Stored ads that have left the student occupation fields are expired with the removed ones
+        snapshotExternalIds: checkpoint ? undefined : liveExternalIds,
+        checkpoint: until.toISOString()
+      };
+    } catch (error) {
+      const errorDetail: ErrorDetails = {
+        code: 'jobtech_stream_error',
+        message: `Failed to collect jobs from the JobTech stream: ${error instanceof Error ? error.message : String(error)}`,
+        timestamp: new Date(),
+        severity: 'critical',
+        context: { checkpoint }
+      };
+      errors.push(errorDetail);
+      logger.error('Critical error in JobTech stream collection', errorDetail);
+
+      return {
+        sourceId: this.config.id,
+        timestamp: new Date(),
+        status: 'failure',
+        jobsCollected: 0,
+        jobsProcessed: 0,
+        jobsStored: 0,
+        validationFailures: 0,
+        durationMs: Date.now() - startTime,
+        errors,
+        jobs: []
+      };
+    }
+  }
+
+  /**
+   * The API has a versioned schema, so there is no page structure to track
+   * @returns Unchanged result
+   */
+  public async detectStructuralChanges(): Promise<ChangeDetectionResult> {
+    return {
+      sourceId: this.config.id,
+      timestamp: new Date(),
+      status: 'unchanged',
+      changes: [],
+      canAdaptAutomatically: true
+    };
+  }
+
+  /**
+   * Search for jobs using the JobTech API
+   * @param params Search parameters
+   * @param signal Cancels the request when aborted
+   * @returns Search response
+   */
+  public async searchJobs(params: JobTechSearchParams, signal?: AbortSignal): Promise<JobTechSearchResponse> {
+    // Ensure limit is set
+    const searchParams = {
+      ...params,
+      limit: params.limit || parseInt(process.env.JOBTECH_SEARCH_DEFAULT_LIMIT || '20')
+    };
+    
+    const cacheKey = `search_${JSON.stringify(searchParams)}`;
+    
+    // Check cache first
+    const cachedResult = this.cache.get<JobTechSearchResponse>(cacheKey);
+    if (cachedResult) {
+      logger.debug('Returning cached JobTech search results', { params: searchParams });
+      return cachedResult;
+    }
+    
+    try {
+      logger.debug('Searching jobs via JobTech API', { params: searchParams });
+      const response = await this.apiClient.get('/search', { params: searchParams, signal });
+      
+      // Cache the result
+      this.cache.set(cacheKey, response.data);
+      
+      return response.data;
+    } catch (error) {
+      logger.error('Error searching jobs via JobTech API', {
+        error: error instanceof Error ? error.message : String(error),
+        params: searchParams
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a specific job by ID
+   * @param id Job ID
+   * @returns Job data
+   */
+  public async getJob(id: string): Promise<JobTechAd> {
+    const cacheKey = `job_${id}`;
+    
+    // Check cache first
+    const cachedResult = this.cache.get<JobTechAd>(cacheKey);
+    if (cachedResult) {
+      logger.debug('Returning cached JobTech job details', { id });
+      return cachedResult;
+    }
+    
+    try {
+      logger.debug('Fetching job details from JobTech API', { id });
+      const response = await this.apiClient.get(`/ad/${id}`);
+      
+      // Cache the result
+      this.cache.set(cacheKey, response.data);
+      
+      return response.data;
+    } catch (error) {
+      logger.error('Error fetching job details from JobTech API', {
+        error: error instanceof Error ? error.message : String(error),
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Collect jobs from JobTech API
+   * @param studentRelevantOnly Only collect jobs relevant for students
+   * @param signal Cancels the API requests when aborted
+   * @returns Collection result
+   */
+  public async collectJobs(studentRelevantOnly: boolean = true, signal?: AbortSignal): Promise<CollectionResult> {
+    const startTime = Date.now();
+    const errors: ErrorDetails[] = [];
+    const allJobs: JobTechAd[] = [];
+    let jobsCollected = 0;
+    
+    logger.info('Starting JobTech API collection', { studentRelevantOnly });
+    
+    try {
+      // Prepare search parameters optimized for student-relevant jobs
+      const searchParams = await this.getStudentJobsSearchParams(studentRelevantOnly);
+      const limit = searchParams.limit!; // We know limit is defined from getStudentJobsSearchParams
+      
+      // Execute initial search
+      const initialSearch = await this.searchJobs(searchParams, signal);
+      const totalJobs = initialSearch.total.value;
+      const totalPages = Math.ceil(totalJobs / limit);
+      
+      logger.info('JobTech API initial search complete', { 
+        totalJobs, 
+        totalPages,
+        searchParams 
+      });
+      
+      // Add first page results to collection
+      allJobs.push(...initialSearch.hits);
+      jobsCollected += initialSearch.hits.length;
+      
+      // Process remaining pages (up to a reasonable limit)
+      const maxPages = Math.min(totalPages, 50); // Limit to 50 pages to avoid excessive API calls
+      
+      for (let page = 1; page < maxPages && !signal?.aborted; page++) {
+        try {
+          const pageParams = { ...searchParams, offset: page * limit };
+          const pageResults = await this.searchJobs(pageParams, signal);
+          
+          allJobs.push(...pageResults.hits);
+          jobsCollected += pageResults.hits.length;
+          
+          logger.debug(`Collected page ${page + 1} of ${maxPages}`, { 
+            pageJobCount: pageResults.hits.length,
+            totalCollected: jobsCollected 
+          });
+          
+          // Introduce a small delay to be nice to the API
+          await new Promise(resolve => setTimeout(resolve, 500));
+        } catch (error) {
+          const errorDetail: ErrorDetails = {
+            code: 'jobtech_page_fetch_error',
+            message: `Failed to fetch page ${page + 1}: ${error instanceof Error ? error.message : String(error)}`,
+            timestamp: new Date(),
+            severity: 'error',
+            context: { page }
+          };
+          errors.push(errorDetail);
+          logger.error('Error fetching JobTech API page', errorDetail);
+        }
+      }
+      
+      // Map all collected jobs; validation happens in the collection pipeline
+      logger.info('Processing collected JobTech jobs', { count: allJobs.length });
+      
+      const processedJobs: JobData[] = [];
+      
+      for (const job of allJobs) {
+        try {
+          // Transform JobTech data to our unified format
+          processedJobs.push(jobtechToJobData(job));
+        } catch (error) {
+          const errorDetail: ErrorDetails = {
+            code: 'jobtech_job_processing_error',
+            message: `Failed to process job: ${error instanceof Error ? error.message : String(error)}`,
+            timestamp: new Date(),
+            severity: 'error',
+            context: { jobId: job.id }
+          };
+          errors.push(errorDetail);
+          logger.error('Error processing JobTech job', errorDetail);
+        }
+      }
+      
+      const status = errors.length === 0 ? 'success' : (processedJobs.length > 0 ? 'partial' : 'failure');
+      
+      return {
+        sourceId: jobTechConfig.id,
+        timestamp: new Date(),
+        status,
+        jobsCollected,
+        jobsProcessed: processedJobs.length,
+        jobsStored: 0, // Updated by the collection pipeline once the jobs are stored
+        validationFailures: 0,
+        durationMs: Date.now() - startTime,
+        errors,
+        jobs: processedJobs
+      };
+    } catch (error) {
+      const errorDetail: ErrorDetails = {
+        code: 'jobtech_collection_error',
+        message: `Failed to collect jobs from JobTech API: ${error instanceof Error ? error.message : String(error)}`,
+        timestamp: new Date(),
+        severity: 'critical',
+        context: {}
+      };
+      errors.push(errorDetail);
+      logger.error('Critical error in JobTech API collection', errorDetail);
+      
+      return {
+        sourceId: jobTechConfig.id,
+        timestamp: new Date(),
+        status: 'failure',
+        jobsCollected,
+        jobsProcessed: 0,
+        jobsStored: 0,
+        validationFailures: 0,
+        durationMs: Date.now() - startTime,
+        errors,
+        jobs: []
+      };
+    }
+  }
+
+  /**
+   * Get search parameters optimized for student-relevant jobs
+   * @param studentRelevantOnly Only include student-relevant filters if true
+   * @returns JobTech search parameters with a guaranteed limit value
+   */
+  private async getStudentJobsSearchParams(
+    studentRelevantOnly: boolean
+  ): Promise<Required<Pick<JobTechSearchParams, 'limit'>> & JobTechSearchParams> {
+    const params: JobTechSearchParams = {
+      limit: parseInt(process.env.JOBTECH_SEARCH_DEFAULT_LIMIT || '20'),
+      offset: 0,
+      sort: 'pubdate-desc'
+    };
+    
+    if (studentRelevantOnly) {
+      // Add filters to target student-friendly jobs
+      params.q = 'student praktik trainee extrajobb deltid'; // Keywords for student jobs
+      params.experience = false; // No experience required
+      params['worktime-extent'] = ['PART_TIME']; // Part-time jobs
+      
+      // Include occupation fields popular with students
+      const occupationFields = await taxonomyService.findConceptIdsByLegacyIds(
+        'occupation-field',
+        STUDENT_OCCUPATION_FIELD_LEGACY_IDS
+      );
+
+      if (occupationFields.length > 0) {
+        params['occupation-field'] = occupationFields;
+      } else {
+        logger.warn('Taxonomy mirror has no occupation fields yet, searching without occupation field filter');
+      }
+    }
+    
+    return params as Required<Pick<JobTechSearchParams, 'limit'>> & JobTechSearchParams;
+  }
+
+  /**
+   * Gets the concept IDs of the occupation fields popular with students,
+   * syncing the taxonomy mirror first if it is still empty
+   * @returns Occupation field concept IDs
+   */
+  private async getStudentOccupationFields(): Promise<string[]> {
+    const find = () => taxonomyService.findConceptIdsByLegacyIds('occupation-field', STUDENT_OCCUPATION_FIELD_LEGACY_IDS);
+    let occupationFields = await find();
+
+    if (occupationFields.length === 0) {
+      logger.info('Taxonomy mirror has no occupation fields yet, syncing it before collecting');
+      await taxonomyService.sync();
+      occupationFields = await find();
+    }
+
+    if (occupationFields.length === 0) {
+      throw new Error('Taxonomy mirror has no student occupation fields');
+    }
+
+    return occupationFields;
+  }
+
+  /**
+   * Reads the ads of a stream API response one at a time, so that a
+   * snapshot of every published ad is never held in memory as a whole
+   * @param path Stream API path
+   * @param params Query parameters
+   * @param signal Cancels the request when aborted
+   * @returns Ads in the order of the response
+   */
+  private async *streamAds(
+    path: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal
+  ): AsyncGenerator<JobTechAd> {
+    const response = await this.streamClient.get<Readable>(path, { params, responseType: 'stream', signal });
+    // pipeline fails the parsed stream when the connection drops mid-snapshot
+    const ads = pipeline(response.data, parser(), streamArray(), () => undefined);
+
+    for await (const { value } of ads) {
+      yield value as JobTechAd;
+    }
+  }
+
+  /**
+   * Formats a date the way the stream API expects it (UTC, no milliseconds)
+   * @param date Date
+   * @returns Date string such as 2025-03-01T12:00:00
+   */
+  private formatStreamDate(date: Date): string {
+    return date.toISOString().slice(0, 19);
+  }
+}
+
+// Create and export a singleton instance
+const jobtechService = new JobTechService();
+export { jobtechService };
\ No newline at end of file
@@ -48,7 +48,9 @@ export interface JobTechAd {
   salary_description?: string;
   workplace_address?: {
     municipality?: string;
+    municipality_concept_id?: string;
     region?: string;
+    region_concept_id?: string;
     country?: string;
     street_address?: string;
     postcode?: string;
@@ -57,6 +59,7 @@ export interface JobTechAd {
   };
   experience_required?: boolean;
   access?: string;
+  removed?: boolean; // Set on stream events for ads that were taken down
   removed_date?: string;
   source_type?: string;
   scope_of_work?: string;
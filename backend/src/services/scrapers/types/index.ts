@@ -12,6 +12,7 @@ export interface SourceConfig {
       frequency: 'hourly' | 'daily' | 'weekly';
       cron?: string; // Custom cron expression if needed
     };
+    priority?: number; // higher runs first when collecting from all sources
     maxConcurrentRequests: number;
     rateLimitPerMinute: number;
     retryConfig: {
@@ -27,11 +28,15 @@ export interface SourceConfig {
     
     // Core methods
     initialize(): Promise<void>;
-    collect(): Promise<CollectionResult>;
+    // Aborting the signal cancels the source's requests in flight
+    collect(signal?: AbortSignal): Promise<CollectionResult>;
     testConnection(): Promise<boolean>;
     
     // Change detection related
     detectStructuralChanges(): Promise<ChangeDetectionResult>;
+    
+    // Incremental sources save CollectionResult.checkpoint once the jobs are stored
+    commitCheckpoint?(checkpoint: string): Promise<void>;
   }
   
   // Job data interface - unified format for all sources
@@ -53,6 +58,9 @@ export interface SourceConfig {
       city?: string;
       municipality?: string;
       region?: string;
+      municipalityConceptId?: string; // JobTech taxonomy concept IDs
+      regionConceptId?: string;
+      country?: string;
       address?: string;
       postalCode?: string;
       coordinates?: [number, number]; // [lat, long]
@@ -85,14 +93,17 @@ export interface SourceConfig {
     };
     skills: Array<{
       name: string;
+      conceptId?: string;
       required: boolean;
     }>;
     educationRequirements: Array<{
       name: string;
+      conceptId?: string;
       required: boolean;
     }>;
     languages: Array<{
       name: string;
+      conceptId?: string;
       level?: string;
       required: boolean;
     }>;
@@ -122,12 +133,30 @@ export interface SourceConfig {
     jobsCollected: number;
     jobsProcessed: number;
     jobsStored: number;
+    jobsCreated?: number; // jobs that were new, set once stored
     validationFailures: number;
+    duplicatesRemoved?: number; // dropped by the deduplicator
+    jobsRemoved?: number; // stored jobs marked as removed at the source
+    removedExternalIds?: string[]; // ads the source reported as removed
+    snapshotExternalIds?: string[]; // set by a full snapshot: every live ad in it, including those that failed to map
+    checkpoint?: string; // where the next incremental run resumes
+    crawlPolicy?: CrawlPolicyRecord[]; // robots.txt decisions, per host, for scrapers
     durationMs: number;
     errors: ErrorDetails[];
     jobs: JobData[];
   }
   
+  // Crawl policy applied to one host during a collection
+  export interface CrawlPolicyRecord {
+    host: string;
+    robotsTxt: 'fetched' | 'missing' | 'unavailable';
+    robotsCheckedAt: Date;
+    crawlDelayMs: number;
+    requestsAllowed: number;
+    requestsRefused: number;
+    refusedUrls: string[]; // the first refused URLs
+  }
+  
   // Error details interface
   export interface ErrorDetails {
     code: string;
@@ -144,6 +173,8 @@ export interface SourceConfig {
     status: 'unchanged' | 'minor_changes' | 'major_changes' | 'error';
     changes: StructuralChange[];
     canAdaptAutomatically: boolean;
+    suggestions?: SelectorSuggestion[]; // candidate replacements for broken selectors
+    snapshot?: string; // page the changes were detected on
   }
   
   // Structural change interface
@@ -154,4 +185,16 @@ export interface SourceConfig {
     currentValue?: string;
     impact: 'low' | 'medium' | 'high';
     message: string;
+  }
+  
+  // Selector repair suggestion interface
+  export interface SelectorSuggestion {
+    key: string; // config path of the selector, e.g. selectors.jobCard
+    selector: string; // the broken selector
+    candidates: Array<{
+      selector: string;
+      score: number; // 0-1, how closely the matches resemble what the old selector matched
+      matches: number;
+      samples: string[]; // text of the first matches
+    }>;
   }
\ No newline at end of file
@@ -0,0 +1,227 @@
+/**
+ * Keeps a local mirror of the JobTech taxonomy and links our skills,
+ * languages, education areas and locations to its concept IDs
+ */
+import axios, { AxiosInstance } from 'axios';
+import { prisma } from '../database/db.service';
+import { logger } from '../../utils/logger';
+
+interface TaxonomyApiConcept {
+  id: string;
+  type: string;
+  preferred_label: string;
+  deprecated_legacy_id?: string | null;
+  deprecated?: boolean;
+  broader?: Array<{ id: string; type: string }>;
+}
+
+export interface TaxonomySyncResult {
+  conceptsSynced: number;
+  conceptsDeprecated: number;
+  entitiesLinked: number;
+}
+
+// Concept types we mirror, parents first, with the type of their parent concept
+const CONCEPT_TYPES: Array<{ type: string; parentType?: string }> = [
+  { type: 'occupation-field' },
+  { type: 'ssyk-level-4', parentType: 'occupation-field' },
+  { type: 'occupation-name', parentType: 'ssyk-level-4' },
+  { type: 'skill-headline' },
+  { type: 'skill', parentType: 'skill-headline' },
+  { type: 'language' },
+  { type: 'region' },
+  { type: 'municipality', parentType: 'region' },
+  { type: 'sun-education-field-1' },
+  { type: 'sun-education-field-2', parentType: 'sun-education-field-1' },
+  { type: 'sun-education-field-3', parentType: 'sun-education-field-2' }
+];
+
+const EDUCATION_FIELD_TYPES = ['sun-education-field-1', 'sun-education-field-2', 'sun-education-field-3'];
+
+const UPSERT_CHUNK_SIZE = 1000;
+
+class TaxonomyService {
+  private client: AxiosInstance;
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: process.env.JOBTECH_TAXONOMY_URL || 'https://taxonomy.api.jobtechdev.se/v1/taxonomy',
+      timeout: parseInt(process.env.JOBTECH_REQUEST_TIMEOUT_MS || '30000'),
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Student-Jobs-Platform/1.0 (https://studentjobsplatform.com; admin@studentjobsplatform.com)'
+      }
+    });
+  }
+
+  /**
+   * Refreshes the mirror from the taxonomy API and links entities to it
+   * @returns Number of concepts synced and deprecated, and entities linked
+   */
+  public async sync(): Promise<TaxonomySyncResult> {
+    const result: TaxonomySyncResult = { conceptsSynced: 0, conceptsDeprecated: 0, entitiesLinked: 0 };
+
+    for (const { type, parentType } of CONCEPT_TYPES) {
+      const concepts = await this.fetchConcepts(type);
+
+      // An empty answer is more likely an API problem than an emptied taxonomy
+      if (concepts.length === 0) {
+        logger.warn(`Taxonomy API returned no concepts of type ${type}, keeping the mirror as is`);
+        continue;
+      }
+
+      await this.upsertConcepts(concepts, parentType);
+      result.conceptsSynced += concepts.length;
+      result.conceptsDeprecated += await this.deprecateMissing(type, concepts.map(concept => concept.id));
+    }
+
+    result.entitiesLinked = await this.linkEntities();
+
+    logger.info('Taxonomy sync complete', { ...result });
+
+    return result;
+  }
+
+  /**
+   * Resolves legacy taxonomy IDs to concept IDs
+   * @param type Concept type
+   * @param legacyIds Legacy IDs
+   * @returns Concept IDs of the legacy IDs found in the mirror
+   */
+  public async findConceptIdsByLegacyIds(type: string, legacyIds: string[]): Promise<string[]> {
+    const concepts = await prisma.taxonomyConcept.findMany({
+      where: { type, legacyId: { in: legacyIds }, deprecated: false },
+      select: { id: true }
+    });
+
+    return concepts.map(concept => concept.id);
+  }
+
+  /**
+   * Links skills, languages, education areas and locations that have no
+   * concept ID yet to the concept with the same label
+   * @returns Number of rows linked
+   */
+  public async linkEntities(): Promise<number> {
+    const skills = await prisma.$executeRaw`
+      UPDATE skills SET "conceptId" = c.id
+      FROM taxonomy_concepts c
+      WHERE skills."conceptId" IS NULL
+        AND c.type = 'skill' AND NOT c.deprecated
+        AND lower(c.label) = lower(skills.name)
+    `;
+
+    const languages = await prisma.$executeRaw`
+      UPDATE languages SET "conceptId" = c.id
+      FROM taxonomy_concepts c
+      WHERE languages."conceptId" IS NULL
+        AND c.type = 'language' AND NOT c.deprecated
+        AND lower(c.label) = lower(languages.name)
+    `;
+
+    const educationAreas = await prisma.$executeRaw`
+      UPDATE education_areas SET "conceptId" = c.id
+      FROM taxonomy_concepts c
+      WHERE education_areas."conceptId" IS NULL
+        AND c.type = ANY(${EDUCATION_FIELD_TYPES}::text[]) AND NOT c.deprecated
+        AND lower(c.label) = lower(education_areas.name)
+    `;
+
+    const municipalities = await prisma.$executeRaw`
+      UPDATE locations SET "municipalityConceptId" = c.id
+      FROM taxonomy_concepts c
+      WHERE locations."municipalityConceptId" IS NULL
+        AND c.type = 'municipality' AND NOT c.deprecated
+        AND lower(c.label) = lower(locations.municipality)
+    `;
+
+    const regions = await prisma.$executeRaw`
+      UPDATE locations SET "regionConceptId" = c.id
+      FROM taxonomy_concepts c
+      WHERE locations."regionConceptId" IS NULL
+        AND c.type = 'region' AND NOT c.deprecated
+        AND lower(c.label) = lower(locations.region)
+    `;
+
+    return skills + languages + educationAreas + municipalities + regions;
+  }
+
+  /**
+   * Fetches all concepts of a type, deprecated ones included
+   * @param type Concept type
+   * @returns Concepts
+   */
+  private async fetchConcepts(type: string): Promise<TaxonomyApiConcept[]> {
+    const query = `{
+      concepts(type: "${type}", include_deprecated: true) {
+        id type preferred_label deprecated_legacy_id deprecated broader { id type }
+      }
+    }`;
+
+    const response = await this.client.get<{ data?: { concepts?: TaxonomyApiConcept[] } }>('/graphql', {
+      params: { query }
+    });
+
+    return response.data.data?.concepts || [];
+  }
+
+  /**
+   * Inserts or updates concepts in chunks
+   * @param concepts Concepts of one type
+   * @param parentType Type of their parent concept
+   */
+  private async upsertConcepts(concepts: TaxonomyApiConcept[], parentType?: string): Promise<void> {
+    for (let i = 0; i < concepts.length; i += UPSERT_CHUNK_SIZE) {
+      const chunk = concepts.slice(i, i + UPSERT_CHUNK_SIZE);
+
+      const ids = chunk.map(concept => concept.id);
+      const types = chunk.map(concept => concept.type);
+      const labels = chunk.map(concept => concept.preferred_label);
+      const legacyIds = chunk.map(concept => concept.deprecated_legacy_id || null);
+      const parentIds = chunk.map(concept =>
+        parentType ? concept.broader?.find(broader => broader.type === parentType)?.id || null : null
+      );
+      const deprecated = chunk.map(concept => concept.deprecated === true);
+
+      await prisma.$executeRaw`
+        INSERT INTO taxonomy_concepts (id, type, label, "legacyId", "parentId", deprecated, "updatedAt")
+        SELECT *, now()
+        FROM unnest(
+          ${ids}::text[], ${types}::text[], ${labels}::text[],
+          ${legacyIds}::text[], ${parentIds}::text[], ${deprecated}::boolean[]
+        )
+        ON CONFLICT (id) DO UPDATE
+        SET type = EXCLUDED.type,
+            label = EXCLUDED.label,
+            "legacyId" = EXCLUDED."legacyId",
+            "parentId" = EXCLUDED."parentId",
+            deprecated = EXCLUDED.deprecated,
+            "updatedAt" = now()
+      `;
+    }
+  }
+
+  /**
+   * Marks concepts that are no longer served by the API as deprecated
+   * @param type Concept type
+   * @param ids IDs returned by the API
+   * @returns Number of concepts deprecated
+   */
+  private async deprecateMissing(type: string, ids: string[]): Promise<number> {
+    // Passed as one array parameter; a skill list exceeds Postgres' bind parameter limit
+    const count = await prisma.$executeRaw`
+      UPDATE taxonomy_concepts
+      SET deprecated = true, "updatedAt" = now()
+      WHERE type = ${type} AND NOT deprecated AND NOT (id = ANY(${ids}::text[]))
+    `;
+
+    if (count > 0) {
+      logger.info(`Deprecated ${count} ${type} concepts no longer in the taxonomy`);
+    }
+
+    return count;
+  }
+}
+
+// Create and export a singleton instance
+export const taxonomyService = new TaxonomyService();
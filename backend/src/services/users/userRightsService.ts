@@ -60,10 +60,66 @@ export class UserRightsService {
         }
       });
 
+      // Hämta ansökningar separat, både de studenten följer i ansökningsspåraren
+      // och de som skickats till arbetsgivare via plattformen
+      const trackedApplications = await prisma.trackedApplication.findMany({
+        where: { userId: Number(userId) },
+        select: {
+          stage: true,
+          appliedAt: true,
+          interviewAt: true,
+          notes: true,
+          remindAt: true,
+          createdAt: true,
+          job: {
+            select: {
+              id: true,
+              title: true
+            }
+          },
+          stageChanges: {
+            select: {
+              fromStage: true,
+              toStage: true,
+              changedAt: true
+            },
+            orderBy: {
+              changedAt: 'asc'
+            }
+          }
+        },
+        orderBy: {
+          appliedAt: 'desc'
+        }
+      });
+
+      const sentApplications = await prisma.jobApplication.findMany({
+        where: { userId: Number(userId) },
+        select: {
+          message: true,
+          cvUrl: true,
+          status: true,
+          createdAt: true,
+          posting: {
+            select: {
+              title: true,
+              jobId: true
+            }
+          }
+        },
+        orderBy: {
+          createdAt: 'desc'
+        }
+      });
+
       // Kombinera all data för export
       return {
         userData,
         searchHistory,
+        applications: {
+          tracked: trackedApplications,
+          sent: sentApplications
+        },
         exportDate: new Date(),
         dataFormat: 'JSON'
       };
@@ -107,6 +163,11 @@ export class UserRightsService {
             userId: null // Koppla bort från användaren
           }
         });
+
+        // 4. Ta bort spårade ansökningar, vars anteckningar är personliga
+        await tx.trackedApplication.deleteMany({
+          where: { userId: Number(userId) }
+        });
       });
 
       logger.info('User data anonymized successfully', { userId });
@@ -0,0 +1,19 @@
+/**
+ * Express request types used by the authenticated routes
+ */
+import { Request } from 'express';
+import { Role } from '../services/auth/permissions';
+
+/**
+ * User attached to the request by the authentication middleware
+ */
+export interface AuthUser {
+  id: number;
+  email: string;
+  // Set by the permission middleware
+  roles?: Role[];
+}
+
+export interface AuthenticatedRequest extends Request {
+  user?: AuthUser;
+}
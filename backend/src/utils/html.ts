@@ -0,0 +1,17 @@
+/**
+ * HTML utility functions
+ */
+
+/**
+ * Escapes text for use in HTML
+ * @param value Text
+ * @returns Escaped text
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
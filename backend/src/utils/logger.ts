@@ -6,4 +6,27 @@ export const logger = {
   info: (message: string, ...args: any[]) => console.info(message, ...args),
   warn: (message: string, ...args: any[]) => console.warn(message, ...args),
   error: (message: string, ...args: any[]) => console.error(message, ...args)
-};
\ No newline at end of file
+};
+/**
+ * Logger that prefixes every message with the name of the component
+ * logging it
+ */
+export class Logger {
+  constructor(private readonly context: string) {}
+
+  public debug(message: string, ...args: any[]): void {
+    logger.debug(`[${this.context}] ${message}`, ...args);
+  }
+
+  public info(message: string, ...args: any[]): void {
+    logger.info(`[${this.context}] ${message}`, ...args);
+  }
+
+  public warn(message: string, ...args: any[]): void {
+    logger.warn(`[${this.context}] ${message}`, ...args);
+  }
+
+  public error(message: string, ...args: any[]): void {
+    logger.error(`[${this.context}] ${message}`, ...args);
+  }
+}
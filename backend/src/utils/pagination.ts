@@ -0,0 +1,26 @@
+/**
+ * Pagination utility functions
+ */
+
+/**
+ * Encodes a cursor payload into an opaque, URL-safe string
+ * @param payload Cursor payload
+ * @returns Encoded cursor
+ */
+export function encodeCursor(payload: Record<string, any>): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor created by encodeCursor
+ * @param cursor Encoded cursor
+ * @returns Cursor payload or null if the cursor is malformed
+ */
+export function decodeCursor<T extends Record<string, any>>(cursor: string): T | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return payload && typeof payload === 'object' ? payload as T : null;
+  } catch {
+    return null;
+  }
+}